@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "video_sessions" ADD COLUMN     "platform" TEXT;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "cached_files" ADD COLUMN     "sourceKey" TEXT;
+
+-- AlterTable
+ALTER TABLE "video_sessions" ADD COLUMN     "canonicalKey" TEXT;
+
+-- CreateIndex
+CREATE INDEX "cached_files_sourceKey_idx" ON "cached_files"("sourceKey");
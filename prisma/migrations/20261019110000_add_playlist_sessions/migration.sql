@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "playlist_sessions" (
+    "id" TEXT NOT NULL,
+    "userId" BIGINT NOT NULL,
+    "chatId" BIGINT NOT NULL,
+    "originalUrl" TEXT NOT NULL,
+    "platform" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "entries" JSONB NOT NULL,
+    "selected" JSONB NOT NULL,
+    "page" INTEGER NOT NULL DEFAULT 0,
+    "total" INTEGER NOT NULL DEFAULT 0,
+    "completed" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "progressMsgId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "playlist_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "playlist_sessions_expiresAt_idx" ON "playlist_sessions"("expiresAt");
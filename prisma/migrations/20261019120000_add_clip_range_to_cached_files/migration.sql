@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "cached_files" ADD COLUMN     "clipRange" TEXT;
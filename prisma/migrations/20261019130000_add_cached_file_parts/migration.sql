@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "cached_file_parts" (
+    "id" SERIAL NOT NULL,
+    "cachedFileId" INTEGER NOT NULL,
+    "order" INTEGER NOT NULL,
+    "fileId" TEXT NOT NULL,
+    "archiveMessageId" INTEGER NOT NULL,
+    "size" BIGINT,
+    "duration" INTEGER,
+
+    CONSTRAINT "cached_file_parts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cached_file_parts_cachedFileId_order_key" ON "cached_file_parts"("cachedFileId", "order");
+
+-- AddForeignKey
+ALTER TABLE "cached_file_parts" ADD CONSTRAINT "cached_file_parts_cachedFileId_fkey" FOREIGN KEY ("cachedFileId") REFERENCES "cached_files"("id") ON DELETE CASCADE ON UPDATE CASCADE;
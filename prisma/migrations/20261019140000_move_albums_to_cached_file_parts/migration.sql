@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "cached_file_parts" ADD COLUMN     "mediaType" TEXT NOT NULL DEFAULT 'video';
+
+-- Переносим альбомы с file_id, склеенными через запятую, в таблицу частей.
+-- Элементы каруселей кешировались и по отдельности, поэтому сообщение в
+-- архиве, размер и длительность подтягиваем из их собственных записей.
+INSERT INTO "cached_file_parts" ("cachedFileId", "order", "fileId", "archiveMessageId", "size", "duration", "mediaType")
+SELECT
+    cf."id",
+    part."ord"::INTEGER,
+    part."fileId",
+    COALESCE(single."archiveMessageId", 0),
+    single."fileSize",
+    single."duration",
+    'video'
+FROM "cached_files" cf
+CROSS JOIN LATERAL unnest(string_to_array(cf."fileId", ',')) WITH ORDINALITY AS part("fileId", "ord")
+LEFT JOIN LATERAL (
+    SELECT c2."archiveMessageId", c2."fileSize", c2."duration"
+    FROM "cached_files" c2
+    WHERE c2."fileId" = part."fileId"
+    LIMIT 1
+) single ON TRUE
+WHERE cf."fileId" LIKE '%,%';
+
+-- В самой записи альбома оставляем file_id первого элемента
+UPDATE "cached_files"
+SET "fileId" = split_part("fileId", ',', 1),
+    "fileType" = 'album'
+WHERE "fileId" LIKE '%,%';
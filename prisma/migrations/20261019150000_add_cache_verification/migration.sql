@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "cached_files" ADD COLUMN     "isBroken" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "verifiedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "cached_files_verifiedAt_idx" ON "cached_files"("verifiedAt");
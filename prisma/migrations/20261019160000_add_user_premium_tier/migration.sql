@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "premiumUntil" TIMESTAMP(3),
+ADD COLUMN     "tier" TEXT NOT NULL DEFAULT 'free';
+
+-- CreateIndex
+CREATE INDEX "users_tier_idx" ON "users"("tier");
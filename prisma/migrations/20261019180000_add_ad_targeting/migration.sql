@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "languageCode" TEXT;
+
+-- AlterTable
+ALTER TABLE "advertisements" ADD COLUMN     "audience" TEXT NOT NULL DEFAULT 'all',
+ADD COLUMN     "dailyCap" INTEGER,
+ADD COLUMN     "endsAt" TIMESTAMP(3),
+ADD COLUMN     "language" TEXT,
+ADD COLUMN     "startsAt" TIMESTAMP(3),
+ADD COLUMN     "userCap" INTEGER,
+ADD COLUMN     "userCapHours" INTEGER NOT NULL DEFAULT 24,
+ADD COLUMN     "weight" INTEGER NOT NULL DEFAULT 1;
+
+-- DropIndex
+DROP INDEX "advertisement_views_adId_idx";
+
+-- CreateIndex
+CREATE INDEX "advertisement_views_adId_viewedAt_idx" ON "advertisement_views"("adId", "viewedAt");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "advertisement_views" ADD COLUMN     "clickToken" TEXT,
+ADD COLUMN     "clickedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "advertisement_views_clickToken_key" ON "advertisement_views"("clickToken");
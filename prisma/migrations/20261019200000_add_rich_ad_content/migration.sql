@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "advertisements" ADD COLUMN     "buttons" JSONB,
+ADD COLUMN     "entities" JSONB,
+ADD COLUMN     "media" JSONB;
+
+-- Переносим единственное медиа (раньше всегда отправлялось как фото)
+-- и единственную кнопку в новые поля
+UPDATE "advertisements"
+SET "media" = jsonb_build_array(jsonb_build_object('type', 'photo', 'fileId', "mediaFileId"))
+WHERE "mediaFileId" IS NOT NULL;
+
+UPDATE "advertisements"
+SET "buttons" = jsonb_build_array(jsonb_build_array(jsonb_build_object('text', "buttonText", 'url', "buttonUrl")))
+WHERE "buttonText" IS NOT NULL AND "buttonUrl" IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "advertisements" DROP COLUMN "buttonText",
+DROP COLUMN "buttonUrl",
+DROP COLUMN "mediaFileId";
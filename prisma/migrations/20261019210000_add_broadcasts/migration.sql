@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "isReachable" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "blockedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "broadcasts" (
+    "id" SERIAL NOT NULL,
+    "createdBy" BIGINT NOT NULL,
+    "content" TEXT NOT NULL,
+    "entities" JSONB,
+    "media" JSONB,
+    "buttons" JSONB,
+    "audience" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "total" INTEGER NOT NULL DEFAULT 0,
+    "sent" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "blocked" INTEGER NOT NULL DEFAULT 0,
+    "progressChatId" BIGINT,
+    "progressMsgId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "broadcasts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "broadcasts_status_idx" ON "broadcasts"("status");
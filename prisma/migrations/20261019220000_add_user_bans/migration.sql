@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "banReason" TEXT,
+ADD COLUMN     "bannedAt" TIMESTAMP(3),
+ADD COLUMN     "bannedUntil" TIMESTAMP(3),
+ADD COLUMN     "bannedBy" BIGINT;
+
+-- CreateIndex
+CREATE INDEX "users_isBanned_idx" ON "users"("isBanned");
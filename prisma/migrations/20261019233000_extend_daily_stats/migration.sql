@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "daily_stats" ADD COLUMN     "failedDownloads" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "platforms" JSONB;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "daily_stats" ADD COLUMN     "queuedJobs" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "queueWaitSec" INTEGER NOT NULL DEFAULT 0;
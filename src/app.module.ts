@@ -10,6 +10,7 @@ import { CacheModule } from './modules/cache/cache.module';
 import { DownloaderModule } from './modules/downloader/downloader.module';
 import { SubscriptionModule } from './modules/subscription/subscription.module';
 import { UploaderModule } from './modules/uploader/uploader.module';
+import { QuotaModule } from './modules/quota/quota.module';
 import { BullModule } from '@nestjs/bullmq';
 import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config'; // Добавь ConfigService
@@ -48,6 +49,7 @@ import { NestjsGrammyModule } from '@grammyjs/nestjs'; // 👈 ДОБАВЬ ЭТ
     SubscriptionModule,
     CacheModule,
     UploaderModule,
+    QuotaModule,
     DownloaderModule,
     AdvertisementModule,
     AdminModule,
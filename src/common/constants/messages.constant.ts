@@ -6,7 +6,7 @@ export const MESSAGES = {
 
 Просто отправьте ссылку — и всё готово за несколько секунд! 🚀
 
-📌 Поддерживаемые Платформы (YouTube, Instagram, Facebook)`,
+📌 Поддерживаемые Платформы (YouTube, Instagram, TikTok, Facebook, X, Vimeo, SoundCloud)`,
 
   // Errors
   ERROR_VIDEO_NOT_FOUND: '❌ Видео не найдено, отправь ссылку заново',
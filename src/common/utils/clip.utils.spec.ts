@@ -0,0 +1,78 @@
+// src/common/utils/clip.utils.spec.ts
+
+import {
+  clipKey,
+  formatClipRange,
+  parseClipKey,
+  parseClipRange,
+  parseTimecode,
+} from './clip.utils';
+
+describe('clip.utils', () => {
+  describe('parseTimecode', () => {
+    it.each([
+      ['80', 80],
+      ['01:20', 80],
+      ['1:02:05', 3725],
+      [' 0:05 ', 5],
+      ['0', 0],
+    ])('%s → %i сек', (value, seconds) => {
+      expect(parseTimecode(value)).toBe(seconds);
+    });
+
+    it.each(['', '1:2:3:4', '1:x', '-5', '1.5', '1::2'])(
+      'null для «%s»',
+      (value) => {
+        expect(parseTimecode(value)).toBeNull();
+      },
+    );
+  });
+
+  describe('parseClipRange', () => {
+    it.each([
+      ['01:20-02:05', { start: 80, end: 125 }],
+      ['1:20 – 2:05', { start: 80, end: 125 }],
+      ['80—125', { start: 80, end: 125 }],
+      ['0-1:00:00', { start: 0, end: 3600 }],
+      ['  10 - 20  ', { start: 10, end: 20 }],
+    ])('«%s»', (text, clip) => {
+      expect(parseClipRange(text)).toEqual(clip);
+    });
+
+    it.each([
+      ['конец раньше начала', '02:05-01:20'],
+      ['пустой отрезок', '80-80'],
+      ['одна граница', '01:20'],
+      ['лишний текст', 'с 01:20 до 02:05'],
+      ['неверный таймкод', '1:2:3:4-5'],
+    ])('null: %s', (_, text) => {
+      expect(parseClipRange(text)).toBeNull();
+    });
+  });
+
+  describe('ключ отрезка', () => {
+    it('clipKey и parseClipKey взаимно обратны', () => {
+      const clip = { start: 80, end: 125 };
+
+      expect(clipKey(clip)).toBe('80-125');
+      expect(parseClipKey(clipKey(clip))).toEqual(clip);
+    });
+
+    it.each([undefined, '', '80', '1:20-2:05', '80-125x'])(
+      'parseClipKey(%p) — undefined',
+      (key) => {
+        expect(parseClipKey(key)).toBeUndefined();
+      },
+    );
+  });
+
+  describe('formatClipRange', () => {
+    it('форматирует границы как длительности', () => {
+      expect(formatClipRange({ start: 80, end: 3725 })).toBe('1:20–1:02:05');
+    });
+
+    it('отрезок с начала видео начинается с 0:00', () => {
+      expect(formatClipRange({ start: 0, end: 125 })).toBe('0:00–2:05');
+    });
+  });
+});
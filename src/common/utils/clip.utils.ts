@@ -0,0 +1,61 @@
+import { formatDuration } from './format.utils';
+
+/**
+ * Отрезок видео в секундах (для скачивания фрагмента)
+ */
+export interface ClipRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Разбор таймкода: «80», «01:20», «1:02:05» → секунды
+ */
+export function parseTimecode(value: string): number | null {
+  const parts = value.trim().split(':');
+  if (parts.length > 3 || parts.some((p) => !/^\d+$/.test(p))) {
+    return null;
+  }
+
+  return parts.reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+}
+
+/**
+ * Разбор отрезка от пользователя: «01:20-02:05», «1:20 – 2:05», «80-125»
+ */
+export function parseClipRange(text: string): ClipRange | null {
+  const match = text.trim().match(/^([\d:]+)\s*[-–—]\s*([\d:]+)$/);
+  if (!match) return null;
+
+  const start = parseTimecode(match[1]);
+  const end = parseTimecode(match[2]);
+  if (start === null || end === null || end <= start) return null;
+
+  return { start, end };
+}
+
+/**
+ * Компактный ключ отрезка для callback_data и ключа кеша: «80-125»
+ */
+export function clipKey(clip: ClipRange): string {
+  return `${clip.start}-${clip.end}`;
+}
+
+/**
+ * Обратный разбор ключа «80-125»
+ */
+export function parseClipKey(key: string | undefined): ClipRange | undefined {
+  const match = key?.match(/^(\d+)-(\d+)$/);
+  if (!match) return undefined;
+
+  return { start: parseInt(match[1], 10), end: parseInt(match[2], 10) };
+}
+
+/**
+ * Человекочитаемый отрезок: «1:20–2:05»
+ */
+export function formatClipRange(clip: ClipRange): string {
+  // formatDuration(0) даёт «—», а отрезок с самого начала — это «0:00»
+  const start = clip.start > 0 ? formatDuration(clip.start) : '0:00';
+  return `${start}–${formatDuration(clip.end)}`;
+}
@@ -27,14 +27,18 @@ export function formatFileSize(bytes: number | null): string {
 
 /**
  * Генерация ключа кеша
+ * (фрагмент видео кешируется отдельно от целого файла)
  */
 export function generateCacheKey(
   url: string,
   formatId: string,
   resolution: string,
+  clipRange?: string | null,
 ): string {
+  const base = `${url}|${formatId}|${resolution}`;
+
   return crypto
     .createHash('md5')
-    .update(`${url}|${formatId}|${resolution}`)
+    .update(clipRange ? `${base}|${clipRange}` : base)
     .digest('hex');
 }
@@ -52,4 +52,29 @@ export function formatUploadDate(uploadDate: string | null): string {
   const day = uploadDate.slice(6, 8);
 
   return `${day}.${month}.${year}`;
-}
\ No newline at end of file
+}
+
+/**
+ * Экранирование HTML для parse_mode: 'HTML'
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Оставшееся время (мс → «2 ч 5 мин», «12 мин», «40 сек»)
+ */
+export function formatTimeLeft(ms: number): string {
+  const totalSec = Math.max(1, Math.ceil(ms / 1000));
+  if (totalSec < 60) return `${totalSec} сек`;
+
+  const totalMin = Math.ceil(totalSec / 60);
+  const h = Math.floor(totalMin / 60);
+  const m = totalMin % 60;
+
+  if (h === 0) return `${m} мин`;
+  return m > 0 ? `${h} ч ${m} мин` : `${h} ч`;
+}
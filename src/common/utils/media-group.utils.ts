@@ -0,0 +1,84 @@
+import { Api } from 'grammy';
+
+// Telegram принимает в одном альбоме не больше 10 элементов
+export const MEDIA_GROUP_LIMIT = 10;
+
+// Тип медиа части (CachedFilePart.mediaType)
+export type PartMediaType = 'photo' | 'video' | 'audio';
+
+export interface MediaPart {
+  fileId: string;
+  mediaType: string;
+}
+
+// Сколько частей уже дошло до пользователя: повторная отправка (например,
+// после восстановления file_id) продолжает с первой недоставленной пачки
+export interface SendProgress {
+  sent: number;
+}
+
+/**
+ * Разбиение массива на пачки (по умолчанию — под размер альбома)
+ */
+export function chunk<T>(items: T[], size = MEDIA_GROUP_LIMIT): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * 📦 Отправка частей кеша альбомами по 10
+ * Подпись — у первого элемента. numbered — для частей большого файла
+ * («Часть N/M» у каждой), для каруселей не нужен.
+ */
+export async function sendMediaParts(
+  api: Api,
+  chatId: number,
+  parts: MediaPart[],
+  caption: string,
+  numbered = false,
+  progress: SendProgress = { sent: 0 },
+): Promise<void> {
+  const total = parts.length;
+  const media = parts.map((part, idx) => {
+    const label = numbered ? `📦 Часть ${idx + 1}/${total}` : '';
+    const text =
+      idx === 0 ? [caption, label].filter(Boolean).join('\n\n') : label;
+
+    return {
+      type: part.mediaType as PartMediaType,
+      media: part.fileId,
+      caption: text || undefined,
+    };
+  });
+
+  let offset = 0;
+  for (const group of chunk(media)) {
+    const next = offset + group.length;
+    if (next <= progress.sent) {
+      offset = next;
+      continue;
+    }
+
+    // Альбом из одного элемента Telegram не принимает
+    if (group.length === 1) {
+      const [single] = group;
+      if (single.type === 'photo') {
+        await api.sendPhoto(chatId, single.media, { caption: single.caption });
+      } else if (single.type === 'audio') {
+        await api.sendAudio(chatId, single.media, { caption: single.caption });
+      } else {
+        await api.sendVideo(chatId, single.media, {
+          caption: single.caption,
+          supports_streaming: true,
+        });
+      }
+    } else {
+      await api.sendMediaGroup(chatId, group);
+    }
+
+    progress.sent = offset = next;
+  }
+}
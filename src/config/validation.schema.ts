@@ -13,6 +13,9 @@ export const validationSchema = Joi.object({
   // Channels
   CHANNEL_ID: Joi.string().required(),
 
+  // Admin: владельцы бота, Telegram ID через запятую
+  OWNER_IDS: Joi.string().optional(),
+
   // Database (Supabase PostgreSQL)
   DATABASE_URL: Joi.string().required(),
   DIRECT_URL: Joi.string().optional(), // Для миграций Prisma
@@ -26,6 +29,7 @@ export const validationSchema = Joi.object({
     .valid('development', 'production', 'test')
     .default('development'),
   PORT: Joi.number().default(3000),
+  PUBLIC_URL: Joi.string().uri().optional(), // Внешний адрес HTTP-приложения (трекинг кликов)
 
   // Paths
   YTDLP_PATH: Joi.string().default('yt-dlp'),
@@ -33,4 +37,38 @@ export const validationSchema = Joi.object({
 
   // Queue
   MAX_PARALLEL_DOWNLOADS: Joi.number().default(3),
+  PLAYLIST_MAX_ITEMS: Joi.number().default(50),
+  MAX_UPLOAD_SIZE_MB: Joi.number().default(2000),
+
+  // Cache
+  CACHE_VERIFY_BATCH: Joi.number().default(20),
+
+  // Quotas (0 — без ограничения; меняются в админ-панели)
+  QUOTA_USER_ANALYSES: Joi.number().default(100),
+  QUOTA_USER_DOWNLOADS: Joi.number().default(50),
+  QUOTA_USER_TRAFFIC_MB: Joi.number().default(10240),
+  QUOTA_GROUP_ANALYSES: Joi.number().default(300),
+  QUOTA_GROUP_DOWNLOADS: Joi.number().default(150),
+  QUOTA_GROUP_TRAFFIC_MB: Joi.number().default(30720),
+  QUOTA_BURST_LIMIT: Joi.number().default(5),
+  QUOTA_BURST_WINDOW_SEC: Joi.number().default(60),
+  QUOTA_PREMIUM_MULTIPLIER: Joi.number().default(5),
+
+  // Premium
+  PREMIUM_MAX_RESOLUTION: Joi.number().default(2160),
+  FREE_MAX_FILE_SIZE_MB: Joi.number().default(4000),
+  PREMIUM_MAX_FILE_SIZE_MB: Joi.number().default(8000),
+  PREMIUM_PLAYLIST_MAX_ITEMS: Joi.number().default(200),
+  PREMIUM_STARS_30D: Joi.number().default(100),
+  PREMIUM_STARS_90D: Joi.number().default(250),
+  PREMIUM_STARS_365D: Joi.number().default(800),
+
+  // Broadcasts (Telegram пускает ~30 сообщений в секунду)
+  BROADCAST_RATE_PER_SEC: Joi.number().default(25),
+
+  // Мастера админки: сколько минут ждать ответа на шаге
+  CONVERSATION_TIMEOUT_MIN: Joi.number().default(30),
+
+  // Экспорт: выгрузки больше стольких строк собираются фоновой задачей
+  EXPORT_SYNC_MAX_ROWS: Joi.number().default(5000),
 });
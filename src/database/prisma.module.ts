@@ -1,9 +1,10 @@
 import { Module, Global } from '@nestjs/common';
 import { PrismaService } from './prisma.service';
+import { RedisService } from './redis.service';
 
 @Global()
 @Module({
-  providers: [PrismaService],
-  exports: [PrismaService],
+  providers: [PrismaService, RedisService],
+  exports: [PrismaService, RedisService],
 })
 export class DatabaseModule {}
\ No newline at end of file
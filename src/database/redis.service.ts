@@ -0,0 +1,28 @@
+// src/database/redis.service.ts
+
+import { Injectable, OnModuleDestroy, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+
+/**
+ * Общее подключение к Redis (тот же сервер, что и у BullMQ) для счётчиков,
+ * лимитов и другого быстрого состояния, которому не место в PostgreSQL
+ */
+@Injectable()
+export class RedisService extends Redis implements OnModuleDestroy {
+  private readonly logger = new Logger(RedisService.name);
+
+  constructor(config: ConfigService) {
+    super({
+      host: config.get<string>('REDIS_HOST') || '127.0.0.1',
+      port: config.get<number>('REDIS_PORT') || 6379,
+    });
+
+    this.on('error', (error) => this.logger.warn(`⚠️ Redis: ${error.message}`));
+  }
+
+  async onModuleDestroy() {
+    await this.quit().catch(() => {});
+    this.logger.warn('❌ Redis disconnected');
+  }
+}
@@ -5,9 +5,30 @@ import { UserModule } from '../user/user.module';
 import { AdvertisementModule } from '../advertisement/advertisement.module';
 import { ChannelModule } from '../channel/channel.module';
 import { CacheModule } from '../cache/cache.module';
+import { QuotaModule } from '../quota/quota.module';
+import { PremiumModule } from '../premium/premium.module';
+import { PaymentModule } from '../payment/payment.module';
+import { BroadcastModule } from '../broadcast/broadcast.module';
+import { AuditModule } from '../audit/audit.module';
+import { ConversationModule } from '../conversation/conversation.module';
+import { StatsModule } from '../stats/stats.module';
+import { ExportModule } from '../export/export.module';
 
 @Module({
-  imports: [UserModule, AdvertisementModule, ChannelModule ,CacheModule],
+  imports: [
+    UserModule,
+    AdvertisementModule,
+    ChannelModule,
+    CacheModule,
+    QuotaModule,
+    PremiumModule,
+    PaymentModule,
+    BroadcastModule,
+    AuditModule,
+    ConversationModule,
+    StatsModule,
+    ExportModule,
+  ],
   providers: [AdminService, AdminScene],
   exports: [AdminService, AdminScene],
 })
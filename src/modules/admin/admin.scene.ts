@@ -1,21 +1,56 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { Context, InlineKeyboard } from 'grammy';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Context, InlineKeyboard, InputFile } from 'grammy';
+import type { Message, MessageEntity } from 'grammy/types';
 import { AdvertisementService } from '../advertisement/advertisement.service';
 import { ChannelService } from '../channel/channel.service';
 import { UserService } from '../user/user.service';
-import { CreateAdDto } from '../advertisement/dto/create-ad.dto';
+import { BanService } from '../user/ban.service';
+import { AdAudience, CreateAdDto } from '../advertisement/dto/create-ad.dto';
+import {
+  AdButton,
+  AdContent,
+  AdMedia,
+} from '../advertisement/interfaces/advertisement.interface';
 import { PrismaService } from 'src/database/prisma.service';
 import { CacheService } from '../cache/cache.service';
-
+import { QuotaService } from '../quota/quota.service';
+import { QuotaLimitKey } from '../quota/interfaces/quota.interface';
+import { PremiumService } from '../premium/premium.service';
+import { PaymentService } from '../payment/payment.service';
+import { BroadcastService } from '../broadcast/broadcast.service';
+import { BroadcastAudience } from '../broadcast/interfaces/broadcast.interface';
+import { RoleService } from '../user/role.service';
+import { AdminSection } from '../user/interfaces/role.interface';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/interfaces/audit.interface';
+import { ConversationService } from '../conversation/conversation.service';
+import { StatsService } from '../stats/stats.service';
+import { ChartService } from '../stats/chart.service';
+import { ExportService } from '../export/export.service';
+import {
+  ExportFormat,
+  ExportSource,
+} from '../export/interfaces/export.interface';
+import { ChartMetric, StatsPeriod } from '../stats/interfaces/stats.interface';
+import { escapeHtml, formatTimeLeft } from '../../common/utils/format.utils';
+
+// Черновики мастеров хранятся в Redis (ConversationService) — только JSON
 interface TempAdData {
+  adId?: number; // Редактируем существующее объявление
+  field?: string; // Поле таргетинга, которое сейчас вводят
   content?: string;
-  mediaFileId?: string;
-  mediaType?: 'photo' | 'video';
-  buttonText?: string;
-  buttonUrl?: string;
+  entities?: MessageEntity[];
+  media?: AdMedia[];
+  mediaGroupId?: string; // Альбом приходит пачкой сообщений — отвечаем один раз
+  buttons?: AdButton[][];
   showInterval?: number;
 }
 
+interface TempBroadcastData {
+  content?: AdContent;
+  audience?: BroadcastAudience;
+}
+
 interface TempChannelData {
   channelId?: string;
   channelName?: string;
@@ -23,13 +58,22 @@ interface TempChannelData {
   priority?: number;
 }
 
+interface TempQuotaData {
+  key?: QuotaLimitKey;
+}
+
+interface TempBanData {
+  targetId?: string;
+  duration?: string;
+}
+
+interface TempExportData {
+  source?: ExportSource;
+}
+
 @Injectable()
-export class AdminScene {
+export class AdminScene implements OnModuleInit {
   private readonly logger = new Logger(AdminScene.name);
-  private readonly adminStates = new Map<number, string>();
-  private readonly tempAdData = new Map<number, TempAdData>();
-  private readonly tempChannelData = new Map<number, TempChannelData>();
-  private readonly editAdId = new Map<number, number>();
 
   constructor(
     private advertisementService: AdvertisementService,
@@ -37,10 +81,162 @@ export class AdminScene {
     private userService: UserService,
     private prisma: PrismaService,
     private cacheService: CacheService,
+    private quotaService: QuotaService,
+    private premiumService: PremiumService,
+    private paymentService: PaymentService,
+    private broadcastService: BroadcastService,
+    private banService: BanService,
+    private roleService: RoleService,
+    private auditService: AuditService,
+    private conversations: ConversationService,
+    private statsService: StatsService,
+    private chartService: ChartService,
+    private exportService: ExportService,
   ) {}
 
-  public getState(userId: number): string | undefined {
-    return this.adminStates.get(userId);
+  /**
+   * 💬 Шаги мастеров админки. Имя шага начинается с названия мастера:
+   * по этому префиксу меню выходят из своего диалога.
+   */
+  onModuleInit() {
+    this.conversations.register<TempAdData>({
+      'ad:content': {
+        accepts: ['text'],
+        prompt: (ctx) => this.askAdContent(ctx),
+        handle: (ctx) => this.handleAdContent(ctx),
+      },
+      'ad:media': {
+        accepts: ['media'],
+        prompt: (ctx) => this.askAdMedia(ctx),
+        handle: (ctx, data) => this.handleAdMedia(ctx, data),
+      },
+      'ad:button_choice': {
+        accepts: [],
+        prompt: (ctx) => this.askForButton(ctx),
+      },
+      'ad:buttons': {
+        accepts: ['text'],
+        prompt: (ctx) => this.askAdButtons(ctx),
+        handle: (ctx) => this.handleButtons(ctx),
+      },
+      'ad:interval': {
+        accepts: [],
+        prompt: (ctx) => this.askForInterval(ctx),
+      },
+      'ad:custom_interval': {
+        accepts: ['text'],
+        prompt: (ctx) => this.askCustomInterval(ctx),
+        handle: (ctx, data) => this.handleCustomInterval(ctx, data),
+      },
+      'ad:publish': {
+        accepts: [],
+        prompt: (ctx) => this.showAdPreview(ctx),
+      },
+      'ad_edit:content': {
+        accepts: ['text'],
+        handle: (ctx, data) => this.handleEditContent(ctx, data),
+      },
+      'ad_edit:media': {
+        accepts: ['media'],
+        handle: (ctx, data) => this.handleAdMedia(ctx, data),
+      },
+      'ad_edit:button': {
+        accepts: ['text'],
+        handle: (ctx, data) => this.handleEditButtons(ctx, data),
+      },
+      'ad_edit:custom_interval': {
+        accepts: ['text'],
+        handle: (ctx, data) => this.handleCustomInterval(ctx, data),
+      },
+      'ad_edit:target': {
+        accepts: ['text'],
+        handle: (ctx, data) => this.handleTargetingInput(ctx, data),
+      },
+    });
+
+    this.conversations.register<TempChannelData>({
+      'channel:id': {
+        accepts: ['text'],
+        prompt: (ctx) => this.askChannelId(ctx),
+        handle: (ctx) => this.handleChannelId(ctx),
+      },
+      'channel:name': {
+        accepts: ['text'],
+        prompt: (ctx) => this.askChannelName(ctx),
+        handle: (ctx) => this.handleChannelName(ctx),
+      },
+      'channel:link': {
+        accepts: ['text'],
+        prompt: (ctx) => this.askChannelLink(ctx),
+        handle: (ctx) => this.handleChannelLink(ctx),
+      },
+      'channel:priority': {
+        accepts: [],
+        prompt: (ctx, data) => this.askChannelPriority(ctx, data),
+      },
+    });
+
+    this.conversations.register<TempQuotaData>({
+      'quota:value': {
+        accepts: ['text'],
+        handle: (ctx, data) => this.handleQuotaInput(ctx, data),
+      },
+    });
+
+    this.conversations.register<object>({
+      'premium:user': {
+        accepts: ['text'],
+        handle: (ctx) => this.handlePremiumUserInput(ctx),
+      },
+      'users:search': {
+        accepts: ['text'],
+        handle: (ctx) => this.handleUserSearch(ctx),
+      },
+    });
+
+    this.conversations.register<TempBanData>({
+      'users:ban_reason': {
+        accepts: ['text'],
+        handle: (ctx, data) => this.handleBanReason(ctx, data),
+      },
+    });
+
+    this.conversations.register<TempExportData>({
+      'export:dates': {
+        accepts: ['text'],
+        handle: (ctx, data) => this.handleExportDates(ctx, data),
+      },
+    });
+
+    this.conversations.register<TempBroadcastData>({
+      'broadcast:message': {
+        accepts: ['text', 'media'],
+        prompt: (ctx) => this.askBroadcastMessage(ctx),
+        handle: (ctx) => this.handleBroadcastMessage(ctx),
+      },
+      'broadcast:button_choice': {
+        accepts: [],
+        prompt: (ctx) => this.askBroadcastButtonChoice(ctx),
+      },
+      'broadcast:buttons': {
+        accepts: ['text'],
+        prompt: (ctx) => this.askBroadcastButtons(ctx),
+        handle: (ctx, data) => this.handleBroadcastButtons(ctx, data),
+      },
+      'broadcast:audience': {
+        accepts: [],
+        prompt: (ctx) => this.showBroadcastAudience(ctx),
+      },
+      'broadcast:language': {
+        accepts: ['text'],
+        prompt: (ctx) => this.askBroadcastLanguage(ctx),
+        handle: (ctx) => this.handleBroadcastLanguage(ctx),
+      },
+      'broadcast:confirm': {
+        accepts: [],
+        prompt: (ctx) => this.showBroadcastPreview(ctx),
+      },
+    });
   }
 
   // ============= СОЗДАНИЕ ОБЪЯВЛЕНИЯ =============
@@ -49,12 +245,17 @@ export class AdminScene {
     const userId = ctx.from?.id;
     if (!userId) return;
 
-    this.adminStates.set(userId, 'waiting_for_content');
-    this.tempAdData.set(userId, {});
+    await this.conversations.start<TempAdData>(userId, 'ad:content', {});
+    await this.askAdContent(ctx);
+  }
 
-    await ctx.reply('📝 Напиши контент объявления:', {
-      reply_markup: new InlineKeyboard().text('❌ Отменить', 'admin:ads'),
-    });
+  private async askAdContent(ctx: Context): Promise<void> {
+    await ctx.reply(
+      '📝 Напиши контент объявления:\n\n/back — шаг назад, /cancel — отмена',
+      {
+        reply_markup: new InlineKeyboard().text('❌ Отменить', 'admin:ads'),
+      },
+    );
   }
 
   async handleAdContent(ctx: Context): Promise<void> {
@@ -64,14 +265,24 @@ export class AdminScene {
       return;
     }
 
-    const state = this.adminStates.get(userId);
-    if (state !== 'waiting_for_content') return;
+    // Форматирование (жирный, ссылки, спойлеры...) сохраняем как entities
+    await this.conversations.update<TempAdData>(userId, {
+      content: ctx.message.text,
+      entities: ctx.message.entities,
+    });
+
+    await this.askAdMedia(ctx);
+  }
 
-    const tempData = this.tempAdData.get(userId) || {};
-    tempData.content = ctx.message.text;
-    this.tempAdData.set(userId, tempData);
+  private async askAdMedia(ctx: Context): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
 
-    this.adminStates.set(userId, 'waiting_for_media');
+    // Медиа собирается заново — и впервые, и после /back
+    await this.conversations.next<TempAdData>(userId, 'ad:media', {
+      media: undefined,
+      mediaGroupId: undefined,
+    });
 
     const keyboard = new InlineKeyboard()
       .text('⏭ Пропустить (без медиа)', 'admin:ad:skip_media')
@@ -79,73 +290,150 @@ export class AdminScene {
       .text('❌ Отменить', 'admin:ads');
 
     await ctx.reply(
-      '📸 Отправь фото или видео для объявления (или пропусти):',
+      '📸 Отправь фото, видео, GIF или файл для объявления.\n' +
+        'Несколько фото/видео (до 10) станут альбомом. Или пропусти:',
+      { reply_markup: keyboard },
+    );
+  }
+
+  /**
+   * 📸 Медиа объявления — и при создании, и при редактировании.
+   * Каждое сообщение добавляет элемент; альбом из нескольких фото/видео
+   * или файлов собирается, пока админ не нажмёт «Дальше».
+   */
+  async handleAdMedia(ctx: Context, tempData: TempAdData): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId || !ctx.message) return;
+
+    const item = this.extractMedia(ctx.message);
+
+    if (!item) {
+      await ctx.reply('❌ Отправь фото, видео, GIF или файл');
+      return;
+    }
+
+    const media = tempData.media ?? [];
+    const error = this.checkAlbum(media, item);
+    if (error) {
+      await ctx.reply(`❌ ${error}`);
+      return;
+    }
+
+    media.push(item);
+
+    // Альбом приходит пачкой сообщений — отвечаем только на первое
+    // (сообщения одного чата обрабатываются по очереди, см. sequentialize)
+    const groupId = ctx.message.media_group_id;
+    const alreadyAnswered = !!groupId && tempData.mediaGroupId === groupId;
+    await this.conversations.update<TempAdData>(userId, {
+      media,
+      mediaGroupId: groupId,
+    });
+
+    if (alreadyAnswered) return;
+
+    const cancel = tempData.adId
+      ? `admin:ad:edit:${tempData.adId}`
+      : 'admin:ads';
+    const keyboard = new InlineKeyboard()
+      .text('➡️ Дальше', 'admin:ad:media_done')
+      .row()
+      .text('❌ Отменить', cancel);
+
+    await ctx.reply(
+      '✅ Медиа добавлено. Отправь ещё, чтобы собрать альбом, или нажми «Дальше».',
       { reply_markup: keyboard },
     );
   }
 
-  async handleAdMedia(ctx: Context): Promise<void> {
+  async mediaDone(ctx: Context): Promise<void> {
     const userId = ctx.from?.id;
     if (!userId) return;
 
-    const state = this.adminStates.get(userId);
-    if (state !== 'waiting_for_media') return;
+    const state = await this.conversations.get<TempAdData>(userId);
+    const tempData = state?.data;
+    if (!tempData?.media?.length) {
+      await ctx.answerCallbackQuery({ text: '❌ Сначала отправь медиа' });
+      return;
+    }
 
-    const tempData = this.tempAdData.get(userId);
-    if (!tempData) return;
+    await ctx.answerCallbackQuery();
 
-    // Показываем что обрабатываем
-    const processingMsg = await ctx.reply('⏳ Загружаю медиа...');
+    if (state?.step === 'ad_edit:media') {
+      const adId = tempData.adId;
+      if (!adId) return;
 
-    if (ctx.message?.photo) {
-      const photo = ctx.message.photo[ctx.message.photo.length - 1];
-      tempData.mediaFileId = photo.file_id;
-      tempData.mediaType = 'photo';
-      await ctx.api.editMessageText(
-        processingMsg.chat.id,
-        processingMsg.message_id,
-        '✅ Фото загружено!',
-      );
-    } else if (ctx.message?.video) {
-      tempData.mediaFileId = ctx.message.video.file_id;
-      tempData.mediaType = 'video';
-      await ctx.api.editMessageText(
-        processingMsg.chat.id,
-        processingMsg.message_id,
-        '✅ Видео загружено!',
-      );
-    } else {
-      await ctx.api.deleteMessage(
-        processingMsg.chat.id,
-        processingMsg.message_id,
-      );
-      await ctx.reply('❌ Пожалуйста, отправь фото или видео');
+      await this.advertisementService.update(adId, { media: tempData.media });
+      await this.audit(ctx, 'ad.update', adId, { field: 'media' });
+      await this.conversations.leave(userId);
+      await ctx.reply(`✅ Медиа обновлено (${tempData.media.length})`);
       return;
     }
 
-    this.tempAdData.set(userId, tempData);
-    await this.askForButton(ctx, userId);
+    await this.askForButton(ctx);
+  }
+
+  private extractMedia(message: Message): AdMedia | null {
+    // GIF приходит и как animation, и как document — берём animation
+    if (message.animation) {
+      return { type: 'animation', fileId: message.animation.file_id };
+    }
+    if (message.photo) {
+      const photo = message.photo[message.photo.length - 1];
+      return { type: 'photo', fileId: photo.file_id };
+    }
+    if (message.video) {
+      return { type: 'video', fileId: message.video.file_id };
+    }
+    if (message.document) {
+      return { type: 'document', fileId: message.document.file_id };
+    }
+    return null;
+  }
+
+  // Правила альбомов Telegram: до 10 элементов, фото и видео вместе,
+  // файлы — только с файлами, GIF — только поодиночке
+  private checkAlbum(media: AdMedia[], item: AdMedia): string | null {
+    if (media.length === 0) return null;
+    if (media.length >= 10) return 'В альбоме не больше 10 элементов';
+
+    const types = [...media.map((m) => m.type), item.type];
+    if (types.includes('animation')) {
+      return 'GIF нельзя добавить в альбом — только одно GIF';
+    }
+    if (types.includes('document') && types.some((t) => t !== 'document')) {
+      return 'Файлы нельзя смешивать с фото и видео в одном альбоме';
+    }
+    return null;
   }
 
   async skipMedia(ctx: Context): Promise<void> {
     const userId = ctx.from?.id;
     if (!userId) return;
 
+    if ((await this.conversations.getStep(userId)) !== 'ad:media') {
+      await ctx.answerCallbackQuery({ text: '❌ Начни создание заново' });
+      return;
+    }
+
     await ctx.answerCallbackQuery();
-    await this.askForButton(ctx, userId);
+    await this.askForButton(ctx);
   }
 
-  async askForButton(ctx: Context, userId: number): Promise<void> {
-    this.adminStates.set(userId, 'waiting_for_button_choice');
+  async askForButton(ctx: Context): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    await this.conversations.next(userId, 'ad:button_choice');
 
     const keyboard = new InlineKeyboard()
-      .text('✅ Да, добавить кнопку', 'admin:ad:add_button')
+      .text('✅ Да, добавить кнопки', 'admin:ad:add_button')
       .row()
       .text('⏭ Нет, без кнопки', 'admin:ad:skip_button')
       .row()
       .text('❌ Отменить', 'admin:ads');
 
-    const message = '🔘 Добавить кнопку к объявлению?';
+    const message = '🔘 Добавить кнопки к объявлению?';
 
     if (ctx.callbackQuery) {
       await ctx.editMessageText(message, { reply_markup: keyboard });
@@ -155,62 +443,66 @@ export class AdminScene {
   }
 
   async addButton(ctx: Context): Promise<void> {
-    const userId = ctx.from?.id;
-    if (!userId) return;
-
     await ctx.answerCallbackQuery();
-    this.adminStates.set(userId, 'waiting_for_button_text');
-
-    const keyboard = new InlineKeyboard().text('❌ Отменить', 'admin:ads');
-
-    await ctx.reply('📝 Напиши текст для кнопки:', {
-      reply_markup: keyboard,
-    });
+    await this.askAdButtons(ctx);
   }
 
-  async handleButtonText(ctx: Context): Promise<void> {
+  private async askAdButtons(ctx: Context): Promise<void> {
     const userId = ctx.from?.id;
-    if (!userId || !ctx.message?.text) return;
-
-    const state = this.adminStates.get(userId);
-    if (state !== 'waiting_for_button_text') return;
-
-    const tempData = this.tempAdData.get(userId);
-    if (!tempData) return;
-
-    tempData.buttonText = ctx.message.text;
-    this.tempAdData.set(userId, tempData);
+    if (!userId) return;
 
-    this.adminStates.set(userId, 'waiting_for_button_url');
+    await this.conversations.next(userId, 'ad:buttons');
 
     const keyboard = new InlineKeyboard().text('❌ Отменить', 'admin:ads');
 
-    await ctx.reply('🔗 Напиши URL для кнопки (начинается с https://):', {
-      reply_markup: keyboard,
-    });
+    await ctx.reply(AdminScene.BUTTONS_PROMPT, { reply_markup: keyboard });
   }
 
-  async handleButtonUrl(ctx: Context): Promise<void> {
+  async handleButtons(ctx: Context): Promise<void> {
     const userId = ctx.from?.id;
     if (!userId || !ctx.message?.text) return;
 
-    const state = this.adminStates.get(userId);
-    if (state !== 'waiting_for_button_url') return;
-
-    const url = ctx.message.text;
-
-    if (!url.startsWith('http://') && !url.startsWith('https://')) {
-      await ctx.reply('❌ URL должен начинаться с https:// или http://');
+    const buttons = this.parseButtons(ctx.message.text);
+    if (typeof buttons === 'string') {
+      await ctx.reply(`❌ ${buttons}\n\n${AdminScene.BUTTONS_PROMPT}`);
       return;
     }
 
-    const tempData = this.tempAdData.get(userId);
-    if (!tempData) return;
+    await this.conversations.update<TempAdData>(userId, { buttons });
+    await this.askForInterval(ctx);
+  }
+
+  private static readonly BUTTONS_PROMPT =
+    '🔘 Отправь кнопки: каждая строка — отдельный ряд, кнопки в ряду через « | ».\n\n' +
+    'Пример:\n' +
+    'Сайт - https://example.com | Канал - https://t.me/channel\n' +
+    'Купить - https://shop.example.com';
+
+  // Строки «Текст - https://url | Текст - https://url» → ряды кнопок;
+  // строка — текст ошибки
+  private parseButtons(text: string): AdButton[][] | string {
+    const rows: AdButton[][] = [];
+
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+
+      const row: AdButton[] = [];
+      for (const part of line.split('|')) {
+        const match = part.trim().match(/^(.+?)\s+-\s+(\S+)$/);
+        if (!match) return `Не понял кнопку: «${part.trim()}»`;
+
+        const [, buttonText, url] = match;
+        if (!url.startsWith('http://') && !url.startsWith('https://')) {
+          return `URL должен начинаться с https:// или http://: ${url}`;
+        }
+        row.push({ text: buttonText.trim(), url });
+      }
 
-    tempData.buttonUrl = url;
-    this.tempAdData.set(userId, tempData);
+      if (row.length > 8) return 'В одном ряду не больше 8 кнопок';
+      rows.push(row);
+    }
 
-    await this.askForInterval(ctx, userId);
+    return rows.length > 0 ? rows : 'Не нашёл ни одной кнопки';
   }
 
   async skipButton(ctx: Context): Promise<void> {
@@ -218,11 +510,15 @@ export class AdminScene {
     if (!userId) return;
 
     await ctx.answerCallbackQuery();
-    await this.askForInterval(ctx, userId);
+    await this.conversations.update<TempAdData>(userId, { buttons: undefined });
+    await this.askForInterval(ctx);
   }
 
-  async askForInterval(ctx: Context, userId: number): Promise<void> {
-    this.adminStates.set(userId, 'waiting_for_interval');
+  async askForInterval(ctx: Context): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    await this.conversations.next(userId, 'ad:interval');
 
     const keyboard = new InlineKeyboard()
       .text('3 сообщения', 'admin:ad:interval:3')
@@ -248,30 +544,42 @@ export class AdminScene {
     const userId = ctx.from?.id;
     if (!userId) return;
 
+    if ((await this.conversations.getStep(userId)) !== 'ad:interval') {
+      await ctx.answerCallbackQuery({ text: '❌ Начни создание заново' });
+      return;
+    }
+
     await ctx.answerCallbackQuery();
 
     if (interval === 'custom') {
-      this.adminStates.set(userId, 'waiting_for_custom_interval');
-      await ctx.reply('📝 Введи интервал (число от 1 до 100):');
+      await this.askCustomInterval(ctx);
       return;
     }
 
-    const tempData = this.tempAdData.get(userId);
-    if (!tempData) return;
+    await this.conversations.update<TempAdData>(userId, {
+      showInterval: parseInt(interval),
+    });
+    await this.showAdPreview(ctx);
+  }
 
-    tempData.showInterval = parseInt(interval);
-    this.tempAdData.set(userId, tempData);
+  private async askCustomInterval(ctx: Context): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
 
-    await this.finalizeAd(ctx, userId);
+    await this.conversations.next(userId, 'ad:custom_interval');
+    await ctx.reply('📝 Введи интервал (число от 1 до 100):');
   }
 
-  async handleCustomInterval(ctx: Context): Promise<void> {
+  /**
+   * ✏️ Свой интервал — и при создании, и при редактировании (adId)
+   */
+  async handleCustomInterval(
+    ctx: Context,
+    tempData: TempAdData,
+  ): Promise<void> {
     const userId = ctx.from?.id;
     if (!userId || !ctx.message?.text) return;
 
-    const state = this.adminStates.get(userId);
-    if (state !== 'waiting_for_custom_interval') return;
-
     const interval = parseInt(ctx.message.text);
 
     if (isNaN(interval) || interval < 1 || interval > 100) {
@@ -279,18 +587,83 @@ export class AdminScene {
       return;
     }
 
-    const tempData = this.tempAdData.get(userId);
-    if (!tempData) return;
+    if (tempData.adId) {
+      await this.conversations.leave(userId);
+      await this.applyInterval(ctx, tempData.adId, interval);
+      return;
+    }
+
+    await this.conversations.update<TempAdData>(userId, {
+      showInterval: interval,
+    });
+    await this.showAdPreview(ctx);
+  }
+
+  /**
+   * 👁 Предпросмотр перед публикацией: объявление ровно так, как его
+   * увидят пользователи
+   */
+  async showAdPreview(ctx: Context): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    const tempData = (await this.conversations.get<TempAdData>(userId))?.data;
+    if (!tempData?.content || !ctx.chat) {
+      await ctx.reply('❌ Ошибка: данные объявления не найдены');
+      return;
+    }
+
+    await this.conversations.next(userId, 'ad:publish');
+
+    try {
+      await this.advertisementService.sendContent(ctx.api, ctx.chat.id, {
+        content: tempData.content,
+        entities: tempData.entities,
+        media: tempData.media,
+        buttons: tempData.buttons,
+      });
+    } catch (error: any) {
+      this.logger.error('Ошибка предпросмотра объявления:', error);
+      await ctx.reply(
+        `❌ Telegram не принял объявление: ${error.message}\n\nНачни заново.`,
+        { reply_markup: new InlineKeyboard().text('« Назад', 'admin:ads') },
+      );
+      await this.conversations.leave(userId);
+      return;
+    }
+
+    const keyboard = new InlineKeyboard()
+      .text('✅ Опубликовать', 'admin:ad:publish')
+      .row()
+      .text('❌ Отменить', 'admin:ads');
+
+    await ctx.reply(
+      `👆 Так объявление увидят пользователи.\n` +
+        `⏱ Показ: каждые ${tempData.showInterval || 5} загрузок\n\nПубликуем?`,
+      { reply_markup: keyboard },
+    );
+  }
+
+  async publishAd(ctx: Context): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
 
-    tempData.showInterval = interval;
-    this.tempAdData.set(userId, tempData);
+    const state = await this.conversations.get<TempAdData>(userId);
+    if (state?.step !== 'ad:publish') {
+      await ctx.answerCallbackQuery({ text: '❌ Нечего публиковать' });
+      return;
+    }
 
-    await this.finalizeAd(ctx, userId);
+    await ctx.answerCallbackQuery();
+    await this.finalizeAd(ctx, userId, state.data);
   }
 
-  async finalizeAd(ctx: Context, userId: number): Promise<void> {
-    const tempData = this.tempAdData.get(userId);
-    if (!tempData || !tempData.content) {
+  async finalizeAd(
+    ctx: Context,
+    userId: number,
+    tempData: TempAdData,
+  ): Promise<void> {
+    if (!tempData.content) {
       await ctx.reply('❌ Ошибка: данные объявления не найдены');
       return;
     }
@@ -298,44 +671,35 @@ export class AdminScene {
     try {
       const createAdDto: CreateAdDto = {
         content: tempData.content,
-        mediaFileId: tempData.mediaFileId,
-        buttonText: tempData.buttonText,
-        buttonUrl: tempData.buttonUrl,
+        entities: tempData.entities,
+        media: tempData.media,
+        buttons: tempData.buttons,
         isActive: true,
         showInterval: tempData.showInterval || 5,
       };
 
       const ad = await this.advertisementService.create(createAdDto);
+      await this.audit(ctx, 'ad.create', ad.id);
 
-      this.adminStates.delete(userId);
-      this.tempAdData.delete(userId);
+      await this.conversations.leave(userId);
 
-      let preview = `✅ *Объявление создано!*\n\n`;
-      preview += `📝 Контент: ${tempData.content}\n`;
-      if (tempData.mediaFileId) {
-        preview += `📸 Медиа: ${tempData.mediaType === 'photo' ? 'Фото' : 'Видео'}\n`;
-      }
-      if (tempData.buttonText && tempData.buttonUrl) {
-        preview += `🔘 Кнопка: "${tempData.buttonText}" → ${tempData.buttonUrl}\n`;
-      }
-      preview += `⏱ Показ: каждые ${tempData.showInterval || 5} сообщений\n`;
+      let preview = `✅ Объявление опубликовано!\n\n`;
+      preview += `📸 Медиа: ${this.describeMedia(tempData.media)}\n`;
+      preview += `🔘 Кнопок: ${tempData.buttons?.flat().length ?? 0}\n`;
+      preview += `⏱ Показ: каждые ${tempData.showInterval || 5} загрузок\n`;
       preview += `\n🆔 ID объявления: ${ad.id}`;
 
-      const keyboard = new InlineKeyboard().text(
-        '📣 К списку объявлений',
-        'admin:ads',
-      );
+      const keyboard = new InlineKeyboard()
+        .text('🎯 Таргетинг', `admin:ad:targeting:${ad.id}`)
+        .row()
+        .text('📣 К списку объявлений', 'admin:ads');
 
-      await ctx.reply(preview, {
-        parse_mode: 'Markdown',
-        reply_markup: keyboard,
-      });
+      await ctx.reply(preview, { reply_markup: keyboard });
     } catch (error) {
       this.logger.error('Ошибка при создании объявления:', error);
       await ctx.reply('❌ Произошла ошибка при создании объявления');
 
-      this.adminStates.delete(userId);
-      this.tempAdData.delete(userId);
+      await this.conversations.leave(userId);
     }
   }
 
@@ -345,6 +709,9 @@ export class AdminScene {
     const userId = ctx.from?.id;
     if (!userId) return;
 
+    // «❌ Отменить» при вводе нового значения тоже ведёт сюда
+    await this.conversations.leave(userId, 'ad_edit:');
+
     try {
       const ad = await this.advertisementService.findOne(adId);
       if (!ad) {
@@ -352,8 +719,6 @@ export class AdminScene {
         return;
       }
 
-      this.editAdId.set(userId, adId);
-
       const keyboard = new InlineKeyboard()
         .text('📝 Контент', `admin:ad:edit_field:${adId}:content`)
         .row()
@@ -363,18 +728,31 @@ export class AdminScene {
         .row()
         .text('⏱ Интервал', `admin:ad:edit_field:${adId}:interval`)
         .row()
+        .text('👁 Предпросмотр', `admin:ad:preview:${adId}`)
+        .row()
+        .text('🎯 Таргетинг и расписание', `admin:ad:targeting:${adId}`)
+        .row()
         .text('« Назад', 'admin:ads');
 
-      let message = `📝 *Редактирование объявления #${adId}*\n\n`;
+      const content = this.advertisementService.toContent(ad);
+
+      let message = `📝 <b>Редактирование объявления #${adId}</b>\n\n`;
       message += `Текущие данные:\n`;
-      message += `• Контент: ${ad.content}\n`;
-      message += `• Медиа: ${ad.mediaFileId ? '✅ Есть' : '❌ Нет'}\n`;
-      message += `• Кнопка: ${ad.buttonText ? `"${ad.buttonText}"` : '❌ Нет'}\n`;
-      message += `• Интервал: каждые ${ad.showInterval} сообщений\n\n`;
+      message += `• Контент: ${escapeHtml(ad.content)}\n`;
+      message += `• Медиа: ${this.describeMedia(content.media)}\n`;
+      message += `• Кнопки: ${
+        content.buttons?.length
+          ? content.buttons
+              .flat()
+              .map((b) => `«${escapeHtml(b.text)}»`)
+              .join(', ')
+          : '❌ Нет'
+      }\n`;
+      message += `• Интервал: каждые ${ad.showInterval} загрузок\n\n`;
       message += `Что хочешь изменить?`;
 
       await ctx.editMessageText(message, {
-        parse_mode: 'Markdown',
+        parse_mode: 'HTML',
         reply_markup: keyboard,
       });
       await ctx.answerCallbackQuery();
@@ -389,18 +767,23 @@ export class AdminScene {
 
     await ctx.answerCallbackQuery();
 
-    this.editAdId.set(userId, adId);
-    this.adminStates.set(userId, `edit_${field}`);
+    // Новое медиа собирается заново (альбом — из нескольких сообщений)
+    if (field !== 'interval') {
+      await this.conversations.start<TempAdData>(userId, `ad_edit:${field}`, {
+        adId,
+      });
+    }
 
     const messages = {
-      content: '📝 Отправь новый текст объявления:',
-      media: '📸 Отправь новое фото/видео или нажми "Удалить медиа":',
-      button: '🔘 Отправь новый текст кнопки или нажми "Удалить кнопку":',
+      content: '📝 Отправь новый текст объявления (форматирование сохранится):',
+      media:
+        '📸 Отправь новое фото, видео, GIF или файл (несколько — альбом) или нажми "Удалить медиа":',
+      button: `${AdminScene.BUTTONS_PROMPT}\n\nИли нажми "Удалить кнопки":`,
       interval: '⏱ Выбери новый интервал показа:',
     };
 
     if (field === 'interval') {
-      await this.askForIntervalEdit(ctx, userId, adId);
+      await this.askForIntervalEdit(ctx, adId);
     } else if (field === 'media') {
       const keyboard = new InlineKeyboard()
         .text('🗑 Удалить медиа', `admin:ad:remove_media:${adId}`)
@@ -409,7 +792,7 @@ export class AdminScene {
       await ctx.reply(messages[field], { reply_markup: keyboard });
     } else if (field === 'button') {
       const keyboard = new InlineKeyboard()
-        .text('🗑 Удалить кнопку', `admin:ad:remove_button:${adId}`)
+        .text('🗑 Удалить кнопки', `admin:ad:remove_button:${adId}`)
         .row()
         .text('❌ Отменить', `admin:ad:edit:${adId}`);
       await ctx.reply(messages[field as keyof typeof messages], { reply_markup: keyboard });
@@ -418,11 +801,7 @@ export class AdminScene {
     }
   }
 
-  async askForIntervalEdit(
-    ctx: Context,
-    userId: number,
-    adId: number,
-  ): Promise<void> {
+  async askForIntervalEdit(ctx: Context, adId: number): Promise<void> {
     const keyboard = new InlineKeyboard()
       .text('3', `admin:ad:update_interval:${adId}:3`)
       .text('5', `admin:ad:update_interval:${adId}:5`)
@@ -450,73 +829,113 @@ export class AdminScene {
     await ctx.answerCallbackQuery();
 
     if (interval === 'custom') {
-      this.adminStates.set(userId, 'edit_interval_custom');
-      this.editAdId.set(userId, adId);
+      await this.conversations.start<TempAdData>(
+        userId,
+        'ad_edit:custom_interval',
+        { adId },
+      );
       await ctx.reply('📝 Введи интервал (1-100):');
       return;
     }
 
+    if (await this.applyInterval(ctx, adId, parseInt(interval))) {
+      await this.startEditAd(ctx, adId);
+    }
+  }
+
+  private async applyInterval(
+    ctx: Context,
+    adId: number,
+    interval: number,
+  ): Promise<boolean> {
     try {
-      await this.advertisementService.update(adId, {
-        showInterval: parseInt(interval),
-      });
+      await this.advertisementService.update(adId, { showInterval: interval });
+      await this.audit(ctx, 'ad.update', adId, { showInterval: interval });
 
       await ctx.reply(`✅ Интервал обновлен: каждые ${interval} сообщений`);
-      await this.startEditAd(ctx, adId);
+      return true;
     } catch (error) {
       await ctx.reply('❌ Ошибка обновления');
+      return false;
     }
   }
 
-  async handleEditContent(ctx: Context): Promise<void> {
+  async handleEditContent(ctx: Context, tempData: TempAdData): Promise<void> {
     const userId = ctx.from?.id;
-    if (!userId || !ctx.message?.text) return;
-
-    const adId = this.editAdId.get(userId);
-    if (!adId) return;
+    const adId = tempData.adId;
+    if (!userId || !ctx.message?.text || !adId) return;
 
     try {
       await this.advertisementService.update(adId, {
         content: ctx.message.text,
+        entities: ctx.message.entities ?? null,
       });
+      await this.audit(ctx, 'ad.update', adId, { field: 'content' });
 
-      this.adminStates.delete(userId);
+      await this.conversations.leave(userId);
       await ctx.reply('✅ Контент обновлен!');
     } catch (error) {
       await ctx.reply('❌ Ошибка обновления');
     }
   }
 
-  async handleEditMedia(ctx: Context): Promise<void> {
+  async handleEditButtons(ctx: Context, tempData: TempAdData): Promise<void> {
     const userId = ctx.from?.id;
-    if (!userId) return;
+    const adId = tempData.adId;
+    if (!userId || !ctx.message?.text || !adId) return;
 
-    const adId = this.editAdId.get(userId);
-    if (!adId) return;
-
-    let mediaFileId: string | undefined;
-
-    if (ctx.message?.photo) {
-      mediaFileId = ctx.message.photo[ctx.message.photo.length - 1].file_id;
-    } else if (ctx.message?.video) {
-      mediaFileId = ctx.message.video.file_id;
-    } else {
-      await ctx.reply('❌ Отправь фото или видео');
+    const buttons = this.parseButtons(ctx.message.text);
+    if (typeof buttons === 'string') {
+      await ctx.reply(`❌ ${buttons}`);
       return;
     }
 
     try {
-      await this.advertisementService.update(adId, { mediaFileId });
-      this.adminStates.delete(userId);
-      await ctx.reply('✅ Медиа обновлено!');
+      await this.advertisementService.update(adId, { buttons });
+      await this.audit(ctx, 'ad.update', adId, { field: 'buttons' });
+      await this.conversations.leave(userId);
+      await ctx.reply(`✅ Кнопки обновлены (${buttons.flat().length})`);
     } catch (error) {
       await ctx.reply('❌ Ошибка обновления');
     }
   }
 
+  async previewAd(ctx: Context, adId: number): Promise<void> {
+    const ad = await this.advertisementService.findOne(adId);
+    if (!ad || !ctx.chat) {
+      await ctx.answerCallbackQuery({ text: '❌ Объявление не найдено' });
+      return;
+    }
+
+    await ctx.answerCallbackQuery();
+    try {
+      await this.advertisementService.sendContent(
+        ctx.api,
+        ctx.chat.id,
+        this.advertisementService.toContent(ad),
+      );
+    } catch (error: any) {
+      await ctx.reply(`❌ Telegram не принял объявление: ${error.message}`);
+    }
+  }
+
+  private describeMedia(media?: AdMedia[] | null): string {
+    if (!media?.length) return '❌ Нет';
+    if (media.length > 1) return `🖼 Альбом (${media.length})`;
+
+    const titles: Record<AdMedia['type'], string> = {
+      photo: 'Фото',
+      video: 'Видео',
+      animation: 'GIF',
+      document: 'Файл',
+    };
+    return titles[media[0].type];
+  }
+
   async removeMedia(ctx: Context, adId: number): Promise<void> {
     try {
-      await this.advertisementService.update(adId, { mediaFileId: undefined });
+      await this.advertisementService.update(adId, { media: null });
+      await this.audit(ctx, 'ad.update', adId, { media: null });
       await ctx.answerCallbackQuery({ text: '✅ Медиа удалено' });
       await this.startEditAd(ctx, adId);
     } catch (error) {
@@ -526,49 +945,269 @@ export class AdminScene {
 
   async removeButton(ctx: Context, adId: number): Promise<void> {
     try {
-      await this.advertisementService.update(adId, {
-        buttonText: undefined,
-        buttonUrl: undefined,
-      });
-      await ctx.answerCallbackQuery({ text: '✅ Кнопка удалена' });
+      await this.advertisementService.update(adId, { buttons: null });
+      await this.audit(ctx, 'ad.update', adId, { buttons: null });
+      await ctx.answerCallbackQuery({ text: '✅ Кнопки удалены' });
       await this.startEditAd(ctx, adId);
     } catch (error) {
       await ctx.answerCallbackQuery({ text: '❌ Ошибка' });
     }
   }
 
-  // ============= УПРАВЛЕНИЕ КАНАЛАМИ =============
-
-  async startCreateChannel(ctx: Context): Promise<void> {
+  // ============= ТАРГЕТИНГ ОБЪЯВЛЕНИЯ =============
+
+  private static readonly AUDIENCE_TITLES: Record<AdAudience, string> = {
+    all: '👥 Все',
+    new: '🆕 Новые',
+    returning: '🔁 Вернувшиеся',
+  };
+
+  private static readonly TARGET_PROMPTS: Record<string, string> = {
+    period:
+      '📅 Введи период показа: 01.11.2026-30.11.2026\n' +
+      'Можно только начало (01.11.2026-) или только конец (-30.11.2026).\n' +
+      '«-» — без ограничений.',
+    dailyCap: '📊 Сколько показов в сутки на всё объявление? 0 — без лимита.',
+    userCap:
+      '👤 Сколько раз показывать одному пользователю и за сколько часов?\n' +
+      'Например: 3/24. 0 — без лимита.',
+    weight: '⚖️ Вес при ротации (0 — не показывать, 2 — вдвое чаще, чем 1):',
+    language: '🌐 Код языка Telegram: ru, uz, en... «-» — для всех языков.',
+  };
+
+  async showAdTargeting(ctx: Context, adId: number): Promise<void> {
     const userId = ctx.from?.id;
-    if (!userId) return;
+    if (userId) await this.conversations.leave(userId, 'ad_edit:target');
 
-    await ctx.answerCallbackQuery();
+    const ad = await this.advertisementService.findOne(adId);
+    if (!ad) {
+      await ctx.answerCallbackQuery({ text: '❌ Объявление не найдено' });
+      return;
+    }
 
-    this.adminStates.set(userId, 'waiting_for_channel_id');
-    this.tempChannelData.set(userId, {});
+    const date = (value: Date | null) =>
+      value ? value.toLocaleDateString('ru-RU', { timeZone: 'UTC' }) : '…';
+    const audience = (ad.audience as AdAudience) || 'all';
+
+    let message = `🎯 <b>Таргетинг объявления #${adId}</b>\n\n`;
+    message += `📅 Период: ${
+      ad.startsAt || ad.endsAt
+        ? `${date(ad.startsAt)} — ${date(ad.endsAt && new Date(ad.endsAt.getTime() - 1))}`
+        : 'всегда'
+    }\n`;
+    message += `📊 В сутки: ${ad.dailyCap ?? '∞'}\n`;
+    message += `👤 Одному пользователю: ${
+      ad.userCap ? `${ad.userCap} за ${ad.userCapHours} ч` : '∞'
+    }\n`;
+    message += `⚖️ Вес: ${ad.weight}\n`;
+    message += `🌐 Язык: ${ad.language ?? 'любой'}\n`;
+    message += `👥 Аудитория: ${AdminScene.AUDIENCE_TITLES[audience]}\n`;
+    message += `⏱ Интервал: каждые ${ad.showInterval} загрузок`;
 
-    await ctx.reply(
-      '🆔 Отправь ID канала (например: -1001234567890)\n\n' +
-        'Чтобы получить ID канала:\n' +
-        '1. Добавь бота в канал как админа\n' +
-        '2. Отправь любое сообщение в канал\n' +
-        '3. Перешли это сообщение сюда или используй @userinfobot',
-      {
-        reply_markup: new InlineKeyboard().text(
-          '❌ Отменить',
-          'admin:channels',
-        ),
-      },
-    );
-  }
+    const keyboard = new InlineKeyboard()
+      .text('📅 Период', `admin:ad:target:${adId}:period`)
+      .text('📊 В сутки', `admin:ad:target:${adId}:dailyCap`)
+      .row()
+      .text('👤 На пользователя', `admin:ad:target:${adId}:userCap`)
+      .text('⚖️ Вес', `admin:ad:target:${adId}:weight`)
+      .row()
+      .text('🌐 Язык', `admin:ad:target:${adId}:language`)
+      .row();
 
-  async handleChannelId(ctx: Context): Promise<void> {
-    const userId = ctx.from?.id;
-    if (!userId || !ctx.message?.text) return;
+    for (const [value, title] of Object.entries(AdminScene.AUDIENCE_TITLES)) {
+      keyboard.text(
+        value === audience ? `✅ ${title}` : title,
+        `admin:ad:audience:${adId}:${value}`,
+      );
+    }
+    keyboard.row().text('« Назад', `admin:ad:edit:${adId}`);
+
+    if (ctx.callbackQuery) {
+      await ctx.editMessageText(message, {
+        parse_mode: 'HTML',
+        reply_markup: keyboard,
+      });
+      await ctx.answerCallbackQuery();
+    } else {
+      await ctx.reply(message, { parse_mode: 'HTML', reply_markup: keyboard });
+    }
+  }
+
+  async askTargetingValue(
+    ctx: Context,
+    adId: number,
+    field: string,
+  ): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    const prompt = AdminScene.TARGET_PROMPTS[field];
+    if (!prompt) {
+      await ctx.answerCallbackQuery({ text: '❌ Неизвестное поле' });
+      return;
+    }
+
+    await ctx.answerCallbackQuery();
+    await this.conversations.start<TempAdData>(userId, 'ad_edit:target', {
+      adId,
+      field,
+    });
+
+    await ctx.reply(prompt, {
+      reply_markup: new InlineKeyboard().text(
+        '❌ Отменить',
+        `admin:ad:targeting:${adId}`,
+      ),
+    });
+  }
+
+  async handleTargetingInput(
+    ctx: Context,
+    tempData: TempAdData,
+  ): Promise<void> {
+    const userId = ctx.from?.id;
+    const text = ctx.message?.text?.trim();
+    const { adId, field } = tempData;
+    if (!userId || !text || !adId || !field) return;
+
+    const data = this.parseTargetingValue(field, text);
+
+    if (!data) {
+      await ctx.reply(
+        `❌ Не понял значение.\n\n${AdminScene.TARGET_PROMPTS[field]}`,
+      );
+      return;
+    }
+
+    try {
+      await this.advertisementService.update(adId, data);
+      await this.audit(ctx, 'ad.update', adId, { field });
+      await this.conversations.leave(userId);
+      await ctx.reply('✅ Таргетинг обновлён');
+      await this.showAdTargeting(ctx, adId);
+    } catch (error) {
+      this.logger.error('Ошибка обновления таргетинга:', error);
+      await ctx.reply('❌ Ошибка обновления');
+    }
+  }
+
+  async setAdAudience(
+    ctx: Context,
+    adId: number,
+    audience: AdAudience,
+  ): Promise<void> {
+    try {
+      await this.advertisementService.update(adId, { audience });
+      await this.audit(ctx, 'ad.update', adId, { audience });
+      await this.showAdTargeting(ctx, adId);
+    } catch {
+      await ctx.answerCallbackQuery({ text: '❌ Ошибка' });
+    }
+  }
+
+  // Ввод админа → поля объявления; null — не удалось разобрать
+  private parseTargetingValue(
+    field: string,
+    text: string,
+  ): Partial<CreateAdDto> | null {
+    const clear = text === '-' || text === '0';
+
+    switch (field) {
+      case 'period': {
+        if (text === '-') return { startsAt: null, endsAt: null };
+
+        const match = text.match(/^\s*([\d.]*)\s*-\s*([\d.]*)\s*$/);
+        if (!match) return null;
+
+        const startsAt = match[1] ? this.parseDate(match[1]) : null;
+        const lastDay = match[2] ? this.parseDate(match[2]) : null;
+        if (startsAt === undefined || lastDay === undefined) return null;
+
+        // Конец включительно: показываем до конца последнего дня
+        const endsAt = lastDay
+          ? new Date(lastDay.getTime() + 24 * 60 * 60 * 1000)
+          : null;
+        if (startsAt && endsAt && endsAt <= startsAt) return null;
+
+        return { startsAt, endsAt };
+      }
+      case 'dailyCap': {
+        if (clear) return { dailyCap: null };
+        const value = this.parsePositiveInt(text);
+        return value ? { dailyCap: value } : null;
+      }
+      case 'userCap': {
+        if (clear) return { userCap: null };
+        const [count, hours = '24'] = text.split('/');
+        const userCap = this.parsePositiveInt(count);
+        const userCapHours = this.parsePositiveInt(hours);
+        return userCap && userCapHours ? { userCap, userCapHours } : null;
+      }
+      case 'weight': {
+        if (text === '0') return { weight: 0 };
+        const value = this.parsePositiveInt(text);
+        return value ? { weight: value } : null;
+      }
+      case 'language': {
+        if (text === '-') return { language: null };
+        return /^[a-z]{2,3}$/i.test(text)
+          ? { language: text.toLowerCase() }
+          : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  private parsePositiveInt(text: string): number | null {
+    const value = parseInt(text.trim(), 10);
+    return !isNaN(value) && value > 0 && String(value) === text.trim()
+      ? value
+      : null;
+  }
+
+  // ДД.ММ.ГГГГ → полночь UTC; undefined — неверная дата
+  private parseDate(text: string): Date | undefined {
+    const match = text.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/);
+    if (!match) return undefined;
+
+    const [, day, month, year] = match.map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCDate() === day ? date : undefined;
+  }
+
+  // ============= УПРАВЛЕНИЕ КАНАЛАМИ =============
+
+  async startCreateChannel(ctx: Context): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    await ctx.answerCallbackQuery();
+
+    await this.conversations.start<TempChannelData>(userId, 'channel:id', {});
+    await this.askChannelId(ctx);
+  }
+
+  private async askChannelId(ctx: Context): Promise<void> {
+    await ctx.reply(
+      '🆔 Отправь ID канала (например: -1001234567890)\n\n' +
+        'Чтобы получить ID канала:\n' +
+        '1. Добавь бота в канал как админа\n' +
+        '2. Отправь любое сообщение в канал\n' +
+        '3. Перешли это сообщение сюда или используй @userinfobot\n\n' +
+        '/back — шаг назад, /cancel — отмена',
+      {
+        reply_markup: new InlineKeyboard().text(
+          '❌ Отменить',
+          'admin:channels',
+        ),
+      },
+    );
+  }
 
-    const state = this.adminStates.get(userId);
-    if (state !== 'waiting_for_channel_id') return;
+  async handleChannelId(ctx: Context): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId || !ctx.message?.text) return;
 
     const channelId = ctx.message.text.trim();
 
@@ -580,12 +1219,15 @@ export class AdminScene {
       return;
     }
 
-    const tempData = this.tempChannelData.get(userId) || {};
-    tempData.channelId = channelId;
-    this.tempChannelData.set(userId, tempData);
+    await this.conversations.update<TempChannelData>(userId, { channelId });
+    await this.askChannelName(ctx);
+  }
 
-    this.adminStates.set(userId, 'waiting_for_channel_name');
+  private async askChannelName(ctx: Context): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
 
+    await this.conversations.next(userId, 'channel:name');
     await ctx.reply('📝 Теперь отправь название канала для отображения:');
   }
 
@@ -593,20 +1235,17 @@ export class AdminScene {
     const userId = ctx.from?.id;
     if (!userId || !ctx.message?.text) return;
 
-    const state = this.adminStates.get(userId);
-    if (state !== 'waiting_for_channel_name') return;
-
-    const tempData = this.tempChannelData.get(userId);
-    if (!tempData || !tempData.channelId) return;
-
-    tempData.channelName = ctx.message.text;
-    this.tempChannelData.set(userId, tempData);
-
-    // --- ИЗМЕНЕНИЯ НАЧИНАЮТСЯ ЗДЕСЬ ---
+    await this.conversations.update<TempChannelData>(userId, {
+      channelName: ctx.message.text,
+    });
+    await this.askChannelLink(ctx);
+  }
 
-    // Переводим в состояние ожидания ссылки
-    this.adminStates.set(userId, 'waiting_for_channel_link');
+  private async askChannelLink(ctx: Context): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
 
+    await this.conversations.next(userId, 'channel:link');
     await ctx.reply(
       '🔗 Теперь отправь публичную ссылку на канал или юзернейм.\n' +
         'Примеры:\n' +
@@ -619,10 +1258,6 @@ export class AdminScene {
     const userId = ctx.from?.id;
     if (!userId || !ctx.message?.text) return;
 
-    const state = this.adminStates.get(userId);
-    // Проверяем, что мы именно в этом состоянии
-    if (state !== 'waiting_for_channel_link') return;
-
     let link = ctx.message.text.trim();
 
     // Логика обработки:
@@ -635,19 +1270,20 @@ export class AdminScene {
     }
     // Если ссылка уже начинается с https://t.me, оставляем как есть
 
-    const tempData = this.tempChannelData.get(userId);
-    if (!tempData) {
-      await ctx.reply('❌ Ошибка данных. Начните создание канала заново.');
-      this.adminStates.delete(userId);
-      return;
-    }
+    await this.conversations.update<TempChannelData>(userId, {
+      channelLink: link,
+    });
+    await this.askChannelPriority(ctx, { channelLink: link });
+  }
 
-    // Сохраняем ссылку
-    tempData.channelLink = link;
-    this.tempChannelData.set(userId, tempData);
+  private async askChannelPriority(
+    ctx: Context,
+    tempData: TempChannelData,
+  ): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
 
-    // Переключаем состояние на следующее
-    this.adminStates.set(userId, 'waiting_for_channel_priority');
+    await this.conversations.next(userId, 'channel:priority');
 
     const keyboard = new InlineKeyboard()
       .text('1 (Высокий)', 'admin:channel:priority:1')
@@ -659,7 +1295,7 @@ export class AdminScene {
       .text('❌ Отменить', 'admin:channels');
 
     await ctx.reply(
-      `🔗 Ссылка принята: ${link}\n\n🔢 Теперь выбери приоритет канала:`,
+      `🔗 Ссылка принята: ${tempData.channelLink}\n\n🔢 Теперь выбери приоритет канала:`,
       { reply_markup: keyboard },
     );
   }
@@ -667,6 +1303,9 @@ export class AdminScene {
   async toggleChannel(ctx: Context, channelId: number): Promise<void> {
     try {
       const channel = await this.channelService.toggle(channelId);
+      await this.audit(ctx, 'channel.toggle', channelId, {
+        isActive: channel.isActive,
+      });
       const status = channel.isActive ? 'активирован' : 'деактивирован';
 
       await ctx.answerCallbackQuery({ text: `✅ Канал ${status}` });
@@ -681,7 +1320,8 @@ export class AdminScene {
 
     await ctx.answerCallbackQuery();
 
-    const tempData = this.tempChannelData.get(userId);
+    const state = await this.conversations.get<TempChannelData>(userId);
+    const tempData = state?.step === 'channel:priority' ? state.data : null;
 
     // Проверка наличия всех данных
     if (
@@ -703,9 +1343,11 @@ export class AdminScene {
         priority: parseInt(priority),
         channelLink: tempData.channelLink,
       });
+      await this.audit(ctx, 'channel.create', tempData.channelId, {
+        name: tempData.channelName,
+      });
 
-      this.adminStates.delete(userId);
-      this.tempChannelData.delete(userId);
+      await this.conversations.leave(userId);
 
       // 👇 ИСПРАВЛЕНИЕ ЗДЕСЬ: Используем HTML вместо Markdown 👇
       await ctx.reply(
@@ -727,6 +1369,7 @@ export class AdminScene {
   async deleteChannel(ctx: Context, channelId: number): Promise<void> {
     try {
       await this.channelService.delete(channelId);
+      await this.audit(ctx, 'channel.delete', channelId);
       await ctx.answerCallbackQuery({ text: '✅ Канал удален' });
       await this.showChannelsMenu(ctx);
     } catch (error) {
@@ -770,121 +1413,1335 @@ export class AdminScene {
     await ctx.answerCallbackQuery();
   }
 
-  // ============= ГЛАВНОЕ МЕНЮ =============
+  // ============= ЛИМИТЫ =============
 
-  async showMainMenu(ctx: Context): Promise<void> {
-    const keyboard = new InlineKeyboard()
-      .text('📣 Управление рекламой', 'admin:ads')
-      .row()
-      .text('📢 Управление каналами', 'admin:channels')
-      .row()
-      .text('📊 Статистика', 'admin:stats');
+  async showQuotaMenu(ctx: Context, edit = true): Promise<void> {
+    // «❌ Отменить» во время ввода значения тоже ведёт сюда
+    const userId = ctx.from?.id;
+    if (userId) await this.conversations.leave(userId, 'quota:');
 
-    await ctx.reply('⚙️ *Админ-панель*', {
-      parse_mode: 'Markdown',
-      reply_markup: keyboard,
+    const limits = await this.quotaService.getLimits();
+    const keyboard = new InlineKeyboard();
+
+    let message = `🚦 <b>Лимиты</b>\n\n`;
+    message += `Суточные счётчики сбрасываются в 00:00 UTC.\n`;
+    message += `0 — без ограничения. Админы не ограничены.\n\n`;
+
+    for (const [key, title] of Object.entries(QuotaService.LIMIT_TITLES)) {
+      const value = limits[key as QuotaLimitKey];
+      message += `${title}: <b>${value || '∞'}</b>\n`;
+      keyboard.text(`✏️ ${title}`, `admin:quota:edit:${key}`).row();
+    }
+
+    keyboard.text('« Назад', 'admin:main');
+
+    if (edit) {
+      await ctx.editMessageText(message, {
+        parse_mode: 'HTML',
+        reply_markup: keyboard,
+      });
+    } else {
+      await ctx.reply(message, { parse_mode: 'HTML', reply_markup: keyboard });
+    }
+  }
+
+  async editQuota(ctx: Context, key: string): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    if (!(key in QuotaService.LIMIT_TITLES)) {
+      await ctx.answerCallbackQuery({ text: '❌ Неизвестный лимит' });
+      return;
+    }
+
+    await ctx.answerCallbackQuery();
+    await this.conversations.start<TempQuotaData>(userId, 'quota:value', {
+      key: key as QuotaLimitKey,
     });
+
+    const title = QuotaService.LIMIT_TITLES[key as QuotaLimitKey];
+    await ctx.reply(
+      `✏️ ${title}\n\nВведи новое значение (0 — без ограничения):`,
+      {
+        reply_markup: new InlineKeyboard().text('❌ Отменить', 'admin:quota'),
+      },
+    );
   }
 
-  async showAdsMenu(ctx: Context): Promise<void> {
-    const ads = await this.advertisementService.getAll();
-    const stats = await this.advertisementService.getTotalStats();
+  async handleQuotaInput(ctx: Context, tempData: TempQuotaData): Promise<void> {
+    const userId = ctx.from?.id;
+    const text = ctx.message?.text?.trim();
+    const key = tempData.key;
+    if (!userId || !text || !key) return;
 
-    let message = `📣 *Реклама*\n\n`;
-    message += `📊 Общая статистика:\n`;
-    message += `• Всего объявлений: ${stats.totalAds}\n`;
-    message += `• Активных: ${stats.activeAds}\n`;
-    message += `• Просмотров: ${stats.totalViews}\n`;
-    message += `• Кликов: ${stats.totalClicks}\n`;
-    message += `• CTR: ${stats.ctr}\n\n`;
+    const value = parseInt(text, 10);
+    if (isNaN(value) || value < 0 || String(value) !== text) {
+      await ctx.reply('❌ Введи целое число от 0');
+      return;
+    }
 
-    if (ads.length > 0) {
-      message += `*Объявления:*\n\n`;
-      for (const ad of ads) {
-        const status = ad.isActive ? '✅' : '❌';
-        const preview =
-          ad.content.substring(0, 30) + (ad.content.length > 30 ? '...' : '');
-        message += `${status} ID:${ad.id} - ${preview}\n`;
-        message += `   👁 ${ad.viewCount} | 👆 ${ad.clickCount} | ⏱ каждые ${ad.showInterval} сообщений\n\n`;
-      }
-    } else {
-      message += `_Нет объявлений_\n\n`;
+    await this.quotaService.setLimit(key, value);
+    await this.audit(ctx, 'quota.set', key, { value });
+    await this.conversations.leave(userId);
+
+    await ctx.reply(`✅ ${QuotaService.LIMIT_TITLES[key]}: ${value || '∞'}`);
+    await this.showQuotaMenu(ctx, false);
+  }
+
+  // ============= PREMIUM =============
+
+  async showPremiumMenu(ctx: Context, edit = true): Promise<void> {
+    const userId = ctx.from?.id;
+    if (userId) await this.conversations.leave(userId, 'premium:');
+
+    const [total, users, payments, recent] = await Promise.all([
+      this.premiumService.countActive(),
+      this.premiumService.getActive(),
+      this.paymentService.getSummary(),
+      this.paymentService.getRecent(),
+    ]);
+
+    let message = `💎 <b>Premium</b>\n\nАктивных подписок: <b>${total}</b>\n\n`;
+    for (const user of users) {
+      message += `• ${this.formatPremiumUser(user)}\n`;
+    }
+    if (total > users.length) {
+      message += `… и ещё ${total - users.length}\n`;
+    }
+
+    message += `\n⭐ <b>Оплаты:</b> ${payments.paid} на ${payments.stars} ⭐`;
+    message += payments.refunded ? `, возвратов: ${payments.refunded}\n` : '\n';
+    for (const payment of recent) {
+      const status = payment.status === 'refunded' ? '↩️' : '✅';
+      message +=
+        `${status} ${payment.amount} ⭐ от <code>${payment.userId}</code>, ` +
+        `${payment.createdAt.toLocaleDateString('ru-RU')}\n` +
+        `    <code>${payment.chargeId}</code>\n`;
+    }
+    if (recent.length > 0) {
+      message += `\nВозврат: /refund &lt;charge_id&gt;\n`;
     }
 
     const keyboard = new InlineKeyboard()
-      .text('➕ Создать объявление', 'admin:ad:create')
-      .row()
-      .text('📝 Редактировать', 'admin:ad:list:edit')
-      .text('🗑 Удалить', 'admin:ad:list:delete')
-      .row()
-      .text('🔄 Вкл/Выкл', 'admin:ad:list:toggle')
+      .text('➕ Выдать / ➖ забрать', 'admin:premium:find')
       .row()
       .text('« Назад', 'admin:main');
 
-    await ctx.editMessageText(message, {
-      parse_mode: 'Markdown',
-      reply_markup: keyboard,
+    if (edit) {
+      await ctx.editMessageText(message, {
+        parse_mode: 'HTML',
+        reply_markup: keyboard,
+      });
+    } else {
+      await ctx.reply(message, { parse_mode: 'HTML', reply_markup: keyboard });
+    }
+  }
+
+  async askPremiumUser(ctx: Context): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    await ctx.answerCallbackQuery();
+    await this.conversations.start(userId, 'premium:user', {});
+
+    await ctx.reply('🆔 Введи Telegram ID пользователя:', {
+      reply_markup: new InlineKeyboard().text('❌ Отменить', 'admin:premium'),
     });
   }
 
-  async showAdsList(
-    ctx: Context,
-    action: 'edit' | 'delete' | 'toggle',
-  ): Promise<void> {
-    const ads = await this.advertisementService.getAll();
+  async handlePremiumUserInput(ctx: Context): Promise<void> {
+    const userId = ctx.from?.id;
+    const text = ctx.message?.text?.trim();
+    if (!userId || !text) return;
 
-    if (ads.length === 0) {
-      await ctx.answerCallbackQuery({ text: 'Нет объявлений' });
+    if (!/^\d+$/.test(text)) {
+      await ctx.reply('❌ ID — это число, например 123456789');
       return;
     }
 
-    const keyboard = new InlineKeyboard();
-
-    ads.forEach((ad) => {
-      const status = ad.isActive ? '✅' : '❌';
-      const preview = ad.content.substring(0, 20);
-      keyboard
-        .text(`${status} ${ad.id}: ${preview}`, `admin:ad:${action}:${ad.id}`)
-        .row();
+    const user = await this.prisma.user.findUnique({
+      where: { id: BigInt(text) },
     });
+    if (!user) {
+      await ctx.reply('❌ Пользователь не найден (он ещё не писал боту)');
+      return;
+    }
 
-    keyboard.text('« Назад', 'admin:ads');
+    await this.conversations.leave(userId);
 
-    const actionText = {
-      edit: 'редактирования',
-      delete: 'удаления',
-      toggle: 'переключения',
-    }[action];
+    const isPremium = await this.premiumService.isPremium(user.id);
+    const keyboard = new InlineKeyboard();
+    for (const days of ['7', '30', '90', '365']) {
+      keyboard.text(`+${days} дн.`, `admin:premium:grant:${user.id}:${days}`);
+    }
+    keyboard
+      .row()
+      .text('♾ Бессрочно', `admin:premium:grant:${user.id}:forever`)
+      .row();
+    if (isPremium) {
+      keyboard
+        .text('➖ Забрать Premium', `admin:premium:revoke:${user.id}`)
+        .row();
+    }
+    keyboard.text('« Назад', 'admin:premium');
 
-    await ctx.editMessageText(`Выберите объявление для ${actionText}:`, {
-      reply_markup: keyboard,
-    });
+    await ctx.reply(
+      `👤 ${this.formatPremiumUser(user)}\n` +
+        `Тариф: <b>${isPremium ? '💎 Premium' : 'Free'}</b>`,
+      { parse_mode: 'HTML', reply_markup: keyboard },
+    );
   }
 
-  async toggleAd(ctx: Context, adId: number): Promise<void> {
+  async grantPremium(
+    ctx: Context,
+    targetId: string,
+    duration: string,
+  ): Promise<void> {
+    const days = duration === 'forever' ? null : parseInt(duration, 10);
+
     try {
-      const ad = await this.advertisementService.toggleActive(adId);
-      const status = ad.isActive ? 'активировано' : 'деактивировано';
+      const user = await this.premiumService.grant(BigInt(targetId), days);
+      await this.audit(ctx, 'premium.grant', targetId, { days });
+      await ctx.answerCallbackQuery({ text: '✅ Premium выдан' });
+
+      const until = user.premiumUntil
+        ? `до ${user.premiumUntil.toLocaleDateString('ru-RU')}`
+        : 'бессрочно';
+      await ctx.api
+        .sendMessage(
+          targetId,
+          `💎 Тебе выдан Premium ${until}!\n\n` +
+            `Загрузки без очереди, качество выше, лимиты больше и без рекламы.`,
+        )
+        .catch(() => {});
 
-      await ctx.answerCallbackQuery({ text: `✅ Объявление ${status}` });
-      await this.showAdsMenu(ctx);
-    } catch (error) {
-      await ctx.answerCallbackQuery({ text: '❌ Ошибка' });
+      await this.showPremiumMenu(ctx);
+    } catch (error: any) {
+      this.logger.error('Ошибка выдачи Premium:', error);
+      await ctx.answerCallbackQuery({ text: `❌ ${error.message}` });
     }
   }
 
-  async deleteAd(ctx: Context, adId: number): Promise<void> {
+  async revokePremium(ctx: Context, targetId: string): Promise<void> {
     try {
-      await this.advertisementService.delete(adId);
-      await ctx.answerCallbackQuery({ text: '✅ Объявление удалено' });
-      await this.showAdsMenu(ctx);
+      await this.premiumService.revoke(BigInt(targetId));
+      await this.audit(ctx, 'premium.revoke', targetId);
+      await ctx.answerCallbackQuery({ text: '✅ Premium отозван' });
+      await this.showPremiumMenu(ctx);
     } catch (error) {
+      this.logger.error('Ошибка отзыва Premium:', error);
       await ctx.answerCallbackQuery({ text: '❌ Ошибка' });
     }
   }
 
-  async showChannelsMenu(ctx: Context): Promise<void> {
-    const channels = await this.channelService.getAll();
+  private formatPremiumUser(user: {
+    id: bigint;
+    username: string | null;
+    firstName: string | null;
+    premiumUntil: Date | null;
+  }): string {
+    const name = user.username
+      ? `@${user.username}`
+      : escapeHtml(user.firstName || 'Без имени');
+    const until = user.premiumUntil
+      ? ` — до ${user.premiumUntil.toLocaleDateString('ru-RU')}`
+      : '';
+    return `${name} (<code>${user.id}</code>)${until}`;
+  }
+
+  // ============= ПОЛЬЗОВАТЕЛИ И БАНЫ =============
+
+  private static readonly BAN_DURATIONS: [string, string][] = [
+    ['1h', '1 час'],
+    ['1d', '1 день'],
+    ['7d', '7 дней'],
+    ['30d', '30 дней'],
+    ['forever', 'Навсегда'],
+  ];
+
+  async showUsersMenu(ctx: Context, edit = true): Promise<void> {
+    const userId = ctx.from?.id;
+    if (userId) await this.conversations.leave(userId, 'users:');
+
+    const [stats, banned] = await Promise.all([
+      this.userService.getStats(),
+      this.banService.countBanned(),
+    ]);
+
+    const message =
+      `👤 <b>Пользователи</b>\n\n` +
+      `Всего: <b>${stats.totalUsers}</b>\n` +
+      `Забанено: <b>${banned}</b>\n\n` +
+      `Команды:\n` +
+      `/user &lt;id|@username&gt; — профиль\n` +
+      `/ban &lt;id|@username&gt; [30m|12h|7d|forever] [причина]\n` +
+      `/unban &lt;id|@username&gt;`;
+
+    const keyboard = new InlineKeyboard()
+      .text('🔎 Найти пользователя', 'admin:users:find')
+      .row()
+      .text(`⛔ Забаненные (${banned})`, 'admin:users:banned:0')
+      .row()
+      .text('« Назад', 'admin:main');
+
+    if (edit) {
+      await ctx.editMessageText(message, {
+        parse_mode: 'HTML',
+        reply_markup: keyboard,
+      });
+    } else {
+      await ctx.reply(message, { parse_mode: 'HTML', reply_markup: keyboard });
+    }
+  }
+
+  async askUserSearch(ctx: Context): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    await ctx.answerCallbackQuery();
+    await this.conversations.start(userId, 'users:search', {});
+
+    await ctx.reply('🔎 Введи Telegram ID, @username или имя:', {
+      reply_markup: new InlineKeyboard().text('❌ Отменить', 'admin:users'),
+    });
+  }
+
+  async handleUserSearch(ctx: Context): Promise<void> {
+    const userId = ctx.from?.id;
+    const text = ctx.message?.text?.trim();
+    if (!userId || !text) return;
+
+    const users = await this.userService.search(text);
+    if (users.length === 0) {
+      await ctx.reply('❌ Никого не нашёл. Попробуй ещё раз:');
+      return;
+    }
+
+    await this.conversations.leave(userId);
+
+    if (users.length === 1) {
+      await this.showUserProfile(ctx, users[0].id.toString(), false);
+      return;
+    }
+
+    const keyboard = new InlineKeyboard();
+    for (const user of users) {
+      keyboard.text(this.userButtonTitle(user), `admin:user:${user.id}`).row();
+    }
+    keyboard.text('« Назад', 'admin:users');
+
+    await ctx.reply(`🔎 Найдено: ${users.length}`, { reply_markup: keyboard });
+  }
+
+  /**
+   * 👤 Профиль: активность, тариф, бан и последние загрузки
+   */
+  async showUserProfile(
+    ctx: Context,
+    targetId: string,
+    edit = true,
+  ): Promise<void> {
+    // «❌ Отменить» при вводе причины бана тоже ведёт сюда
+    const userId = ctx.from?.id;
+    if (userId) await this.conversations.leave(userId, 'users:');
+
+    const user = await this.userService.findById(BigInt(targetId));
+    if (!user) {
+      if (ctx.callbackQuery) {
+        await ctx.answerCallbackQuery({ text: '❌ Пользователь не найден' });
+      } else {
+        await ctx.reply('❌ Пользователь не найден');
+      }
+      return;
+    }
+
+    const [downloads, isPremium, isBanned] = await Promise.all([
+      this.userService.getRecentDownloads(user.id),
+      this.premiumService.isPremium(user.id),
+      this.userService.isBanned(user.id),
+    ]);
+
+    const name = escapeHtml(
+      [user.firstName, user.lastName].filter(Boolean).join(' ') || 'Без имени',
+    );
+    const date = (d: Date) => d.toLocaleDateString('ru-RU');
+    const dateTime = (d: Date) =>
+      d.toLocaleString('ru-RU', { dateStyle: 'short', timeStyle: 'short' });
+
+    let message =
+      `👤 <b>${name}</b>${user.username ? ` @${user.username}` : ''}\n` +
+      `🆔 <code>${user.id}</code>\n`;
+    if (user.role && RoleService.isRole(user.role)) {
+      message += `${RoleService.ROLE_TITLES[user.role]}\n`;
+    }
+    if (user.languageCode) message += `🌐 Язык: ${user.languageCode}\n`;
+    message +=
+      `💎 Тариф: ${isPremium ? `Premium${user.premiumUntil ? ` до ${date(user.premiumUntil)}` : ''}` : 'Free'}\n` +
+      `📥 Загрузок: ${user.totalDownloads}\n` +
+      `📅 С нами с ${date(user.createdAt)}\n` +
+      `🕐 Активность: ${dateTime(user.lastActiveAt)}\n`;
+    if (!user.isReachable) {
+      message += `🚫 Заблокировал бота${user.blockedAt ? ` ${date(user.blockedAt)}` : ''}\n`;
+    }
+
+    if (isBanned) {
+      message +=
+        `\n⛔ <b>Забанен</b> ${this.formatBanUntil(user.bannedUntil)}` +
+        (user.bannedAt ? ` (с ${dateTime(user.bannedAt)})` : '') +
+        `\n`;
+      if (user.banReason) {
+        message += `Причина: ${escapeHtml(user.banReason)}\n`;
+      }
+    }
+
+    if (downloads.length > 0) {
+      message += `\n📜 <b>Последние загрузки:</b>\n`;
+      for (const download of downloads) {
+        const title = escapeHtml(
+          (download.cachedFile.title || download.cachedFile.originalUrl).slice(
+            0,
+            60,
+          ),
+        );
+        message +=
+          `• ${dateTime(download.downloadedAt)} — ${title}` +
+          `${download.wasFromCache ? ' ⚡' : ''}\n`;
+      }
+    }
+
+    const keyboard = new InlineKeyboard();
+    if (isBanned) {
+      keyboard.text('✅ Разбанить', `admin:user:unban:${user.id}`).row();
+    } else if (!user.role) {
+      keyboard.text('⛔ Забанить', `admin:user:ban:${user.id}`).row();
+    }
+    keyboard.text('« Назад', 'admin:users');
+
+    if (edit) {
+      await ctx.editMessageText(message, {
+        parse_mode: 'HTML',
+        reply_markup: keyboard,
+        link_preview_options: { is_disabled: true },
+      });
+    } else {
+      await ctx.reply(message, {
+        parse_mode: 'HTML',
+        reply_markup: keyboard,
+        link_preview_options: { is_disabled: true },
+      });
+    }
+  }
+
+  async askBanDuration(ctx: Context, targetId: string): Promise<void> {
+    await ctx.answerCallbackQuery();
+
+    const keyboard = new InlineKeyboard();
+    AdminScene.BAN_DURATIONS.forEach(([duration, title], idx) => {
+      keyboard.text(title, `admin:user:ban:${targetId}:${duration}`);
+      if (idx % 2 === 1) keyboard.row();
+    });
+    keyboard.row().text('« Назад', `admin:user:${targetId}`);
+
+    await ctx.editMessageText(
+      `⛔ Бан пользователя <code>${targetId}</code>\n\nНа какой срок?`,
+      { parse_mode: 'HTML', reply_markup: keyboard },
+    );
+  }
+
+  async askBanReason(
+    ctx: Context,
+    targetId: string,
+    duration: string,
+  ): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    await ctx.answerCallbackQuery();
+    await this.conversations.start<TempBanData>(userId, 'users:ban_reason', {
+      targetId,
+      duration,
+    });
+
+    const keyboard = new InlineKeyboard()
+      .text('⏭ Без причины', `admin:user:ban_go:${targetId}:${duration}`)
+      .row()
+      .text('❌ Отменить', `admin:user:${targetId}`);
+
+    await ctx.reply('✏️ Причина бана (её увидит пользователь):', {
+      reply_markup: keyboard,
+    });
+  }
+
+  async handleBanReason(ctx: Context, tempData: TempBanData): Promise<void> {
+    const userId = ctx.from?.id;
+    const text = ctx.message?.text?.trim();
+    const { targetId, duration } = tempData;
+    if (!userId || !text || !targetId || !duration) return;
+
+    await this.conversations.leave(userId);
+
+    await this.applyBan(ctx, targetId, duration, text.slice(0, 200));
+  }
+
+  async banWithoutReason(
+    ctx: Context,
+    targetId: string,
+    duration: string,
+  ): Promise<void> {
+    const userId = ctx.from?.id;
+    if (userId) await this.conversations.leave(userId, 'users:');
+
+    await ctx.answerCallbackQuery();
+    await this.applyBan(ctx, targetId, duration);
+  }
+
+  async unbanUser(ctx: Context, targetId: string): Promise<void> {
+    try {
+      await this.banService.unban(BigInt(targetId));
+      await this.audit(ctx, 'user.unban', targetId);
+      await ctx.answerCallbackQuery({ text: '✅ Бан снят' });
+      await ctx.api
+        .sendMessage(
+          targetId,
+          '✅ Ты разблокирован и снова можешь качать видео.',
+        )
+        .catch(() => {});
+      await this.showUserProfile(ctx, targetId);
+    } catch (error: any) {
+      await ctx.answerCallbackQuery({ text: `❌ ${error.message}` });
+    }
+  }
+
+  async showBannedList(ctx: Context, page: number): Promise<void> {
+    const pageSize = 10;
+    const [total, users] = await Promise.all([
+      this.banService.countBanned(),
+      this.banService.getBanned(page, pageSize),
+    ]);
+
+    let message = `⛔ <b>Забаненные</b> (${total})\n\n`;
+    if (total === 0) message += 'Никого 🎉';
+
+    const keyboard = new InlineKeyboard();
+    for (const user of users) {
+      message +=
+        `• ${escapeHtml(this.userButtonTitle(user))} — ${this.formatBanUntil(user.bannedUntil)}` +
+        (user.banReason ? `\n    ${escapeHtml(user.banReason)}` : '') +
+        `\n`;
+      keyboard.text(this.userButtonTitle(user), `admin:user:${user.id}`).row();
+    }
+
+    const pages = Math.ceil(total / pageSize);
+    if (page > 0) {
+      keyboard.text('◀️', `admin:users:banned:${page - 1}`);
+    }
+    if (page + 1 < pages) {
+      keyboard.text('▶️', `admin:users:banned:${page + 1}`);
+    }
+    keyboard.row().text('« Назад', 'admin:users');
+
+    await ctx.editMessageText(message, {
+      parse_mode: 'HTML',
+      reply_markup: keyboard,
+    });
+  }
+
+  /**
+   * ⛔ /ban <id|@username> [срок] [причина]
+   */
+  async handleBanCommand(ctx: Context, args: string): Promise<void> {
+    const [query, maybeDuration, ...rest] = args.trim().split(/\s+/);
+    if (!query) {
+      await ctx.reply(
+        'Использование: /ban <id|@username> [30m|12h|7d|forever] [причина]',
+      );
+      return;
+    }
+
+    const user = await this.userService.resolve(query);
+    if (!user) {
+      await ctx.reply('❌ Пользователь не найден');
+      return;
+    }
+
+    // Срок необязателен: без него второе слово — уже причина
+    let duration = 'forever';
+    let reason = rest.join(' ');
+    if (maybeDuration) {
+      if (BanService.parseDuration(maybeDuration) !== undefined) {
+        duration = maybeDuration;
+      } else {
+        reason = [maybeDuration, ...rest].join(' ');
+      }
+    }
+
+    await this.applyBan(ctx, user.id.toString(), duration, reason);
+  }
+
+  async handleUnbanCommand(ctx: Context, args: string): Promise<void> {
+    const user = await this.userService.resolve(args);
+    if (!user) {
+      await ctx.reply(
+        args.trim()
+          ? '❌ Пользователь не найден'
+          : 'Использование: /unban <id|@username>',
+      );
+      return;
+    }
+
+    try {
+      await this.banService.unban(user.id);
+      await this.audit(ctx, 'user.unban', user.id);
+      await ctx.api
+        .sendMessage(
+          user.id.toString(),
+          '✅ Ты разблокирован и снова можешь качать видео.',
+        )
+        .catch(() => {});
+      await this.showUserProfile(ctx, user.id.toString(), false);
+    } catch (error: any) {
+      await ctx.reply(`❌ ${error.message}`);
+    }
+  }
+
+  async handleUserCommand(ctx: Context, args: string): Promise<void> {
+    if (!args.trim()) {
+      await ctx.reply('Использование: /user <id|@username>');
+      return;
+    }
+
+    const user = await this.userService.resolve(args);
+    if (!user) {
+      await ctx.reply('❌ Пользователь не найден');
+      return;
+    }
+
+    await this.showUserProfile(ctx, user.id.toString(), false);
+  }
+
+  private async applyBan(
+    ctx: Context,
+    targetId: string,
+    duration: string,
+    reason?: string,
+  ): Promise<void> {
+    const adminId = ctx.from?.id;
+    const durationMs = BanService.parseDuration(duration);
+    if (!adminId || durationMs === undefined) return;
+
+    try {
+      const user = await this.banService.ban(BigInt(targetId), {
+        durationMs,
+        reason,
+        by: BigInt(adminId),
+      });
+      await this.audit(ctx, 'user.ban', targetId, {
+        duration,
+        reason: reason || null,
+      });
+
+      await ctx.api
+        .sendMessage(
+          targetId,
+          `⛔ Ты заблокирован ${this.formatBanUntil(user.bannedUntil)}.` +
+            (user.banReason ? `\n\nПричина: ${user.banReason}` : ''),
+        )
+        .catch(() => {});
+
+      await this.showUserProfile(ctx, targetId, false);
+    } catch (error: any) {
+      this.logger.error('Ошибка бана:', error);
+      await ctx.reply(`❌ ${error.message}`);
+    }
+  }
+
+  private async audit(
+    ctx: Context,
+    action: AuditAction,
+    target?: string | number | bigint,
+    details?: Record<string, unknown>,
+  ): Promise<void> {
+    await this.auditService.log(ctx.from?.id, action, target, details);
+  }
+
+  private formatBanUntil(bannedUntil: Date | null): string {
+    return bannedUntil
+      ? `до ${bannedUntil.toLocaleString('ru-RU', { dateStyle: 'short', timeStyle: 'short' })}`
+      : 'навсегда';
+  }
+
+  private userButtonTitle(user: {
+    id: bigint;
+    username: string | null;
+    firstName: string | null;
+  }): string {
+    return user.username
+      ? `@${user.username}`
+      : `${user.firstName || 'Без имени'} (${user.id})`;
+  }
+
+  // ============= РАССЫЛКИ =============
+
+  async showBroadcastMenu(ctx: Context, edit = true): Promise<void> {
+    const userId = ctx.from?.id;
+    if (userId) await this.conversations.leave(userId, 'broadcast:');
+
+    const current = await this.broadcastService.getCurrent();
+    let message: string;
+    let keyboard: InlineKeyboard;
+
+    if (current) {
+      message = this.broadcastService.renderProgress(current);
+      keyboard =
+        this.broadcastService.controlsKeyboard(current) ?? new InlineKeyboard();
+      keyboard.row().text('« Назад', 'admin:main');
+    } else {
+      const last = await this.broadcastService.getLast();
+      message =
+        `📨 <b>Рассылка</b>\n\n` +
+        `Сообщение с любым медиа и кнопками всем пользователям или сегменту: ` +
+        `активным, Premium, по языку. Заблокировавшим бота не отправляется.`;
+      if (last) {
+        message += `\n\n<b>Последняя:</b>\n${this.broadcastService.renderProgress(last)}`;
+      }
+      keyboard = new InlineKeyboard()
+        .text('✍️ Новая рассылка', 'admin:bc:new')
+        .row()
+        .text('« Назад', 'admin:main');
+    }
+
+    if (edit) {
+      await ctx.editMessageText(message, {
+        parse_mode: 'HTML',
+        reply_markup: keyboard,
+      });
+    } else {
+      await ctx.reply(message, { parse_mode: 'HTML', reply_markup: keyboard });
+    }
+  }
+
+  async startBroadcast(ctx: Context): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    if (await this.broadcastService.getCurrent()) {
+      await ctx.answerCallbackQuery({
+        text: '⚠️ Уже идёт рассылка — дождись её или останови',
+        show_alert: true,
+      });
+      return;
+    }
+
+    await ctx.answerCallbackQuery();
+    await this.conversations.start<TempBroadcastData>(
+      userId,
+      'broadcast:message',
+      {},
+    );
+    await this.askBroadcastMessage(ctx);
+  }
+
+  private async askBroadcastMessage(ctx: Context): Promise<void> {
+    await ctx.reply(
+      '✍️ Отправь сообщение для рассылки: текст или фото, видео, GIF, файл с подписью.\n\n' +
+        'Форматирование сохранится, кнопки добавим следующим шагом.\n\n' +
+        '/back — шаг назад, /cancel — отмена',
+      {
+        reply_markup: new InlineKeyboard().text(
+          '❌ Отменить',
+          'admin:broadcast',
+        ),
+      },
+    );
+  }
+
+  /**
+   * ✍️ Сообщение рассылки: текст или одно медиа с подписью
+   */
+  async handleBroadcastMessage(ctx: Context): Promise<void> {
+    const userId = ctx.from?.id;
+    const message = ctx.message;
+    if (!userId || !message) return;
+
+    const item = this.extractMedia(message);
+    const content = message.text ?? message.caption ?? '';
+    if (!item && !content) {
+      await ctx.reply('❌ Отправь текст или медиа с подписью');
+      return;
+    }
+
+    await this.conversations.update<TempBroadcastData>(userId, {
+      content: {
+        content,
+        entities: message.entities ?? message.caption_entities,
+        media: item ? [item] : null,
+      },
+    });
+
+    // Альбом приходит пачкой сообщений — остальные уже не в этом состоянии
+    const note = message.media_group_id
+      ? 'ℹ️ Из альбома в рассылку попадёт только первое медиа.\n\n'
+      : '';
+    await this.askBroadcastButtonChoice(ctx, note);
+  }
+
+  private async askBroadcastButtonChoice(
+    ctx: Context,
+    note = '',
+  ): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    await this.conversations.next(userId, 'broadcast:button_choice');
+
+    const keyboard = new InlineKeyboard()
+      .text('🔘 Добавить кнопки', 'admin:bc:add_buttons')
+      .row()
+      .text('⏭ Без кнопок', 'admin:bc:audience')
+      .row()
+      .text('❌ Отменить', 'admin:broadcast');
+
+    await ctx.reply(`✅ Сообщение принято.\n\n${note}🔘 Добавить кнопки?`, {
+      reply_markup: keyboard,
+    });
+  }
+
+  async addBroadcastButtons(ctx: Context): Promise<void> {
+    await ctx.answerCallbackQuery();
+    await this.askBroadcastButtons(ctx);
+  }
+
+  private async askBroadcastButtons(ctx: Context): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    await this.conversations.next(userId, 'broadcast:buttons');
+
+    await ctx.reply(AdminScene.BUTTONS_PROMPT, {
+      reply_markup: new InlineKeyboard().text('❌ Отменить', 'admin:broadcast'),
+    });
+  }
+
+  async handleBroadcastButtons(
+    ctx: Context,
+    tempData: TempBroadcastData,
+  ): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId || !ctx.message?.text || !tempData.content) return;
+
+    const buttons = this.parseButtons(ctx.message.text);
+    if (typeof buttons === 'string') {
+      await ctx.reply(`❌ ${buttons}\n\n${AdminScene.BUTTONS_PROMPT}`);
+      return;
+    }
+
+    await this.conversations.update<TempBroadcastData>(userId, {
+      content: { ...tempData.content, buttons },
+    });
+    await this.showBroadcastAudience(ctx);
+  }
+
+  /**
+   * 👥 Выбор аудитории — с числом получателей в каждом сегменте
+   */
+  async showBroadcastAudience(ctx: Context): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    const state = await this.conversations.get<TempBroadcastData>(userId);
+    if (!state?.step.startsWith('broadcast:') || !state.data.content) {
+      if (ctx.callbackQuery) {
+        await ctx.answerCallbackQuery({ text: '❌ Начни рассылку заново' });
+      }
+      return;
+    }
+
+    await this.conversations.next(userId, 'broadcast:audience');
+
+    const [all, week, month, premium] = await Promise.all([
+      this.broadcastService.countAudience({ type: 'all' }),
+      this.broadcastService.countAudience({ type: 'active', days: 7 }),
+      this.broadcastService.countAudience({ type: 'active', days: 30 }),
+      this.broadcastService.countAudience({ type: 'premium' }),
+    ]);
+
+    const keyboard = new InlineKeyboard()
+      .text(`👥 Все (${all})`, 'admin:bc:aud:all')
+      .row()
+      .text(`🔥 Активные за 7 дней (${week})`, 'admin:bc:aud:active:7')
+      .row()
+      .text(`📅 Активные за 30 дней (${month})`, 'admin:bc:aud:active:30')
+      .row()
+      .text(`💎 Premium (${premium})`, 'admin:bc:aud:premium')
+      .row()
+      .text('🌐 По языку', 'admin:bc:aud:language')
+      .row()
+      .text('❌ Отменить', 'admin:broadcast');
+
+    const message = '👥 Кому отправить?';
+
+    if (ctx.callbackQuery) {
+      await ctx.answerCallbackQuery();
+      await ctx.editMessageText(message, { reply_markup: keyboard });
+    } else {
+      await ctx.reply(message, { reply_markup: keyboard });
+    }
+  }
+
+  async setBroadcastAudience(ctx: Context, choice: string): Promise<void> {
+    const userId = ctx.from?.id;
+    const state = userId
+      ? await this.conversations.get<TempBroadcastData>(userId)
+      : null;
+    if (
+      !userId ||
+      !state?.step.startsWith('broadcast:') ||
+      !state.data.content
+    ) {
+      await ctx.answerCallbackQuery({ text: '❌ Начни рассылку заново' });
+      return;
+    }
+
+    await ctx.answerCallbackQuery();
+
+    if (choice === 'language') {
+      await this.askBroadcastLanguage(ctx);
+      return;
+    }
+
+    const [type, days] = choice.split(':');
+    const audience: BroadcastAudience =
+      type === 'active'
+        ? { type: 'active', days: parseInt(days, 10) }
+        : type === 'premium'
+          ? { type: 'premium' }
+          : { type: 'all' };
+
+    await this.conversations.update<TempBroadcastData>(userId, { audience });
+    await this.showBroadcastPreview(ctx);
+  }
+
+  private async askBroadcastLanguage(ctx: Context): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    await this.conversations.next(userId, 'broadcast:language');
+    await ctx.reply('🌐 Введи код языка Telegram: ru, uz, en…', {
+      reply_markup: new InlineKeyboard().text('❌ Отменить', 'admin:broadcast'),
+    });
+  }
+
+  async handleBroadcastLanguage(ctx: Context): Promise<void> {
+    const userId = ctx.from?.id;
+    const text = ctx.message?.text?.trim().toLowerCase();
+    if (!userId || !text) return;
+
+    if (!/^[a-z]{2,3}$/.test(text)) {
+      await ctx.reply('❌ Код языка — 2-3 латинские буквы, например ru');
+      return;
+    }
+
+    await this.conversations.update<TempBroadcastData>(userId, {
+      audience: { type: 'language', language: text },
+    });
+    await this.showBroadcastPreview(ctx);
+  }
+
+  /**
+   * 👁 Предпросмотр рассылки и число получателей перед запуском
+   */
+  async showBroadcastPreview(ctx: Context): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    const tempData = (await this.conversations.get<TempBroadcastData>(userId))
+      ?.data;
+    if (!tempData?.content || !tempData.audience || !ctx.chat) return;
+
+    await this.conversations.next(userId, 'broadcast:confirm');
+
+    try {
+      await this.advertisementService.sendContent(
+        ctx.api,
+        ctx.chat.id,
+        tempData.content,
+      );
+    } catch (error: any) {
+      this.logger.error('Ошибка предпросмотра рассылки:', error);
+      await ctx.reply(
+        `❌ Telegram не принял сообщение: ${error.message}\n\nНачни заново.`,
+        {
+          reply_markup: new InlineKeyboard().text('« Назад', 'admin:broadcast'),
+        },
+      );
+      await this.conversations.leave(userId);
+      return;
+    }
+
+    const total = await this.broadcastService.countAudience(tempData.audience);
+
+    const keyboard = new InlineKeyboard();
+    if (total > 0) {
+      keyboard.text('🚀 Начать рассылку', 'admin:bc:start').row();
+    }
+    keyboard
+      .text('👥 Другая аудитория', 'admin:bc:audience')
+      .row()
+      .text('❌ Отменить', 'admin:broadcast');
+
+    await ctx.reply(
+      `👆 Так сообщение увидят пользователи.\n\n` +
+        `👥 Аудитория: ${this.broadcastService.describeAudience(tempData.audience)}\n` +
+        `📬 Получателей: ${total}` +
+        (total > 0 ? '\n\nЗапускаем?' : '\n\n❌ Под фильтр никто не попал'),
+      { reply_markup: keyboard },
+    );
+  }
+
+  async launchBroadcast(ctx: Context): Promise<void> {
+    const userId = ctx.from?.id;
+    const state = userId
+      ? await this.conversations.get<TempBroadcastData>(userId)
+      : null;
+    const tempData = state?.data;
+    if (
+      !userId ||
+      !ctx.chat ||
+      state?.step !== 'broadcast:confirm' ||
+      !tempData?.content ||
+      !tempData.audience
+    ) {
+      await ctx.answerCallbackQuery({ text: '❌ Начни рассылку заново' });
+      return;
+    }
+
+    try {
+      await this.broadcastService.start(
+        userId,
+        ctx.chat.id,
+        tempData.content,
+        tempData.audience,
+      );
+      await this.audit(ctx, 'broadcast.start', undefined, {
+        audience: tempData.audience,
+      });
+      await this.conversations.leave(userId);
+
+      await ctx.answerCallbackQuery({ text: '🚀 Рассылка запущена' });
+      await ctx.editMessageReplyMarkup().catch(() => {});
+    } catch (error: any) {
+      this.logger.error('Ошибка запуска рассылки:', error);
+      await ctx.answerCallbackQuery({
+        text: `❌ ${error.message}`,
+        show_alert: true,
+      });
+    }
+  }
+
+  /**
+   * ⏸ ▶️ ⛔ Управление идущей рассылкой (из сообщения прогресса или меню)
+   */
+  async controlBroadcast(
+    ctx: Context,
+    action: 'pause' | 'resume' | 'cancel',
+  ): Promise<void> {
+    const titles = {
+      pause: '⏸ Рассылка на паузе',
+      resume: '▶️ Рассылка продолжается',
+      cancel: '⛔ Рассылка остановлена',
+    };
+
+    try {
+      const broadcast = await this.broadcastService[action]();
+      await this.audit(ctx, `broadcast.${action}`, broadcast.id);
+      await ctx.answerCallbackQuery({ text: titles[action] });
+
+      // Сообщение прогресса сервис обновляет сам, меню — перерисовываем
+      if (ctx.callbackQuery?.message?.message_id !== broadcast.progressMsgId) {
+        await this.showBroadcastMenu(ctx);
+      }
+    } catch (error: any) {
+      await ctx.answerCallbackQuery({ text: `⚠️ ${error.message}` });
+    }
+  }
+
+  // ============= АДМИНЫ И ЖУРНАЛ =============
+
+  async showAdminsMenu(ctx: Context): Promise<void> {
+    const admins = await this.roleService.listAdmins();
+
+    let message = `🛡 <b>Админы</b>\n\n`;
+    for (const admin of admins) {
+      const name = escapeHtml(
+        admin.username ? `@${admin.username}` : admin.firstName || 'Без имени',
+      );
+      message += `${RoleService.ROLE_TITLES[admin.role]} — ${name} (<code>${admin.id}</code>)\n`;
+    }
+    if (admins.length === 0) {
+      message += `<i>Никого нет — владельцы задаются в OWNER_IDS</i>\n`;
+    }
+
+    message +=
+      `\n<b>Команды:</b>\n` +
+      `/addadmin &lt;id|@username&gt; &lt;admin|moderator|ad_manager&gt;\n` +
+      `/removeadmin &lt;id|@username&gt;\n\n` +
+      `Назначать и снимать можно только тех, кто ниже тебя по роли.`;
+
+    const keyboard = new InlineKeyboard()
+      .text('📜 Журнал действий', 'admin:audit')
+      .row()
+      .text('« Назад', 'admin:main');
+
+    await ctx.editMessageText(message, {
+      parse_mode: 'HTML',
+      reply_markup: keyboard,
+    });
+  }
+
+  async showAuditLog(ctx: Context): Promise<void> {
+    const entries = await this.auditService.getRecent(20);
+    const actors = await this.prisma.user.findMany({
+      where: { id: { in: [...new Set(entries.map((e) => e.actorId))] } },
+      select: { id: true, username: true, firstName: true },
+    });
+    const actorNames = new Map(
+      actors.map((actor) => [actor.id, this.userButtonTitle(actor)]),
+    );
+
+    let message = `📜 <b>Журнал действий</b>\n\n`;
+    for (const entry of entries) {
+      const when = entry.createdAt.toLocaleString('ru-RU', {
+        dateStyle: 'short',
+        timeStyle: 'short',
+      });
+      const actor = escapeHtml(
+        actorNames.get(entry.actorId) ?? entry.actorId.toString(),
+      );
+      const title =
+        AuditService.ACTION_TITLES[entry.action as AuditAction] ?? entry.action;
+      message +=
+        `• ${when} — ${actor} ${title}` +
+        (entry.target ? ` <code>${escapeHtml(entry.target)}</code>` : '') +
+        `\n`;
+    }
+    if (entries.length === 0) {
+      message += `<i>Пока пусто</i>`;
+    }
+
+    const keyboard = new InlineKeyboard().text('« Назад', 'admin:admins');
+
+    await ctx.editMessageText(message, {
+      parse_mode: 'HTML',
+      reply_markup: keyboard,
+    });
+  }
+
+  /**
+   * /addadmin <id|@username> <admin|moderator|ad_manager>
+   */
+  async handleAddAdminCommand(ctx: Context, args: string): Promise<void> {
+    const actorId = ctx.from?.id;
+    if (!actorId) return;
+
+    const [query, rawRole] = args.trim().split(/\s+/);
+    const role = rawRole?.toLowerCase().replace('-', '_');
+    if (!query || !role || !RoleService.isRole(role) || role === 'owner') {
+      await ctx.reply(
+        'Использование: /addadmin <id|@username> <admin|moderator|ad_manager>',
+      );
+      return;
+    }
+
+    const user = await this.userService.resolve(query);
+    if (!user) {
+      await ctx.reply('❌ Пользователь не найден — пусть сначала напишет боту');
+      return;
+    }
+
+    try {
+      await this.roleService.setRole(BigInt(actorId), user.id, role);
+      await this.audit(ctx, 'role.set', user.id, { role });
+      await ctx.reply(
+        `✅ ${this.userButtonTitle(user)} — ${RoleService.ROLE_TITLES[role]}`,
+      );
+    } catch (error: any) {
+      await ctx.reply(`❌ ${error.message}`);
+    }
+  }
+
+  /**
+   * /removeadmin <id|@username>
+   */
+  async handleRemoveAdminCommand(ctx: Context, args: string): Promise<void> {
+    const actorId = ctx.from?.id;
+    if (!actorId) return;
+
+    if (!args.trim()) {
+      await ctx.reply('Использование: /removeadmin <id|@username>');
+      return;
+    }
+
+    const user = await this.userService.resolve(args);
+    if (!user) {
+      await ctx.reply('❌ Пользователь не найден');
+      return;
+    }
+
+    try {
+      const previousRole = user.role;
+      await this.roleService.removeRole(BigInt(actorId), user.id);
+      await this.audit(ctx, 'role.remove', user.id, { role: previousRole });
+      await ctx.reply(`✅ ${this.userButtonTitle(user)} больше не в админке`);
+    } catch (error: any) {
+      await ctx.reply(`❌ ${error.message}`);
+    }
+  }
+
+  // ============= ГЛАВНОЕ МЕНЮ =============
+
+  // Кнопки главного меню; роль видит только свои разделы
+  private static readonly MENU_SECTIONS: [AdminSection, string, string][] = [
+    ['ads', '📣 Управление рекламой', 'admin:ads'],
+    ['channels', '📢 Управление каналами', 'admin:channels'],
+    ['quota', '🚦 Лимиты', 'admin:quota'],
+    ['premium', '💎 Premium', 'admin:premium'],
+    ['users', '👤 Пользователи', 'admin:users'],
+    ['broadcast', '📨 Рассылка', 'admin:broadcast'],
+    ['stats', '📊 Статистика', 'admin:stats'],
+    ['export', '📤 Экспорт', 'admin:export'],
+    ['admins', '🛡 Админы', 'admin:admins'],
+  ];
+
+  async showMainMenu(ctx: Context): Promise<void> {
+    const userId = ctx.from?.id;
+    const role = userId ? await this.roleService.getRole(BigInt(userId)) : null;
+    if (!role) return;
+
+    const sections = this.roleService.sectionsFor(role);
+    const keyboard = new InlineKeyboard();
+    for (const [section, title, data] of AdminScene.MENU_SECTIONS) {
+      if (sections.includes(section)) {
+        keyboard.text(title, data).row();
+      }
+    }
+
+    await ctx.reply(
+      `⚙️ *Админ-панель*\n\nРоль: ${RoleService.ROLE_TITLES[role]}`,
+      {
+        parse_mode: 'Markdown',
+        reply_markup: keyboard,
+      },
+    );
+  }
+
+  async showAdsMenu(ctx: Context): Promise<void> {
+    // «❌ Отменить» в мастере объявления ведёт сюда
+    const userId = ctx.from?.id;
+    if (userId) await this.conversations.leave(userId, 'ad:');
+
+    const ads = await this.advertisementService.getAll();
+    const stats = await this.advertisementService.getTotalStats();
+
+    let message = `📣 *Реклама*\n\n`;
+    message += `📊 Общая статистика:\n`;
+    message += `• Всего объявлений: ${stats.totalAds}\n`;
+    message += `• Активных: ${stats.activeAds}\n`;
+    message += `• Просмотров: ${stats.totalViews}\n`;
+    message += `• Кликов: ${stats.totalClicks}\n`;
+    message += `• CTR: ${stats.ctr}\n\n`;
+
+    if (ads.length > 0) {
+      message += `*Объявления:*\n\n`;
+      for (const ad of ads) {
+        const status = ad.isActive ? '✅' : '❌';
+        const preview =
+          ad.content.substring(0, 30) + (ad.content.length > 30 ? '...' : '');
+        message += `${status} ID:${ad.id} - ${preview}\n`;
+        message += `   👁 ${ad.viewCount} | 👆 ${ad.clickCount} | ⏱ каждые ${ad.showInterval} сообщений\n\n`;
+      }
+    } else {
+      message += `_Нет объявлений_\n\n`;
+    }
+
+    const keyboard = new InlineKeyboard()
+      .text('➕ Создать объявление', 'admin:ad:create')
+      .row()
+      .text('📝 Редактировать', 'admin:ad:list:edit')
+      .text('🗑 Удалить', 'admin:ad:list:delete')
+      .row()
+      .text('🔄 Вкл/Выкл', 'admin:ad:list:toggle')
+      .row()
+      .text('« Назад', 'admin:main');
+
+    await ctx.editMessageText(message, {
+      parse_mode: 'Markdown',
+      reply_markup: keyboard,
+    });
+  }
+
+  async showAdsList(
+    ctx: Context,
+    action: 'edit' | 'delete' | 'toggle',
+  ): Promise<void> {
+    const ads = await this.advertisementService.getAll();
+
+    if (ads.length === 0) {
+      await ctx.answerCallbackQuery({ text: 'Нет объявлений' });
+      return;
+    }
+
+    const keyboard = new InlineKeyboard();
+
+    ads.forEach((ad) => {
+      const status = ad.isActive ? '✅' : '❌';
+      const preview = ad.content.substring(0, 20);
+      keyboard
+        .text(`${status} ${ad.id}: ${preview}`, `admin:ad:${action}:${ad.id}`)
+        .row();
+    });
+
+    keyboard.text('« Назад', 'admin:ads');
+
+    const actionText = {
+      edit: 'редактирования',
+      delete: 'удаления',
+      toggle: 'переключения',
+    }[action];
+
+    await ctx.editMessageText(`Выберите объявление для ${actionText}:`, {
+      reply_markup: keyboard,
+    });
+  }
+
+  async toggleAd(ctx: Context, adId: number): Promise<void> {
+    try {
+      const ad = await this.advertisementService.toggleActive(adId);
+      await this.audit(ctx, 'ad.toggle', adId, { isActive: ad.isActive });
+      const status = ad.isActive ? 'активировано' : 'деактивировано';
+
+      await ctx.answerCallbackQuery({ text: `✅ Объявление ${status}` });
+      await this.showAdsMenu(ctx);
+    } catch {
+      await ctx.answerCallbackQuery({ text: '❌ Ошибка' });
+    }
+  }
+
+  async deleteAd(ctx: Context, adId: number): Promise<void> {
+    try {
+      await this.advertisementService.delete(adId);
+      await this.audit(ctx, 'ad.delete', adId);
+      await ctx.answerCallbackQuery({ text: '✅ Объявление удалено' });
+      await this.showAdsMenu(ctx);
+    } catch {
+      await ctx.answerCallbackQuery({ text: '❌ Ошибка' });
+    }
+  }
+
+  async showChannelsMenu(ctx: Context): Promise<void> {
+    const userId = ctx.from?.id;
+    if (userId) await this.conversations.leave(userId, 'channel:');
+
+    const channels = await this.channelService.getAll();
 
 let message = `📢 *__ОБЯЗАТЕЛЬНЫЕ КАНАЛЫ__*\n\n`;
 
@@ -914,30 +2771,322 @@ let message = `📢 *__ОБЯЗАТЕЛЬНЫЕ КАНАЛЫ__*\n\n`;
     });
   }
 
-  async showStats(ctx: Context): Promise<void> {
-    const userStats = await this.userService.getStats();
-    const adStats = await this.advertisementService.getTotalStats();
-    const sessionsCount = await this.prisma.videoSession.count();
-    const cacheStats = await this.cacheService.getStats();
+  // ============= ЭКСПОРТ =============
 
-    const message =
-      `📊 *Статистика бота*\n\n` +
-      `👥 *Пользователи:*\n` +
+  async showExportMenu(ctx: Context): Promise<void> {
+    // «❌ Отменить» при вводе дат ведёт сюда
+    const userId = ctx.from?.id;
+    if (userId) await this.conversations.leave(userId, 'export:');
+
+    const keyboard = new InlineKeyboard();
+    for (const [source, title] of Object.entries(ExportService.SOURCE_TITLES)) {
+      keyboard.text(title, `admin:export:${source}`).row();
+    }
+    keyboard.text('« Назад', 'admin:main');
+
+    await ctx.editMessageText(
+      `📤 <b>Экспорт</b>\n\nВыбери, что выгрузить в CSV или XLSX:`,
+      { parse_mode: 'HTML', reply_markup: keyboard },
+    );
+  }
+
+  async showExportRanges(ctx: Context, source: ExportSource): Promise<void> {
+    const userId = ctx.from?.id;
+    if (userId) await this.conversations.leave(userId, 'export:');
+
+    const keyboard = new InlineKeyboard()
+      .text('7 дней', `admin:export:${source}:7`)
+      .text('30 дней', `admin:export:${source}:30`)
+      .row()
+      .text('90 дней', `admin:export:${source}:90`)
+      .text('Всё время', `admin:export:${source}:all`)
+      .row()
+      .text('📅 Свои даты', `admin:export:${source}:custom`)
+      .row()
+      .text('« Назад', 'admin:export');
+
+    const message = `📤 <b>${ExportService.SOURCE_TITLES[source]}</b>\n\nЗа какой период?`;
+
+    await ctx.editMessageText(message, {
+      parse_mode: 'HTML',
+      reply_markup: keyboard,
+    });
+  }
+
+  async askExportDates(ctx: Context, source: ExportSource): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    await ctx.answerCallbackQuery();
+    await this.conversations.start<TempExportData>(userId, 'export:dates', {
+      source,
+    });
+
+    await ctx.reply(
+      '📅 Введи период в формате <code>01.09.2026-30.09.2026</code> (UTC, обе даты включительно):',
+      {
+        parse_mode: 'HTML',
+        reply_markup: new InlineKeyboard().text(
+          '❌ Отменить',
+          `admin:export:${source}`,
+        ),
+      },
+    );
+  }
+
+  async handleExportDates(ctx: Context, data: TempExportData): Promise<void> {
+    const userId = ctx.from?.id;
+    const text = ctx.message?.text;
+    if (!userId || !text || !data.source) return;
+
+    const range = this.exportService.parseDates(text);
+    if (!range) {
+      await ctx.reply(
+        '❌ Не понял даты. Пример: 01.09.2026-30.09.2026\n/cancel — выйти',
+      );
+      return;
+    }
+
+    await this.conversations.leave(userId);
+    await this.showExportFormats(ctx, data.source, range, false);
+  }
+
+  async showExportFormats(
+    ctx: Context,
+    source: ExportSource,
+    range: string,
+    edit = true,
+  ): Promise<void> {
+    const parsed = this.exportService.parseRange(range);
+    if (!parsed) return;
+
+    const rows = await this.exportService.count(source, parsed);
+    let message =
+      `📤 <b>${ExportService.SOURCE_TITLES[source]}</b> — ` +
+      `${this.exportService.rangeTitle(range)}\n\n`;
+
+    const keyboard = new InlineKeyboard();
+    if (rows === 0) {
+      message += 'За этот период данных нет.';
+    } else {
+      message += `Строк: <b>${rows}</b>\n\nФормат файла:`;
+      keyboard
+        .text('📄 CSV', `admin:export:${source}:${range}:csv`)
+        .text('📊 XLSX', `admin:export:${source}:${range}:xlsx`)
+        .row();
+    }
+    keyboard.text('« Назад', `admin:export:${source}`);
+
+    if (edit) {
+      await ctx.editMessageText(message, {
+        parse_mode: 'HTML',
+        reply_markup: keyboard,
+      });
+    } else {
+      await ctx.reply(message, { parse_mode: 'HTML', reply_markup: keyboard });
+    }
+  }
+
+  async runExport(
+    ctx: Context,
+    source: ExportSource,
+    range: string,
+    format: ExportFormat,
+  ): Promise<void> {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    const keyboard = new InlineKeyboard().text('« К экспорту', 'admin:export');
+    await ctx.editMessageText('⏳ Готовлю файл…');
+
+    try {
+      const { rows, queued } = await this.exportService.start({
+        chatId,
+        source,
+        format,
+        range,
+      });
+      if (rows > 0) {
+        await this.audit(ctx, 'data.export', source, { format, range, rows });
+      }
+
+      const message =
+        rows === 0
+          ? 'За этот период данных нет.'
+          : queued
+            ? `⏳ Строк: ${rows} — файл соберётся в фоне и придёт сюда отдельным сообщением.`
+            : `✅ Готово: ${rows} строк`;
+      await ctx.editMessageText(message, { reply_markup: keyboard });
+    } catch (error: any) {
+      this.logger.error(`❌ Экспорт ${source} (${range}): ${error.message}`);
+      await ctx.editMessageText(`❌ Экспорт не удался: ${error.message}`, {
+        reply_markup: keyboard,
+      });
+    }
+  }
+
+  // ============= СТАТИСТИКА =============
+
+  private static readonly PERIOD_TITLES: Record<StatsPeriod, string> = {
+    day: 'Сегодня',
+    week: '7 дней',
+    month: '30 дней',
+  };
+
+  private static readonly PREVIOUS_TITLES: Record<StatsPeriod, string> = {
+    day: 'вчера',
+    week: 'прошлые 7 дней',
+    month: 'прошлые 30 дней',
+  };
+
+  async showStats(ctx: Context, period: StatsPeriod = 'day'): Promise<void> {
+    const [userStats, adStats, sessionsCount, cacheStats, stats] =
+      await Promise.all([
+        this.userService.getStats(),
+        this.advertisementService.getTotalStats(),
+        this.prisma.videoSession.count(),
+        this.cacheService.getStats(),
+        this.statsService.compare(period),
+      ]);
+    const { current, previous } = stats;
+
+    let message =
+      `📊 <b>Статистика бота</b>\n\n` +
+      `👥 <b>Пользователи:</b>\n` +
       `• Всего: ${userStats.totalUsers}\n` +
       `• Активных сегодня: ${userStats.activeToday}\n` +
+      `• Доступны (не заблокировали бота): ${userStats.reachableUsers}\n` +
+      `• Заблокировали бота: ${userStats.blockedUsers}\n` +
       `• Видео-сессий: ${sessionsCount}\n` +
       `• Кеш: ${cacheStats.totalFiles}\n\n` +
-      `📣 *Реклама:*\n` +
+      `📣 <b>Реклама:</b>\n` +
       `• Объявлений: ${adStats.totalAds} (${adStats.activeAds} активных)\n` +
       `• Просмотров: ${adStats.totalViews}\n` +
       `• Кликов: ${adStats.totalClicks}\n` +
-      `• CTR: ${adStats.ctr}`;
+      `• CTR: ${adStats.ctr}\n\n` +
+      `📈 <b>${AdminScene.PERIOD_TITLES[period]}</b> (в скобках — ${AdminScene.PREVIOUS_TITLES[period]}):\n` +
+      `• Новых пользователей: ${this.formatChange(current.newUsers, previous.newUsers)}\n` +
+      `• Загрузок: ${this.formatChange(current.totalDownloads, previous.totalDownloads)}\n` +
+      `• Попаданий в кеш: ${this.formatRatioChange(StatsService.hitRatio(current), StatsService.hitRatio(previous))}\n` +
+      `• Ошибок загрузки: ${current.failedDownloads} — ${this.formatRatioChange(StatsService.failureRate(current), StatsService.failureRate(previous))}\n` +
+      `• Ожидание в очереди: ${this.formatWait(StatsService.avgQueueWait(current))} (${this.formatWait(StatsService.avgQueueWait(previous))})\n`;
+
+    const platforms = Object.entries(current.platforms)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, 5);
+    if (platforms.length > 0) {
+      message += `\n🌐 <b>Платформы:</b>\n`;
+      for (const [platform, count] of platforms) {
+        const share = Math.round((count / current.totalDownloads) * 100);
+        message += `• ${escapeHtml(platform)}: ${count} (${share}%)\n`;
+      }
+    }
 
-    const keyboard = new InlineKeyboard().text('« Назад', 'admin:main');
+    if (stats.topVideos.length > 0) {
+      message += `\n🔥 <b>Топ видео:</b>\n`;
+      stats.topVideos.forEach((video, idx) => {
+        message += `${idx + 1}. ${escapeHtml(video.title.slice(0, 60))} — ${video.downloads}\n`;
+      });
+    }
 
-    await ctx.editMessageText(message, {
-      parse_mode: 'Markdown',
+    const keyboard = new InlineKeyboard();
+    for (const [value, title] of Object.entries(AdminScene.PERIOD_TITLES)) {
+      keyboard.text(
+        value === period ? `• ${title} •` : title,
+        `admin:stats:${value}`,
+      );
+    }
+    keyboard
+      .row()
+      .text('📈 Графики', 'admin:stats:chart:downloads:30')
+      .row()
+      .text('« Назад', 'admin:main');
+
+    const options = {
+      parse_mode: 'HTML' as const,
+      reply_markup: keyboard,
+      link_preview_options: { is_disabled: true },
+    };
+
+    // Возврат с графика: фото в текст не отредактировать — шлём заново
+    if (ctx.callbackQuery?.message?.photo) {
+      await ctx.deleteMessage().catch(() => {});
+      await ctx.reply(message, options);
+      return;
+    }
+    await ctx.editMessageText(message, options);
+  }
+
+  /**
+   * 📈 График за days дней: фото с переключением метрики и периода
+   */
+  async showChart(
+    ctx: Context,
+    metric: ChartMetric,
+    days: number,
+  ): Promise<void> {
+    const { image, caption } = await this.chartService.render(metric, days);
+
+    const keyboard = new InlineKeyboard();
+    for (const [value, title] of Object.entries(ChartService.TITLES)) {
+      keyboard.text(
+        value === metric ? `• ${title} •` : title,
+        `admin:stats:chart:${value}:${days}`,
+      );
+    }
+    keyboard.row();
+    for (const period of ChartService.PERIODS) {
+      keyboard.text(
+        period === days ? `• ${period} дн. •` : `${period} дн.`,
+        `admin:stats:chart:${metric}:${period}`,
+      );
+    }
+    keyboard.row().text('« Назад', 'admin:stats');
+
+    const photo = new InputFile(image, `${metric}-${days}d.png`);
+
+    // Переключение на графике меняет фото на месте, из текстового экрана —
+    // текст удаляется и приходит новое сообщение с фото
+    if (ctx.callbackQuery?.message?.photo) {
+      await ctx.editMessageMedia(
+        { type: 'photo', media: photo, caption, parse_mode: 'HTML' },
+        { reply_markup: keyboard },
+      );
+      return;
+    }
+    await ctx.deleteMessage().catch(() => {});
+    await ctx.replyWithPhoto(photo, {
+      caption,
+      parse_mode: 'HTML',
       reply_markup: keyboard,
     });
   }
+
+  // «120 (↑ 20%)» — значение и изменение к прошлому периоду
+  private formatChange(current: number, previous: number): string {
+    if (!previous) return `${current}${current ? ' (новое)' : ''}`;
+
+    const change = Math.round(((current - previous) / previous) * 100);
+    if (change === 0) return `${current} (=)`;
+    return `${current} (${change > 0 ? '↑' : '↓'} ${Math.abs(change)}%)`;
+  }
+
+  private formatWait(seconds: number | null): string {
+    return seconds === null ? '—' : formatTimeLeft(seconds * 1000);
+  }
+
+  // «85% (↑ 3 п.п.)» — доля и изменение в процентных пунктах
+  private formatRatioChange(
+    current: number | null,
+    previous: number | null,
+  ): string {
+    if (current === null) return '—';
+
+    const percent = Math.round(current * 100);
+    if (previous === null) return `${percent}%`;
+
+    const change = percent - Math.round(previous * 100);
+    if (change === 0) return `${percent}% (=)`;
+    return `${percent}% (${change > 0 ? '↑' : '↓'} ${Math.abs(change)} п.п.)`;
+  }
 }
@@ -0,0 +1,31 @@
+import {
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  Redirect,
+} from '@nestjs/common';
+import { AdvertisementService } from './advertisement.service';
+
+/**
+ * 👆 Переход по кнопке объявления: засчитываем клик и отправляем на сайт
+ */
+@Controller('r')
+export class AdRedirectController {
+  constructor(private advertisementService: AdvertisementService) {}
+
+  // /r/:token — первая кнопка, /r/:token/:idx — кнопка по порядку
+  @Get([':token', ':token/:idx'])
+  @Redirect()
+  async redirect(@Param('token') token: string, @Param('idx') idx?: string) {
+    const url = await this.advertisementService.recordClick(
+      token,
+      idx ? parseInt(idx, 10) || 0 : 0,
+    );
+    if (!url) {
+      throw new NotFoundException('Ссылка устарела или не существует');
+    }
+
+    return { url, statusCode: 302 };
+  }
+}
@@ -1,7 +1,11 @@
 import { Module } from '@nestjs/common';
 import { AdvertisementService } from './advertisement.service';
+import { AdRedirectController } from './ad-redirect.controller';
+import { PremiumModule } from '../premium/premium.module';
 
 @Module({
+  imports: [PremiumModule],
+  controllers: [AdRedirectController],
   providers: [AdvertisementService],
   exports: [AdvertisementService],
 })
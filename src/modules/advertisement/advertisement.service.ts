@@ -1,108 +1,334 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
 import { PrismaService } from '../../database/prisma.service';
-import { Advertisement } from '@prisma/client';
-import { Context, InlineKeyboard } from 'grammy';
+import { RedisService } from '../../database/redis.service';
+import { Advertisement, Prisma } from '@prisma/client';
+import { Api, InlineKeyboard } from 'grammy';
+import type { MessageEntity } from 'grammy/types';
 import { CreateAdDto } from './dto/create-ad.dto';
+import {
+  AdButton,
+  AdContent,
+  AdMedia,
+} from './interfaces/advertisement.interface';
+import { PremiumService } from '../premium/premium.service';
 
 @Injectable()
 export class AdvertisementService {
   private readonly logger = new Logger(AdvertisementService.name);
-  private userDownloadCounts = new Map<bigint, number>();
-
-  constructor(private prisma: PrismaService) {}
+  private readonly publicUrl?: string;
+
+  // «Новый» пользователь — зарегистрирован не раньше стольких дней назад
+  private static readonly NEW_USER_DAYS = 7;
+  private static readonly HOUR = 60 * 60 * 1000;
+  private static readonly CAPTION_LIMIT = 1024;
+  // Счётчик «загрузок с последней рекламы» забываем через 30 дней тишины
+  private static readonly COUNTER_TTL_SEC = 30 * 24 * 60 * 60;
+  // Забрать счётчик, только если он дорос до интервала показа (ARGV[1]):
+  // 1 — забрали, 0 — рано или уже забрала параллельная доставка
+  private static readonly CLAIM_SCRIPT = `
+    if tonumber(redis.call('GET', KEYS[1]) or '0') < tonumber(ARGV[1]) then
+      return 0
+    end
+    redis.call('DEL', KEYS[1])
+    return 1
+  `;
+
+  constructor(
+    private prisma: PrismaService,
+    private redis: RedisService,
+    private premiumService: PremiumService,
+    private config: ConfigService,
+  ) {
+    this.publicUrl = this.config.get<string>('PUBLIC_URL')?.replace(/\/+$/, '');
+  }
 
   /**
-   * Проверить нужно ли показать рекламу пользователю
+   * 📣 Загрузка доставлена: учитываем её и, если подошло время, показываем
+   * рекламу в том же чате. Вызывается и при отдаче из кеша, и из воркера.
+   * Ошибки рекламы никогда не ломают доставку видео.
    */
-  async shouldShowAd(userId: bigint): Promise<boolean> {
-    const activeAds = await this.getActiveAds();
-
-    if (activeAds.length === 0) {
-      return false;
+  async countDownload(api: Api, chatId: number, userId: bigint): Promise<void> {
+    try {
+      const key = this.counterKey(userId);
+      const count = await this.redis.incr(key);
+      await this.redis.expire(key, AdvertisementService.COUNTER_TTL_SEC);
+
+      this.logger.debug(`Пользователь ${userId}: ${count} загрузок`);
+
+      const ad = await this.pickAd(userId, count);
+      if (!ad) return;
+
+      // Забираем счётчик атомарно и только дозревший: если параллельная
+      // загрузка этого же пользователя уже показала рекламу, второй раз не
+      // показываем и набранные после неё загрузки не теряем
+      const claimed = await this.redis.eval(
+        AdvertisementService.CLAIM_SCRIPT,
+        1,
+        key,
+        ad.showInterval,
+      );
+      if (claimed !== 1) return;
+
+      await this.showAd(api, chatId, userId, ad);
+    } catch (error: any) {
+      this.logger.error(`❌ Ошибка показа рекламы: ${error.message}`);
     }
+  }
 
-    // Получаем количество загрузок пользователя с момента последней рекламы
-    const count = this.userDownloadCounts.get(userId) || 0;
+  /**
+   * Показать объявление пользователю
+   */
+  private async showAd(
+    api: Api,
+    chatId: number,
+    userId: bigint,
+    ad: Advertisement,
+  ): Promise<void> {
+    this.logger.log(`📣 Показ рекламы ID:${ad.id} пользователю ${userId}`);
 
-    // Берём минимальный интервал среди активных объявлений
-    const minInterval = Math.min(...activeAds.map((ad) => ad.showInterval));
+    // Записываем просмотр — его токен ведёт клик через /r/:token
+    const clickToken = await this.recordView(ad.id, userId);
 
-    if (count >= minInterval) {
-      this.userDownloadCounts.set(userId, 0); // Сбрасываем счётчик
-      return true;
-    }
+    await this.sendContent(api, chatId, this.toContent(ad), (url, idx) =>
+      this.buttonLink(url, clickToken, idx),
+    );
 
-    return false;
+    this.logger.log(`✅ Реклама показана пользователю ${userId}`);
+  }
+
+  toContent(ad: Advertisement): AdContent {
+    return {
+      content: ad.content,
+      entities: ad.entities as MessageEntity[] | null,
+      media: ad.media as AdMedia[] | null,
+      buttons: ad.buttons as AdButton[][] | null,
+    };
   }
 
   /**
-   * Увеличить счётчик загрузок для пользователя
+   * 📤 ОТПРАВКА ОБЪЯВЛЕНИЯ (и рассылки — у неё тот же формат)
+   * Альбом не может нести кнопки, а подпись к медиа ограничена 1024
+   * символами — в этих случаях текст с кнопками уходит следом отдельным
+   * сообщением. link — адрес для кнопки (для трекинга кликов); без него
+   * кнопки ведут прямо на сайт, как в предпросмотре у админа.
    */
-  incrementUserDownloads(userId: bigint): void {
-    const current = this.userDownloadCounts.get(userId) || 0;
-    this.userDownloadCounts.set(userId, current + 1);
+  async sendContent(
+    api: Api,
+    chatId: number,
+    ad: AdContent,
+    link: (url: string, idx: number) => string = (url) => url,
+  ): Promise<void> {
+    const media = ad.media ?? [];
+    const entities = ad.entities ?? undefined;
+
+    const keyboard = new InlineKeyboard();
+    let idx = 0;
+    for (const row of ad.buttons ?? []) {
+      for (const button of row) {
+        keyboard.url(button.text, link(button.url, idx++));
+      }
+      keyboard.row();
+    }
+
+    const fitsCaption =
+      media.length === 1 &&
+      ad.content.length <= AdvertisementService.CAPTION_LIMIT;
+
+    if (fitsCaption) {
+      await this.sendMedia(api, chatId, media[0], {
+        caption: ad.content,
+        caption_entities: entities,
+        reply_markup: keyboard,
+      });
+      return;
+    }
+
+    if (media.length === 1) {
+      await this.sendMedia(api, chatId, media[0], {});
+    } else if (media.length > 1) {
+      await api.sendMediaGroup(
+        chatId,
+        media.map((item) => ({
+          type: item.type as 'photo' | 'video' | 'document',
+          media: item.fileId,
+        })),
+      );
+    }
+
+    await api.sendMessage(chatId, ad.content, {
+      entities,
+      reply_markup: keyboard,
+    });
+  }
 
-    this.logger.debug(`Пользователь ${userId}: ${current + 1} загрузок`);
+  private async sendMedia(
+    api: Api,
+    chatId: number,
+    item: AdMedia,
+    other: {
+      caption?: string;
+      caption_entities?: MessageEntity[];
+      reply_markup?: InlineKeyboard;
+    },
+  ): Promise<void> {
+    switch (item.type) {
+      case 'video':
+        await api.sendVideo(chatId, item.fileId, other);
+        break;
+      case 'animation':
+        await api.sendAnimation(chatId, item.fileId, other);
+        break;
+      case 'document':
+        await api.sendDocument(chatId, item.fileId, other);
+        break;
+      default:
+        await api.sendPhoto(chatId, item.fileId, other);
+    }
   }
 
   /**
-   * Показать рекламу пользователю
+   * 🎯 ВЫБОР ОБЪЯВЛЕНИЯ
+   * Из активных оставляем те, что подходят пользователю прямо сейчас:
+   * собственный интервал объявления, период показа, язык, сегмент
+   * (новый / вернувшийся), суточный лимит и частота на пользователя.
+   * Среди подходящих — случайное с учётом веса. null — показывать нечего.
    */
-  async showAd(ctx: Context): Promise<void> {
-    if (!ctx.from) {
-      this.logger.warn('Cannot show advertisement: ctx.from is missing');
-      return;
+  private async pickAd(
+    userId: bigint,
+    count: number, // Загрузок с момента последней рекламы
+  ): Promise<Advertisement | null> {
+    // 💎 Premium — без рекламы
+    if (!(await this.premiumService.getPerks(userId)).showAds) {
+      return null;
     }
-    const userId = BigInt(ctx.from.id);
-    const ads = await this.getActiveAds();
+
+    const now = new Date();
+
+    const ads = await this.prisma.advertisement.findMany({
+      where: {
+        isActive: true,
+        showInterval: { lte: count },
+        AND: [
+          { OR: [{ startsAt: null }, { startsAt: { lte: now } }] },
+          { OR: [{ endsAt: null }, { endsAt: { gt: now } }] },
+        ],
+      },
+    });
 
     if (ads.length === 0) {
-      return;
+      return null;
     }
 
-    // Выбираем случайное объявление
-    const ad = ads[Math.floor(Math.random() * ads.length)];
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { languageCode: true, createdAt: true },
+    });
+    // Telegram присылает IETF-тег ("pt-br") — сравниваем только язык
+    const language = user?.languageCode?.split('-')[0].toLowerCase();
+    const isNew =
+      !!user &&
+      now.getTime() - user.createdAt.getTime() <
+        AdvertisementService.NEW_USER_DAYS * 24 * AdvertisementService.HOUR;
+
+    const targeted = ads.filter((ad) => {
+      if (ad.language && ad.language !== language) return false;
+      if (ad.audience === 'new' && !isNew) return false;
+      if (ad.audience === 'returning' && isNew) return false;
+      return true;
+    });
 
-    this.logger.log(`📣 Показ рекламы ID:${ad.id} пользователю ${userId}`);
+    const eligible = await this.filterByCaps(targeted, userId, now);
+    return this.pickWeighted(eligible);
+  }
 
-    try {
-      const keyboard = new InlineKeyboard();
+  /**
+   * Суточный лимит показов объявления и частота показов одному пользователю
+   */
+  private async filterByCaps(
+    ads: Advertisement[],
+    userId: bigint,
+    now: Date,
+  ): Promise<Advertisement[]> {
+    const dailyCapped = ads.filter((ad) => ad.dailyCap);
+    const userCapped = ads.filter((ad) => ad.userCap);
+
+    const dailyViews = new Map<number, number>();
+    if (dailyCapped.length > 0) {
+      const dayStart = new Date(
+        Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+      );
+      const rows = await this.prisma.advertisementView.groupBy({
+        by: ['adId'],
+        where: {
+          adId: { in: dailyCapped.map((ad) => ad.id) },
+          viewedAt: { gte: dayStart },
+        },
+        _count: { _all: true },
+      });
+      for (const row of rows) dailyViews.set(row.adId, row._count._all);
+    }
 
-      if (ad.buttonText && ad.buttonUrl) {
-        keyboard.url(ad.buttonText, ad.buttonUrl);
-      }
+    let userViews: { adId: number; viewedAt: Date }[] = [];
+    if (userCapped.length > 0) {
+      const maxHours = Math.max(...userCapped.map((ad) => ad.userCapHours));
+      userViews = await this.prisma.advertisementView.findMany({
+        where: {
+          userId,
+          adId: { in: userCapped.map((ad) => ad.id) },
+          viewedAt: {
+            gte: new Date(now.getTime() - maxHours * AdvertisementService.HOUR),
+          },
+        },
+        select: { adId: true, viewedAt: true },
+      });
+    }
 
-      // Записываем просмотр
-      await this.recordView(ad.id, userId);
+    return ads.filter((ad) => {
+      if (ad.dailyCap && (dailyViews.get(ad.id) ?? 0) >= ad.dailyCap) {
+        return false;
+      }
 
-      // Отправляем рекламу
-      if (ad.mediaFileId) {
-        await ctx.replyWithPhoto(ad.mediaFileId, {
-          caption: ad.content,
-          reply_markup: keyboard,
-        });
-      } else {
-        await ctx.reply(ad.content, {
-          reply_markup: keyboard,
-        });
+      if (ad.userCap) {
+        const since =
+          now.getTime() - ad.userCapHours * AdvertisementService.HOUR;
+        const seen = userViews.filter(
+          (view) => view.adId === ad.id && view.viewedAt.getTime() >= since,
+        ).length;
+        if (seen >= ad.userCap) return false;
       }
 
-      this.logger.log(`✅ Реклама показана пользователю ${userId}`);
-    } catch (error: any) {
-      this.logger.error(`❌ Ошибка показа рекламы: ${error.message}`);
+      return true;
+    });
+  }
+
+  // Случайное объявление пропорционально весу (вес 0 — не показывать)
+  private pickWeighted(ads: Advertisement[]): Advertisement | null {
+    const total = ads.reduce((sum, ad) => sum + Math.max(ad.weight, 0), 0);
+    if (total <= 0) return null;
+
+    let roll = Math.random() * total;
+    for (const ad of ads) {
+      roll -= Math.max(ad.weight, 0);
+      if (roll < 0) return ad;
     }
+    return ads[ads.length - 1];
   }
 
   /**
-   * Записать просмотр рекламы
+   * Записать просмотр рекламы. Возвращает токен для ссылки в кнопке.
    */
-  private async recordView(adId: number, userId: bigint): Promise<void> {
+  private async recordView(adId: number, userId: bigint): Promise<string> {
+    const clickToken = crypto.randomBytes(9).toString('base64url');
+
     await Promise.all([
       // Создаём запись просмотра
       this.prisma.advertisementView.create({
         data: {
           adId,
           userId,
+          clickToken,
         },
       }),
       // Увеличиваем счётчик просмотров
@@ -113,32 +339,70 @@ export class AdvertisementService {
         },
       }),
     ]);
+
+    return clickToken;
   }
 
   /**
-   * Записать клик по рекламе
+   * Записать клик по рекламе (переход по /r/:token).
+   * Один показ — максимум один клик, повторные переходы просто редиректят.
+   * Возвращает адрес кнопки или null, если токен неизвестен.
    */
-  async recordClick(adId: number, userId: bigint): Promise<void> {
-    await Promise.all([
-      // Обновляем запись просмотра
-      this.prisma.advertisementView.updateMany({
-        where: {
-          adId,
-          userId,
-          clicked: false,
-        },
-        data: {
-          clicked: true,
-        },
-      }),
-      // Увеличиваем счётчик кликов
-      this.prisma.advertisement.update({
-        where: { id: adId },
-        data: {
-          clickCount: { increment: 1 },
-        },
-      }),
-    ]);
+  async recordClick(clickToken: string, idx = 0): Promise<string | null> {
+    const view = await this.prisma.advertisementView.findUnique({
+      where: { clickToken },
+      include: { ad: { select: { buttons: true } } },
+    });
+
+    // Кнопки нумеруются подряд по всем рядам
+    const buttons = ((view?.ad.buttons as AdButton[][] | null) ?? []).flat();
+    const url = buttons[idx]?.url;
+
+    if (!view || !url) {
+      return null;
+    }
+
+    if (!view.clicked) {
+      // Условие clicked: false — два быстрых перехода не посчитаются дважды
+      const { count } = await this.prisma.advertisementView.updateMany({
+        where: { id: view.id, clicked: false },
+        data: { clicked: true, clickedAt: new Date() },
+      });
+
+      if (count > 0) {
+        // Увеличиваем счётчик кликов
+        await this.prisma.advertisement.update({
+          where: { id: view.adId },
+          data: {
+            clickCount: { increment: 1 },
+          },
+        });
+      }
+    }
+
+    return url;
+  }
+
+  // Счётчик в Redis: переживает рестарты и общий для всех инстансов бота
+  private counterKey(userId: bigint): string {
+    return `ads:since:${userId}`;
+  }
+
+  // Без PUBLIC_URL клики считать негде — кнопка ведёт прямо на сайт
+  private buttonLink(
+    buttonUrl: string,
+    clickToken: string,
+    idx: number,
+  ): string {
+    if (!this.publicUrl) return buttonUrl;
+    return `${this.publicUrl}/r/${clickToken}${idx > 0 ? `/${idx}` : ''}`;
+  }
+
+  // null в Json-поле Prisma — это Prisma.DbNull
+  private json<T>(
+    value: T | null,
+  ): Prisma.InputJsonValue | typeof Prisma.DbNull {
+    return value === null ? Prisma.DbNull : (value as Prisma.InputJsonValue);
   }
 
   /**
@@ -166,11 +430,19 @@ export class AdvertisementService {
     return this.prisma.advertisement.create({
       data: {
         content: dto.content,
-        mediaFileId: dto.mediaFileId,
-        buttonText: dto.buttonText,
-        buttonUrl: dto.buttonUrl,
+        entities: this.json(dto.entities ?? null),
+        media: this.json(dto.media ?? null),
+        buttons: this.json(dto.buttons ?? null),
         isActive: dto.isActive ?? true,
         showInterval: dto.showInterval ?? 5,
+        startsAt: dto.startsAt,
+        endsAt: dto.endsAt,
+        dailyCap: dto.dailyCap,
+        userCap: dto.userCap,
+        userCapHours: dto.userCapHours,
+        weight: dto.weight,
+        language: dto.language,
+        audience: dto.audience,
       },
     });
   }
@@ -186,12 +458,23 @@ export class AdvertisementService {
       where: { id },
       data: {
         ...(data.content && { content: data.content }),
-        ...(data.mediaFileId !== undefined && {
-          mediaFileId: data.mediaFileId,
+        ...(data.entities !== undefined && {
+          entities: this.json(data.entities),
+        }),
+        ...(data.media !== undefined && { media: this.json(data.media) }),
+        ...(data.buttons !== undefined && {
+          buttons: this.json(data.buttons),
         }),
-        ...(data.buttonText !== undefined && { buttonText: data.buttonText }),
-        ...(data.buttonUrl !== undefined && { buttonUrl: data.buttonUrl }),
         ...(data.showInterval && { showInterval: data.showInterval }),
+        // 🎯 Таргетинг: null — снять ограничение
+        ...(data.startsAt !== undefined && { startsAt: data.startsAt }),
+        ...(data.endsAt !== undefined && { endsAt: data.endsAt }),
+        ...(data.dailyCap !== undefined && { dailyCap: data.dailyCap }),
+        ...(data.userCap !== undefined && { userCap: data.userCap }),
+        ...(data.userCapHours && { userCapHours: data.userCapHours }),
+        ...(data.weight !== undefined && { weight: data.weight }),
+        ...(data.language !== undefined && { language: data.language }),
+        ...(data.audience && { audience: data.audience }),
       },
     });
   }
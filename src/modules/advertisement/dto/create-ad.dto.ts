@@ -1,20 +1,34 @@
-import { IsString, IsOptional, IsBoolean, IsNumber, Min } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  IsBoolean,
+  IsNumber,
+  IsDate,
+  IsIn,
+  IsArray,
+  Min,
+} from 'class-validator';
+import type { MessageEntity } from 'grammy/types';
+import { AdButton, AdMedia } from '../interfaces/advertisement.interface';
+
+// Сегмент аудитории: все, только новые или только вернувшиеся
+export type AdAudience = 'all' | 'new' | 'returning';
 
 export class CreateAdDto {
   @IsString()
   content: string;
 
   @IsOptional()
-  @IsString()
-  mediaFileId?: string;
+  @IsArray()
+  entities?: MessageEntity[] | null;
 
   @IsOptional()
-  @IsString()
-  buttonText?: string;
+  @IsArray()
+  media?: AdMedia[] | null;
 
   @IsOptional()
-  @IsString()
-  buttonUrl?: string;
+  @IsArray()
+  buttons?: AdButton[][] | null;
 
   @IsOptional()
   @IsBoolean()
@@ -24,4 +38,41 @@ export class CreateAdDto {
   @IsNumber()
   @Min(1)
   showInterval?: number;
-}   
\ No newline at end of file
+
+  // 🎯 Расписание и таргетинг (null — без ограничения)
+  @IsOptional()
+  @IsDate()
+  startsAt?: Date | null;
+
+  @IsOptional()
+  @IsDate()
+  endsAt?: Date | null;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  dailyCap?: number | null;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  userCap?: number | null;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  userCapHours?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  weight?: number;
+
+  @IsOptional()
+  @IsString()
+  language?: string | null;
+
+  @IsOptional()
+  @IsIn(['all', 'new', 'returning'])
+  audience?: AdAudience;
+}
@@ -0,0 +1,24 @@
+// advertisement/interfaces/advertisement.interface.ts
+
+import type { MessageEntity } from 'grammy/types';
+
+// GIF (animation) и документы в альбом с фото/видео не смешиваются
+export type AdMediaType = 'photo' | 'video' | 'animation' | 'document';
+
+export interface AdMedia {
+  type: AdMediaType;
+  fileId: string;
+}
+
+export interface AdButton {
+  text: string;
+  url: string;
+}
+
+// То, что видит пользователь: текст с форматированием, медиа и кнопки
+export interface AdContent {
+  content: string;
+  entities?: MessageEntity[] | null;
+  media?: AdMedia[] | null; // Больше одного — альбом
+  buttons?: AdButton[][] | null; // Ряды кнопок
+}
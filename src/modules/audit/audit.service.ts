@@ -0,0 +1,75 @@
+// src/modules/audit/audit.service.ts
+
+import { Injectable, Logger } from '@nestjs/common';
+import { AuditLog, Prisma } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { AuditAction } from './interfaces/audit.interface';
+
+/**
+ * 📜 Журнал действий админов: кто и что поменял в рекламе, каналах,
+ * банах и настройках
+ */
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  static readonly ACTION_TITLES: Record<AuditAction, string> = {
+    'ad.create': '📣 создал объявление',
+    'ad.update': '✏️ изменил объявление',
+    'ad.toggle': '🔄 вкл/выкл объявление',
+    'ad.delete': '🗑 удалил объявление',
+    'channel.create': '📢 добавил канал',
+    'channel.toggle': '🔄 вкл/выкл канал',
+    'channel.delete': '🗑 удалил канал',
+    'quota.set': '🚦 изменил лимит',
+    'premium.grant': '💎 выдал Premium',
+    'premium.revoke': '💎 забрал Premium',
+    'payment.refund': '↩️ вернул платёж',
+    'user.ban': '⛔ забанил',
+    'user.unban': '✅ разбанил',
+    'broadcast.start': '📨 запустил рассылку',
+    'broadcast.pause': '⏸ поставил рассылку на паузу',
+    'broadcast.resume': '▶️ продолжил рассылку',
+    'broadcast.cancel': '⛔ остановил рассылку',
+    'role.set': '🛡 назначил роль',
+    'role.remove': '🛡 снял роль',
+    'data.export': '📤 выгрузил данные',
+  };
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Записать действие. Ошибка журнала не должна ломать само действие —
+   * только пишем в лог.
+   */
+  async log(
+    actorId: number | bigint | undefined,
+    action: AuditAction,
+    target?: string | number | bigint,
+    details?: Record<string, unknown>,
+  ): Promise<void> {
+    if (actorId === undefined) return;
+
+    try {
+      await this.prisma.auditLog.create({
+        data: {
+          actorId: BigInt(actorId),
+          action,
+          target: target?.toString(),
+          details: details as Prisma.InputJsonValue | undefined,
+        },
+      });
+    } catch (error: any) {
+      this.logger.warn(
+        `⚠️ Не удалось записать в журнал ${action}: ${error.message}`,
+      );
+    }
+  }
+
+  async getRecent(limit = 20): Promise<AuditLog[]> {
+    return this.prisma.auditLog.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+}
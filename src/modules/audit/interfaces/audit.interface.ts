@@ -0,0 +1,24 @@
+// audit/interfaces/audit.interface.ts
+
+// Что можно сделать в админке (попадает в журнал)
+export type AuditAction =
+  | 'ad.create'
+  | 'ad.update'
+  | 'ad.toggle'
+  | 'ad.delete'
+  | 'channel.create'
+  | 'channel.toggle'
+  | 'channel.delete'
+  | 'quota.set'
+  | 'premium.grant'
+  | 'premium.revoke'
+  | 'payment.refund'
+  | 'user.ban'
+  | 'user.unban'
+  | 'broadcast.start'
+  | 'broadcast.pause'
+  | 'broadcast.resume'
+  | 'broadcast.cancel'
+  | 'role.set'
+  | 'role.remove'
+  | 'data.export';
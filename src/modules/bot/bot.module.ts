@@ -9,6 +9,10 @@ import { AdminModule } from '../admin/admin.module';
 import { YtdlpModule } from '../ytdlp/ytdlp.module';
 import { UploaderModule } from '../uploader/uploader.module';
 import { ConfigService } from '@nestjs/config';
+import { PlatformModule } from '../platform/platform.module';
+import { PaymentModule } from '../payment/payment.module';
+import { AuditModule } from '../audit/audit.module';
+import { ConversationModule } from '../conversation/conversation.module';
 
 @Module({
   imports: [
@@ -23,6 +27,10 @@ import { ConfigService } from '@nestjs/config';
     forwardRef(() => DownloaderModule), // 👈 Используй forwardRef здесь
     AdminModule,
     YtdlpModule,
+    PlatformModule,
+    PaymentModule,
+    AuditModule,
+    ConversationModule,
     forwardRef(() => UploaderModule), // Если в Uploader тоже нужен бот
   ],
   providers: [BotService, BotUpdate],
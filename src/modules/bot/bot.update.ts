@@ -2,6 +2,8 @@
 
 import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
 import { run, sequentialize, RunnerHandle } from '@grammyjs/runner';
+import { InjectBot } from '@grammyjs/nestjs';
+import { Api, Bot, Context } from 'grammy';
 import { BotService } from './bot.service';
 import { UserService } from '../user/user.service';
 import { SubscriptionService } from '../subscription/subscription.service';
@@ -9,6 +11,21 @@ import { MESSAGES } from '../../common/constants/messages.constant';
 import { DownloaderService } from '../downloader/downloader.service';
 import { AdminScene } from '../admin/admin.scene';
 import { PrismaService } from 'src/database/prisma.service';
+import { PlatformRegistry } from '../platform/platform.registry';
+import { PlaylistService } from '../downloader/playlist/playlist.service';
+import { DownloadJobsService } from '../downloader/download-jobs.service';
+import { PaymentService } from '../payment/payment.service';
+import { AdAudience } from '../advertisement/dto/create-ad.dto';
+import { parseClipKey } from '../../common/utils/clip.utils';
+import { RoleService } from '../user/role.service';
+import { AuditService } from '../audit/audit.service';
+import { ConversationService } from '../conversation/conversation.service';
+import { ChartService } from '../stats/chart.service';
+import {
+  ExportFormat,
+  ExportSource,
+} from '../export/interfaces/export.interface';
+import { ChartMetric, StatsPeriod } from '../stats/interfaces/stats.interface';
 
 @Injectable()
 export class BotUpdate implements OnModuleInit, OnModuleDestroy {
@@ -21,6 +38,14 @@ export class BotUpdate implements OnModuleInit, OnModuleDestroy {
     private subscriptionService: SubscriptionService,
     private downloaderService: DownloaderService,
     private adminScene: AdminScene,
+    private platformRegistry: PlatformRegistry,
+    private playlistService: PlaylistService,
+    private downloadJobs: DownloadJobsService,
+    private paymentService: PaymentService,
+    private roleService: RoleService,
+    private auditService: AuditService,
+    private conversations: ConversationService,
+    @InjectBot() private readonly injectedBot: Bot<Context>,
   ) {
     this.logger.log('🔧 BotUpdate: constructor вызван');
   }
@@ -35,6 +60,11 @@ export class BotUpdate implements OnModuleInit, OnModuleDestroy {
     const bot = this.botService.getBot();
     this.logger.log('📝 Регистрация обработчиков...');
 
+    // Отправки идут через оба экземпляра Api: бот из BotService (Local API)
+    // и бот из NestjsGrammyModule (воркеры, рассылки)
+    this.trackUnreachable(bot.api);
+    this.trackUnreachable(this.injectedBot.api);
+
     // 🔀 Параллельная обработка апдейтов (runner) требует упорядочивания
     // сообщений в рамках одного чата, чтобы не было гонок состояний (админ-сцены,
     // антиспам и т.д.). Разные чаты обрабатываются параллельно.
@@ -52,8 +82,7 @@ export class BotUpdate implements OnModuleInit, OnModuleDestroy {
       if (!userId) return;
 
       try {
-        const isAdmin = await this.userService.isAdmin(BigInt(userId));
-        if (!isAdmin) {
+        if (!(await this.roleService.can(BigInt(userId)))) {
           await ctx.reply(MESSAGES.ERROR_NO_ACCESS);
           return;
         }
@@ -69,8 +98,7 @@ export class BotUpdate implements OnModuleInit, OnModuleDestroy {
       if (!userId) return;
 
       try {
-        const isAdmin = await this.userService.isAdmin(BigInt(userId));
-        if (!isAdmin) {
+        if (!(await this.roleService.can(BigInt(userId), 'channels'))) {
           await ctx.reply(MESSAGES.ERROR_NO_ACCESS);
           return;
         }
@@ -106,8 +134,36 @@ export class BotUpdate implements OnModuleInit, OnModuleDestroy {
       }
     });
 
+    // ==================== ДИАЛОГИ (мастера админки) ====================
+
+    bot.command('cancel', async (ctx) => {
+      if (!(await this.conversations.cancel(ctx))) {
+        await ctx.reply('Нечего отменять');
+      }
+    });
+
+    bot.command('back', async (ctx) => {
+      if (!(await this.conversations.back(ctx))) {
+        await ctx.reply('Нет активного диалога');
+      }
+    });
+
     // ==================== ADMIN MENU NAVIGATION ====================
 
+    // 🛡 Кнопки админки доступны только ролям с доступом к разделу
+    bot.callbackQuery(/^admin:/, async (ctx, next) => {
+      const section = RoleService.sectionOf(ctx.callbackQuery.data);
+      if (!(await this.roleService.can(BigInt(ctx.from.id), section))) {
+        await ctx.answerCallbackQuery({
+          text: MESSAGES.ERROR_NO_ACCESS,
+          show_alert: true,
+        });
+        return;
+      }
+
+      await next();
+    });
+
     bot.callbackQuery('admin:main', async (ctx) => {
       await ctx.answerCallbackQuery();
       await this.adminScene.showMainMenu(ctx);
@@ -128,6 +184,190 @@ export class BotUpdate implements OnModuleInit, OnModuleDestroy {
       await this.adminScene.showStats(ctx);
     });
 
+    bot.callbackQuery(/^admin:stats:(day|week|month)$/, async (ctx) => {
+      await ctx.answerCallbackQuery();
+      await this.adminScene
+        .showStats(ctx, ctx.match[1] as StatsPeriod)
+        .catch(() => {}); // «message is not modified» при повторном нажатии
+    });
+
+    bot.callbackQuery(
+      /^admin:stats:chart:(users|downloads|cache|queue):(\d+)$/,
+      async (ctx) => {
+        await ctx.answerCallbackQuery();
+        const days = parseInt(ctx.match[2], 10);
+        if (!ChartService.PERIODS.includes(days)) return;
+
+        await this.adminScene
+          .showChart(ctx, ctx.match[1] as ChartMetric, days)
+          .catch((error) =>
+            this.logger.warn(`⚠️ График не обновлён: ${error.message}`),
+          );
+      },
+    );
+
+    // 📤 Экспорт: таблица → период → формат
+    bot.callbackQuery('admin:export', async (ctx) => {
+      await ctx.answerCallbackQuery();
+      await this.adminScene.showExportMenu(ctx);
+    });
+
+    bot.callbackQuery(
+      /^admin:export:(users|downloads|ad_views|daily_stats)$/,
+      async (ctx) => {
+        await ctx.answerCallbackQuery();
+        await this.adminScene.showExportRanges(
+          ctx,
+          ctx.match[1] as ExportSource,
+        );
+      },
+    );
+
+    bot.callbackQuery(
+      /^admin:export:(users|downloads|ad_views|daily_stats):custom$/,
+      async (ctx) => {
+        await this.adminScene.askExportDates(ctx, ctx.match[1] as ExportSource);
+      },
+    );
+
+    bot.callbackQuery(
+      /^admin:export:(users|downloads|ad_views|daily_stats):(\d+|all|\d{8}-\d{8})$/,
+      async (ctx) => {
+        await ctx.answerCallbackQuery();
+        await this.adminScene.showExportFormats(
+          ctx,
+          ctx.match[1] as ExportSource,
+          ctx.match[2],
+        );
+      },
+    );
+
+    bot.callbackQuery(
+      /^admin:export:(users|downloads|ad_views|daily_stats):(\d+|all|\d{8}-\d{8}):(csv|xlsx)$/,
+      async (ctx) => {
+        await ctx.answerCallbackQuery();
+        await this.adminScene.runExport(
+          ctx,
+          ctx.match[1] as ExportSource,
+          ctx.match[2],
+          ctx.match[3] as ExportFormat,
+        );
+      },
+    );
+
+    bot.callbackQuery('admin:quota', async (ctx) => {
+      await ctx.answerCallbackQuery();
+      await this.adminScene.showQuotaMenu(ctx);
+    });
+
+    bot.callbackQuery(/^admin:quota:edit:(\w+)$/, async (ctx) => {
+      await this.adminScene.editQuota(ctx, ctx.match[1]);
+    });
+
+    bot.callbackQuery('admin:premium', async (ctx) => {
+      await ctx.answerCallbackQuery();
+      await this.adminScene.showPremiumMenu(ctx);
+    });
+
+    bot.callbackQuery('admin:premium:find', async (ctx) => {
+      await this.adminScene.askPremiumUser(ctx);
+    });
+
+    bot.callbackQuery(
+      /^admin:premium:grant:(\d+):(\d+|forever)$/,
+      async (ctx) => {
+        await this.adminScene.grantPremium(ctx, ctx.match[1], ctx.match[2]);
+      },
+    );
+
+    bot.callbackQuery(/^admin:premium:revoke:(\d+)$/, async (ctx) => {
+      await this.adminScene.revokePremium(ctx, ctx.match[1]);
+    });
+
+    // ==================== USERS & BANS ====================
+
+    bot.callbackQuery('admin:users', async (ctx) => {
+      await ctx.answerCallbackQuery();
+      await this.adminScene.showUsersMenu(ctx);
+    });
+
+    bot.callbackQuery('admin:users:find', async (ctx) => {
+      await this.adminScene.askUserSearch(ctx);
+    });
+
+    bot.callbackQuery(/^admin:users:banned:(\d+)$/, async (ctx) => {
+      await ctx.answerCallbackQuery();
+      await this.adminScene.showBannedList(ctx, parseInt(ctx.match[1], 10));
+    });
+
+    bot.callbackQuery(/^admin:user:(\d+)$/, async (ctx) => {
+      await ctx.answerCallbackQuery();
+      await this.adminScene.showUserProfile(ctx, ctx.match[1]);
+    });
+
+    bot.callbackQuery(/^admin:user:ban:(\d+)$/, async (ctx) => {
+      await this.adminScene.askBanDuration(ctx, ctx.match[1]);
+    });
+
+    bot.callbackQuery(/^admin:user:ban:(\d+):(\w+)$/, async (ctx) => {
+      await this.adminScene.askBanReason(ctx, ctx.match[1], ctx.match[2]);
+    });
+
+    bot.callbackQuery(/^admin:user:ban_go:(\d+):(\w+)$/, async (ctx) => {
+      await this.adminScene.banWithoutReason(ctx, ctx.match[1], ctx.match[2]);
+    });
+
+    bot.callbackQuery(/^admin:user:unban:(\d+)$/, async (ctx) => {
+      await this.adminScene.unbanUser(ctx, ctx.match[1]);
+    });
+
+    // ==================== BROADCAST ====================
+
+    bot.callbackQuery('admin:admins', async (ctx) => {
+      await ctx.answerCallbackQuery();
+      await this.adminScene.showAdminsMenu(ctx);
+    });
+
+    bot.callbackQuery('admin:audit', async (ctx) => {
+      await ctx.answerCallbackQuery();
+      await this.adminScene.showAuditLog(ctx);
+    });
+
+    bot.callbackQuery('admin:broadcast', async (ctx) => {
+      await ctx.answerCallbackQuery();
+      await this.adminScene.showBroadcastMenu(ctx);
+    });
+
+    bot.callbackQuery('admin:bc:new', async (ctx) => {
+      await this.adminScene.startBroadcast(ctx);
+    });
+
+    bot.callbackQuery('admin:bc:add_buttons', async (ctx) => {
+      await this.adminScene.addBroadcastButtons(ctx);
+    });
+
+    bot.callbackQuery('admin:bc:audience', async (ctx) => {
+      await this.adminScene.showBroadcastAudience(ctx);
+    });
+
+    bot.callbackQuery(
+      /^admin:bc:aud:(all|premium|language|active:\d+)$/,
+      async (ctx) => {
+        await this.adminScene.setBroadcastAudience(ctx, ctx.match[1]);
+      },
+    );
+
+    bot.callbackQuery('admin:bc:start', async (ctx) => {
+      await this.adminScene.launchBroadcast(ctx);
+    });
+
+    bot.callbackQuery(/^admin:bc:(pause|resume|cancel)$/, async (ctx) => {
+      await this.adminScene.controlBroadcast(
+        ctx,
+        ctx.match[1] as 'pause' | 'resume' | 'cancel',
+      );
+    });
+
     // ==================== CREATE AD FLOW ====================
 
     // Начать создание объявления
@@ -141,6 +381,20 @@ export class BotUpdate implements OnModuleInit, OnModuleDestroy {
       await this.adminScene.skipMedia(ctx);
     });
 
+    // Медиа собрано (одно или альбом)
+    bot.callbackQuery('admin:ad:media_done', async (ctx) => {
+      await this.adminScene.mediaDone(ctx);
+    });
+
+    // Опубликовать после предпросмотра
+    bot.callbackQuery('admin:ad:publish', async (ctx) => {
+      await this.adminScene.publishAd(ctx);
+    });
+
+    bot.callbackQuery(/^admin:ad:preview:(\d+)$/, async (ctx) => {
+      await this.adminScene.previewAd(ctx, parseInt(ctx.match[1]));
+    });
+
     // Добавить кнопку
     bot.callbackQuery('admin:ad:add_button', async (ctx) => {
       await this.adminScene.addButton(ctx);
@@ -205,6 +459,29 @@ export class BotUpdate implements OnModuleInit, OnModuleDestroy {
     });
 
     // Выбор интервала при создании
+    bot.callbackQuery(/^admin:ad:targeting:(\d+)$/, async (ctx) => {
+      await this.adminScene.showAdTargeting(ctx, parseInt(ctx.match[1]));
+    });
+
+    bot.callbackQuery(/^admin:ad:target:(\d+):(\w+)$/, async (ctx) => {
+      await this.adminScene.askTargetingValue(
+        ctx,
+        parseInt(ctx.match[1]),
+        ctx.match[2],
+      );
+    });
+
+    bot.callbackQuery(
+      /^admin:ad:audience:(\d+):(all|new|returning)$/,
+      async (ctx) => {
+        await this.adminScene.setAdAudience(
+          ctx,
+          parseInt(ctx.match[1]),
+          ctx.match[2] as AdAudience,
+        );
+      },
+    );
+
     bot.callbackQuery(/^admin:ad:interval:(\w+)$/, async (ctx) => {
       const interval = ctx.match[1];
       await this.adminScene.handleIntervalChoice(ctx, interval);
@@ -267,6 +544,7 @@ export class BotUpdate implements OnModuleInit, OnModuleDestroy {
           username: ctx.from?.username,
           firstName: ctx.from?.first_name,
           lastName: ctx.from?.last_name,
+          languageCode: ctx.from?.language_code,
         });
         this.logger.debug(`⏱️ createOrUpdate: ${Date.now() - t1}ms`);
 
@@ -320,10 +598,15 @@ export class BotUpdate implements OnModuleInit, OnModuleDestroy {
             `3. В открывшемся меню выбери - Telegram.\n` +
             `4. Когда откроется Telegram, нажми на чат с Yuklangan_bot!\n` +
             `Или просто вставь ссылку на ролик в чат и отправь ее боту.\n\n` +
-            `⚡ Повторные запросы отправляются из кэша мгновенно!\n\n` +
+            `⚡ Повторные запросы отправляются из кэша мгновенно!\n` +
+            `📋 /queue — твои загрузки в очереди\n` +
+            `💎 /premium — без очереди, 4K и без рекламы\n\n` +
             `🔗 Поддерживаемые платформы:\n` +
-            `• YouTube  \n` +
-            `• Instagram + Facebook \n\n` +
+            this.platformRegistry
+              .titles()
+              .map((title) => `• ${title}\n`)
+              .join('') +
+            `\n` +
             `Если есть вопросы или хотите сотрудничать — пишите Админу @Saidolimxoja`,
           { parse_mode: 'HTML' },
         );
@@ -332,6 +615,145 @@ export class BotUpdate implements OnModuleInit, OnModuleDestroy {
       }
     });
 
+    bot.command('queue', async (ctx) => {
+      this.logger.log(`📥 /queue от пользователя ${ctx.from?.id}`);
+
+      try {
+        await this.downloadJobs.showUserQueue(ctx);
+      } catch (error) {
+        this.logger.error('❌ Ошибка в /queue:', error);
+        await ctx.reply('❌ Не удалось получить очередь');
+      }
+    });
+
+    bot.command(['premium', 'donate'], async (ctx) => {
+      this.logger.log(`📥 /premium от пользователя ${ctx.from?.id}`);
+
+      try {
+        await this.paymentService.showPlans(ctx);
+      } catch (error) {
+        this.logger.error('❌ Ошибка в /premium:', error);
+        await ctx.reply('❌ Произошла ошибка');
+      }
+    });
+
+    // Возврат звёзд: /refund <telegram_payment_charge_id>
+    bot.command('refund', async (ctx) => {
+      const userId = ctx.from?.id;
+      if (!userId) return;
+
+      if (!(await this.roleService.can(BigInt(userId), 'premium'))) {
+        await ctx.reply(MESSAGES.ERROR_NO_ACCESS);
+        return;
+      }
+
+      const chargeId = ctx.match.trim();
+      if (!chargeId) {
+        await ctx.reply('Использование: /refund <charge_id>');
+        return;
+      }
+
+      try {
+        const payment = await this.paymentService.refund(ctx.api, chargeId);
+        await this.auditService.log(userId, 'payment.refund', chargeId, {
+          userId: payment.userId.toString(),
+          amount: payment.amount,
+        });
+        await ctx.reply(
+          `↩️ Возвращено ${payment.amount} ⭐ пользователю ${payment.userId}`,
+        );
+      } catch (error: any) {
+        this.logger.error('❌ Ошибка в /refund:', error);
+        await ctx.reply(`❌ ${error.message}`);
+      }
+    });
+
+    // ⛔ Профиль и баны (только админ)
+    bot.command('user', async (ctx) => {
+      const userId = ctx.from?.id;
+      if (!userId) return;
+
+      if (!(await this.roleService.can(BigInt(userId), 'users'))) {
+        await ctx.reply(MESSAGES.ERROR_NO_ACCESS);
+        return;
+      }
+
+      try {
+        await this.adminScene.handleUserCommand(ctx, ctx.match);
+      } catch (error) {
+        this.logger.error('❌ Ошибка в /user:', error);
+        await ctx.reply('❌ Произошла ошибка');
+      }
+    });
+
+    bot.command('ban', async (ctx) => {
+      const userId = ctx.from?.id;
+      if (!userId) return;
+
+      if (!(await this.roleService.can(BigInt(userId), 'users'))) {
+        await ctx.reply(MESSAGES.ERROR_NO_ACCESS);
+        return;
+      }
+
+      try {
+        await this.adminScene.handleBanCommand(ctx, ctx.match);
+      } catch (error) {
+        this.logger.error('❌ Ошибка в /ban:', error);
+        await ctx.reply('❌ Произошла ошибка');
+      }
+    });
+
+    bot.command('unban', async (ctx) => {
+      const userId = ctx.from?.id;
+      if (!userId) return;
+
+      if (!(await this.roleService.can(BigInt(userId), 'users'))) {
+        await ctx.reply(MESSAGES.ERROR_NO_ACCESS);
+        return;
+      }
+
+      try {
+        await this.adminScene.handleUnbanCommand(ctx, ctx.match);
+      } catch (error) {
+        this.logger.error('❌ Ошибка в /unban:', error);
+        await ctx.reply('❌ Произошла ошибка');
+      }
+    });
+
+    // 🛡 Роли админки: /addadmin <id|@username> <роль>, /removeadmin <id|@username>
+    bot.command('addadmin', async (ctx) => {
+      const userId = ctx.from?.id;
+      if (!userId) return;
+
+      if (!(await this.roleService.can(BigInt(userId), 'admins'))) {
+        await ctx.reply(MESSAGES.ERROR_NO_ACCESS);
+        return;
+      }
+
+      try {
+        await this.adminScene.handleAddAdminCommand(ctx, ctx.match);
+      } catch (error) {
+        this.logger.error('❌ Ошибка в /addadmin:', error);
+        await ctx.reply('❌ Произошла ошибка');
+      }
+    });
+
+    bot.command('removeadmin', async (ctx) => {
+      const userId = ctx.from?.id;
+      if (!userId) return;
+
+      if (!(await this.roleService.can(BigInt(userId), 'admins'))) {
+        await ctx.reply(MESSAGES.ERROR_NO_ACCESS);
+        return;
+      }
+
+      try {
+        await this.adminScene.handleRemoveAdminCommand(ctx, ctx.match);
+      } catch (error) {
+        this.logger.error('❌ Ошибка в /removeadmin:', error);
+        await ctx.reply('❌ Произошла ошибка');
+      }
+    });
 
     bot.command('channelid', async (ctx) => {
       console.log(`📥 /channelid от пользователя ${ctx.from?.id}`);
@@ -387,7 +809,7 @@ export class BotUpdate implements OnModuleInit, OnModuleDestroy {
     // ==================== DOWNLOAD FLOW ====================
 
     bot.callbackQuery(/^dl\|(.+)$/, async (ctx) => {
-      const [videoId, formatId, resolution] = ctx.match[1].split('|');
+      const [videoId, formatId, resolution, range] = ctx.match[1].split('|');
 
       this.logger.log(`📥 Выбор качества: ${resolution} от ${ctx.from?.id}`);
 
@@ -397,33 +819,120 @@ export class BotUpdate implements OnModuleInit, OnModuleDestroy {
         videoId,
         formatId,
         resolution,
+        parseClipKey(range),
       );
     });
 
-    // ==================== MESSAGE HANDLERS ====================
+    bot.callbackQuery(/^clip\|(\w+)$/, async (ctx) => {
+      await this.downloaderService.requestClip(ctx, ctx.match[1]);
+    });
 
-    // Обработка фото и видео (для создания объявления)
-    bot.on(['message:photo', 'message:video'], async (ctx) => {
-      const userId = ctx.from?.id;
-      if (!userId) return;
+    // Отмена загрузки из очереди, прогресса или /queue: qcancel|jobId[|list]
+    bot.callbackQuery(/^qcancel\|(\w+)(?:\|(list))?$/, async (ctx) => {
+      await this.downloadJobs.cancel(ctx, ctx.match[1], !!ctx.match[2]);
+    });
 
-      // Проверяем, находится ли пользователь в процессе создания объявления
-      const state = this.adminScene.getState(userId);
+    // Список подборки: pl|sessionId|action|arg
+    bot.callbackQuery(/^pl\|(\w+)\|(\w+)(?:\|(\w+))?$/, async (ctx) => {
+      const [, sessionId, action, arg] = ctx.match;
 
-      if (state === 'waiting_for_media') {
-        await this.adminScene.handleAdMedia(ctx);
-        return;
+      await this.playlistService.handleCallback(ctx, sessionId, action, arg);
+    });
+
+    // ==================== ОПЛАТА (Telegram Stars) ====================
+
+    // Кнопка тарифа в /premium: pay:<planId>
+    bot.callbackQuery(/^pay:(\w+)$/, async (ctx) => {
+      if (!ctx.chat || !ctx.from) return;
+
+      const sent = await this.paymentService.sendInvoice(
+        ctx.api,
+        ctx.chat.id,
+        ctx.from.id,
+        ctx.match[1],
+      );
+      await ctx.answerCallbackQuery(
+        sent ? undefined : { text: '❌ Тариф не найден' },
+      );
+    });
+
+    // 🚫 Пользователь заблокировал / разблокировал бота в личке
+    bot.on('my_chat_member', async (ctx) => {
+      const update = ctx.myChatMember;
+      if (update.chat.type !== 'private') return;
+
+      const userId = BigInt(update.from.id);
+      const status = update.new_chat_member.status;
+
+      try {
+        if (status === 'kicked') {
+          await this.userService.markUnreachable(userId);
+          this.logger.log(`🚫 Пользователь ${userId} заблокировал бота`);
+        } else if (status === 'member') {
+          await this.userService.markReachable(userId);
+          this.logger.log(`✅ Пользователь ${userId} разблокировал бота`);
+        }
+      } catch (error) {
+        this.logger.error('❌ Ошибка в my_chat_member:', error);
       }
+    });
 
-      // Редактирование медиа
-      if (state === 'edit_media') {
-        await this.adminScene.handleEditMedia(ctx);
-        return;
+    bot.on('pre_checkout_query', async (ctx) => {
+      try {
+        await this.paymentService.answerPreCheckout(
+          ctx.api,
+          ctx.preCheckoutQuery,
+        );
+      } catch (error) {
+        this.logger.error('❌ Ошибка проверки оплаты:', error);
+        // Без ответа Telegram через 10 сек отменит оплату молча
+        await ctx
+          .answerPreCheckoutQuery(false, {
+            error_message: 'Не удалось проверить счёт. Попробуй чуть позже.',
+          })
+          .catch(() => {});
+      }
+    });
+
+    bot.on('message:successful_payment', async (ctx) => {
+      try {
+        await this.paymentService.handleSuccessfulPayment(
+          ctx.api,
+          ctx.chat.id,
+          ctx.from.id,
+          ctx.message.successful_payment,
+        );
+      } catch (error) {
+        this.logger.error('❌ Ошибка обработки оплаты:', error);
       }
+    });
 
-      // Если не в процессе создания - игнорируем
+    bot.on('message:refunded_payment', async (ctx) => {
+      await this.paymentService
+        .handleRefundedPayment(
+          ctx.message.refunded_payment.telegram_payment_charge_id,
+        )
+        .catch((error) => this.logger.error('❌ Ошибка возврата:', error));
     });
 
+    // ==================== MESSAGE HANDLERS ====================
+
+    // Обработка медиа (объявления и рассылки)
+    bot.on(
+      [
+        'message:photo',
+        'message:video',
+        'message:animation',
+        'message:document',
+      ],
+      async (ctx) => {
+        // Шаг мастера (медиа объявления, сообщение рассылки)
+        if (await this.conversations.dispatch(ctx, 'media')) return;
+
+        // Если не в процессе создания - игнорируем
+      },
+    );
+
     // Обработка текстовых сообщений
     bot.on('message:text', async (ctx) => {
       const userId = ctx.from?.id;
@@ -437,10 +946,10 @@ export class BotUpdate implements OnModuleInit, OnModuleDestroy {
       // ========== ГРУППЫ: только обработка ссылок ==========
       if (isGroup) {
         // В группах не нужны админ-сцены, подписки, бан-листы.
-        // Просто ищем ссылки YouTube / Instagram и скачиваем.
+        // Просто ищем ссылки поддерживаемых платформ и скачиваем.
         if (text.startsWith('/')) return; // Команды игнорируем
 
-        const urls = this.extractSupportedUrls(text);
+        const urls = this.platformRegistry.extractUrls(text);
         if (urls.length === 0) return; // Нет подходящих ссылок — молчим
 
         this.logger.log(
@@ -462,55 +971,13 @@ export class BotUpdate implements OnModuleInit, OnModuleDestroy {
 
       // ========== ПРИВАТНЫЙ ЧАТ: полная логика ==========
 
-      // Проверяем состояние для создания объявления
-      const state = this.adminScene.getState(userId);
-
-      // ========== СОЗДАНИЕ ОБЪЯВЛЕНИЯ ==========
-      if (state === 'waiting_for_content') {
-        await this.adminScene.handleAdContent(ctx);
+      // ========== ШАГ МАСТЕРА АДМИНКИ (объявления, каналы, рассылки...) ==========
+      if (await this.conversations.dispatch(ctx, 'text')) {
         return;
       }
 
-      if (state === 'waiting_for_button_text') {
-        await this.adminScene.handleButtonText(ctx);
-        return;
-      }
-
-      if (state === 'waiting_for_button_url') {
-        await this.adminScene.handleButtonUrl(ctx);
-        return;
-      }
-
-      if (state === 'waiting_for_custom_interval') {
-        await this.adminScene.handleCustomInterval(ctx);
-        return;
-      }
-
-      // ========== РЕДАКТИРОВАНИЕ ОБЪЯВЛЕНИЯ ==========
-      if (state === 'edit_content') {
-        await this.adminScene.handleEditContent(ctx);
-        return;
-      }
-
-      if (state === 'edit_interval_custom') {
-        await this.adminScene.handleCustomInterval(ctx);
-        return;
-      }
-
-      // ========== СОЗДАНИЕ КАНАЛА ==========
-      if (state === 'waiting_for_channel_id') {
-        await this.adminScene.handleChannelId(ctx);
-        return;
-      }
-
-      if (state === 'waiting_for_channel_name') {
-        await this.adminScene.handleChannelName(ctx);
-        return;
-      }
-
-      // ✅✅✅ ВОТ ВАЖНАЯ ЧАСТЬ, КОТОРАЯ ИСПРАВЛЯЕТ ОШИБКУ ✅✅✅
-      if (state === 'waiting_for_channel_link') {
-        await this.adminScene.handleChannelLink(ctx);
+      // ========== ФРАГМЕНТ ВИДЕО (ждём отрезок 01:20-02:05) ==========
+      if (await this.downloaderService.handleClipInput(ctx, text)) {
         return;
       }
 
@@ -558,6 +1025,28 @@ export class BotUpdate implements OnModuleInit, OnModuleDestroy {
     this.logger.log('✅ Все обработчики зарегистрированы');
   }
 
+  /**
+   * 🚫 403 при отправке в личку — бот заблокирован или аккаунт удалён.
+   * Ловим в одном месте для всех путей отправки, а не в каждом catch.
+   */
+  private trackUnreachable(api: Api) {
+    api.config.use(async (prev, method, payload, signal) => {
+      const res = await prev(method, payload, signal);
+
+      const chatId = (payload as { chat_id?: unknown } | undefined)?.chat_id;
+      if (
+        !res.ok &&
+        res.error_code === 403 &&
+        typeof chatId === 'number' &&
+        chatId > 0
+      ) {
+        await this.userService.markUnreachable(BigInt(chatId)).catch(() => {});
+      }
+
+      return res;
+    });
+  }
+
   private async startBot() {
     const bot = this.botService.getBot();
     this.logger.log('🚀 Запуск бота (параллельный runner)...');
@@ -587,23 +1076,4 @@ export class BotUpdate implements OnModuleInit, OnModuleDestroy {
       this.logger.warn('⚠️ Ошибка при остановке runner');
     }
   }
-
-  /**
-   * 🔗 Извлекает из текста все ссылки YouTube / Instagram.
-   * Работает даже если ссылка вставлена в середине сообщения.
-   */
-  private extractSupportedUrls(text: string): string[] {
-    const urlRegex = /https?:\/\/[^\s]+/gi;
-    const allUrls = text.match(urlRegex) || [];
-
-    const supportedDomains = [
-      'youtube.com',
-      'youtu.be',
-      'instagram.com',
-    ];
-
-    return allUrls.filter((url) =>
-      supportedDomains.some((domain) => url.includes(domain)),
-    );
-  }
 }
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bullmq';
+import { BroadcastService } from './broadcast.service';
+import { BroadcastProcessor } from './broadcast.processor';
+import { AdvertisementModule } from '../advertisement/advertisement.module';
+import { UserModule } from '../user/user.module';
+
+@Module({
+  imports: [
+    BullModule.registerQueue({
+      name: 'broadcast-queue',
+    }),
+    AdvertisementModule,
+    UserModule,
+  ],
+  providers: [BroadcastService, BroadcastProcessor],
+  exports: [BroadcastService],
+})
+export class BroadcastModule {}
@@ -0,0 +1,86 @@
+import { OnWorkerEvent, Processor, WorkerHost } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+import { InjectBot } from '@grammyjs/nestjs';
+import { Job, Worker } from 'bullmq';
+import { Bot, Context, GrammyError } from 'grammy';
+import { BroadcastService } from './broadcast.service';
+import { AdvertisementService } from '../advertisement/advertisement.service';
+import { UserService } from '../user/user.service';
+import { BroadcastJobData } from './interfaces/broadcast.interface';
+
+// Telegram пускает ~30 сообщений в секунду в разные чаты; по умолчанию
+// держимся чуть ниже (env BROADCAST_RATE_PER_SEC)
+const RATE_PER_SEC = parseInt(process.env.BROADCAST_RATE_PER_SEC ?? '25', 10);
+
+@Processor('broadcast-queue', {
+  concurrency: RATE_PER_SEC,
+  limiter: { max: RATE_PER_SEC, duration: 1000 },
+})
+export class BroadcastProcessor extends WorkerHost {
+  private readonly logger = new Logger(BroadcastProcessor.name);
+
+  constructor(
+    private readonly broadcastService: BroadcastService,
+    private readonly advertisementService: AdvertisementService,
+    private readonly userService: UserService,
+    @InjectBot() private readonly bot: Bot<Context>,
+  ) {
+    super();
+  }
+
+  async process(job: Job<BroadcastJobData>): Promise<void> {
+    const { broadcastId, userId } = job.data;
+
+    // Рассылку остановили — оставшиеся задачи просто пропускаем
+    const content = await this.broadcastService.getContent(broadcastId);
+    if (!content) return;
+
+    try {
+      await this.advertisementService.sendContent(
+        this.bot.api,
+        Number(userId),
+        content,
+      );
+      await this.broadcastService.record(broadcastId, 'sent');
+    } catch (error) {
+      if (!(error instanceof GrammyError)) throw error; // Сеть — повторит BullMQ
+
+      // 403: бот заблокирован или аккаунт удалён — повтор не поможет
+      if (error.error_code === 403) {
+        await this.userService.markUnreachable(BigInt(userId));
+        await this.broadcastService.record(broadcastId, 'blocked');
+        return;
+      }
+
+      // 429: Telegram просит подождать — тормозим весь воркер,
+      // задача вернётся в очередь без траты попытки
+      if (error.error_code === 429) {
+        const retryAfter = error.parameters.retry_after ?? 1;
+        this.logger.warn(`🐢 Рассылка: flood wait ${retryAfter} сек`);
+        await this.worker.rateLimit(retryAfter * 1000);
+        throw Worker.RateLimitError();
+      }
+
+      // 5xx — временная проблема Telegram, пусть повторит BullMQ
+      if (error.error_code >= 500) throw error;
+
+      this.logger.warn(
+        `⚠️ Рассылка #${broadcastId} → ${userId}: ${error.description}`,
+      );
+      await this.broadcastService.record(broadcastId, 'failed');
+    }
+  }
+
+  // Попытки кончились — считаем получателя ошибкой, чтобы рассылка завершилась
+  @OnWorkerEvent('failed')
+  async onFailed(job: Job<BroadcastJobData>, error: Error) {
+    if (job.attemptsMade < (job.opts.attempts ?? 1)) return;
+
+    this.logger.warn(
+      `⚠️ Рассылка #${job.data.broadcastId} → ${job.data.userId}: ${error.message}`,
+    );
+    await this.broadcastService
+      .record(job.data.broadcastId, 'failed')
+      .catch(() => {});
+  }
+}
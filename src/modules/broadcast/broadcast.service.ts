@@ -0,0 +1,521 @@
+// src/modules/broadcast/broadcast.service.ts
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Interval } from '@nestjs/schedule';
+import { InjectBot } from '@grammyjs/nestjs';
+import { Queue } from 'bullmq';
+import { Bot, Context, InlineKeyboard } from 'grammy';
+import { Broadcast, Prisma } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { RedisService } from '../../database/redis.service';
+import { AdContent } from '../advertisement/interfaces/advertisement.interface';
+import {
+  createProgressBar,
+  formatTimeLeft,
+} from '../../common/utils/format.utils';
+import {
+  BroadcastAudience,
+  BroadcastJobData,
+  BroadcastOutcome,
+  BroadcastStatus,
+} from './interfaces/broadcast.interface';
+
+/**
+ * 📨 Рассылки всем пользователям (или сегменту).
+ * Каждое сообщение — отдельная задача в broadcast-queue: лимитер воркера
+ * держит темп в рамках ограничений Telegram, пауза — это пауза очереди.
+ * Счётчики копятся в Redis и раз в несколько секунд переносятся в БД.
+ */
+@Injectable()
+export class BroadcastService {
+  private readonly logger = new Logger(BroadcastService.name);
+  private readonly rate: number;
+
+  // Содержимое рассылки для воркера — чтобы не читать БД на каждое сообщение
+  private contents = new Map<
+    number,
+    { content: AdContent | null; loadedAt: number }
+  >();
+  // Последний показанный текст прогресса — не редактируем сообщение зря
+  private shownProgress = new Map<number, string>();
+
+  private static readonly PAGE_SIZE = 1000;
+  private static readonly CONTENT_TTL_MS = 10_000;
+  private static readonly KEY_TTL_SEC = 7 * 24 * 60 * 60;
+  private static readonly ACTIVE: BroadcastStatus[] = ['running', 'paused'];
+
+  private static readonly STATUS_TITLES: Record<BroadcastStatus, string> = {
+    running: '📤 идёт',
+    paused: '⏸ на паузе',
+    done: '✅ завершена',
+    cancelled: '⛔ остановлена',
+  };
+
+  constructor(
+    private prisma: PrismaService,
+    private redis: RedisService,
+    private config: ConfigService,
+    @InjectQueue('broadcast-queue') private queue: Queue<BroadcastJobData>,
+    @InjectBot() private readonly bot: Bot<Context>,
+  ) {
+    this.rate = this.config.get<number>('BROADCAST_RATE_PER_SEC') || 25;
+  }
+
+  /**
+   * Фильтр получателей. Заблокировавшие бота и забаненные — никогда
+   */
+  audienceWhere(audience: BroadcastAudience): Prisma.UserWhereInput {
+    const where: Prisma.UserWhereInput = {
+      isReachable: true,
+      isBanned: false,
+    };
+
+    switch (audience.type) {
+      case 'active':
+        where.lastActiveAt = {
+          gte: new Date(Date.now() - audience.days * 24 * 60 * 60 * 1000),
+        };
+        break;
+      case 'premium':
+        where.tier = 'premium';
+        where.OR = [
+          { premiumUntil: null },
+          { premiumUntil: { gt: new Date() } },
+        ];
+        break;
+      case 'language':
+        // Telegram присылает IETF-тег ("pt-br") — сравниваем по началу
+        where.languageCode = { startsWith: audience.language.toLowerCase() };
+        break;
+    }
+
+    return where;
+  }
+
+  async countAudience(audience: BroadcastAudience): Promise<number> {
+    return this.prisma.user.count({ where: this.audienceWhere(audience) });
+  }
+
+  describeAudience(audience: BroadcastAudience): string {
+    switch (audience.type) {
+      case 'active':
+        return `активные за ${audience.days} дн.`;
+      case 'premium':
+        return '💎 Premium';
+      case 'language':
+        return `язык «${audience.language}»`;
+      default:
+        return 'все пользователи';
+    }
+  }
+
+  /**
+   * Идущая или приостановленная рассылка (одновременно — только одна)
+   * со свежими счётчиками из Redis
+   */
+  async getCurrent(): Promise<Broadcast | null> {
+    const broadcast = await this.prisma.broadcast.findFirst({
+      where: { status: { in: BroadcastService.ACTIVE } },
+      orderBy: { id: 'desc' },
+    });
+    return broadcast ? this.withStats(broadcast) : null;
+  }
+
+  async getLast(): Promise<Broadcast | null> {
+    return this.prisma.broadcast.findFirst({ orderBy: { id: 'desc' } });
+  }
+
+  /**
+   * 🚀 ЗАПУСК РАССЫЛКИ
+   * Создаёт запись, присылает админу сообщение с прогрессом и кнопками
+   * управления и в фоне ставит получателей в очередь.
+   */
+  async start(
+    adminId: number,
+    chatId: number,
+    content: AdContent,
+    audience: BroadcastAudience,
+  ): Promise<Broadcast> {
+    if (await this.getCurrent()) {
+      throw new Error('Уже идёт другая рассылка — дождись её или останови');
+    }
+
+    const total = await this.countAudience(audience);
+    if (total === 0) {
+      throw new Error('Под фильтр не попал ни один пользователь');
+    }
+
+    let broadcast = await this.prisma.broadcast.create({
+      data: {
+        createdBy: BigInt(adminId),
+        content: content.content,
+        entities: this.json(content.entities ?? null),
+        media: this.json(content.media ?? null),
+        buttons: this.json(content.buttons ?? null),
+        audience,
+        total,
+        progressChatId: BigInt(chatId),
+      },
+    });
+
+    // Очередь могла остаться на паузе после остановленной рассылки
+    await this.queue.resume();
+
+    const msg = await this.bot.api.sendMessage(
+      chatId,
+      this.renderProgress(broadcast),
+      { parse_mode: 'HTML', reply_markup: this.controlsKeyboard(broadcast) },
+    );
+    broadcast = await this.prisma.broadcast.update({
+      where: { id: broadcast.id },
+      data: { progressMsgId: msg.message_id },
+    });
+
+    this.logger.log(
+      `📨 Рассылка #${broadcast.id} запущена админом ${adminId}: ${total} получателей`,
+    );
+
+    // Сотни тысяч получателей ставятся в очередь не мгновенно — в фоне
+    void this.enqueueRecipients(broadcast);
+
+    return broadcast;
+  }
+
+  /**
+   * ⏸ Пауза: воркер перестаёт брать задачи, уже отправленное не теряется
+   */
+  async pause(): Promise<Broadcast> {
+    const broadcast = await this.getCurrent();
+    if (broadcast?.status !== 'running') {
+      throw new Error('Нет идущей рассылки');
+    }
+
+    await this.queue.pause();
+    return this.setStatus(broadcast, 'paused');
+  }
+
+  async resume(): Promise<Broadcast> {
+    const broadcast = await this.getCurrent();
+    if (broadcast?.status !== 'paused') {
+      throw new Error('Нет рассылки на паузе');
+    }
+
+    await this.queue.resume();
+    return this.setStatus(broadcast, 'running');
+  }
+
+  /**
+   * ⛔ Остановка: неотправленные задачи удаляются, админ получает отчёт
+   */
+  async cancel(): Promise<Broadcast> {
+    const broadcast = await this.getCurrent();
+    if (!broadcast) {
+      throw new Error('Нет активной рассылки');
+    }
+
+    // Сначала статус — чтобы фоновая постановка в очередь остановилась
+    await this.prisma.broadcast.update({
+      where: { id: broadcast.id },
+      data: { status: 'cancelled' },
+    });
+    this.contents.delete(broadcast.id);
+
+    await this.queue.drain(true);
+    await this.queue.resume();
+
+    return this.finish(broadcast, 'cancelled');
+  }
+
+  /**
+   * Содержимое для воркера. null — рассылка остановлена или завершена,
+   * оставшиеся задачи просто пропускаются.
+   */
+  async getContent(broadcastId: number): Promise<AdContent | null> {
+    const cached = this.contents.get(broadcastId);
+    if (
+      cached &&
+      Date.now() - cached.loadedAt < BroadcastService.CONTENT_TTL_MS
+    ) {
+      return cached.content;
+    }
+
+    const broadcast = await this.prisma.broadcast.findUnique({
+      where: { id: broadcastId },
+    });
+    const content =
+      broadcast &&
+      (BroadcastService.ACTIVE as string[]).includes(broadcast.status)
+        ? {
+            content: broadcast.content,
+            entities: broadcast.entities as AdContent['entities'],
+            media: broadcast.media as AdContent['media'],
+            buttons: broadcast.buttons as AdContent['buttons'],
+          }
+        : null;
+
+    this.contents.set(broadcastId, { content, loadedAt: Date.now() });
+    return content;
+  }
+
+  /**
+   * Учесть результат отправки одному получателю
+   */
+  async record(broadcastId: number, outcome: BroadcastOutcome): Promise<void> {
+    const key = this.statsKey(broadcastId);
+    await this.redis
+      .multi()
+      .hincrby(key, outcome, 1)
+      .expire(key, BroadcastService.KEY_TTL_SEC)
+      .exec();
+  }
+
+  /**
+   * 🔄 Прогресс: переносим счётчики в БД, обновляем сообщение у админа,
+   * а когда обработаны все получатели — завершаем с отчётом
+   */
+  @Interval(5000)
+  async refreshProgress() {
+    try {
+      const broadcasts = await this.prisma.broadcast.findMany({
+        where: { status: { in: BroadcastService.ACTIVE } },
+      });
+
+      for (const stored of broadcasts) {
+        const broadcast = await this.withStats(stored);
+        const processed = broadcast.sent + broadcast.failed + broadcast.blocked;
+        const queued = await this.redis.exists(this.queuedKey(broadcast.id));
+
+        if (queued && processed >= broadcast.total) {
+          await this.finish(broadcast, 'done');
+          continue;
+        }
+
+        await this.prisma.broadcast.update({
+          where: { id: broadcast.id },
+          data: {
+            sent: broadcast.sent,
+            failed: broadcast.failed,
+            blocked: broadcast.blocked,
+          },
+        });
+        await this.showProgress(broadcast);
+      }
+    } catch (error: any) {
+      this.logger.warn(`⚠️ Не удалось обновить рассылки: ${error.message}`);
+    }
+  }
+
+  renderProgress(broadcast: Broadcast): string {
+    const status = broadcast.status as BroadcastStatus;
+    const processed = broadcast.sent + broadcast.failed + broadcast.blocked;
+    const percent = broadcast.total
+      ? Math.min(100, Math.floor((processed / broadcast.total) * 100))
+      : 0;
+
+    let text =
+      `📨 <b>Рассылка #${broadcast.id}</b> — ${BroadcastService.STATUS_TITLES[status]}\n\n` +
+      `👥 Аудитория: ${this.describeAudience(broadcast.audience as BroadcastAudience)}\n` +
+      `${createProgressBar(percent)} ${percent}%\n` +
+      `📊 Обработано: ${processed} из ${broadcast.total}\n\n` +
+      `✅ Доставлено: ${broadcast.sent}\n` +
+      `🚫 Заблокировали бота: ${broadcast.blocked}\n` +
+      `❌ Ошибки: ${broadcast.failed}\n`;
+
+    if (status === 'running' && processed < broadcast.total) {
+      const leftMs = ((broadcast.total - processed) / this.rate) * 1000;
+      text += `\n⏳ Осталось примерно ${formatTimeLeft(leftMs)}`;
+    }
+    if (broadcast.finishedAt) {
+      const tookMs =
+        broadcast.finishedAt.getTime() - broadcast.createdAt.getTime();
+      text += `\n⏱ Заняла ${formatTimeLeft(tookMs)}`;
+    }
+
+    return text;
+  }
+
+  // Кнопки управления; у завершённой рассылки их нет
+  controlsKeyboard(broadcast: Broadcast): InlineKeyboard | undefined {
+    if (broadcast.status === 'running') {
+      return new InlineKeyboard()
+        .text('⏸ Пауза', 'admin:bc:pause')
+        .text('⛔ Остановить', 'admin:bc:cancel');
+    }
+    if (broadcast.status === 'paused') {
+      return new InlineKeyboard()
+        .text('▶️ Продолжить', 'admin:bc:resume')
+        .text('⛔ Остановить', 'admin:bc:cancel');
+    }
+    return undefined;
+  }
+
+  private async enqueueRecipients(broadcast: Broadcast): Promise<void> {
+    const where = this.audienceWhere(broadcast.audience as BroadcastAudience);
+    let cursor: bigint | undefined;
+    let queued = 0;
+
+    try {
+      for (;;) {
+        const users = await this.prisma.user.findMany({
+          where,
+          select: { id: true },
+          orderBy: { id: 'asc' },
+          take: BroadcastService.PAGE_SIZE,
+          ...(cursor !== undefined && { cursor: { id: cursor }, skip: 1 }),
+        });
+        if (users.length === 0) break;
+
+        // Остановили, пока ставили в очередь — дальше не идём
+        const current = await this.prisma.broadcast.findUnique({
+          where: { id: broadcast.id },
+          select: { status: true },
+        });
+        if (current?.status === 'cancelled') return;
+
+        await this.queue.addBulk(
+          users.map(({ id }) => ({
+            name: 'broadcast-message',
+            data: { broadcastId: broadcast.id, userId: id.toString() },
+            opts: {
+              jobId: `${broadcast.id}-${id}`,
+              attempts: 3,
+              backoff: { type: 'exponential', delay: 5000 },
+              removeOnComplete: true,
+              removeOnFail: true,
+            },
+          })),
+        );
+
+        queued += users.length;
+        cursor = users[users.length - 1].id;
+      }
+    } catch (error: any) {
+      this.logger.error(
+        `❌ Рассылка #${broadcast.id}: в очередь встали не все (${queued}): ${error.message}`,
+      );
+    }
+
+    // Точное число получателей: пока ставили в очередь, база могла измениться
+    await this.prisma.broadcast.update({
+      where: { id: broadcast.id },
+      data: { total: queued },
+    });
+    await this.redis.set(
+      this.queuedKey(broadcast.id),
+      '1',
+      'EX',
+      BroadcastService.KEY_TTL_SEC,
+    );
+  }
+
+  private async finish(
+    broadcast: Broadcast,
+    status: 'done' | 'cancelled',
+  ): Promise<Broadcast> {
+    const finished = await this.prisma.broadcast.update({
+      where: { id: broadcast.id },
+      data: {
+        status,
+        sent: broadcast.sent,
+        failed: broadcast.failed,
+        blocked: broadcast.blocked,
+        finishedAt: new Date(),
+      },
+    });
+
+    await this.redis.del(
+      this.statsKey(broadcast.id),
+      this.queuedKey(broadcast.id),
+    );
+    this.contents.delete(broadcast.id);
+
+    await this.showProgress(finished);
+    this.shownProgress.delete(broadcast.id);
+
+    // Отдельным сообщением — чтобы админ получил уведомление
+    if (finished.progressChatId) {
+      await this.bot.api
+        .sendMessage(
+          Number(finished.progressChatId),
+          `${status === 'done' ? '✅' : '⛔'} Рассылка #${finished.id} ` +
+            `${status === 'done' ? 'завершена' : 'остановлена'}: ` +
+            `доставлено ${finished.sent} из ${finished.total}, ` +
+            `заблокировали бота ${finished.blocked}, ошибок ${finished.failed}`,
+        )
+        .catch(() => {});
+    }
+
+    this.logger.log(
+      `📨 Рассылка #${finished.id} ${status}: ${finished.sent}/${finished.total}, ` +
+        `blocked ${finished.blocked}, failed ${finished.failed}`,
+    );
+
+    return finished;
+  }
+
+  private async setStatus(
+    broadcast: Broadcast,
+    status: BroadcastStatus,
+  ): Promise<Broadcast> {
+    await this.prisma.broadcast.update({
+      where: { id: broadcast.id },
+      data: { status },
+    });
+
+    const updated = { ...broadcast, status };
+    await this.showProgress(updated);
+    return updated;
+  }
+
+  private async showProgress(broadcast: Broadcast): Promise<void> {
+    if (!broadcast.progressChatId || !broadcast.progressMsgId) return;
+
+    const text = this.renderProgress(broadcast);
+    if (this.shownProgress.get(broadcast.id) === text) return;
+    this.shownProgress.set(broadcast.id, text);
+
+    await this.bot.api
+      .editMessageText(
+        Number(broadcast.progressChatId),
+        broadcast.progressMsgId,
+        text,
+        {
+          parse_mode: 'HTML',
+          reply_markup: this.controlsKeyboard(broadcast),
+        },
+      )
+      .catch(() => {});
+  }
+
+  // Счётчики из Redis поверх сохранённых в БД
+  private async withStats(broadcast: Broadcast): Promise<Broadcast> {
+    const stats = await this.redis.hgetall(this.statsKey(broadcast.id));
+    const get = (key: BroadcastOutcome, stored: number) =>
+      stats[key] !== undefined ? parseInt(stats[key], 10) : stored;
+
+    return {
+      ...broadcast,
+      sent: get('sent', broadcast.sent),
+      failed: get('failed', broadcast.failed),
+      blocked: get('blocked', broadcast.blocked),
+    };
+  }
+
+  private statsKey(broadcastId: number): string {
+    return `broadcast:${broadcastId}:stats`;
+  }
+
+  // Флаг «все получатели в очереди» — до него рассылку не завершаем
+  private queuedKey(broadcastId: number): string {
+    return `broadcast:${broadcastId}:queued`;
+  }
+
+  // null в Json-поле Prisma — это Prisma.DbNull
+  private json<T>(
+    value: T | null,
+  ): Prisma.InputJsonValue | typeof Prisma.DbNull {
+    return value === null ? Prisma.DbNull : (value as Prisma.InputJsonValue);
+  }
+}
@@ -0,0 +1,19 @@
+// broadcast/interfaces/broadcast.interface.ts
+
+// Кому отправляем. Заблокировавшие бота и забаненные исключаются всегда
+export type BroadcastAudience =
+  | { type: 'all' }
+  | { type: 'active'; days: number } // Были активны за последние N дней
+  | { type: 'premium' }
+  | { type: 'language'; language: string }; // Код языка Telegram: "ru", "uz"
+
+export type BroadcastStatus = 'running' | 'paused' | 'done' | 'cancelled';
+
+// Итог отправки одному получателю
+export type BroadcastOutcome = 'sent' | 'failed' | 'blocked';
+
+// Одна задача очереди — одно сообщение одному пользователю
+export interface BroadcastJobData {
+  broadcastId: number;
+  userId: string; // BigInt в Redis не сериализуется
+}
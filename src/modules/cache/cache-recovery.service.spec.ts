@@ -0,0 +1,147 @@
+// src/modules/cache/cache-recovery.service.spec.ts
+
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { getBotName } from '@grammyjs/nestjs';
+import { GrammyError } from 'grammy';
+import { CacheRecoveryService } from './cache-recovery.service';
+import { CacheService } from './cache.service';
+import { CachedFileWithParts } from './interfaces/cached-file.interface';
+
+const ARCHIVE_ID = '-100500';
+
+const telegramError = (error_code: number, description: string) =>
+  new GrammyError(
+    `Call to 'sendVideo' failed! (${error_code}: ${description})`,
+    { ok: false, error_code, description },
+    'sendVideo',
+    {},
+  );
+
+const fileIdExpired = () =>
+  telegramError(400, 'Bad Request: wrong file identifier/HTTP URL specified');
+
+describe('CacheRecoveryService', () => {
+  let service: CacheRecoveryService;
+
+  const cached = {
+    id: 7,
+    fileId: 'old-file-id',
+    archiveMessageId: 42,
+    parts: [],
+  } as unknown as CachedFileWithParts;
+
+  const forwardMessage = jest.fn();
+  const deleteMessage = jest.fn().mockResolvedValue(true);
+  const updateFileIds = jest.fn();
+  const markBroken = jest.fn().mockResolvedValue(undefined);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    forwardMessage.mockResolvedValue({
+      message_id: 99,
+      video: { file_id: 'new-file-id' },
+    });
+    updateFileIds.mockImplementation((id: number, fileId: string) =>
+      Promise.resolve({ ...cached, fileId }),
+    );
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        CacheRecoveryService,
+        { provide: CacheService, useValue: { updateFileIds, markBroken } },
+        { provide: ConfigService, useValue: { get: () => ARCHIVE_ID } },
+        {
+          provide: getBotName(),
+          useValue: { api: { forwardMessage, deleteMessage } },
+        },
+      ],
+    }).compile();
+
+    service = moduleRef.get(CacheRecoveryService);
+  });
+
+  describe('sendWithRecovery', () => {
+    it('протухший file_id обновляет из архива и отправляет снова', async () => {
+      const send = jest
+        .fn()
+        .mockRejectedValueOnce(fileIdExpired())
+        .mockResolvedValueOnce({});
+
+      await expect(service.sendWithRecovery(cached, send)).resolves.toBe(
+        'sent',
+      );
+      expect(forwardMessage).toHaveBeenCalledWith(
+        ARCHIVE_ID,
+        ARCHIVE_ID,
+        42,
+        expect.anything(),
+      );
+      expect(send).toHaveBeenLastCalledWith(
+        expect.objectContaining({ fileId: 'new-file-id' }),
+        expect.anything(),
+      );
+    });
+
+    it('403 — бот заблокирован: архив не трогает и качать не просит', async () => {
+      const send = jest
+        .fn()
+        .mockRejectedValue(
+          telegramError(403, 'Forbidden: bot was blocked by the user'),
+        );
+
+      await expect(service.sendWithRecovery(cached, send)).resolves.toBe(
+        'blocked',
+      );
+      expect(forwardMessage).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['429', telegramError(429, 'Too Many Requests: retry after 5')],
+      ['5xx', telegramError(502, 'Bad Gateway')],
+      ['сеть', new Error('socket hang up')],
+    ])('%s пробрасывает, не трогая архив', async (_, error) => {
+      const send = jest.fn().mockRejectedValue(error);
+
+      await expect(service.sendWithRecovery(cached, send)).rejects.toBe(error);
+      expect(forwardMessage).not.toHaveBeenCalled();
+      expect(markBroken).not.toHaveBeenCalled();
+    });
+
+    it('архивного сообщения нет — запись битая, файл качать заново', async () => {
+      forwardMessage.mockRejectedValue(
+        telegramError(400, 'Bad Request: message to forward not found'),
+      );
+      const send = jest.fn().mockRejectedValue(fileIdExpired());
+
+      await expect(service.sendWithRecovery(cached, send)).resolves.toBe(
+        'missing',
+      );
+      expect(markBroken).toHaveBeenCalledWith(cached);
+    });
+  });
+
+  describe('refresh', () => {
+    it('архивного сообщения нет — broken', async () => {
+      forwardMessage.mockRejectedValue(
+        telegramError(400, 'Bad Request: message to forward not found'),
+      );
+
+      await expect(service.refresh(cached)).resolves.toEqual({
+        status: 'broken',
+      });
+      expect(markBroken).toHaveBeenCalledWith(cached);
+    });
+
+    it('временная ошибка — transient, запись остаётся рабочей', async () => {
+      forwardMessage.mockRejectedValue(
+        telegramError(429, 'Too Many Requests: retry after 5'),
+      );
+
+      await expect(service.refresh(cached)).resolves.toEqual({
+        status: 'transient',
+      });
+      expect(markBroken).not.toHaveBeenCalled();
+    });
+  });
+});
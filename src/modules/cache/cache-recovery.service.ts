@@ -0,0 +1,195 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectBot } from '@grammyjs/nestjs';
+import { Bot, Context, GrammyError } from 'grammy';
+import { Message } from 'grammy/types';
+import { CacheService } from './cache.service';
+import { CachedFileWithParts } from './interfaces/cached-file.interface';
+import { SendProgress } from '../../common/utils/media-group.utils';
+
+@Injectable()
+export class CacheRecoveryService {
+  private readonly logger = new Logger(CacheRecoveryService.name);
+  private readonly archiveChannelId: string;
+
+  // Ответы 400, означающие, что Telegram не знает этот file_id
+  private static readonly FILE_ID_ERROR =
+    /wrong (remote )?file identifier|file reference|wrong type of the web page content|failed to get HTTP URL content|MEDIA_EMPTY/i;
+
+  constructor(
+    private cacheService: CacheService,
+    private config: ConfigService,
+    @InjectBot() private readonly bot: Bot<Context>,
+  ) {
+    this.archiveChannelId = this.config.get<string>('CHANNEL_ID') || '';
+  }
+
+  /**
+   * 📤 Отправка из кеша с восстановлением протухшего file_id.
+   * 'missing' — восстановить не удалось, файл нужно качать заново;
+   * 'blocked' — бот заблокирован (403, пометку ставит trackUnreachable),
+   * качать незачем. 429, 5xx и сетевые ошибки пробрасываются: архив они
+   * не касаются. progress общий для обеих попыток: части, которые уже
+   * ушли, повторно не отправляются.
+   */
+  async sendWithRecovery(
+    cached: CachedFileWithParts,
+    send: (
+      file: CachedFileWithParts,
+      progress: SendProgress,
+    ) => Promise<unknown>,
+  ): Promise<CacheSendResult> {
+    const progress: SendProgress = { sent: 0 };
+
+    try {
+      await send(cached, progress);
+      return 'sent';
+    } catch (e) {
+      if (this.isBlocked(e)) return 'blocked';
+      if (!this.isFileIdInvalid(e)) throw e;
+
+      this.logger.warn(
+        `⚠️ FileID протух (запись ${cached.id}), восстанавливаю из архива: ${(e as Error).message}`,
+      );
+    }
+
+    const refreshed = await this.refresh(cached);
+    if (refreshed.status !== 'refreshed') return 'missing';
+
+    try {
+      await send(refreshed.cached, progress);
+      return 'sent';
+    } catch (e) {
+      if (this.isBlocked(e)) return 'blocked';
+      if (!this.isFileIdInvalid(e)) throw e;
+
+      this.logger.warn(
+        `⚠️ Не удалось отправить и после восстановления: ${(e as Error).message}`,
+      );
+      return 'missing';
+    }
+  }
+
+  /**
+   * ♻️ ОБНОВЛЕНИЕ FILE_ID ИЗ АРХИВНОГО КАНАЛА
+   *
+   * copyMessage возвращает только message_id, поэтому пересылаем архивное
+   * сообщение (forwardMessage) в тот же канал, забираем свежий file_id из
+   * пересланной копии и сразу её удаляем.
+   *
+   * 'broken' — архивного сообщения больше нет: запись помечается битой и
+   * при следующем запросе файл скачается заново. 'transient' — временная
+   * ошибка Telegram, запись остаётся рабочей.
+   */
+  async refresh(cached: CachedFileWithParts): Promise<CacheRefreshResult> {
+    try {
+      const partFileIds = new Map<number, string>();
+      for (const part of cached.parts) {
+        partFileIds.set(part.id, await this.fetchFileId(part.archiveMessageId));
+      }
+
+      // У альбома и нарезки основной file_id — это первая часть
+      const fileId = cached.parts.length
+        ? partFileIds.get(cached.parts[0].id)!
+        : await this.fetchFileId(cached.archiveMessageId);
+
+      const refreshed = await this.cacheService.updateFileIds(
+        cached.id,
+        fileId,
+        partFileIds,
+      );
+
+      this.logger.log(`♻️ FileID восстановлен из архива (запись ${cached.id})`);
+      return { status: 'refreshed', cached: refreshed };
+    } catch (e) {
+      // Сеть, flood wait (429) и 5xx не повод считать файл потерянным —
+      // запись не трогаем, проверим в следующий раз
+      if (!this.isArchiveMessageLost(e)) {
+        const error = e as Error;
+        this.logger.error(`❌ Ошибка восстановления FileID: ${error.message}`);
+        return { status: 'transient' };
+      }
+
+      this.logger.warn(
+        `🗑 Архивное сообщение недоступно (запись ${cached.id}): ${(e as Error).message}`,
+      );
+      await this.cacheService.markBroken(cached).catch(() => {});
+      return { status: 'broken' };
+    }
+  }
+
+  // file_id протух или выдан другому боту — обновим его из архива
+  private isFileIdInvalid(e: unknown): boolean {
+    return (
+      e instanceof GrammyError &&
+      e.error_code === 400 &&
+      CacheRecoveryService.FILE_ID_ERROR.test(e.description)
+    );
+  }
+
+  // 403 — бот заблокирован пользователем или исключён из группы
+  private isBlocked(e: unknown): boolean {
+    return e instanceof GrammyError && e.error_code === 403;
+  }
+
+  // Сообщения в архиве больше нет (удалили) или файла в нём не осталось
+  private isArchiveMessageLost(e: unknown): boolean {
+    if (e instanceof ArchiveMessageError) return true;
+
+    return (
+      e instanceof GrammyError &&
+      e.error_code === 400 &&
+      /message (to forward )?not found/i.test(e.description)
+    );
+  }
+
+  private async fetchFileId(archiveMessageId: number): Promise<string> {
+    if (!archiveMessageId) {
+      throw new ArchiveMessageError('нет архивного сообщения');
+    }
+
+    const copy = await this.bot.api.forwardMessage(
+      this.archiveChannelId,
+      this.archiveChannelId,
+      archiveMessageId,
+      { disable_notification: true },
+    );
+
+    await this.bot.api
+      .deleteMessage(this.archiveChannelId, copy.message_id)
+      .catch(() => {});
+
+    const fileId = this.extractFileId(copy);
+    if (!fileId) {
+      throw new ArchiveMessageError('в архивном сообщении нет файла');
+    }
+    return fileId;
+  }
+
+  private extractFileId(message: Message): string | undefined {
+    return (
+      message.video?.file_id ??
+      message.audio?.file_id ??
+      message.document?.file_id ??
+      message.animation?.file_id ??
+      message.photo?.[message.photo.length - 1]?.file_id
+    );
+  }
+}
+
+/**
+ * Итог отправки из кеша (см. sendWithRecovery)
+ */
+export type CacheSendResult = 'sent' | 'missing' | 'blocked';
+
+/**
+ * Итог обновления file_id из архива (см. refresh)
+ */
+export type CacheRefreshResult =
+  | { status: 'refreshed'; cached: CachedFileWithParts }
+  | { status: 'broken' | 'transient' };
+
+/**
+ * Архивное сообщение есть, но восстановить из него файл нельзя
+ */
+class ArchiveMessageError extends Error {}
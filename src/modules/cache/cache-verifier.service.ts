@@ -0,0 +1,57 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { CacheService } from './cache.service';
+import { CacheRecoveryService } from './cache-recovery.service';
+
+@Injectable()
+export class CacheVerifierService {
+  private readonly logger = new Logger(CacheVerifierService.name);
+  private readonly batchSize: number;
+  private running = false;
+
+  // Пауза между записями, чтобы не упереться в лимиты Telegram
+  private static readonly DELAY_MS = 1000;
+
+  constructor(
+    private cacheService: CacheService,
+    private cacheRecoveryService: CacheRecoveryService,
+    private config: ConfigService,
+  ) {
+    this.batchSize = this.config.get<number>('CACHE_VERIFY_BATCH') || 20;
+  }
+
+  /**
+   * Проверка порции кеша (каждый час): свежий file_id из архивного канала
+   * или пометка записи битой, если архивного сообщения больше нет
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async verifySample() {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const entries = await this.cacheService.getForVerification(
+        this.batchSize,
+      );
+      let broken = 0;
+
+      for (const cached of entries) {
+        // Временные ошибки Telegram запись не портят — их не считаем
+        const { status } = await this.cacheRecoveryService.refresh(cached);
+        if (status === 'broken') broken++;
+        await new Promise((r) => setTimeout(r, CacheVerifierService.DELAY_MS));
+      }
+
+      if (entries.length > 0) {
+        this.logger.log(
+          `🔎 Проверено записей кеша: ${entries.length}, недоступны: ${broken}`,
+        );
+      }
+    } catch (error: any) {
+      this.logger.error(`❌ Ошибка проверки кеша: ${error.message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -3,9 +3,18 @@
 import { Module } from '@nestjs/common';
 import { CacheService } from './cache.service';
 import { CacheCleanupService } from './cache-cleanup.service';
+import { CacheRecoveryService } from './cache-recovery.service';
+import { CacheVerifierService } from './cache-verifier.service';
+import { StatsModule } from '../stats/stats.module';
 
 @Module({
-  providers: [CacheService, CacheCleanupService],
-  exports: [CacheService],
+  imports: [StatsModule],
+  providers: [
+    CacheService,
+    CacheCleanupService,
+    CacheRecoveryService,
+    CacheVerifierService,
+  ],
+  exports: [CacheService, CacheRecoveryService],
 })
 export class CacheModule {}
\ No newline at end of file
@@ -1,24 +1,40 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../database/prisma.service';
-import { CachedFile } from '@prisma/client';
 import { generateCacheKey } from '../../common/utils/file.utils';
+import {
+  CachedFileInput,
+  CachedFileWithParts,
+} from './interfaces/cached-file.interface';
+import { StatsService } from '../stats/stats.service';
 
 @Injectable()
 export class CacheService {
   private readonly logger = new Logger(CacheService.name);
-  private memoryCache = new Map<string, CachedFile>();
+  private memoryCache = new Map<string, CachedFileWithParts>();
+  // Части отдаём по порядку
+  private static readonly WITH_PARTS = {
+    parts: { orderBy: { order: 'asc' as const } },
+  };
+  // Индекс «sourceKey|formatId|resolution» → cacheKey для поиска до анализа
+  private sourceIndex = new Map<string, string>();
 
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private statsService: StatsService,
+  ) {}
 
   /**
-   * Получить из кеша
+   * Получить из кеша. Попадания и промахи в статистику не пишем: поиск
+   * бывает и для значков ⚡ в клавиатуре — считаем только отдачу файла
+   * (recordCacheHit) и настоящее скачивание (recordCacheMiss)
    */
   async get(
     url: string,
     formatId: string,
     resolution: string,
-  ): Promise<CachedFile | null> {
-    const cacheKey = generateCacheKey(url, formatId, resolution);
+    clipRange?: string,
+  ): Promise<CachedFileWithParts | null> {
+    const cacheKey = generateCacheKey(url, formatId, resolution, clipRange);
 
     const memoryCached = this.memoryCache.get(cacheKey);
     if (memoryCached) {
@@ -29,11 +45,13 @@ export class CacheService {
 
     const dbCached = await this.prisma.cachedFile.findUnique({
       where: { cacheKey },
+      include: CacheService.WITH_PARTS,
     });
 
-    if (dbCached) {
+    // Битые записи (архивное сообщение удалено) считаем промахом
+    if (dbCached && !dbCached.isBroken) {
       this.logger.log(`💾 DB cache HIT: ${resolution}`);
-      this.memoryCache.set(cacheKey, dbCached);
+      this.remember(dbCached);
       this.updateCacheStatsAsync(dbCached.id);
       return dbCached;
     }
@@ -42,6 +60,128 @@ export class CacheService {
     return null;
   }
 
+  /**
+   * Получить из кеша по каноническому ключу «платформа:id».
+   * Позволяет отдать файл ещё ДО запуска yt-dlp — ключ строится из ссылки.
+   */
+  async getBySourceKey(
+    sourceKey: string,
+    formatId: string,
+    resolution: string,
+    clipRange?: string,
+  ): Promise<CachedFileWithParts | null> {
+    const indexKey = this.sourceIndexKey(
+      sourceKey,
+      formatId,
+      resolution,
+      clipRange,
+    );
+
+    const cacheKey = this.sourceIndex.get(indexKey);
+    const memoryCached = cacheKey ? this.memoryCache.get(cacheKey) : undefined;
+    if (memoryCached) {
+      this.logger.log(`⚡ Memory cache HIT: ${sourceKey}`);
+      this.updateCacheStatsAsync(memoryCached.id);
+      return memoryCached;
+    }
+
+    const dbCached = await this.prisma.cachedFile.findFirst({
+      where: {
+        sourceKey,
+        formatId,
+        resolution,
+        clipRange: clipRange ?? null,
+        isBroken: false,
+      },
+      orderBy: { lastAccessedAt: 'desc' },
+      include: CacheService.WITH_PARTS,
+    });
+
+    if (dbCached) {
+      this.logger.log(`💾 DB cache HIT: ${sourceKey}`);
+      this.remember(dbCached);
+      this.updateCacheStatsAsync(dbCached.id);
+      return dbCached;
+    }
+
+    return null;
+  }
+
+  /**
+   * Получить из кеша по каноническому ключу и качеству, с любым formatId.
+   * Подборка качает по селектору, а одиночная загрузка — по конкретному
+   * формату: так подборка находит и то, что скачивали поштучно.
+   */
+  async getBySourceResolution(
+    sourceKey: string,
+    resolution: string,
+  ): Promise<CachedFileWithParts | null> {
+    const dbCached = await this.prisma.cachedFile.findFirst({
+      where: {
+        sourceKey,
+        resolution,
+        clipRange: null,
+        isBroken: false,
+      },
+      orderBy: { lastAccessedAt: 'desc' },
+      include: CacheService.WITH_PARTS,
+    });
+
+    if (dbCached) {
+      this.logger.log(`💾 DB cache HIT: ${sourceKey} [${resolution}]`);
+      this.remember(dbCached);
+      this.updateCacheStatsAsync(dbCached.id);
+      return dbCached;
+    }
+
+    return null;
+  }
+
+  /**
+   * Положить запись в memory cache (и в индекс по sourceKey)
+   */
+  private remember(cached: CachedFileWithParts): void {
+    this.memoryCache.set(cached.cacheKey, cached);
+    if (cached.sourceKey) {
+      this.sourceIndex.set(
+        this.sourceIndexKey(
+          cached.sourceKey,
+          cached.formatId,
+          cached.resolution,
+          cached.clipRange,
+        ),
+        cached.cacheKey,
+      );
+    }
+  }
+
+  /**
+   * Убрать запись из memory cache
+   */
+  private forget(cached: CachedFileWithParts): void {
+    this.memoryCache.delete(cached.cacheKey);
+    if (cached.sourceKey) {
+      this.sourceIndex.delete(
+        this.sourceIndexKey(
+          cached.sourceKey,
+          cached.formatId,
+          cached.resolution,
+          cached.clipRange,
+        ),
+      );
+    }
+  }
+
+  private sourceIndexKey(
+    sourceKey: string,
+    formatId: string,
+    resolution: string,
+    clipRange?: string | null,
+  ): string {
+    const base = `${sourceKey}|${formatId}|${resolution}`;
+    return clipRange ? `${base}|${clipRange}` : base;
+  }
+
   private updateCacheStatsAsync(cachedFileId: number): void {
     this.prisma.cachedFile
       .update({
@@ -51,15 +191,24 @@ export class CacheService {
           downloadCount: { increment: 1 },
         },
       })
-      .catch((err: { message: any; }) => this.logger.warn(`⚠️ Не удалось обновить статистику: ${err.message}`));
+      .catch((error: Error) =>
+        this.logger.warn(
+          `⚠️ Не удалось обновить статистику кеша: ${error.message}`,
+        ),
+      );
   }
 
   /**
    * Сохранить в кеш
    */
-  async set(data: any) {
+  async set(data: CachedFileInput): Promise<CachedFileWithParts> {
     // Генерируем ключ (он должен быть помечен как @unique в schema.prisma)
-    const cacheKey = generateCacheKey(data.url, data.formatId, data.resolution);
+    const cacheKey = generateCacheKey(
+      data.url,
+      data.formatId,
+      data.resolution,
+      data.clipRange,
+    );
 
     this.logger.log(`💾 Сохранение в кеш: ${data.resolution}`);
 
@@ -71,13 +220,19 @@ export class CacheService {
         // Если запись нашлась, обновляем только ID файлов
         fileId: data.fileId,
         archiveMessageId: data.archiveMessageId,
+        isBroken: false, // Файл залит заново
+        ...(data.sourceKey && { sourceKey: data.sourceKey }),
+        // Перезалитый большой файл — части заменяем целиком
+        ...(data.parts && { parts: { deleteMany: {}, create: data.parts } }),
       },
       create: {
         // Если записи нет, создаем новую
         cacheKey: cacheKey,
+        sourceKey: data.sourceKey || null,
         originalUrl: data.url, // В схеме поле называется originalUrl
         formatId: data.formatId,
         resolution: data.resolution,
+        clipRange: data.clipRange || null,
         fileId: data.fileId,
         archiveMessageId: data.archiveMessageId,
         title: data.title,
@@ -86,34 +241,98 @@ export class CacheService {
         fileSize: data.fileSize || 0n,
         fileType: data.fileType,
         userId: data.userId,
+        ...(data.parts && { parts: { create: data.parts } }),
         downloads: {
           create: {
-            userId: data.userId ?? null,
+            userId: data.userId,
             wasFromCache: false,
           },
         },
       },
+      include: CacheService.WITH_PARTS,
     });
 
     // Сохраняем в memory cache
-    this.memoryCache.set(cacheKey, cached);
+    this.remember(cached);
+
+    return cached;
+  }
+
+  /**
+   * ♻️ Обновить file_id записи и её частей (после восстановления из архива)
+   */
+  async updateFileIds(
+    cachedFileId: number,
+    fileId: string,
+    partFileIds: Map<number, string>,
+  ): Promise<CachedFileWithParts> {
+    const cached = await this.prisma.cachedFile.update({
+      where: { id: cachedFileId },
+      data: {
+        fileId,
+        isBroken: false,
+        verifiedAt: new Date(),
+        parts: {
+          update: Array.from(partFileIds, ([id, partFileId]) => ({
+            where: { id },
+            data: { fileId: partFileId },
+          })),
+        },
+      },
+      include: CacheService.WITH_PARTS,
+    });
 
+    this.remember(cached);
     return cached;
   }
 
+  /**
+   * 🗑 Пометить запись битой: следующий запрос скачает файл заново
+   */
+  async markBroken(cached: CachedFileWithParts): Promise<void> {
+    this.forget(cached);
+    await this.prisma.cachedFile.update({
+      where: { id: cached.id },
+      data: { isBroken: true, verifiedAt: new Date() },
+    });
+  }
+
+  /**
+   * Записи для фоновой проверки: сначала непроверенные и давно проверенные
+   */
+  async getForVerification(limit: number): Promise<CachedFileWithParts[]> {
+    return this.prisma.cachedFile.findMany({
+      where: { isBroken: false },
+      orderBy: { verifiedAt: { sort: 'asc', nulls: 'first' } },
+      take: limit,
+      include: CacheService.WITH_PARTS,
+    });
+  }
+
   /**
    * Записать загрузку из кеша
    */
-  async recordCacheHit(cachedFileId: number, userId: bigint): Promise<void> {
+  async recordCacheHit(
+    cached: CachedFileWithParts,
+    userId: bigint,
+  ): Promise<void> {
+    this.statsService.track('cacheHits');
     await this.prisma.download.create({
       data: {
-        cachedFileId,
+        cachedFileId: cached.id,
         userId,
         wasFromCache: true,
       },
     });
   }
 
+  /**
+   * Файла в кеше нет — качаем с платформы
+   */
+  recordCacheMiss(): void {
+    this.statsService.track('cacheMisses');
+  }
+
   /**
    * Получить статистику кеша
    */
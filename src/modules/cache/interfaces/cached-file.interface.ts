@@ -0,0 +1,36 @@
+// cache/interfaces/cached-file.interface.ts
+import { Prisma } from '@prisma/client';
+import { PartMediaType } from '../../../common/utils/media-group.utils';
+
+// Запись кеша вместе с частями (альбомы и файлы больше лимита Telegram)
+export type CachedFileWithParts = Prisma.CachedFileGetPayload<{
+  include: { parts: true };
+}>;
+
+// Элемент альбома или часть большого файла в архивном канале
+export interface CachedPartInput {
+  order: number; // Номер части (с 1)
+  fileId: string;
+  archiveMessageId: number;
+  mediaType: PartMediaType;
+  size?: bigint;
+  duration?: number;
+}
+
+// Запись для CacheService.set после заливки в архивный канал
+export interface CachedFileInput {
+  url: string; // ID ролика — из него (с форматом и качеством) строится cacheKey
+  sourceKey?: string; // Канонический ключ «платформа:id»
+  formatId: string;
+  resolution: string;
+  clipRange?: string;
+  fileId: string;
+  archiveMessageId: number;
+  fileSize?: bigint;
+  fileType: string; // 'video' | 'audio' | 'photo' | 'album'
+  userId: bigint;
+  title?: string;
+  uploader?: string;
+  duration?: number;
+  parts?: CachedPartInput[]; // Элементы альбома или части большого файла
+}
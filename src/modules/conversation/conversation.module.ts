@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { ConversationService } from './conversation.service';
+
+@Module({
+  providers: [ConversationService],
+  exports: [ConversationService],
+})
+export class ConversationModule {}
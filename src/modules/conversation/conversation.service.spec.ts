@@ -0,0 +1,196 @@
+// src/modules/conversation/conversation.service.spec.ts
+
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { Context } from 'grammy';
+import { RedisService } from '../../database/redis.service';
+import { RedisStub } from '../../test/redis.stub';
+import { ConversationService } from './conversation.service';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const USER_ID = 1001;
+const TIMEOUT_MS = 30 * 60 * 1000;
+
+interface AdDraft {
+  content?: string;
+  showInterval?: number;
+}
+
+describe('ConversationService', () => {
+  let service: ConversationService;
+  let redis: RedisStub;
+
+  const reply = jest.fn().mockResolvedValue({});
+  const promptContent = jest.fn().mockResolvedValue(undefined);
+  const handleContent = jest.fn().mockResolvedValue(undefined);
+  const handleInterval = jest.fn().mockResolvedValue(undefined);
+
+  const ctx = (text = 'ответ') =>
+    ({
+      from: { id: USER_ID },
+      chat: { id: USER_ID, type: 'private' },
+      message: { text },
+      reply,
+    }) as unknown as Context;
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: NOW });
+    jest.clearAllMocks();
+
+    redis = new RedisStub();
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        ConversationService,
+        { provide: RedisService, useValue: redis },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(ConversationService);
+    service.register<AdDraft>({
+      'ad:content': {
+        accepts: ['text', 'media'],
+        prompt: promptContent,
+        handle: handleContent,
+      },
+      'ad:interval': { accepts: ['text'], handle: handleInterval },
+      'ad:confirm': { accepts: [] },
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('next', () => {
+    it('без диалога начинает его с переданным черновиком', async () => {
+      await service.next<AdDraft>(USER_ID, 'ad:content', { content: 'a' });
+
+      await expect(service.get(USER_ID)).resolves.toEqual({
+        step: 'ad:content',
+        data: { content: 'a' },
+        history: [],
+        updatedAt: NOW.getTime(),
+      });
+    });
+
+    it('дополняет черновик и запоминает пройденный шаг', async () => {
+      await service.start<AdDraft>(USER_ID, 'ad:content', {});
+      await service.next<AdDraft>(USER_ID, 'ad:interval', { content: 'a' });
+      await service.next<AdDraft>(USER_ID, 'ad:confirm', { showInterval: 5 });
+
+      await expect(service.get<AdDraft>(USER_ID)).resolves.toMatchObject({
+        step: 'ad:confirm',
+        data: { content: 'a', showInterval: 5 },
+        history: ['ad:content', 'ad:interval'],
+      });
+    });
+
+    it('повторный вход в текущий шаг историю не удлиняет', async () => {
+      await service.start<AdDraft>(USER_ID, 'ad:content', {});
+      await service.next<AdDraft>(USER_ID, 'ad:interval');
+      await service.next<AdDraft>(USER_ID, 'ad:interval');
+
+      expect((await service.get(USER_ID))?.history).toEqual(['ad:content']);
+    });
+
+    it('повторная регистрация шага — ошибка', () => {
+      expect(() =>
+        service.register({ 'ad:content': { accepts: ['text'] } }),
+      ).toThrow('Шаг диалога ad:content уже зарегистрирован');
+    });
+  });
+
+  describe('back', () => {
+    it('возвращает на прошлый шаг и задаёт его вопрос заново', async () => {
+      await service.start<AdDraft>(USER_ID, 'ad:content', {});
+      await service.next<AdDraft>(USER_ID, 'ad:interval', { content: 'a' });
+
+      await expect(service.back(ctx())).resolves.toBe(true);
+
+      expect(await service.getStep(USER_ID)).toBe('ad:content');
+      expect((await service.get(USER_ID))?.history).toEqual([]);
+      expect(promptContent).toHaveBeenCalledWith(expect.anything(), {
+        content: 'a',
+      });
+    });
+
+    it('на первом шаге назад некуда', async () => {
+      await service.start<AdDraft>(USER_ID, 'ad:content', {});
+
+      await expect(service.back(ctx())).resolves.toBe(true);
+
+      expect(await service.getStep(USER_ID)).toBe('ad:content');
+      expect(reply).toHaveBeenCalledWith('⬅️ Назад некуда. /cancel — выйти');
+    });
+
+    it('без диалога не обрабатывается', async () => {
+      await expect(service.back(ctx())).resolves.toBe(false);
+      expect(reply).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('таймаут', () => {
+    it('диалог истекает после CONVERSATION_TIMEOUT_MIN без ответа', async () => {
+      await service.start<AdDraft>(USER_ID, 'ad:content', {});
+
+      jest.advanceTimersByTime(TIMEOUT_MS);
+      await expect(service.getStep(USER_ID)).resolves.toBe('ad:content');
+
+      jest.advanceTimersByTime(1);
+      await expect(service.get(USER_ID)).resolves.toBeNull();
+      expect(redis.values.size).toBe(0);
+    });
+
+    it('каждый шаг продлевает диалог', async () => {
+      await service.start<AdDraft>(USER_ID, 'ad:content', {});
+      jest.advanceTimersByTime(TIMEOUT_MS);
+      await service.next<AdDraft>(USER_ID, 'ad:interval');
+      jest.advanceTimersByTime(TIMEOUT_MS);
+
+      await expect(service.getStep(USER_ID)).resolves.toBe('ad:interval');
+    });
+
+    it('ответ после таймаута сообщает, что время вышло', async () => {
+      await service.start<AdDraft>(USER_ID, 'ad:content', {});
+      jest.advanceTimersByTime(TIMEOUT_MS + 1);
+
+      await expect(service.dispatch(ctx(), 'text')).resolves.toBe(true);
+
+      expect(handleContent).not.toHaveBeenCalled();
+      expect(reply).toHaveBeenCalledWith(
+        '⌛ Время на ответ вышло — начни заново.',
+      );
+      expect(redis.values.size).toBe(0);
+    });
+  });
+
+  describe('dispatch', () => {
+    it('передаёт ответ текущему шагу вместе с черновиком', async () => {
+      await service.start<AdDraft>(USER_ID, 'ad:interval', { content: 'a' });
+
+      await expect(service.dispatch(ctx('5'), 'text')).resolves.toBe(true);
+      expect(handleInterval).toHaveBeenCalledWith(expect.anything(), {
+        content: 'a',
+      });
+    });
+
+    it('не перехватывает ввод, которого шаг не ждёт, и команды', async () => {
+      await service.start<AdDraft>(USER_ID, 'ad:interval', {});
+
+      await expect(service.dispatch(ctx(), 'media')).resolves.toBe(false);
+      await expect(service.dispatch(ctx('/admin'), 'text')).resolves.toBe(
+        false,
+      );
+      expect(handleInterval).not.toHaveBeenCalled();
+    });
+
+    it('/cancel выходит из диалога', async () => {
+      await service.start<AdDraft>(USER_ID, 'ad:interval', {});
+
+      await expect(service.cancel(ctx('/cancel'))).resolves.toBe(true);
+      await expect(service.get(USER_ID)).resolves.toBeNull();
+    });
+  });
+});
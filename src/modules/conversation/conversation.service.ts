@@ -0,0 +1,225 @@
+// src/modules/conversation/conversation.service.ts
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Context } from 'grammy';
+import { RedisService } from '../../database/redis.service';
+import {
+  ConversationInput,
+  ConversationState,
+  ConversationStep,
+} from './interfaces/conversation.interface';
+
+/**
+ * 💬 Пошаговые диалоги (мастера админки).
+ * Шаг и черновик лежат в Redis, поэтому админ посреди создания объявления
+ * переживает перезапуск бота. Новый мастер регистрирует свои шаги через
+ * register() — диспетчер сообщений трогать не нужно.
+ */
+@Injectable()
+export class ConversationService {
+  private readonly logger = new Logger(ConversationService.name);
+  private readonly timeoutMs: number;
+  private readonly steps = new Map<string, ConversationStep<any>>();
+
+  // Ключ живёт дольше таймаута, чтобы сказать админу, что время вышло
+  private static readonly KEY_TTL_SEC = 24 * 60 * 60;
+
+  constructor(
+    private redis: RedisService,
+    config: ConfigService,
+  ) {
+    this.timeoutMs =
+      (config.get<number>('CONVERSATION_TIMEOUT_MIN') ?? 30) * 60 * 1000;
+  }
+
+  register<T extends object>(steps: Record<string, ConversationStep<T>>) {
+    for (const [name, step] of Object.entries(steps)) {
+      if (this.steps.has(name)) {
+        throw new Error(`Шаг диалога ${name} уже зарегистрирован`);
+      }
+      this.steps.set(name, step);
+    }
+  }
+
+  /**
+   * ▶️ Начать диалог заново (прошлый черновик и история сбрасываются)
+   */
+  async start<T extends object>(
+    userId: number,
+    step: string,
+    data: T,
+  ): Promise<void> {
+    await this.save(userId, {
+      step,
+      data,
+      history: [],
+      updatedAt: Date.now(),
+    });
+  }
+
+  /**
+   * ➡️ Перейти к шагу, дополнив черновик. Повторный вход в текущий шаг
+   * (вопрос после /back) историю не удлиняет.
+   */
+  async next<T extends object>(
+    userId: number,
+    step: string,
+    patch: Partial<T> = {},
+  ): Promise<void> {
+    const state = await this.get<T>(userId);
+    if (!state) {
+      await this.start(userId, step, patch);
+      return;
+    }
+
+    if (state.step !== step) state.history.push(state.step);
+    state.step = step;
+    state.data = { ...state.data, ...patch };
+    state.updatedAt = Date.now();
+    await this.save(userId, state);
+  }
+
+  /**
+   * ✏️ Дополнить черновик, оставаясь на шаге
+   */
+  async update<T extends object>(
+    userId: number,
+    patch: Partial<T>,
+  ): Promise<void> {
+    const state = await this.get<T>(userId);
+    if (!state) return;
+
+    state.data = { ...state.data, ...patch };
+    state.updatedAt = Date.now();
+    await this.save(userId, state);
+  }
+
+  /**
+   * Текущий диалог; null — нет или истёк
+   */
+  async get<T extends object>(
+    userId: number,
+  ): Promise<ConversationState<T> | null> {
+    const state = await this.load<T>(userId);
+    if (!state) return null;
+
+    if (this.isExpired(state)) {
+      await this.redis.del(this.key(userId));
+      return null;
+    }
+    return state;
+  }
+
+  async getStep(userId: number): Promise<string | undefined> {
+    return (await this.get(userId))?.step;
+  }
+
+  /**
+   * Выйти из диалога; с prefix — только если шаг из этого мастера
+   */
+  async leave(userId: number, prefix?: string): Promise<void> {
+    if (prefix) {
+      const step = await this.getStep(userId);
+      if (!step?.startsWith(prefix)) return;
+    }
+    await this.redis.del(this.key(userId));
+  }
+
+  /**
+   * 📬 Передать сообщение текущему шагу. false — диалога нет или шаг
+   * такого ввода не ждёт: сообщение обрабатывается как обычно.
+   */
+  async dispatch(ctx: Context, input: ConversationInput): Promise<boolean> {
+    const userId = ctx.from?.id;
+    if (!userId || ctx.chat?.type !== 'private') return false;
+
+    // Команды (/cancel, /back, /admin...) шагам не передаём
+    if (ctx.message?.text?.startsWith('/')) return false;
+
+    const state = await this.load(userId);
+    if (!state) return false;
+
+    if (this.isExpired(state)) {
+      await this.redis.del(this.key(userId));
+      await ctx.reply('⌛ Время на ответ вышло — начни заново.');
+      return true;
+    }
+
+    const step = this.steps.get(state.step);
+    if (!step?.handle || !step.accepts.includes(input)) return false;
+
+    await step.handle(ctx, state.data);
+    return true;
+  }
+
+  /**
+   * ❌ /cancel на любом шаге
+   */
+  async cancel(ctx: Context): Promise<boolean> {
+    const userId = ctx.from?.id;
+    if (!userId || !(await this.get(userId))) return false;
+
+    await this.redis.del(this.key(userId));
+    await ctx.reply('❌ Отменено');
+    return true;
+  }
+
+  /**
+   * ⬅️ /back — вернуться на предыдущий шаг и задать его вопрос заново
+   */
+  async back(ctx: Context): Promise<boolean> {
+    const userId = ctx.from?.id;
+    const state = userId ? await this.get(userId) : null;
+    if (!userId || !state) return false;
+
+    const previous = state.history.pop();
+    const step = previous ? this.steps.get(previous) : undefined;
+    if (!previous || !step?.prompt) {
+      await ctx.reply('⬅️ Назад некуда. /cancel — выйти');
+      return true;
+    }
+
+    state.step = previous;
+    state.updatedAt = Date.now();
+    await this.save(userId, state);
+
+    await step.prompt(ctx, state.data);
+    return true;
+  }
+
+  private async load<T extends object>(
+    userId: number,
+  ): Promise<ConversationState<T> | null> {
+    const raw = await this.redis.get(this.key(userId));
+    if (!raw) return null;
+
+    try {
+      return JSON.parse(raw) as ConversationState<T>;
+    } catch {
+      this.logger.warn(`⚠️ Битое состояние диалога ${userId} — сбрасываем`);
+      await this.redis.del(this.key(userId));
+      return null;
+    }
+  }
+
+  private async save(
+    userId: number,
+    state: ConversationState<object>,
+  ): Promise<void> {
+    await this.redis.set(
+      this.key(userId),
+      JSON.stringify(state),
+      'EX',
+      ConversationService.KEY_TTL_SEC,
+    );
+  }
+
+  private isExpired(state: ConversationState<object>): boolean {
+    return Date.now() - state.updatedAt > this.timeoutMs;
+  }
+
+  private key(userId: number): string {
+    return `conversation:${userId}`;
+  }
+}
@@ -0,0 +1,23 @@
+// conversation/interfaces/conversation.interface.ts
+
+import { Context } from 'grammy';
+
+// Что шаг ждёт от пользователя; шаг только с кнопками не ждёт ничего
+export type ConversationInput = 'text' | 'media';
+
+// Состояние диалога — хранится в Redis и переживает перезапуск
+export interface ConversationState<T extends object = Record<string, unknown>> {
+  step: string;
+  data: T; // Черновик мастера: только JSON-совместимые значения
+  history: string[]; // Пройденные шаги — для /back
+  updatedAt: number;
+}
+
+// Шаг мастера. Обработчики регистрируются в коде, в Redis — только имя шага
+export interface ConversationStep<T extends object> {
+  accepts: ConversationInput[];
+  // Задать вопрос шага заново (после /back)
+  prompt?: (ctx: Context, data: T) => Promise<void>;
+  // Ответ пользователя на этом шаге
+  handle?: (ctx: Context, data: T) => Promise<void>;
+}
@@ -0,0 +1,344 @@
+// src/modules/downloader/download-jobs.service.ts
+
+import { forwardRef, Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Interval } from '@nestjs/schedule';
+import { InjectBot } from '@grammyjs/nestjs';
+import { Job, Queue } from 'bullmq';
+import { Bot, Context, InlineKeyboard } from 'grammy';
+import * as crypto from 'crypto';
+import { DownloadJobData } from './interfaces/download-job.interface';
+import { PlaylistService } from './playlist/playlist.service';
+import { PremiumService } from '../premium/premium.service';
+import { QuotaService } from '../quota/quota.service';
+import { escapeHtml } from '../../common/utils/format.utils';
+
+export interface UserJobStatus {
+  jobId: string;
+  title: string;
+  active: boolean;
+  position: number; // Место среди ожидающих (0 — уже качается)
+  etaSeconds: number;
+}
+
+@Injectable()
+export class DownloadJobsService {
+  private readonly logger = new Logger(DownloadJobsService.name);
+  private readonly concurrency: number;
+
+  // Запущенные в этом процессе задачи — для отмены (jobId → контроллер)
+  private running = new Map<string, AbortController>();
+  // Последняя показанная позиция в «живых» сообщениях очереди
+  private shownPositions = new Map<string, number>();
+  // Средняя длительность задачи (сек) — для ETA
+  private avgDurationSec = 60;
+
+  private static readonly WAITING_STATES = [
+    'waiting',
+    'prioritized',
+    'delayed',
+  ] as const;
+
+  constructor(
+    @InjectQueue('download-queue') private downloadQueue: Queue,
+    @Inject(forwardRef(() => PlaylistService))
+    private playlistService: PlaylistService,
+    private premiumService: PremiumService,
+    private quotaService: QuotaService,
+    private config: ConfigService,
+    @InjectBot() private readonly bot: Bot<Context>,
+  ) {
+    this.concurrency = this.config.get<number>('MAX_PARALLEL_DOWNLOADS') || 3;
+  }
+
+  /**
+   * 📥 ПОСТАНОВКА ЗАДАЧИ В ОЧЕРЕДЬ
+   * notice — текст «живого» сообщения очереди с кнопкой отмены; воркер
+   * потом превратит его в прогресс. Без notice (элементы подборки) —
+   * задача видна только в /queue. Premium-задачи идут вперёд очереди.
+   */
+  async enqueue(data: DownloadJobData, notice?: string): Promise<string> {
+    const jobId = crypto.randomBytes(8).toString('hex');
+    const { priority } = await this.premiumService.getPerks(
+      BigInt(data.userId),
+    );
+
+    if (notice) {
+      const msg = await this.bot.api.sendMessage(data.chatId, notice, {
+        reply_markup: this.cancelKeyboard(jobId),
+      });
+      data.queueMsgId = msg.message_id;
+    }
+
+    await this.downloadQueue.add('download-task', data, {
+      jobId,
+      priority,
+      attempts: 3, // Если упадет, попробовать еще 3 раза
+      backoff: 5000, // Пауза между попытками 5 сек
+      removeOnComplete: true, // Удалять из Redis после успеха
+    });
+
+    return jobId;
+  }
+
+  /**
+   * ▶️ Задача взята воркером: сигнал отмены для yt-dlp и ffmpeg
+   */
+  start(jobId: string): AbortSignal {
+    const controller = new AbortController();
+    this.running.set(jobId, controller);
+    this.shownPositions.delete(jobId);
+    return controller.signal;
+  }
+
+  /**
+   * ⏹ Задача завершена: учитываем длительность для ETA
+   */
+  finish(jobId: string, durationMs: number): void {
+    const controller = this.running.get(jobId);
+    this.running.delete(jobId);
+    // Отменённые задачи обрываются на середине — в прогноз их не берём
+    if (controller?.signal.aborted) return;
+    // Скользящее среднее, чтобы одна длинная загрузка не ломала прогноз
+    this.avgDurationSec = this.avgDurationSec * 0.8 + (durationMs / 1000) * 0.2;
+  }
+
+  /**
+   * 📋 Задачи пользователя: активные и ожидающие с позицией и ETA
+   */
+  async getUserJobs(userId: string): Promise<UserJobStatus[]> {
+    const [active, waiting] = await Promise.all([
+      this.downloadQueue.getJobs(['active']),
+      this.getWaitingJobs(),
+    ]);
+
+    const result: UserJobStatus[] = [];
+
+    for (const job of active) {
+      if (job.data?.userId !== userId) continue;
+      result.push({
+        jobId: job.id!,
+        title: this.jobTitle(job),
+        active: true,
+        position: 0,
+        etaSeconds: 0,
+      });
+    }
+
+    waiting.forEach((job, idx) => {
+      if (job.data?.userId !== userId) return;
+      result.push({
+        jobId: job.id!,
+        title: this.jobTitle(job),
+        active: false,
+        position: idx + 1,
+        etaSeconds: this.eta(idx + 1),
+      });
+    });
+
+    return result;
+  }
+
+  /**
+   * 📊 Сколько задач качается и ждёт (для статистики)
+   */
+  async getCounts(): Promise<{ active: number; waiting: number }> {
+    const counts = await this.downloadQueue.getJobCounts(
+      'active',
+      ...DownloadJobsService.WAITING_STATES,
+    );
+
+    return {
+      active: counts.active || 0,
+      waiting: DownloadJobsService.WAITING_STATES.reduce(
+        (sum, state) => sum + (counts[state] || 0),
+        0,
+      ),
+    };
+  }
+
+  /**
+   * 📋 /queue — список загрузок пользователя
+   */
+  async showUserQueue(ctx: Context): Promise<void> {
+    if (!ctx.from) return;
+
+    const { text, keyboard } = await this.renderUserQueue(
+      ctx.from.id.toString(),
+    );
+    await ctx.reply(text, { parse_mode: 'HTML', reply_markup: keyboard });
+  }
+
+  /**
+   * ❌ ОТМЕНА ЗАДАЧИ (кнопка в сообщении очереди/прогрессе или в /queue)
+   * Ожидающую — удаляем из очереди, запущенную — останавливаем yt-dlp.
+   * fromList — нажали в списке /queue, его нужно перерисовать.
+   */
+  async cancel(ctx: Context, jobId: string, fromList = false): Promise<void> {
+    if (!ctx.from) return;
+    const userId = ctx.from.id.toString();
+
+    const job: Job<DownloadJobData> | undefined =
+      await this.downloadQueue.getJob(jobId);
+
+    if (!job || job.data.userId !== userId) {
+      await ctx.answerCallbackQuery({
+        text: '⚠️ Задача уже завершена или не найдена',
+      });
+      return;
+    }
+
+    const state = await job.getState();
+
+    if (state === 'active') {
+      const controller = this.running.get(jobId);
+      if (!controller) {
+        await ctx.answerCallbackQuery({
+          text: '⚠️ Задача уже выполняется, отменить нельзя',
+        });
+        return;
+      }
+
+      controller.abort();
+      await ctx.answerCallbackQuery({ text: '❌ Останавливаю загрузку...' });
+    } else if (
+      (DownloadJobsService.WAITING_STATES as readonly string[]).includes(state)
+    ) {
+      await job.remove();
+      this.shownPositions.delete(jobId);
+
+      // Загрузка списана при постановке в очередь — возвращаем
+      await this.quotaService.refund(
+        { userId: ctx.from.id, chatId: job.data.chatId },
+        'download',
+      );
+
+      if (job.data.queueMsgId) {
+        await this.bot.api
+          .editMessageText(
+            job.data.chatId,
+            job.data.queueMsgId,
+            '❌ Загрузка отменена',
+          )
+          .catch(() => {});
+      }
+
+      // Элемент подборки — чтобы сводный прогресс не застрял
+      if (job.data.batchId) {
+        await this.playlistService
+          .reportItem(job.data.batchId, false)
+          .catch(() => {});
+      }
+
+      await ctx.answerCallbackQuery({ text: '❌ Загрузка отменена' });
+      this.logger.log(`❌ Задача ${jobId} отменена пользователем ${userId}`);
+    } else {
+      await ctx.answerCallbackQuery({ text: '⚠️ Задача уже завершена' });
+      return;
+    }
+
+    // Нажали в списке /queue — обновляем список на месте
+    if (fromList) {
+      const { text, keyboard } = await this.renderUserQueue(userId);
+      await ctx
+        .editMessageText(text, { parse_mode: 'HTML', reply_markup: keyboard })
+        .catch(() => {});
+    }
+  }
+
+  /**
+   * 🔄 «Живые» сообщения очереди: обновляем позицию, когда она меняется
+   */
+  @Interval(10000)
+  async refreshQueueMessages() {
+    try {
+      const waiting = await this.getWaitingJobs();
+      const waitingIds = new Set<string>();
+
+      for (const [idx, job] of waiting.entries()) {
+        const jobId = job.id!;
+        const position = idx + 1;
+        waitingIds.add(jobId);
+
+        if (!job.data?.queueMsgId) continue;
+        if (this.shownPositions.get(jobId) === position) continue;
+        this.shownPositions.set(jobId, position);
+
+        await this.bot.api
+          .editMessageText(
+            job.data.chatId,
+            job.data.queueMsgId,
+            `📥 В очереди: №${position}\n` +
+              `⏳ Примерно через ${this.formatEta(this.eta(position))}\n\n` +
+              `Я пришлю видео, как только оно будет готово.`,
+            { reply_markup: this.cancelKeyboard(jobId) },
+          )
+          .catch(() => {});
+      }
+
+      // Забываем задачи, которые уже ушли из ожидания
+      for (const jobId of this.shownPositions.keys()) {
+        if (!waitingIds.has(jobId)) this.shownPositions.delete(jobId);
+      }
+    } catch (error: any) {
+      this.logger.warn(`⚠️ Не удалось обновить очередь: ${error.message}`);
+    }
+  }
+
+  cancelKeyboard(jobId: string): InlineKeyboard {
+    return new InlineKeyboard().text('❌ Отменить', `qcancel|${jobId}`);
+  }
+
+  private async renderUserQueue(
+    userId: string,
+  ): Promise<{ text: string; keyboard: InlineKeyboard }> {
+    const jobs = await this.getUserJobs(userId);
+    const keyboard = new InlineKeyboard();
+
+    if (jobs.length === 0) {
+      return { text: '📭 У тебя нет загрузок в очереди.', keyboard };
+    }
+
+    let text = '📋 <b>Твои загрузки:</b>\n\n';
+
+    jobs.forEach((job, idx) => {
+      const status = job.active
+        ? '⬇️ скачивается'
+        : `⏳ №${job.position} в очереди, ~${this.formatEta(job.etaSeconds)}`;
+      text += `${idx + 1}. ${escapeHtml(job.title)}\n    ${status}\n`;
+
+      keyboard
+        .text(
+          `❌ ${idx + 1}. ${job.title.substring(0, 30)}`,
+          `qcancel|${job.jobId}|list`,
+        )
+        .row();
+    });
+
+    return { text, keyboard };
+  }
+
+  // Ожидающие задачи в порядке выполнения (сначала самые старые)
+  private async getWaitingJobs(): Promise<Job<DownloadJobData>[]> {
+    return this.downloadQueue.getJobs(
+      [...DownloadJobsService.WAITING_STATES],
+      0,
+      -1,
+      true,
+    );
+  }
+
+  private jobTitle(job: Job<DownloadJobData>): string {
+    return job.data?.videoData?.title || 'Видео';
+  }
+
+  private eta(position: number): number {
+    return Math.ceil(position / this.concurrency) * this.avgDurationSec;
+  }
+
+  private formatEta(seconds: number): string {
+    if (seconds < 60) return '1 мин';
+    return `${Math.round(seconds / 60)} мин`;
+  }
+}
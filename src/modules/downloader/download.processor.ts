@@ -1,7 +1,15 @@
 import { Processor, WorkerHost } from '@nestjs/bullmq';
-import { Job } from 'bullmq';
+import { Job, UnrecoverableError } from 'bullmq';
 import { Logger } from '@nestjs/common';
-import { DownloaderService } from './downloader.service';
+import { DownloaderService, FileTooLargeError } from './downloader.service';
+import { DownloadCancelledError } from '../ytdlp/ytdlp.service';
+import { DownloadJobsService } from './download-jobs.service';
+import { DownloadJobData } from './interfaces/download-job.interface';
+import { PlaylistService } from './playlist/playlist.service';
+import { UserService } from '../user/user.service';
+import { QuotaService } from '../quota/quota.service';
+import { StatsService } from '../stats/stats.service';
+import { GrammyError } from 'grammy';
 
 @Processor('download-queue', {
   // Число параллельных загрузок задаётся через env MAX_PARALLEL_DOWNLOADS
@@ -13,6 +21,11 @@ export class DownloadProcessor extends WorkerHost {
 
   constructor(
     private readonly downloaderService: DownloaderService, // Оставляем только сервис
+    private readonly downloadJobs: DownloadJobsService,
+    private readonly playlistService: PlaylistService,
+    private readonly userService: UserService,
+    private readonly quotaService: QuotaService,
+    private readonly statsService: StatsService,
   ) {
     super();
   }
@@ -25,20 +38,45 @@ export class DownloadProcessor extends WorkerHost {
       formatId,
       resolution,
       isAudio,
-      isInstagram,
+      platform,
       isDirect,
       queueMsgId,
+      batchId,
+      clip,
     } = job.data;
 
+    // Пользователь заблокировал бота — качать некому (в группах его блок
+    // не мешает, поэтому проверяем только личку)
+    if (chatId > 0 && !(await this.userService.isReachable(BigInt(userId)))) {
+      // Элемент подборки всё равно засчитываем, иначе сводка не дойдёт до конца
+      if (batchId) {
+        await this.playlistService.reportItem(batchId, false).catch(() => {});
+      }
+      throw new UnrecoverableError(`Бот заблокирован пользователем ${userId}`);
+    }
+
+    // Сигнал отмены (кнопка в прогрессе или /queue) и учёт длительности для ETA
+    const signal = this.downloadJobs.start(job.id!);
+    const startedAt = Date.now();
+    const retry = job.attemptsMade > 0;
+    const lastAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+
+    // Ожидание в очереди считаем по первой попытке — повторы ждут backoff
+    if (!retry) {
+      this.statsService.trackQueueWait(
+        (job.processedOn ?? startedAt) - job.timestamp,
+      );
+    }
+
     try {
       if (isDirect) {
-        // Прямое скачивание (Instagram / YouTube Shorts) — без выбора качества
+        // Прямое скачивание (Reels / Shorts и т.п.) — без выбора качества
         await this.downloaderService.executeDirectDownloadLogic(
           chatId,
           BigInt(userId),
           videoData,
-          isInstagram,
-          queueMsgId,
+          platform,
+          { batchId, queueMsgId, signal, jobId: job.id, retry, lastAttempt },
         );
       } else {
         // Обычное скачивание с выбранным качеством
@@ -49,13 +87,55 @@ export class DownloadProcessor extends WorkerHost {
           formatId,
           resolution,
           isAudio,
-          isInstagram,
+          {
+            batchId,
+            clip,
+            queueMsgId,
+            signal,
+            jobId: job.id,
+            retry,
+            lastAttempt,
+          },
         );
       }
     } catch (error) {
+      // Отменённую задачу не повторяем — пользователь уже видит «отменено»
+      if (error instanceof DownloadCancelledError) {
+        this.logger.log(`❌ Задание ${job.id} отменено`);
+        await this.refund(job);
+        throw new UnrecoverableError(error.message);
+      }
+
+      // Файл больше лимита тарифа — пользователь уже видит ошибку с лимитом
+      if (error instanceof FileTooLargeError) {
+        await this.refund(job);
+        throw new UnrecoverableError(error.message);
+      }
+
+      // 403 — бот заблокирован, повторная попытка тоже упрётся в блок
+      if (error instanceof GrammyError && error.error_code === 403) {
+        throw new UnrecoverableError(error.message);
+      }
+
       const err = error as Error;
       this.logger.error(`Ошибка в задании ${job.id}: ${err.message}`);
+
+      // Последняя попытка — загрузка провалилась (для доли ошибок в статистике)
+      if (lastAttempt) {
+        this.statsService.track('failedDownloads', platform);
+        await this.refund(job);
+      }
       throw error;
+    } finally {
+      this.downloadJobs.finish(job.id!, Date.now() - startedAt);
     }
   }
+
+  // Загрузка не дошла до пользователя — возвращаем её в суточный лимит
+  private async refund(job: Job<DownloadJobData>): Promise<void> {
+    await this.quotaService.refund(
+      { userId: BigInt(job.data.userId), chatId: job.data.chatId },
+      'download',
+    );
+  }
 }
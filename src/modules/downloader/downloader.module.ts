@@ -1,10 +1,8 @@
 // src/modules/downloader/downloader.module.ts
 
 import { forwardRef, Module } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
 import { DownloaderService } from './downloader.service';
 import { YtdlpService } from '../ytdlp/ytdlp.service';
-import { QueueService } from './queue.service';
 import { VideoSessionService } from './video-session/video-session.service'; // ← Добавили
 import { CacheModule } from '../cache/cache.module';
 import { UploaderModule } from '../uploader/uploader.module';
@@ -14,6 +12,14 @@ import { VideoSessionCleanupService } from './video-session/video-session-cleanu
 import { BullModule } from '@nestjs/bullmq';
 import { DownloadProcessor } from './download.processor';
 import { BotModule } from '../bot/bot.module';
+import { PlatformModule } from '../platform/platform.module';
+import { PlaylistService } from './playlist/playlist.service';
+import { PlaylistSessionService } from './playlist/playlist-session.service';
+import { PlaylistSessionCleanupService } from './playlist/playlist-session-cleanup.service';
+import { DownloadJobsService } from './download-jobs.service';
+import { QuotaModule } from '../quota/quota.module';
+import { PremiumModule } from '../premium/premium.module';
+import { StatsModule } from '../stats/stats.module';
 
 @Module({
   imports: [
@@ -25,6 +31,10 @@ import { BotModule } from '../bot/bot.module';
     forwardRef(() => UploaderModule),
     UserModule,
     AdvertisementModule,
+    PlatformModule,
+    QuotaModule,
+    PremiumModule,
+    StatsModule,
   ],
   providers: [
     DownloadProcessor,
@@ -32,15 +42,11 @@ import { BotModule } from '../bot/bot.module';
     YtdlpService,
     VideoSessionService,
     VideoSessionCleanupService,
-    {
-      provide: QueueService,
-      useFactory: (config: ConfigService) => {
-        const maxParallel = config.get<number>('MAX_PARALLEL_DOWNLOADS') || 3;
-        return new QueueService(maxParallel);
-      },
-      inject: [ConfigService],
-    },
+    PlaylistService,
+    PlaylistSessionService,
+    PlaylistSessionCleanupService,
+    DownloadJobsService,
   ],
-  exports: [DownloaderService],
+  exports: [DownloaderService, PlaylistService, DownloadJobsService],
 })
 export class DownloaderModule {}
@@ -1,10 +1,9 @@
 // src/modules/downloader/downloader.service.ts
 
-import { Injectable, Logger } from '@nestjs/common';
+import { forwardRef, Inject, Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { Context, InlineKeyboard, Bot, InputFile } from 'grammy';
-import { YtdlpService } from '../ytdlp/ytdlp.service';
-import { QueueService } from './queue.service';
+import { Context, InlineKeyboard, Bot, InputFile, GrammyError } from 'grammy';
+import { DownloadCancelledError, YtdlpService } from '../ytdlp/ytdlp.service';
 import { CacheService } from '../cache/cache.service';
 import { UploaderService } from '../uploader/uploader.service';
 import { UserService } from '../user/user.service';
@@ -14,6 +13,7 @@ import {
   formatNumber,
   formatUploadDate,
   createProgressBar,
+  escapeHtml,
 } from '../../common/utils/format.utils';
 import {
   sanitizeFilename,
@@ -24,9 +24,26 @@ import * as path from 'path';
 import * as fs from 'fs/promises';
 import { AdvertisementService } from '../advertisement/advertisement.service';
 import { VideoSessionService } from './video-session/video-session.service';
-import { InjectQueue } from '@nestjs/bullmq';
-import { Queue } from 'bullmq';
 import { InjectBot } from '@grammyjs/nestjs';
+import { PlatformRegistry } from '../platform/platform.registry';
+import {
+  CachedFileWithParts,
+  CachedPartInput,
+} from '../cache/interfaces/cached-file.interface';
+import { sendMediaParts } from '../../common/utils/media-group.utils';
+import { CacheRecoveryService } from '../cache/cache-recovery.service';
+import { PlaylistService } from './playlist/playlist.service';
+import { DownloadJobsService } from './download-jobs.service';
+import { QuotaService } from '../quota/quota.service';
+import { PremiumService } from '../premium/premium.service';
+import { StatsService } from '../stats/stats.service';
+import { DownloadTaskOptions } from './interfaces/download-job.interface';
+import {
+  ClipRange,
+  clipKey,
+  formatClipRange,
+  parseClipRange,
+} from '../../common/utils/clip.utils';
 @Injectable()
 export class DownloaderService {
   private readonly logger = new Logger(DownloaderService.name);
@@ -36,28 +53,44 @@ export class DownloaderService {
   private activeUsers = new Set<string>();
   private readonly downloadsDir: string;
   private readonly yourUsername: string;
+  private readonly maxUploadBytes: number;
 
   // Ограничение памяти для videoDataCache (защита от утечки)
   private static readonly MAX_VIDEO_CACHE = 500;
   // Ключи кеша для прямых загрузок (Instagram / YouTube Shorts) — всегда лучшее качество
   private static readonly DIRECT_FORMAT_ID = 'best';
-  private static readonly DIRECT_RESOLUTION = 'best';
+  static readonly DIRECT_RESOLUTION = 'best';
+  // ✂️ Пользователи, от которых ждём отрезок для фрагмента (userId → сессия)
+  private pendingClips = new Map<
+    number,
+    { sessionId: string; expiresAt: number }
+  >();
+  private static readonly CLIP_INPUT_TTL_MS = 5 * 60 * 1000;
 
   constructor(
-    @InjectQueue('download-queue') private downloadQueue: Queue,
     private ytdlpService: YtdlpService,
-    private queueService: QueueService,
     private cacheService: CacheService,
     private uploaderService: UploaderService,
     private userService: UserService,
     private config: ConfigService,
     private advertisementService: AdvertisementService,
     private videoSessionService: VideoSessionService,
+    private platformRegistry: PlatformRegistry,
+    @Inject(forwardRef(() => PlaylistService))
+    private playlistService: PlaylistService,
+    private cacheRecoveryService: CacheRecoveryService,
+    private downloadJobs: DownloadJobsService,
+    private quotaService: QuotaService,
+    private premiumService: PremiumService,
+    private statsService: StatsService,
     @InjectBot() private readonly bot: Bot<Context>,
   ) {
     this.downloadsDir =
       this.config.get<string>('DOWNLOADS_DIR') || '/tmp/bot_downloads';
     this.yourUsername = this.config.get<string>('YOUR_USERNAME') || '@your_bot';
+    // Лимит Local Bot API — 2000 MB; всё, что больше, режем на части
+    this.maxUploadBytes =
+      (this.config.get<number>('MAX_UPLOAD_SIZE_MB') || 2000) * 1024 * 1024;
 
     this.ensureDirectoryExists();
   }
@@ -83,33 +116,47 @@ export class DownloaderService {
 
     const chatId = ctx.chat.id;
     let progressMsg;
-    if (url.includes('instagram.com/stories/')) {
+
+    const platform = this.platformRegistry.resolve(url);
+    if (!platform) {
       await ctx.reply(
-        '🚫 Instagram Stories скачать нельзя.\n\nПопробуй Reels.',
+        `❌ Эта платформа не поддерживается.\n\nРаботаю с ${this.platformRegistry.titles().join(', ')}`,
       );
       return;
     }
 
-    // Instagram фото / карусели — бот качает только видео (Reels)
-    if (
-      url.includes('instagram.com') &&
-      !url.includes('/reel/') &&
-      !url.includes('/reels/') &&
-      !url.includes('/tv/') &&
-      !url.includes('/p/')
-    ) {
-      await ctx.reply(
-        '📷 Я качаю только видео (Reels).\n\nФото и карусели не поддерживаю.',
-      );
+    const { provider } = platform;
+    const rejection = provider.validate?.(platform.url);
+    if (rejection) {
+      await ctx.reply(rejection);
       return;
     }
-    const supportedDomains = ['youtube.com', 'youtu.be', 'instagram.com'];
-    const isSupported = supportedDomains.some((domain) => url.includes(domain));
-    if (!isSupported) {
-      await ctx.reply(
-        '❌ Эта платформа не поддерживается.\n\nРаботаю с YouTube, Instagram',
+
+    const userId = ctx.from ? BigInt(ctx.from.id) : BigInt(0);
+    const isDirect = provider.isDirect(platform.url);
+    const canonical = this.platformRegistry.canonicalize(url);
+
+    // ⚡ Самый быстрый путь: ключ «платформа:id» строится прямо из ссылки
+    // (без ?si=, ?igsh= и т.п.), поэтому популярные Reels/Shorts отдаём из
+    // кеша, даже не запуская yt-dlp
+    if (isDirect && canonical) {
+      const cached = await this.cacheService.getBySourceKey(
+        canonical.key,
+        DownloaderService.DIRECT_FORMAT_ID,
+        DownloaderService.DIRECT_RESOLUTION,
       );
-      return;
+
+      if (
+        cached &&
+        (await this.serveDirectFromCache(
+          chatId,
+          userId,
+          cached,
+          cached.title || 'Видео',
+        ))
+      ) {
+        return;
+      }
     }
 
     // 🛡️ Антиспам: одна ссылка на пользователя за раз
@@ -120,76 +167,98 @@ export class DownloaderService {
       );
       return;
     }
+
+    // 🚦 Суточный лимит ссылок и защита от флуда
+    if (ctx.from) {
+      const verdict = await this.quotaService.consume(
+        { userId: ctx.from.id, chatId },
+        'analysis',
+      );
+      if (!verdict.allowed) {
+        await ctx.reply(this.quotaService.formatDenial(verdict));
+        return;
+      }
+    }
+
     if (userKey) this.activeUsers.add(userKey);
 
     try {
       progressMsg = await ctx.reply('🔍 Анализирую ссылку...');
 
-      const videoInfo = await this.ytdlpService.getVideoInfo(url);
-
-      const isYouTube = url.includes('youtube.com') || url.includes('youtu.be');
-      const isInstagram = url.includes('instagram.com');
-      const isYouTubeShorts = url.includes('/shorts/');
-
-      const userId = ctx.from ? BigInt(ctx.from.id) : BigInt(0);
+      // 📃 Плейлист / канал / профиль — список с выбором элементов
+      if (provider.isCollection?.(platform.url)) {
+        await this.playlistService.showPicker(
+          ctx,
+          provider,
+          platform.url,
+          progressMsg.message_id,
+        );
+        return;
+      }
 
-      // Instagram и YouTube Shorts — скачиваем сразу в максимальном качестве,
-      // без выбора качества
-      if (isInstagram || isYouTubeShorts) {
+      const videoInfo = await this.ytdlpService.getVideoInfo(
+        url,
+        provider.supportsImages,
+      );
+      videoInfo.platform = provider.name;
+      videoInfo.canonicalKey =
+        canonical?.key ??
+        this.platformRegistry.buildKey(provider.name, videoInfo.id);
+
+      // Reels, Shorts и т.п. — скачиваем сразу в максимальном качестве,
+      // без выбора качества (решает провайдер платформы)
+      if (isDirect) {
         await ctx.api
           .deleteMessage(chatId, progressMsg.message_id)
           .catch(() => {});
 
         // ⚡ Быстрый путь: если видео уже в кеше — отдаём мгновенно, минуя очередь
+        // (записи, сохранённые до появления канонических ключей, ищем по id)
         const cached = await this.cacheService.get(
           videoInfo.id,
           DownloaderService.DIRECT_FORMAT_ID,
           DownloaderService.DIRECT_RESOLUTION,
         );
 
-        if (cached) {
-          try {
-            await ctx.replyWithVideo(cached.fileId, {
-              caption: `✅ ${videoInfo.title}\n\n📢 ${this.yourUsername}`,
-              supports_streaming: true,
-            });
-            await this.cacheService
-              .recordCacheHit(cached.id, userId)
-              .catch(() => {});
-            await this.userService.incrementDownloads(userId).catch(() => {});
-            this.advertisementService.incrementUserDownloads(userId);
-            return;
-          } catch (e) {
-            const err = e as Error;
-            this.logger.warn(
-              `⚠️ FileID из кеша протух, ставлю в очередь: ${err.message}`,
-            );
-          }
+        if (
+          cached &&
+          (await this.serveDirectFromCache(
+            chatId,
+            userId,
+            cached,
+            videoInfo.title,
+          ))
+        ) {
+          return;
         }
 
-        // Сначала отправляем уведомление, чтобы получить его message_id —
-        // воркер переиспользует это сообщение под прогресс и удалит его, когда
-        // видео отправлено (одно «живое» сообщение вместо висящего навсегда).
-        const queueMsg = await ctx.reply(
-          '📥 Видео добавлено в очередь!\n⏳ Я пришлю его, как только оно будет готово.',
+        // Окно «подряд» этот запрос уже прошёл при анализе
+        const verdict = await this.quotaService.consume(
+          { userId, chatId },
+          'download',
+          1,
+          { burst: false },
         );
+        if (!verdict.allowed) {
+          await ctx.reply(this.quotaService.formatDenial(verdict));
+          return;
+        }
 
-        // Иначе — в очередь (НЕ блокируем бота на время скачивания)
-        await this.downloadQueue.add(
-          'download-task',
+        // Иначе — в очередь (НЕ блокируем бота на время скачивания).
+        // Уведомление с кнопкой отмены воркер переиспользует под прогресс и
+        // удалит, когда видео отправлено (одно «живое» сообщение).
+        await this.downloadJobs.enqueue(
           {
             chatId,
             userId: userId.toString(),
             videoData: videoInfo,
+            formatId: DownloaderService.DIRECT_FORMAT_ID,
+            resolution: DownloaderService.DIRECT_RESOLUTION,
+            isAudio: false,
             isDirect: true,
-            isInstagram,
-            queueMsgId: queueMsg.message_id,
-          },
-          {
-            attempts: 3,
-            backoff: 5000,
-            removeOnComplete: true,
+            platform: provider.name,
           },
+          '📥 Видео добавлено в очередь!\n⏳ Я пришлю его, как только оно будет готово.',
         );
         return;
       }
@@ -199,45 +268,13 @@ export class DownloaderService {
       this.cacheVideoData(sessionId, videoInfo);
       await this.videoSessionService.save(sessionId, videoInfo);
 
-      const MAX_RESOLUTION = isYouTube ? 1080 : isInstagram ? 1080 : 4320;
-      const MIN_RESOLUTION = 360;
-      // 1. Фильтруем и разделяем
-      const allFormats = videoInfo.formats;
-
-      const audioFormat = allFormats.find((f) => f.resolution === 'audio');
-
-      const videoFormats = allFormats
-        .filter((format) => {
-          if (format.resolution === 'audio') return false;
-          const height = parseInt(format.resolution, 10);
-          return (
-            !isNaN(height) &&
-            height >= MIN_RESOLUTION &&
-            height <= MAX_RESOLUTION
-          );
-        })
-        .sort((a, b) => {
-          const hA = parseInt(a.resolution, 10) || 0;
-          const hB = parseInt(b.resolution, 10) || 0;
-          return hB - hA;
-        });
-
-      // 2. Собираем финальный порядок: лучшие видео → ... → аудио (если есть)
-      const visibleFormats = [...videoFormats];
-      if (audioFormat) {
-        visibleFormats.push(audioFormat);
-      }
-
-      // 3. Если ничего не осталось — можно добавить обработку
-      if (visibleFormats.length === 0) {
-        const fallbackFormats = allFormats.filter(
-          (f) => f.resolution !== 'audio',
-        );
-        visibleFormats.push(...fallbackFormats);
-        if (audioFormat) visibleFormats.push(audioFormat);
-      }
+      const keyboard = await this.buildQualityKeyboard(
+        sessionId,
+        videoInfo,
+        await this.resolutionCap(userId, provider.name),
+      );
 
-      if (visibleFormats.length === 0) {
+      if (!keyboard) {
         await ctx.api
           .deleteMessage(chatId, progressMsg.message_id)
           .catch(() => {});
@@ -245,39 +282,6 @@ export class DownloaderService {
         return;
       }
 
-      // 4. Создаём клавиатуру
-      const keyboard = new InlineKeyboard();
-
-      const cacheChecks = await Promise.allSettled(
-        visibleFormats.map((format) =>
-          this.cacheService
-            .get(videoInfo.id, format.formatId, format.resolution)
-            .then((result) => !!result)
-            .catch(() => false),
-        ),
-      );
-
-      visibleFormats.forEach((format, idx) => {
-        const key = `${sessionId}|${format.formatId}|${format.resolution}`;
-        const sizeText = format.filesize
-          ? formatFileSize(format.filesize)
-          : '~ MB';
-
-        const isCached =
-          cacheChecks[idx].status === 'fulfilled' && cacheChecks[idx].value === true;
-        const cacheIcon = isCached ? '⚡' : '';
-
-        const label =
-          format.resolution === 'audio'
-            ? `🎵 Аудио • ${sizeText}${isCached ? ' ⚡' : ''}`
-            : `${cacheIcon} 🎥 ${format.resolution} • ${sizeText}`.trim();
-
-        const buttonText =
-          idx === 0 && format.resolution !== 'audio' ? `⭐ ${label}` : label;
-
-        keyboard.text(buttonText, `dl|${key}`).row();
-      });
-
       // 🔥 НОВОЕ: Форматируем caption с нормальным названием
       const caption = this.formatVideoCaption(videoInfo);
 
@@ -315,20 +319,10 @@ export class DownloaderService {
     } catch (error: any) {
       this.logger.error('Ошибка анализа видео', error);
 
-      let errorMsg =
+      const errorMsg =
+        provider.mapError(error.message || '') ||
         '❌ Не удалось проанализировать ссылку.\nВозможно, видео недоступно или слишком длинное.';
 
-      if (error.message?.includes('You need to log in')) {
-        errorMsg =
-          '🔒 Это приватный контент (Stories или закрытый аккаунт).\nБот не может его скачать.';
-      } else if (error.message?.includes('Video unavailable')) {
-        errorMsg = '❌ Видео недоступно или удалено.';
-      } else if (error.message?.includes('Private video')) {
-        errorMsg = '🔒 Видео приватное, доступ закрыт.';
-      } else if (error.message?.includes('age')) {
-        errorMsg = '🔞 Видео ограничено по возрасту, бот не может его скачать.';
-      }
-
       if (progressMsg) {
         await ctx.api
           .editMessageText(chatId, progressMsg.message_id, errorMsg)
@@ -350,9 +344,11 @@ export class DownloaderService {
     videoId: string,
     formatId: string,
     resolution: string,
+    clip?: ClipRange,
   ): Promise<void> {
     if (!ctx.chat || !ctx.from) return;
     const userId = BigInt(ctx.from.id);
+    const clipRange = clip ? clipKey(clip) : undefined;
 
     // Получаем данные видео
     const videoData =
@@ -364,11 +360,25 @@ export class DownloaderService {
       return;
     }
 
+    // 💎 Качество выше лимита тарифа (например, старая кнопка после отзыва Premium)
+    const height = parseInt(resolution, 10);
+    if (
+      !isNaN(height) &&
+      height > (await this.resolutionCap(userId, videoData.platform))
+    ) {
+      await ctx.answerCallbackQuery({
+        text: '💎 Это качество доступно в Premium',
+        show_alert: true,
+      });
+      return;
+    }
+
     // Проверяем кеш
     const cached = await this.cacheService.get(
       videoData.id,
       formatId,
       resolution,
+      clipRange,
     );
 
     if (cached) {
@@ -384,65 +394,94 @@ export class DownloaderService {
 
       const isAudio = resolution === 'audio';
       const caption =
-        `${isAudio ? '🎵' : '🎬'} <b>${this.escapeHtml(videoData.title)}</b>\n\n` +
+        `${isAudio ? '🎵' : '🎬'} <b>${escapeHtml(videoData.title)}</b>\n\n` +
         `📥 Качество: <b>${resolution}</b>\n` +
+        (clip ? `✂️ Фрагмент: <b>${formatClipRange(clip)}</b>\n` : '') +
         `📢 ${this.yourUsername}`;
 
-      try {
-        // 2. Отправляем файл пользователю по fileId
-        if (isAudio) {
-          await ctx.replyWithAudio(cached.fileId, {
-            caption,
-            parse_mode: 'HTML',
-            title: videoData.title,
-            performer: videoData.uploader || undefined,
-          });
-        } else {
-          await ctx.replyWithVideo(cached.fileId, {
-            caption,
-            parse_mode: 'HTML',
-            supports_streaming: true,
-          });
-        }
+      // 2. Отправляем файл пользователю по fileId (протухший — обновим из архива)
+      const chatId = ctx.chat.id;
+      const sent = await this.cacheRecoveryService.sendWithRecovery(
+        cached,
+        async (file, progress) => {
+          if (file.parts.length > 0) {
+            // Альбом или большой файл, разрезанный на части
+            await sendMediaParts(
+              ctx.api,
+              chatId,
+              file.parts,
+              `✅ ${videoData.title}\n\n📥 ${resolution}\n📢 ${this.yourUsername}`,
+              file.fileType !== 'album',
+              progress,
+            );
+          } else if (isAudio) {
+            await ctx.replyWithAudio(file.fileId, {
+              caption,
+              parse_mode: 'HTML',
+              title: videoData.title,
+              performer: videoData.uploader || undefined,
+            });
+          } else {
+            await ctx.replyWithVideo(file.fileId, {
+              caption,
+              parse_mode: 'HTML',
+              supports_streaming: true,
+            });
+          }
+        },
+      );
 
+      if (sent === 'sent') {
         // 3. ОБЯЗАТЕЛЬНО: Обновляем статистику для кешированной загрузки
+        // (и проверяем рекламу — даже при кеше мы должны её показывать)
         const userId = BigInt(ctx.from.id);
-        await this.cacheService
-          .recordCacheHit(cached.id, userId)
-          .catch(() => {});
-        await this.userService.incrementDownloads(userId).catch(() => {});
-
-        // 4. Проверяем рекламу (даже при кеше мы должны её показывать)
-        this.advertisementService.incrementUserDownloads(userId);
-        if (await this.advertisementService.shouldShowAd(userId)) {
-          await this.advertisementService.showAd(ctx).catch(() => {});
-        }
+        await this.cacheService.recordCacheHit(cached, userId).catch(() => {});
+        await this.countDelivered(chatId, userId, videoData.platform);
 
         return; // Завершаем метод, в очередь BullMQ задание не пойдет
-      } catch (e) {
-        const error = e as Error;
-        this.logger.warn(
-          `⚠️ FileID протух или ошибка отправки из кеша, переходим к скачиванию: ${error.message}`,
-        );
       }
+
+      // Бот заблокирован — скачивать заново некому
+      if (sent === 'blocked') return;
+
+      this.logger.warn(
+        '⚠️ Файл из кеша не восстановить, переходим к скачиванию',
+      );
     }
 
     // Проверка дубликатов загрузок
-    const downloadKey = `${videoData.id}|${formatId}`;
+    const downloadKey = `${videoData.id}|${formatId}|${clipRange ?? ''}`;
     if (this.activeDownloads.has(downloadKey)) {
       await ctx.answerCallbackQuery({ text: '⏳ Уже скачивается, ждите...' });
       return;
     }
 
-    await ctx.answerCallbackQuery({
-      text:
-        '📥 Добавлено в очередь загрузки!\n' +
-        '⏳ Я пришлю видео, как только оно будет готово.',
-    });
+    // 🚦 Суточный лимит загрузок и трафика
+    const verdict = await this.quotaService.consume(
+      { userId, chatId: ctx.chat.id },
+      'download',
+    );
+    if (!verdict.allowed) {
+      await ctx
+        .answerCallbackQuery({
+          text: this.quotaService.formatDenial(verdict),
+          show_alert: true,
+        })
+        .catch(() => {});
+      return;
+    }
+
+    // После неудачной отправки из кеша на кнопку уже ответили
+    await ctx
+      .answerCallbackQuery({
+        text:
+          '📥 Добавлено в очередь загрузки!\n' +
+          '⏳ Я пришлю видео, как только оно будет готово.',
+      })
+      .catch(() => {});
 
     // Добавляем в очередь
-    await this.downloadQueue.add(
-      'download-task',
+    await this.downloadJobs.enqueue(
       {
         chatId: ctx.chat.id,
         userId: userId.toString(),
@@ -450,13 +489,11 @@ export class DownloaderService {
         formatId,
         resolution,
         isAudio: resolution === 'audio',
-        isInstagram: false,
-      },
-      {
-        attempts: 3, // Если упадет, попробовать еще 3 раза
-        backoff: 5000, // Пауза между попытками 5 сек
-        removeOnComplete: true, // Удалять из Redis после успеха
+        platform: videoData.platform,
+        clip,
       },
+      `📥 В очереди: ${videoData.title}\n📥 ${resolution}\n\n` +
+        'Я пришлю видео, как только оно будет готово.',
     );
   }
 
@@ -470,26 +507,63 @@ export class DownloaderService {
     formatId: string,
     resolution: string,
     isAudio: boolean,
-    isInstagram: boolean,
+    options: DownloadTaskOptions = {},
   ): Promise<void> {
     let progressMsg: any;
+    let filepath: string | undefined;
+    let succeeded = false;
+    // Ошибка уйдёт на повтор — элемент подборки ещё не завершён
+    let retrying = false;
+    const { clip, signal } = options;
+    const clipRange = clip ? clipKey(clip) : undefined;
+    const qualityText = clip
+      ? `${resolution} • ✂️ ${formatClipRange(clip)}`
+      : resolution;
+    // Кнопка «Отменить» живёт в прогрессе, пока идёт скачивание
+    const cancelMarkup = this.cancelMarkup(options);
 
     try {
-      // 1. Отправляем начальное сообщение через bot.api
-      progressMsg = await this.bot.api.sendMessage(
-        chatId,
-        '⬇️ Начинаю загрузку...',
-      );
+      // 1. Сообщение «в очереди» превращаем в прогресс (или создаём новое)
+      if (options.queueMsgId) {
+        progressMsg = { message_id: options.queueMsgId };
+        await this.bot.api
+          .editMessageText(
+            chatId,
+            options.queueMsgId,
+            '⬇️ Начинаю загрузку...',
+            { reply_markup: cancelMarkup },
+          )
+          .catch(() => {});
+      } else {
+        progressMsg = await this.bot.api.sendMessage(
+          chatId,
+          '⬇️ Начинаю загрузку...',
+          { reply_markup: cancelMarkup },
+        );
+      }
 
       const sanitizedTitle = sanitizeFilename(videoData.title);
       const fileExt = isAudio ? 'm4a' : 'mp4';
-      const filename = `${sanitizedTitle}_${formatId}.${fileExt}`;
-      let filepath = path.resolve(this.downloadsDir, filename);
+      const clipSuffix = clipRange ? `_clip${clipRange}` : '';
+      // formatId — селектор yt-dlp («bestvideo[height<=720]+bestaudio/best»):
+      // «/» в нём создал бы подпапки, поэтому в имени — качество и короткий хеш
+      const formatSlug =
+        (isAudio ? 'audio' : resolution.replace(/\W/g, '')) +
+        '_' +
+        crypto.createHash('md5').update(formatId).digest('hex').slice(0, 6);
+      const filename = `${sanitizedTitle}_${formatSlug}${clipSuffix}_${this.fileTag(options)}.${fileExt}`;
+      filepath = path.resolve(this.downloadsDir, filename);
+
+      // Для фрагмента в канал и кеш уходит длительность самого клипа
+      if (clip) {
+        videoData = { ...videoData, duration: clip.end - clip.start };
+      }
 
       // YouTube URL или Instagram URL
       const sourceUrl = videoData.url;
 
       // 2️⃣ СКАЧИВАНИЕ (yt-dlp)
+      if (!options.retry) this.cacheService.recordCacheMiss();
       let lastProgressBucket = -1;
       filepath = await this.ytdlpService.downloadVideo(
         sourceUrl,
@@ -509,11 +583,46 @@ export class DownloaderService {
               chatId,
               progressMsg.message_id,
               `⬇️ Скачивание\n${bar} ${Math.floor(progress)}%`,
+              { reply_markup: cancelMarkup },
             )
             .catch(() => {});
         },
+        clip,
+        signal,
       );
 
+      // 💎 Лимит размера файла зависит от тарифа — трафик за файл, который
+      // пользователь не получит, не списываем
+      const { size } = await fs.stat(filepath);
+      const { maxFileBytes } = await this.premiumService.getPerks(userId);
+      if (size > maxFileBytes) {
+        await this.cleanupFiles(filepath);
+        throw new FileTooLargeError(size, maxFileBytes);
+      }
+      await this.quotaService.addTraffic({ userId, chatId }, size);
+
+      // 📦 Больше лимита Telegram — режем на части и шлём альбомом
+      if (size > this.maxUploadBytes) {
+        await this.deliverInParts(
+          chatId,
+          userId,
+          filepath,
+          videoData,
+          formatId,
+          resolution,
+          isAudio,
+          clipRange,
+          qualityText,
+          progressMsg.message_id,
+          options,
+        );
+        succeeded = true;
+        return;
+      }
+
+      // Дальше заливка в Telegram — её уже не прервать
+      this.throwIfCancelled(signal);
+
       await this.bot.api
         .editMessageText(
           chatId,
@@ -538,13 +647,13 @@ export class DownloaderService {
         // Отправка напрямую (fallback), если канал недоступен
         if (isAudio) {
           await this.bot.api.sendAudio(chatId, new InputFile(filepath), {
-            caption: `✅ ${videoData.title}\n\n📥 ${resolution}`,
+            caption: `✅ ${videoData.title}\n\n📥 ${qualityText}`,
             title: videoData.title,
             performer: videoData.uploader || undefined,
           });
         } else {
           await this.bot.api.sendVideo(chatId, new InputFile(filepath), {
-            caption: `✅ ${videoData.title}\n\n📥 ${resolution}`,
+            caption: `✅ ${videoData.title}\n\n📥 ${qualityText}`,
             supports_streaming: true,
           });
         }
@@ -553,6 +662,8 @@ export class DownloaderService {
         await this.bot.api
           .deleteMessage(chatId, progressMsg.message_id)
           .catch(() => {});
+        await this.countDelivered(chatId, userId, videoData.platform);
+        succeeded = true;
         return;
       }
 
@@ -565,10 +676,11 @@ export class DownloaderService {
         uploadResult,
         userId,
         isAudio,
+        clipRange,
       );
 
       // 5️⃣ ОТПРАВКА ПОЛЬЗОВАТЕЛЮ (по file_id)
-      const userCaption = `✅ ${videoData.title}\n\n📥 ${resolution}\n\n📢 ${this.yourUsername}`;
+      const userCaption = `✅ ${videoData.title}\n\n📥 ${qualityText}\n\n📢 ${this.yourUsername}`;
 
       if (isAudio) {
         await this.bot.api.sendAudio(chatId, uploadResult.fileId, {
@@ -590,22 +702,179 @@ export class DownloaderService {
       await this.cleanupFiles(filepath);
 
       // 7️⃣ СТАТИСТИКА
-      await this.userService.incrementDownloads(userId);
-      this.advertisementService.incrementUserDownloads(userId);
+      await this.countDelivered(chatId, userId, videoData.platform);
+      succeeded = true;
     } catch (error: any) {
+      if (error instanceof DownloadCancelledError) {
+        await this.reportCancelled(chatId, progressMsg, filepath);
+        throw error;
+      }
+
+      // 403 — бот заблокирован: сообщать об ошибке некуда, обработчик
+      // задачи не станет её повторять
+      if (error instanceof GrammyError && error.error_code === 403) {
+        throw error;
+      }
+
       this.logger.error(`Ошибка процесса скачивания: ${error.stack}`);
-      if (progressMsg) {
+      retrying = !options.lastAttempt && !(error instanceof FileTooLargeError);
+      await this.reportFailed(chatId, progressMsg, error, retrying);
+      // Дальше разберётся обработчик очереди: повтор и учёт неудачных загрузок
+      throw error;
+    } finally {
+      // 📦 Элемент подборки — обновляем сводный прогресс
+      if (options.batchId && !retrying) {
+        await this.playlistService
+          .reportItem(options.batchId, succeeded)
+          .catch(() => {});
+      }
+    }
+  }
+
+  /**
+   * 📦 ДОСТАВКА БОЛЬШОГО ФАЙЛА ЧАСТЯМИ
+   * Режем, заливаем каждую часть в архивный канал, кешируем как одну запись
+   * с таблицей частей и отправляем пронумерованным альбомом.
+   */
+  private async deliverInParts(
+    chatId: number,
+    userId: bigint,
+    filepath: string,
+    videoData: VideoInfoDto,
+    formatId: string,
+    resolution: string,
+    isAudio: boolean,
+    clipRange: string | undefined,
+    qualityText: string | undefined, // Прямые загрузки идут без подписи качества
+    progressMsgId: number,
+    options: DownloadTaskOptions,
+  ): Promise<void> {
+    await this.bot.api
+      .editMessageText(
+        chatId,
+        progressMsgId,
+        '🔪 Файл больше лимита Telegram — режу на части...',
+        { reply_markup: this.cancelMarkup(options) },
+      )
+      .catch(() => {});
+
+    let files: { path: string; size: number; duration: number }[] = [];
+
+    try {
+      files = await this.ytdlpService.splitMedia(
+        filepath,
+        this.maxUploadBytes,
+        isAudio,
+        options.signal,
+      );
+      this.throwIfCancelled(options.signal);
+
+      const parts: CachedPartInput[] = [];
+
+      for (const [idx, file] of files.entries()) {
         await this.bot.api
           .editMessageText(
             chatId,
-            progressMsg.message_id,
-            `❌ Ошибка: ${error.message}`,
+            progressMsgId,
+            `📤 Загрузка в Телеграм: часть ${idx + 1}/${files.length}`,
           )
           .catch(() => {});
+
+        const uploadResult = await this.uploaderService.cacheToChannel(
+          file.path,
+          {
+            ...videoData,
+            title: `${videoData.title} (часть ${idx + 1}/${files.length})`,
+            duration: file.duration,
+          },
+          isAudio,
+        );
+
+        parts.push({
+          order: idx + 1,
+          fileId: uploadResult.fileId,
+          archiveMessageId: uploadResult.messageId,
+          size: BigInt(file.size),
+          duration: file.duration,
+          mediaType: isAudio ? 'audio' : 'video',
+        });
+      }
+
+      // Кешируем одной записью: fileId первой части + полная таблица частей
+      await this.cacheService
+        .set({
+          url: videoData.id,
+          sourceKey: videoData.canonicalKey,
+          formatId,
+          resolution,
+          clipRange,
+          fileId: parts[0].fileId,
+          archiveMessageId: parts[0].archiveMessageId,
+          fileSize: parts.reduce((sum, part) => sum + (part.size ?? 0n), 0n),
+          fileType: isAudio ? 'audio' : 'video',
+          userId,
+          title: videoData.title,
+          uploader: videoData.uploader || undefined,
+          duration: videoData.duration || undefined,
+          parts,
+        })
+        .catch((e: Error) =>
+          this.logger.error(`Ошибка сохранения частей в БД: ${e.message}`),
+        );
+
+      const quality = qualityText ? `📥 ${qualityText}\n\n` : '';
+      await sendMediaParts(
+        this.bot.api,
+        chatId,
+        parts,
+        `✅ ${videoData.title}\n\n${quality}📢 ${this.yourUsername}`,
+        true,
+      );
+
+      await this.bot.api.deleteMessage(chatId, progressMsgId).catch(() => {});
+
+      await this.countDelivered(chatId, userId, videoData.platform);
+    } finally {
+      for (const file of files) {
+        await fs.unlink(file.path).catch(() => {});
       }
+      await this.cleanupFiles(filepath);
     }
   }
 
+  /**
+   * 📷 Фото поста → архивный канал + кеш (fileType: 'photo')
+   */
+  private async cachePhoto(
+    info: VideoInfoDto,
+    userId: bigint,
+  ): Promise<{ fileId: string; messageId: number; size: number }> {
+    const photo = await this.uploaderService.cachePhotoToChannel(
+      info.directUrl!,
+      info,
+    );
+
+    await this.cacheService
+      .set({
+        url: info.id,
+        sourceKey: info.canonicalKey,
+        formatId: DownloaderService.DIRECT_FORMAT_ID,
+        resolution: DownloaderService.DIRECT_RESOLUTION,
+        fileId: photo.fileId,
+        archiveMessageId: photo.messageId,
+        fileSize: BigInt(photo.size),
+        fileType: 'photo',
+        userId,
+        title: info.title,
+        uploader: info.uploader || undefined,
+      })
+      .catch((e: Error) =>
+        this.logger.error(`Ошибка сохранения фото в БД: ${e.message}`),
+      );
+
+    return photo;
+  }
+
   // Вспомогательный метод для очистки файлов
   private async cleanupFiles(filepath: string) {
     await fs.unlink(filepath).catch(() => {});
@@ -613,6 +882,328 @@ export class DownloaderService {
     if (thumb) await fs.unlink(thumb).catch(() => {});
   }
 
+  // Кнопка отмены для прогресса (есть только у задач из очереди)
+  private cancelMarkup(options: DownloadTaskOptions) {
+    return options.jobId
+      ? this.downloadJobs.cancelKeyboard(options.jobId)
+      : undefined;
+  }
+
+  // Метка задачи в имени файла: одинаковые названия у параллельных задач не
+  // пересекаются, и отмена удаляет только файлы своей задачи
+  private fileTag(options: DownloadTaskOptions): string {
+    return options.jobId ?? crypto.randomBytes(4).toString('hex');
+  }
+
+  private throwIfCancelled(signal?: AbortSignal) {
+    if (signal?.aborted) throw new DownloadCancelledError();
+  }
+
+  /**
+   * ❌ Задачу отменили: вместо ошибки пишем «отменено» и убираем файлы
+   */
+  private async reportCancelled(
+    chatId: number,
+    progressMsg: { message_id: number } | null,
+    filepath?: string,
+  ) {
+    this.logger.log(`❌ Загрузка отменена (чат ${chatId})`);
+
+    if (progressMsg) {
+      await this.bot.api
+        .editMessageText(chatId, progressMsg.message_id, '❌ Загрузка отменена')
+        .catch(() => {});
+    }
+    if (filepath) await this.cleanupFiles(filepath);
+  }
+
+  /**
+   * 📊 Файл доставлен: одна загрузка в статистике, счётчик пользователя и
+   * реклама. Ошибку счётчика не пробрасываем — иначе задача уйдёт на повтор
+   * и пришлёт файл ещё раз.
+   */
+  async countDelivered(
+    chatId: number,
+    userId: bigint,
+    platform?: string,
+  ): Promise<void> {
+    this.statsService.track('totalDownloads', platform);
+    await this.userService.incrementDownloads(userId).catch(() => {});
+    await this.advertisementService.countDownload(this.bot.api, chatId, userId);
+  }
+
+  /**
+   * ⚠️ Загрузка упала: если будет повтор — предупреждаем, иначе пишем ошибку
+   */
+  private async reportFailed(
+    chatId: number,
+    progressMsg: { message_id: number } | null,
+    error: Error,
+    retrying: boolean,
+  ) {
+    if (!progressMsg) return;
+
+    const text = retrying
+      ? `⚠️ Ошибка: ${error.message}\n🔄 Попробую ещё раз...`
+      : `❌ Ошибка: ${error.message}`;
+    await this.bot.api
+      .editMessageText(chatId, progressMsg.message_id, text)
+      .catch(() => {});
+  }
+
+  /**
+   * ⚡ Отдать результат прямой загрузки из кеша (видео, фото или альбом) и
+   * записать статистику. false — файл не отправить даже после восстановления
+   * из архива, нужно качать заново (если бот заблокирован — не нужно).
+   */
+  private async serveDirectFromCache(
+    chatId: number,
+    userId: bigint,
+    cached: CachedFileWithParts,
+    title: string,
+  ): Promise<boolean> {
+    const caption = `✅ ${title}\n\n📢 ${this.yourUsername}`;
+
+    const sent = await this.cacheRecoveryService.sendWithRecovery(
+      cached,
+      async (file, progress) => {
+        if (file.parts.length > 0) {
+          await sendMediaParts(
+            this.bot.api,
+            chatId,
+            file.parts,
+            caption,
+            file.fileType !== 'album',
+            progress,
+          );
+        } else if (file.fileType === 'photo') {
+          await this.bot.api.sendPhoto(chatId, file.fileId, { caption });
+        } else {
+          await this.bot.api.sendVideo(chatId, file.fileId, {
+            caption,
+            supports_streaming: true,
+          });
+        }
+      },
+    );
+
+    if (sent === 'missing') return false;
+    if (sent === 'blocked') return true;
+
+    await this.cacheService.recordCacheHit(cached, userId).catch(() => {});
+    await this.countDelivered(chatId, userId, StatsService.platformOf(cached));
+    return true;
+  }
+
+  // 💎 Потолок качества: лимит платформы, у Premium — выше
+  private async resolutionCap(
+    userId: bigint,
+    platform?: string,
+  ): Promise<number> {
+    const provider = platform ? this.platformRegistry.get(platform) : undefined;
+    const perks = await this.premiumService.getPerks(userId);
+    return this.premiumService.maxResolution(
+      perks,
+      provider?.maxResolution ?? 1080,
+    );
+  }
+
+  /**
+   * 🎛 КЛАВИАТУРА ВЫБОРА КАЧЕСТВА
+   * Для фрагмента в callback_data добавляется отрезок, а размеры считаются
+   * пропорционально его длине. null — если показывать нечего.
+   */
+  private async buildQualityKeyboard(
+    sessionId: string,
+    videoInfo: VideoInfoDto,
+    maxResolution: number,
+    clip?: ClipRange,
+  ): Promise<InlineKeyboard | null> {
+    const MIN_RESOLUTION = 360;
+    // 1. Фильтруем и разделяем
+    const allFormats = videoInfo.formats;
+
+    const audioFormat = allFormats.find((f) => f.resolution === 'audio');
+
+    const videoFormats = allFormats
+      .filter((format) => {
+        if (format.resolution === 'audio') return false;
+        const height = parseInt(format.resolution, 10);
+        return (
+          !isNaN(height) && height >= MIN_RESOLUTION && height <= maxResolution
+        );
+      })
+      .sort((a, b) => {
+        const hA = parseInt(a.resolution, 10) || 0;
+        const hB = parseInt(b.resolution, 10) || 0;
+        return hB - hA;
+      });
+
+    // 2. Собираем финальный порядок: лучшие видео → ... → аудио (если есть)
+    const visibleFormats = [...videoFormats];
+    if (audioFormat) {
+      visibleFormats.push(audioFormat);
+    }
+
+    // 3. Если ничего не осталось — можно добавить обработку
+    if (visibleFormats.length === 0) {
+      const fallbackFormats = allFormats.filter(
+        (f) => f.resolution !== 'audio',
+      );
+      visibleFormats.push(...fallbackFormats);
+      if (audioFormat) visibleFormats.push(audioFormat);
+    }
+
+    if (visibleFormats.length === 0) {
+      return null;
+    }
+
+    // 4. Создаём клавиатуру
+    const keyboard = new InlineKeyboard();
+    const clipRange = clip ? clipKey(clip) : undefined;
+    const sizeRatio =
+      clip && videoInfo.duration
+        ? Math.min((clip.end - clip.start) / videoInfo.duration, 1)
+        : 1;
+
+    const cacheChecks = await Promise.allSettled(
+      visibleFormats.map((format) =>
+        this.cacheService
+          .get(videoInfo.id, format.formatId, format.resolution, clipRange)
+          .then((result) => !!result)
+          .catch(() => false),
+      ),
+    );
+
+    visibleFormats.forEach((format, idx) => {
+      let key = `${sessionId}|${format.formatId}|${format.resolution}`;
+      if (clipRange) key += `|${clipRange}`;
+
+      const sizeText = format.filesize
+        ? `${clip ? '~' : ''}${formatFileSize(format.filesize * sizeRatio)}`
+        : '~ MB';
+
+      const isCached =
+        cacheChecks[idx].status === 'fulfilled' &&
+        cacheChecks[idx].value === true;
+      const cacheIcon = isCached ? '⚡' : '';
+
+      const label =
+        format.resolution === 'audio'
+          ? `🎵 Аудио • ${sizeText}${isCached ? ' ⚡' : ''}`
+          : `${cacheIcon} 🎥 ${format.resolution} • ${sizeText}`.trim();
+
+      const buttonText =
+        idx === 0 && format.resolution !== 'audio' ? `⭐ ${label}` : label;
+
+      keyboard.text(buttonText, `dl|${key}`).row();
+    });
+
+    // ✂️ Фрагмент имеет смысл только для видео с известной длительностью
+    if (!clip && videoInfo.duration > 0) {
+      keyboard.text('✂️ Вырезать фрагмент', `clip|${sessionId}`).row();
+    }
+
+    return keyboard;
+  }
+
+  /**
+   * ✂️ ЗАПРОС ФРАГМЕНТА: ждём от пользователя отрезок вида 01:20-02:05
+   */
+  async requestClip(ctx: Context, sessionId: string): Promise<void> {
+    if (!ctx.from) return;
+
+    const videoData =
+      this.videoDataCache.get(sessionId) ||
+      (await this.videoSessionService.get(sessionId));
+
+    if (!videoData) {
+      await ctx.answerCallbackQuery({ text: '❌ Ошибка: данные не найдены.' });
+      return;
+    }
+
+    this.pendingClips.set(ctx.from.id, {
+      sessionId,
+      expiresAt: Date.now() + DownloaderService.CLIP_INPUT_TTL_MS,
+    });
+
+    await ctx.answerCallbackQuery();
+    await ctx.reply(
+      `✂️ Пришли отрезок, который нужно вырезать, в формате <b>01:20-02:05</b>\n\n` +
+        `🕒 Длительность видео: ${formatDuration(videoData.duration)}\n\n` +
+        `Чтобы отменить — просто отправь новую ссылку.`,
+      { parse_mode: 'HTML' },
+    );
+  }
+
+  /**
+   * ✂️ ОБРАБОТКА ВВЕДЁННОГО ОТРЕЗКА
+   * Возвращает true, если сообщение было ответом на запрос фрагмента.
+   */
+  async handleClipInput(ctx: Context, text: string): Promise<boolean> {
+    const userId = ctx.from?.id;
+    if (!userId) return false;
+
+    const pending = this.pendingClips.get(userId);
+    if (!pending) return false;
+
+    // Новая ссылка, команда или истёкшее ожидание — выходим из режима фрагмента
+    const input = text.trim();
+    if (
+      Date.now() > pending.expiresAt ||
+      input.startsWith('/') ||
+      input.startsWith('http')
+    ) {
+      this.pendingClips.delete(userId);
+      return false;
+    }
+
+    const clip = parseClipRange(input);
+    if (!clip) {
+      await ctx.reply('❌ Не понял отрезок. Пример: 01:20-02:05');
+      return true;
+    }
+
+    const videoData =
+      this.videoDataCache.get(pending.sessionId) ||
+      (await this.videoSessionService.get(pending.sessionId));
+
+    if (!videoData) {
+      this.pendingClips.delete(userId);
+      await ctx.reply('⌛ Данные видео устарели, отправь ссылку заново.');
+      return true;
+    }
+
+    if (videoData.duration && clip.end > videoData.duration) {
+      await ctx.reply(
+        `❌ Отрезок выходит за конец видео (${formatDuration(videoData.duration)}). Попробуй ещё раз.`,
+      );
+      return true;
+    }
+
+    this.pendingClips.delete(userId);
+
+    const keyboard = await this.buildQualityKeyboard(
+      pending.sessionId,
+      videoData,
+      await this.resolutionCap(BigInt(userId), videoData.platform),
+      clip,
+    );
+
+    if (!keyboard) {
+      await ctx.reply('❌ Нет доступных форматов для скачивания.');
+      return true;
+    }
+
+    await ctx.reply(
+      `✂️ <b>${escapeHtml(videoData.title)}</b>\n\n` +
+        `Фрагмент: <b>${formatClipRange(clip)}</b> (${formatDuration(clip.end - clip.start)})\n\n` +
+        `<b>📌 Выберите качество:</b>`,
+      { parse_mode: 'HTML', reply_markup: keyboard },
+    );
+    return true;
+  }
+
   /**
    * 💾 Запись в in-memory кеш видео с ограничением размера (защита от утечки памяти).
    * Map сохраняет порядок вставки — при переполнении удаляем самые старые записи.
@@ -636,13 +1227,16 @@ export class DownloaderService {
     uploadResult: any,
     userId: bigint,
     isAudio: boolean,
+    clipRange?: string,
   ) {
     try {
       const fileStats = await fs.stat(filepath).catch(() => ({ size: 0 }));
       await this.cacheService.set({
         url: videoData.id,
+        sourceKey: videoData.canonicalKey,
         formatId: formatId,
         resolution: resolution,
+        clipRange,
         fileId: uploadResult.fileId,
         archiveMessageId: uploadResult.messageId,
         fileSize: BigInt(fileStats.size),
@@ -658,21 +1252,11 @@ export class DownloaderService {
     }
   }
 
-  /**
-   * 🛡️ ЭКРАНИРОВАНИЕ HTML
-   */
-  private escapeHtml(text: string): string {
-    return text
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;');
-  }
-
   /**
    * 🧹 ОЧИСТКА НАЗВАНИЯ (если еще не добавлен выше)
    */
   private cleanTitle(title: string): string {
-    return this.escapeHtml(
+    return escapeHtml(
       title
         .replace(/_/g, ' ') // _ → пробел
         .replace(/\s+/g, ' ') // множественные пробелы → один
@@ -685,7 +1269,7 @@ export class DownloaderService {
    */
   private formatVideoCaption(info: VideoInfoDto): string {
     const cleanTitle = this.cleanTitle(info.title);
-    const uploader = this.escapeHtml(info.uploader || '—');
+    const uploader = escapeHtml(info.uploader || '—');
 
     return (
       `🎬 <b>${cleanTitle}</b>\n\n` +
@@ -701,20 +1285,20 @@ export class DownloaderService {
    * 📊 СТАТИСТИКА
    */
   async getStats() {
-    const queueStatus = this.queueService.getStatus();
+    const queueStatus = await this.downloadJobs.getCounts();
     const cacheStats = await this.cacheService.getStats();
     const userStats = await this.userService.getStats();
 
     return {
       activeDownloads: queueStatus.active,
-      queueSize: queueStatus.queued,
+      queueSize: queueStatus.waiting,
       cacheSize: cacheStats.totalFiles,
       totalUsers: userStats.totalUsers,
     };
   }
 
   /**
-   * 📥 ПРЯМОЕ СКАЧИВАНИЕ без выбора качества (Instagram + YouTube Shorts).
+   * 📥 ПРЯМОЕ СКАЧИВАНИЕ без выбора качества (Reels, Shorts, TikTok...).
    * Выполняется в воркере очереди, поэтому работает через this.bot.api + chatId
    * (без ctx) и не блокирует обработку сообщений бота.
    */
@@ -722,12 +1306,54 @@ export class DownloaderService {
     chatId: number,
     userId: bigint,
     videoInfo: VideoInfoDto,
-    isInstagram: boolean,
-    queueMsgId?: number,
+    platform: string,
+    options: DownloadTaskOptions = {},
   ): Promise<void> {
+    let succeeded = false;
+    let retrying = false;
+
+    try {
+      await this.runDirectDownload(
+        chatId,
+        userId,
+        videoInfo,
+        platform,
+        options,
+      );
+      succeeded = true;
+    } catch (error) {
+      retrying =
+        !options.lastAttempt &&
+        !(error instanceof FileTooLargeError) &&
+        !(error instanceof DownloadCancelledError) &&
+        !(error instanceof GrammyError && error.error_code === 403);
+      throw error;
+    } finally {
+      // 📦 Элемент подборки — обновляем сводный прогресс
+      if (options.batchId && !retrying) {
+        await this.playlistService
+          .reportItem(options.batchId, succeeded)
+          .catch(() => {});
+      }
+    }
+  }
+
+  private async runDirectDownload(
+    chatId: number,
+    userId: bigint,
+    videoInfo: VideoInfoDto,
+    platform: string,
+    options: DownloadTaskOptions,
+  ): Promise<void> {
+    const provider = this.platformRegistry.get(platform);
+    const { queueMsgId, signal } = options;
+    const cancelMarkup = this.cancelMarkup(options);
+
     // Переиспользуем сообщение «📥 в очереди»: оно превратится в прогресс
     // скачивания и будет удалено в конце. Если id не пришёл — создадим новое.
     let progressMsg: any = queueMsgId ? { message_id: queueMsgId } : null;
+    // Текущий файл на диске — чтобы удалить его при отмене
+    let filepath: string | undefined;
 
     try {
       // 1️⃣ ПРОВЕРКА КЕША — на случай, если видео закешировали, пока задача ждала
@@ -740,54 +1366,53 @@ export class DownloaderService {
 
       if (cached) {
         this.logger.log(`🎯 Cache HIT (direct): ${videoInfo.id}`);
-        try {
-          if (cached.fileId.includes(',')) {
-            const fileIds = cached.fileId.split(',');
-            const mediaGroup = fileIds.map((fId: any, idx: number) => ({
-              type: 'video' as const,
-              media: fId,
-              caption: idx === 0 ? `✅ ${videoInfo.title}\n\n📢 ${this.yourUsername}` : undefined,
-            }));
-            await this.bot.api.sendMediaGroup(chatId, mediaGroup);
-          } else {
-            await this.bot.api.sendVideo(chatId, cached.fileId, {
-              caption: `✅ ${videoInfo.title}\n\n📢 ${this.yourUsername}`,
-              supports_streaming: true,
-            });
-          }
+        if (
+          await this.serveDirectFromCache(
+            chatId,
+            userId,
+            cached,
+            videoInfo.title,
+          )
+        ) {
           if (progressMsg) {
             await this.bot.api
               .deleteMessage(chatId, progressMsg.message_id)
               .catch(() => {});
           }
-          await this.cacheService
-            .recordCacheHit(cached.id, userId)
-            .catch(() => {});
-          await this.userService.incrementDownloads(userId).catch(() => {});
-          this.advertisementService.incrementUserDownloads(userId);
           return;
-        } catch (e) {
-          const err = e as Error;
-          this.logger.warn(
-            `⚠️ FileID из кеша протух, скачиваю заново: ${err.message}`,
-          );
         }
       }
 
+      if (!options.retry) this.cacheService.recordCacheMiss();
+
+      // Элемент подборки приходит без анализа: фото это, карусель или видео,
+      // узнаём только здесь
+      if (options.batchId) {
+        videoInfo = {
+          ...(await this.ytdlpService.getVideoInfo(
+            videoInfo.url,
+            provider?.supportsImages,
+          )),
+          platform: videoInfo.platform,
+          canonicalKey: videoInfo.canonicalKey,
+        };
+      }
+
       // 📦 МНОЖЕСТВЕННАЯ ЗАГРУЗКА (КАРУСЕЛЬ/АЛЬБОМ)
-      if (isInstagram && videoInfo.entries && videoInfo.entries.length > 1) {
+      if (videoInfo.entries && videoInfo.entries.length > 1) {
         if (progressMsg) {
           await this.bot.api
             .editMessageText(
               chatId,
               progressMsg.message_id,
-              `⬇️ Загружаю альбом (${videoInfo.entries.length} видео)...`,
+              `⬇️ Загружаю альбом (${videoInfo.entries.length} шт.)...`,
+              { reply_markup: cancelMarkup },
             )
             .catch(() => {});
         }
 
-        const fileIds: string[] = [];
-        let totalSize = 0n;
+        const parts: CachedPartInput[] = [];
+        const { maxFileBytes } = await this.premiumService.getPerks(userId);
 
         for (let i = 0; i < videoInfo.entries.length; i++) {
           const entry = videoInfo.entries[i];
@@ -797,7 +1422,8 @@ export class DownloaderService {
               .editMessageText(
                 chatId,
                 progressMsg.message_id,
-                `⬇️ Загружаю видео ${i + 1} из ${videoInfo.entries.length}...`,
+                `⬇️ Загружаю ${i + 1} из ${videoInfo.entries.length}...`,
+                { reply_markup: cancelMarkup },
               )
               .catch(() => {});
           }
@@ -810,15 +1436,39 @@ export class DownloaderService {
           );
 
           if (entryCached) {
-            fileIds.push(entryCached.fileId);
-            totalSize += entryCached.fileSize || 0n;
+            parts.push({
+              order: i + 1,
+              fileId: entryCached.fileId,
+              archiveMessageId: entryCached.archiveMessageId,
+              size: entryCached.fileSize ?? undefined,
+              duration: entryCached.duration ?? undefined,
+              mediaType: entryCached.fileType === 'photo' ? 'photo' : 'video',
+            });
+            continue;
+          }
+
+          entry.canonicalKey = this.platformRegistry.buildKey(
+            platform,
+            entry.id,
+          );
+
+          // 📷 Фото из карусели — кешируем отдельно, как и видео
+          if (entry.mediaType === 'photo' && entry.directUrl) {
+            const photo = await this.cachePhoto(entry, userId);
+            parts.push({
+              order: i + 1,
+              fileId: photo.fileId,
+              archiveMessageId: photo.messageId,
+              size: BigInt(photo.size),
+              mediaType: 'photo',
+            });
             continue;
           }
 
           // Иначе качаем
           const sanitizedTitle = sanitizeFilename(entry.title);
-          const filename = `${sanitizedTitle}_ig_${entry.id}.mp4`;
-          let filepath = path.resolve(this.downloadsDir, filename);
+          const filename = `${sanitizedTitle}_${platform}_${entry.id}_${this.fileTag(options)}.mp4`;
+          filepath = path.resolve(this.downloadsDir, filename);
 
           const iosFormat =
             'best/' +
@@ -832,9 +1482,19 @@ export class DownloaderService {
             filepath,
             false,
             () => {}, // Без прогресс-бара для каждого, чтобы не флудить
+            undefined,
+            signal,
           );
 
-          await this.ytdlpService.ensureIphoneCompatible(filepath);
+          await this.ytdlpService.ensureIphoneCompatible(filepath, signal);
+          this.throwIfCancelled(signal);
+
+          // 💎 Лимит размера файла по тарифу — для каждого элемента карусели
+          const fileStats = await fs.stat(filepath);
+          if (fileStats.size > maxFileBytes) {
+            await this.cleanupFiles(filepath);
+            throw new FileTooLargeError(fileStats.size, maxFileBytes);
+          }
 
           // Загружаем в архивный канал
           const uploadResult = await this.uploaderService.cacheToChannel(
@@ -843,8 +1503,10 @@ export class DownloaderService {
             false,
           );
 
-          const fileStats = await fs.stat(filepath).catch(() => ({ size: 0 }));
-          totalSize += BigInt(fileStats.size);
+          await this.quotaService.addTraffic(
+            { userId, chatId },
+            fileStats.size,
+          );
 
           // Кешируем индивидуально
           await this.saveToCache(
@@ -857,35 +1519,38 @@ export class DownloaderService {
             false,
           );
 
-          fileIds.push(uploadResult.fileId);
+          parts.push({
+            order: i + 1,
+            fileId: uploadResult.fileId,
+            archiveMessageId: uploadResult.messageId,
+            size: BigInt(fileStats.size),
+            duration: entry.duration || undefined,
+            mediaType: 'video',
+          });
           await this.cleanupFiles(filepath);
+          filepath = undefined;
         }
 
-        // Отправляем как альбом (Media Group)
-        const mediaGroup = fileIds.map((fId, idx) => ({
-          type: 'video' as const,
-          media: fId,
-          caption: idx === 0 ? `✅ ${videoInfo.title}\n\n📢 ${this.yourUsername}` : undefined,
-        }));
-
-        await this.bot.api.sendMediaGroup(chatId, mediaGroup);
-
-        // Кешируем как альбом
-        const uploadResultAlbum = {
-          fileId: fileIds.join(','),
-          messageId: 0,
-        };
+        // Отправляем как альбом (Media Group, по 10 элементов)
+        await sendMediaParts(
+          this.bot.api,
+          chatId,
+          parts,
+          `✅ ${videoInfo.title}\n\n📢 ${this.yourUsername}`,
+        );
 
-        // Сохраняем в кэш БД под ID плейлиста
+        // Сохраняем в кэш БД под ID поста: одна запись + элементы в частях
         try {
           await this.cacheService.set({
             url: videoInfo.id,
+            sourceKey: videoInfo.canonicalKey,
             formatId: DownloaderService.DIRECT_FORMAT_ID,
             resolution: DownloaderService.DIRECT_RESOLUTION,
-            fileId: uploadResultAlbum.fileId,
-            archiveMessageId: uploadResultAlbum.messageId,
-            fileSize: totalSize,
+            fileId: parts[0].fileId,
+            archiveMessageId: parts[0].archiveMessageId,
+            fileSize: parts.reduce((sum, part) => sum + (part.size ?? 0n), 0n),
             fileType: 'album',
+            parts,
             userId: userId,
             title: videoInfo.title,
             uploader: videoInfo.uploader || undefined,
@@ -902,16 +1567,33 @@ export class DownloaderService {
             .catch(() => {});
         }
 
-        await this.userService.incrementDownloads(userId);
-        this.advertisementService.incrementUserDownloads(userId);
+        await this.countDelivered(chatId, userId, platform);
+        return;
+      }
+
+      // 📷 ПОСТ-ФОТО: одна картинка, без скачивания на сервер
+      if (videoInfo.mediaType === 'photo' && videoInfo.directUrl) {
+        const photo = await this.cachePhoto(videoInfo, userId);
+
+        await this.bot.api.sendPhoto(chatId, photo.fileId, {
+          caption: `✅ ${videoInfo.title}\n\n📢 ${this.yourUsername}`,
+        });
+
+        if (progressMsg) {
+          await this.bot.api
+            .deleteMessage(chatId, progressMsg.message_id)
+            .catch(() => {});
+        }
+
+        await this.countDelivered(chatId, userId, platform);
         return;
       }
 
-      // ⚡ URL-DIRECT (только Instagram): отдаём прямую H.264-ссылку Telegram —
+      // ⚡ URL-DIRECT (например, Instagram): отдаём прямую H.264-ссылку Telegram —
       // он сам качает её в архивный канал, наш сервер НЕ качает и НЕ заливает.
       // YouTube сюда не идёт: он привязывает ссылки к IP и троттлит, Telegram их
       // не заберёт. При любой ошибке проваливаемся в обычное скачивание ниже.
-      if (isInstagram && videoInfo.directUrl) {
+      if (provider?.allowsUrlDirect && videoInfo.directUrl) {
         try {
           if (progressMsg) {
             await this.bot.api
@@ -951,8 +1633,7 @@ export class DownloaderService {
               .catch(() => {});
           }
 
-          await this.userService.incrementDownloads(userId).catch(() => {});
-          this.advertisementService.incrementUserDownloads(userId);
+          await this.countDelivered(chatId, userId, platform);
           this.logger.log(`⚡ URL-direct успех: ${videoInfo.id}`);
           return;
         } catch (e) {
@@ -967,19 +1648,24 @@ export class DownloaderService {
       if (progressMsg) {
         // Переиспользуем сообщение «в очереди» под прогресс
         await this.bot.api
-          .editMessageText(chatId, progressMsg.message_id, '⬇️ Скачиваю видео...')
+          .editMessageText(
+            chatId,
+            progressMsg.message_id,
+            '⬇️ Скачиваю видео...',
+            { reply_markup: cancelMarkup },
+          )
           .catch(() => {});
       } else {
         progressMsg = await this.bot.api.sendMessage(
           chatId,
           '⬇️ Скачиваю видео...',
+          { reply_markup: cancelMarkup },
         );
       }
 
       const sanitizedTitle = sanitizeFilename(videoInfo.title);
-      const suffix = isInstagram ? 'ig' : 'short';
-      const filename = `${sanitizedTitle}_${suffix}.mp4`;
-      let filepath = path.resolve(this.downloadsDir, filename);
+      const filename = `${sanitizedTitle}_${platform}_${this.fileTag(options)}.mp4`;
+      filepath = path.resolve(this.downloadsDir, filename);
 
       // 🚀 Как большие боты отдают reels/shorts за секунду: берут ГОТОВЫЙ
       // прогрессивный файл (видео+звук в одном), который Instagram/YouTube сразу
@@ -1013,9 +1699,12 @@ export class DownloaderService {
               chatId,
               progressMsg.message_id,
               `⬇️ Скачивание\n${bar} ${Math.floor(progress)}%`,
+              { reply_markup: cancelMarkup },
             )
             .catch(() => {});
         },
+        undefined,
+        signal,
       );
 
       // 🍏 Гарантируем совместимость с iPhone (перекод в H.264/yuv420p,
@@ -1025,9 +1714,38 @@ export class DownloaderService {
           chatId,
           progressMsg.message_id,
           '🔄 Обрабатываю видео...',
+          { reply_markup: cancelMarkup },
         )
         .catch(() => {});
-      await this.ytdlpService.ensureIphoneCompatible(filepath);
+      await this.ytdlpService.ensureIphoneCompatible(filepath, signal);
+      this.throwIfCancelled(signal);
+
+      // 💎 Лимит размера файла по тарифу — как и при выборе качества
+      const { size } = await fs.stat(filepath);
+      const { maxFileBytes } = await this.premiumService.getPerks(userId);
+      if (size > maxFileBytes) {
+        await this.cleanupFiles(filepath);
+        throw new FileTooLargeError(size, maxFileBytes);
+      }
+      await this.quotaService.addTraffic({ userId, chatId }, size);
+
+      // 📦 Больше лимита Telegram — режем на части и шлём альбомом
+      if (size > this.maxUploadBytes) {
+        await this.deliverInParts(
+          chatId,
+          userId,
+          filepath,
+          videoInfo,
+          DownloaderService.DIRECT_FORMAT_ID,
+          DownloaderService.DIRECT_RESOLUTION,
+          false,
+          undefined,
+          undefined,
+          progressMsg.message_id,
+          options,
+        );
+        return;
+      }
 
       await this.bot.api
         .editMessageText(
@@ -1055,6 +1773,7 @@ export class DownloaderService {
         await this.bot.api
           .deleteMessage(chatId, progressMsg.message_id)
           .catch(() => {});
+        await this.countDelivered(chatId, userId, platform);
         return;
       }
 
@@ -1082,19 +1801,39 @@ export class DownloaderService {
       await fs.unlink(filepath).catch(() => {});
 
       // Статистика
-      await this.userService.incrementDownloads(userId);
-      this.advertisementService.incrementUserDownloads(userId);
+      await this.countDelivered(chatId, userId, platform);
     } catch (error: any) {
-      this.logger.error(`❌ Direct download error: ${error.stack}`);
-      if (progressMsg) {
-        await this.bot.api
-          .editMessageText(
-            chatId,
-            progressMsg.message_id,
-            `❌ Ошибка: ${error.message}`,
-          )
-          .catch(() => {});
+      if (error instanceof DownloadCancelledError) {
+        await this.reportCancelled(chatId, progressMsg, filepath);
+        throw error;
       }
+
+      // 403 — бот заблокирован: сообщать об ошибке некуда, обработчик
+      // задачи не станет её повторять
+      if (error instanceof GrammyError && error.error_code === 403) {
+        throw error;
+      }
+
+      this.logger.error(`❌ Direct download error: ${error.stack}`);
+      await this.reportFailed(
+        chatId,
+        progressMsg,
+        error,
+        !options.lastAttempt && !(error instanceof FileTooLargeError),
+      );
+      throw error;
     }
   }
 }
+
+/**
+ * Файл больше лимита тарифа — повтор скачает его снова и упрётся в тот же
+ * лимит, поэтому задачу не повторяем
+ */
+export class FileTooLargeError extends Error {
+  constructor(size: number, limit: number) {
+    super(
+      `Файл слишком большой (${formatFileSize(size)}), лимит — ${formatFileSize(limit)}.\n💎 В Premium лимит выше.`,
+    );
+  }
+}
@@ -0,0 +1,14 @@
+export class PlaylistInfoDto {
+  id: string;
+  url: string;
+  title: string;
+  uploader: string;
+  entries: PlaylistEntryDto[];
+}
+
+export class PlaylistEntryDto {
+  id: string;
+  url: string;
+  title: string;
+  duration: number;
+}
@@ -1,6 +1,8 @@
 export class VideoInfoDto {
   id: string;
   url: string;
+  platform?: string; // 🆕 Имя платформы из PlatformRegistry ('youtube', 'instagram'...)
+  canonicalKey?: string; // 🆕 Ключ кеша «платформа:id» (youtube:dQw4w9WgXcQ)
   title: string;
   uploader: string;
   duration: number;
@@ -8,9 +10,10 @@ export class VideoInfoDto {
   likeCount: number;
   uploadDate: string;
   thumbnail: string;
-  width?: number;        // 🆕 Ширина видео
-  height?: number;       // 🆕 Высота видео
-  directUrl?: string;    // 🆕 Прямая ссылка на готовый H.264-файл (URL-direct)
+  width?: number; // 🆕 Ширина видео
+  height?: number; // 🆕 Высота видео
+  directUrl?: string; // 🆕 Прямая ссылка на готовый H.264-файл (URL-direct)
+  mediaType?: 'photo' | 'video'; // 🆕 photo — картинка из поста (directUrl ведёт на изображение)
   formats: FormatDto[];
   entries?: VideoInfoDto[]; // 🆕 Дополнительные элементы для каруселей / плейлистов
 }
@@ -23,4 +26,4 @@ export class FormatDto {
   quality: number;
   hasAudio: boolean;
   vcodec?: string | null; // 🆕 Кодек для проверки совместимости
-}
\ No newline at end of file
+}
@@ -1,4 +1,6 @@
 // downloader/interfaces/download-job.interface.ts
+import { ClipRange } from '../../../common/utils/clip.utils';
+
 export interface DownloadJobData {
   chatId: number;
   userId: string; // BigInt переводим в string для JSON
@@ -6,5 +8,20 @@ export interface DownloadJobData {
   formatId: string;
   resolution: string;
   isAudio: boolean;
-  isInstagram: boolean;
-}
\ No newline at end of file
+  platform?: string; // Имя провайдера из PlatformRegistry
+  isDirect?: boolean; // Reels / Shorts — без выбора качества
+  queueMsgId?: number; // Сообщение «в очереди», которое воркер превратит в прогресс
+  batchId?: string; // ID сессии подборки (плейлист / канал / профиль)
+  clip?: ClipRange; // Скачать только фрагмент видео
+}
+
+// Дополнительные параметры задачи скачивания
+export interface DownloadTaskOptions {
+  batchId?: string; // Элемент подборки — отчитаться о завершении в PlaylistService
+  clip?: ClipRange; // Отрезок видео (секунды)
+  queueMsgId?: number; // Сообщение «в очереди» — станет прогрессом
+  signal?: AbortSignal; // Отмена задачи (кнопка в прогрессе или /queue)
+  jobId?: string; // ID задачи BullMQ — для кнопки «Отменить» в прогрессе
+  retry?: boolean; // Повтор после ошибки — промах кеша уже посчитан
+  lastAttempt?: boolean; // Повторов больше не будет — ошибка окончательная
+}
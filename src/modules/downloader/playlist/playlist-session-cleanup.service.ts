@@ -0,0 +1,28 @@
+// src/modules/downloader/playlist/playlist-session-cleanup.service.ts
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PlaylistSessionService } from './playlist-session.service';
+
+@Injectable()
+export class PlaylistSessionCleanupService {
+  private readonly logger = new Logger(PlaylistSessionCleanupService.name);
+
+  constructor(private playlistSessionService: PlaylistSessionService) {}
+
+  /**
+   * Очистка истёкших сессий подборок (каждый день в 4:00)
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_4AM)
+  async cleanExpiredSessions() {
+    try {
+      const deleted = await this.playlistSessionService.cleanExpired();
+
+      if (deleted > 0) {
+        this.logger.log(`✅ Удалено ${deleted} истёкших сессий подборок`);
+      }
+    } catch (error: any) {
+      this.logger.error(`❌ Ошибка очистки подборок: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,182 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PlaylistSession } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma.service';
+import { PlaylistInfoDto, PlaylistEntryDto } from '../dto/playlist-info.dto';
+
+export interface PlaylistSessionData {
+  id: string;
+  userId: bigint;
+  chatId: number;
+  originalUrl: string;
+  platform: string;
+  title: string;
+  entries: PlaylistEntryDto[];
+  selected: number[];
+  page: number;
+  total: number;
+  completed: number;
+  failed: number;
+  progressMsgId: number | null;
+}
+
+@Injectable()
+export class PlaylistSessionService {
+  private readonly logger = new Logger(PlaylistSessionService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * 💾 Создать сессию выбора элементов подборки
+   */
+  async create(
+    sessionId: string,
+    userId: bigint,
+    chatId: number,
+    platform: string,
+    info: PlaylistInfoDto,
+  ): Promise<PlaylistSessionData> {
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + 1); // Выбор актуален сутки
+
+    const session = await this.prisma.playlistSession.create({
+      data: {
+        id: sessionId,
+        userId,
+        chatId: BigInt(chatId),
+        originalUrl: info.url,
+        platform,
+        title: info.title,
+        // Только поля записи — в JSON не попадает лишнее из ответа yt-dlp
+        entries: info.entries.map(
+          ({ id, url, title, duration }) =>
+            ({ id, url, title, duration }) satisfies PlaylistEntryDto,
+        ),
+        selected: [],
+        expiresAt,
+      },
+    });
+
+    this.logger.log(
+      `💾 Сессия подборки ${sessionId}: ${info.entries.length} элементов`,
+    );
+    return this.toData(session);
+  }
+
+  /**
+   * 📥 Получить сессию (null — не найдена или истекла)
+   */
+  async get(sessionId: string): Promise<PlaylistSessionData | null> {
+    const session = await this.prisma.playlistSession.findUnique({
+      where: { id: sessionId },
+    });
+
+    if (!session || new Date() > session.expiresAt) {
+      return null;
+    }
+
+    return this.toData(session);
+  }
+
+  /**
+   * ☑️ Сохранить выбор и текущую страницу
+   */
+  async updateSelection(
+    sessionId: string,
+    selected: number[],
+    page: number,
+  ): Promise<void> {
+    await this.prisma.playlistSession.update({
+      where: { id: sessionId },
+      data: { selected, page },
+    });
+  }
+
+  /**
+   * 🔒 Занять подборку под постановку в очередь. Условное обновление
+   * атомарно: из двух быстрых нажатий «скачать» пройдёт только одно.
+   */
+  async claim(sessionId: string, total: number): Promise<boolean> {
+    const { count } = await this.prisma.playlistSession.updateMany({
+      where: { id: sessionId, total: 0 },
+      data: { total },
+    });
+    return count > 0;
+  }
+
+  /**
+   * 🔓 Вернуть подборку к выбору (в очередь ничего не ушло)
+   */
+  async release(sessionId: string): Promise<void> {
+    await this.prisma.playlistSession.update({
+      where: { id: sessionId },
+      data: { total: 0 },
+    });
+  }
+
+  /**
+   * 📦 Отметить постановку в очередь (сообщение прогресса + количество)
+   */
+  async markQueued(
+    sessionId: string,
+    total: number,
+    completed: number,
+    progressMsgId: number,
+  ): Promise<void> {
+    await this.prisma.playlistSession.update({
+      where: { id: sessionId },
+      data: { total, completed, failed: 0, progressMsgId },
+    });
+  }
+
+  /**
+   * ✅ Учесть завершение одного элемента, вернуть актуальный прогресс
+   */
+  async recordItem(
+    sessionId: string,
+    ok: boolean,
+  ): Promise<PlaylistSessionData | null> {
+    try {
+      const session = await this.prisma.playlistSession.update({
+        where: { id: sessionId },
+        data: ok
+          ? { completed: { increment: 1 } }
+          : { failed: { increment: 1 } },
+      });
+      return this.toData(session);
+    } catch (error: any) {
+      // Сессия могла быть удалена кроном — прогресс просто не обновится
+      if (error.code !== 'P2025') {
+        this.logger.error(`❌ Ошибка обновления прогресса: ${error.message}`);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * 🧹 Очистить истёкшие сессии (вызывать по крону)
+   */
+  async cleanExpired(): Promise<number> {
+    const result = await this.prisma.playlistSession.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+    return result.count;
+  }
+
+  private toData(session: PlaylistSession): PlaylistSessionData {
+    return {
+      id: session.id,
+      userId: session.userId,
+      chatId: Number(session.chatId),
+      originalUrl: session.originalUrl,
+      platform: session.platform,
+      title: session.title,
+      entries: session.entries as unknown as PlaylistEntryDto[],
+      selected: session.selected as number[],
+      page: session.page,
+      total: session.total,
+      completed: session.completed,
+      failed: session.failed,
+      progressMsgId: session.progressMsgId,
+    };
+  }
+}
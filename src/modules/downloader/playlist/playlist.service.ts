@@ -0,0 +1,547 @@
+// src/modules/downloader/playlist/playlist.service.ts
+
+import { forwardRef, Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectBot } from '@grammyjs/nestjs';
+import { Bot, Context, InlineKeyboard } from 'grammy';
+import * as crypto from 'crypto';
+import { YtdlpService } from '../../ytdlp/ytdlp.service';
+import { CacheService } from '../../cache/cache.service';
+import { CacheRecoveryService } from '../../cache/cache-recovery.service';
+import { PlatformRegistry } from '../../platform/platform.registry';
+import { PlatformProvider } from '../../platform/interfaces/platform-provider.interface';
+import { VideoInfoDto } from '../dto/video-info.dto';
+import {
+  PlaylistSessionData,
+  PlaylistSessionService,
+} from './playlist-session.service';
+import {
+  createProgressBar,
+  escapeHtml,
+  formatDuration,
+} from '../../../common/utils/format.utils';
+import { sendMediaParts } from '../../../common/utils/media-group.utils';
+import { QuotaService } from '../../quota/quota.service';
+import { PremiumService } from '../../premium/premium.service';
+import { DownloadJobsService } from '../download-jobs.service';
+import { DownloaderService } from '../downloader.service';
+
+@Injectable()
+export class PlaylistService {
+  private readonly logger = new Logger(PlaylistService.name);
+  private readonly yourUsername: string;
+
+  private static readonly PAGE_SIZE = 8;
+  private static readonly FIRST_N_OPTIONS = [5, 10, 25];
+  private static readonly RESOLUTIONS = [2160, 1440, 1080, 720, 480, 360];
+
+  constructor(
+    private ytdlpService: YtdlpService,
+    private cacheService: CacheService,
+    private cacheRecoveryService: CacheRecoveryService,
+    private platformRegistry: PlatformRegistry,
+    private playlistSessionService: PlaylistSessionService,
+    private quotaService: QuotaService,
+    private premiumService: PremiumService,
+    private config: ConfigService,
+    // Оба сервиса сами зависят от подборок (сводный прогресс, показ списка)
+    @Inject(forwardRef(() => DownloadJobsService))
+    private downloadJobs: DownloadJobsService,
+    @Inject(forwardRef(() => DownloaderService))
+    private downloaderService: DownloaderService,
+    @InjectBot() private readonly bot: Bot<Context>,
+  ) {
+    this.yourUsername = this.config.get<string>('YOUR_USERNAME') || '@your_bot';
+  }
+
+  /**
+   * 📃 АНАЛИЗ ПОДБОРКИ И ПОКАЗ СПИСКА С ГАЛОЧКАМИ
+   * Сообщение «Анализирую...» превращается в список выбора.
+   */
+  async showPicker(
+    ctx: Context,
+    provider: PlatformProvider,
+    url: URL,
+    progressMsgId: number,
+  ): Promise<void> {
+    if (!ctx.chat || !ctx.from) return;
+
+    // Длина списка — по тарифу: у Premium подборки длиннее
+    const { maxPlaylistItems } = await this.premiumService.getPerks(
+      BigInt(ctx.from.id),
+    );
+    const info = await this.ytdlpService.getPlaylistInfo(
+      provider.collectionUrl(url),
+      maxPlaylistItems,
+    );
+
+    if (info.entries.length === 0) {
+      await ctx.api.editMessageText(
+        ctx.chat.id,
+        progressMsgId,
+        '📭 В этой подборке нет доступных видео.',
+      );
+      return;
+    }
+
+    const sessionId = crypto.randomBytes(8).toString('hex');
+    const session = await this.playlistSessionService.create(
+      sessionId,
+      BigInt(ctx.from.id),
+      ctx.chat.id,
+      provider.name,
+      info,
+    );
+
+    const { text, keyboard } = this.renderPicker(session, maxPlaylistItems);
+    await ctx.api.editMessageText(ctx.chat.id, progressMsgId, text, {
+      parse_mode: 'HTML',
+      reply_markup: keyboard,
+    });
+  }
+
+  /**
+   * 🔘 ОБРАБОТКА КНОПОК СПИСКА (pl|sessionId|action|arg)
+   */
+  async handleCallback(
+    ctx: Context,
+    sessionId: string,
+    action: string,
+    arg?: string,
+  ): Promise<void> {
+    const session = await this.playlistSessionService.get(sessionId);
+
+    if (!session) {
+      await ctx.answerCallbackQuery({
+        text: '⌛ Список устарел, отправь ссылку заново.',
+      });
+      return;
+    }
+
+    // В группах списком управляет только тот, кто прислал ссылку
+    if (!ctx.from || BigInt(ctx.from.id) !== session.userId) {
+      await ctx.answerCallbackQuery({ text: '🚫 Это не твой список' });
+      return;
+    }
+
+    if (session.total > 0) {
+      await ctx.answerCallbackQuery({ text: '📦 Подборка уже в очереди' });
+      return;
+    }
+
+    const count = session.entries.length;
+    const pages = Math.ceil(count / PlaylistService.PAGE_SIZE);
+    let selected = new Set(session.selected);
+    let page = session.page;
+
+    switch (action) {
+      case 't': {
+        const idx = parseInt(arg ?? '', 10);
+        if (isNaN(idx) || idx < 0 || idx >= count) break;
+        if (selected.has(idx)) selected.delete(idx);
+        else selected.add(idx);
+        break;
+      }
+      case 'p':
+        page = Math.min(Math.max(parseInt(arg ?? '0', 10) || 0, 0), pages - 1);
+        break;
+      case 'all':
+        selected = new Set(session.entries.map((_, idx) => idx));
+        break;
+      case 'none':
+        selected.clear();
+        break;
+      case 'first': {
+        const n = Math.min(parseInt(arg ?? '0', 10) || 0, count);
+        selected = new Set(Array.from({ length: n }, (_, idx) => idx));
+        break;
+      }
+      case 'next':
+        if (selected.size === 0) {
+          await ctx.answerCallbackQuery({
+            text: '☑️ Выбери хотя бы одно видео',
+          });
+          return;
+        }
+        await ctx.answerCallbackQuery();
+        await this.showQualityChoice(ctx, session);
+        return;
+      case 'q':
+        await this.enqueue(ctx, session, arg ?? '');
+        return;
+      case 'back':
+        break;
+      default:
+        await ctx.answerCallbackQuery();
+        return;
+    }
+
+    session.selected = Array.from(selected).sort((a, b) => a - b);
+    session.page = page;
+    await this.playlistSessionService.updateSelection(
+      session.id,
+      session.selected,
+      session.page,
+    );
+
+    await ctx.answerCallbackQuery();
+    const { maxPlaylistItems } = await this.premiumService.getPerks(
+      session.userId,
+    );
+    const { text, keyboard } = this.renderPicker(session, maxPlaylistItems);
+    await ctx
+      .editMessageText(text, { parse_mode: 'HTML', reply_markup: keyboard })
+      .catch(() => {}); // «message is not modified» при повторном нажатии
+  }
+
+  /**
+   * ✅ УЧЁТ ЗАВЕРШЕНИЯ ЭЛЕМЕНТА (вызывается воркером очереди)
+   */
+  async reportItem(batchId: string, ok: boolean): Promise<void> {
+    const session = await this.playlistSessionService.recordItem(batchId, ok);
+    if (!session || !session.progressMsgId) return;
+
+    await this.bot.api
+      .editMessageText(
+        session.chatId,
+        session.progressMsgId,
+        this.renderProgress(session),
+        { parse_mode: 'HTML' },
+      )
+      .catch(() => {});
+  }
+
+  /**
+   * 🎚 ОДНО КАЧЕСТВО ДЛЯ ВСЕЙ ПОДБОРКИ
+   */
+  private async showQualityChoice(
+    ctx: Context,
+    session: PlaylistSessionData,
+  ): Promise<void> {
+    const provider = this.platformRegistry.get(session.platform);
+    const maxResolution = this.premiumService.maxResolution(
+      await this.premiumService.getPerks(session.userId),
+      provider?.maxResolution ?? 1080,
+    );
+
+    const keyboard = new InlineKeyboard();
+    PlaylistService.RESOLUTIONS.filter((h) => h <= maxResolution).forEach(
+      (height) => {
+        keyboard.text(`🎥 ${height}p`, `pl|${session.id}|q|${height}`).row();
+      },
+    );
+    keyboard
+      .text('🎵 Аудио', `pl|${session.id}|q|audio`)
+      .row()
+      .text('« Назад к списку', `pl|${session.id}|back`);
+
+    await ctx.editMessageText(
+      `📃 <b>${escapeHtml(session.title)}</b>\n\n` +
+        `Выбрано видео: <b>${session.selected.length}</b>\n\n` +
+        `<b>📌 Выберите качество для всех:</b>`,
+      { parse_mode: 'HTML', reply_markup: keyboard },
+    );
+  }
+
+  /**
+   * 📦 ПОСТАНОВКА ВЫБРАННЫХ ЭЛЕМЕНТОВ В ОЧЕРЕДЬ
+   * Уже закешированные отдаём сразу, остальное — отдельными задачами
+   * download-queue с общим batchId для сводного прогресса.
+   */
+  private async enqueue(
+    ctx: Context,
+    session: PlaylistSessionData,
+    quality: string,
+  ): Promise<void> {
+    const isAudio = quality === 'audio';
+    const height = parseInt(quality, 10);
+
+    if (!isAudio && isNaN(height)) {
+      await ctx.answerCallbackQuery();
+      return;
+    }
+
+    const perks = await this.premiumService.getPerks(session.userId);
+    const provider = this.platformRegistry.get(session.platform);
+    if (
+      !isAudio &&
+      height >
+        this.premiumService.maxResolution(
+          perks,
+          provider?.maxResolution ?? 1080,
+        )
+    ) {
+      await ctx.answerCallbackQuery({
+        text: '💎 Это качество доступно в Premium',
+        show_alert: true,
+      });
+      return;
+    }
+
+    // Селектор yt-dlp вместо конкретного formatId: у каждого ролика свои
+    // форматы, а анализировать каждый заранее — долго
+    const formatId = isAudio
+      ? 'bestaudio/best'
+      : `bestvideo[height<=${height}]+bestaudio/best[height<=${height}]`;
+    const resolution = isAudio ? 'audio' : `${height}p`;
+
+    // Второе нажатие, пока первое ещё ставит подборку, сюда не пройдёт
+    if (
+      !(await this.playlistSessionService.claim(
+        session.id,
+        session.selected.length,
+      ))
+    ) {
+      await ctx.answerCallbackQuery({ text: '📦 Подборка уже в очереди' });
+      return;
+    }
+
+    await ctx.answerCallbackQuery({
+      text: `📥 Ставлю в очередь: ${session.selected.length}`,
+    });
+
+    let fromCache = 0;
+    const jobs: { videoData: VideoInfoDto; isDirect: boolean }[] = [];
+
+    for (const idx of session.selected) {
+      const entry = session.entries[idx];
+      if (!entry) continue;
+
+      const videoData: VideoInfoDto = {
+        id: entry.id,
+        url: entry.url,
+        platform: session.platform,
+        canonicalKey: this.platformRegistry.buildKey(
+          session.platform,
+          entry.id,
+        ),
+        title: entry.title,
+        uploader: '',
+        duration: entry.duration,
+        viewCount: 0,
+        likeCount: 0,
+        uploadDate: '',
+        thumbnail: '',
+        formats: [],
+      };
+
+      // Фото и карусели (профиль Instagram) качаются как одиночная ссылка —
+      // без селектора качества
+      const isDirect = provider?.isDirect(new URL(entry.url)) ?? false;
+
+      if (
+        await this.sendFromCache(
+          session,
+          videoData,
+          isDirect ? DownloaderService.DIRECT_RESOLUTION : resolution,
+        )
+      ) {
+        fromCache++;
+      } else {
+        jobs.push({ videoData, isDirect });
+      }
+    }
+
+    // 🚦 Подборка списывается из суточного лимита загрузок целиком
+    if (jobs.length > 0) {
+      const verdict = await this.quotaService.consume(
+        { userId: session.userId, chatId: session.chatId },
+        'download',
+        jobs.length,
+      );
+      if (!verdict.allowed) {
+        await ctx.reply(this.quotaService.formatDenial(verdict));
+        // Из кеша ничего не ушло — оставляем список, чтобы выбрать меньше
+        if (fromCache === 0) {
+          await this.playlistSessionService.release(session.id);
+          return;
+        }
+        jobs.length = 0;
+      }
+    }
+
+    session.total = fromCache + jobs.length;
+    session.completed = fromCache;
+    session.failed = 0;
+
+    const progressMsgId = ctx.callbackQuery?.message?.message_id;
+    if (progressMsgId) {
+      session.progressMsgId = progressMsgId;
+      await ctx
+        .editMessageText(this.renderProgress(session), { parse_mode: 'HTML' })
+        .catch(() => {});
+    }
+
+    await this.playlistSessionService.markQueued(
+      session.id,
+      session.total,
+      fromCache,
+      progressMsgId ?? 0,
+    );
+
+    // Через общую постановку: приоритет тарифа и видимость в /queue
+    for (const { videoData, isDirect } of jobs) {
+      await this.downloadJobs.enqueue({
+        chatId: session.chatId,
+        userId: session.userId.toString(),
+        videoData,
+        formatId,
+        resolution,
+        isAudio,
+        isDirect,
+        platform: session.platform,
+        batchId: session.id,
+      });
+    }
+
+    this.logger.log(
+      `📦 Подборка ${session.id}: ${jobs.length} в очередь, ${fromCache} из кеша`,
+    );
+  }
+
+  /**
+   * ⚡ Отдать элемент из кеша, если он уже скачивался в этом качестве
+   */
+  private async sendFromCache(
+    session: PlaylistSessionData,
+    videoData: VideoInfoDto,
+    resolution: string,
+  ): Promise<boolean> {
+    if (!videoData.canonicalKey) return false;
+
+    const cached = await this.cacheService.getBySourceResolution(
+      videoData.canonicalKey,
+      resolution,
+    );
+    if (!cached) return false;
+
+    const caption = `✅ ${videoData.title}\n\n📥 ${resolution}\n\n📢 ${this.yourUsername}`;
+
+    const sent = await this.cacheRecoveryService.sendWithRecovery(
+      cached,
+      async (file, progress) => {
+        if (file.parts.length > 0) {
+          // Альбом или большой файл, разрезанный на части
+          await sendMediaParts(
+            this.bot.api,
+            session.chatId,
+            file.parts,
+            caption,
+            file.fileType !== 'album',
+            progress,
+          );
+        } else if (file.fileType === 'photo') {
+          await this.bot.api.sendPhoto(session.chatId, file.fileId, {
+            caption,
+          });
+        } else if (resolution === 'audio') {
+          await this.bot.api.sendAudio(session.chatId, file.fileId, {
+            caption,
+            title: videoData.title,
+          });
+        } else {
+          await this.bot.api.sendVideo(session.chatId, file.fileId, {
+            caption,
+            supports_streaming: true,
+          });
+        }
+      },
+    );
+
+    if (sent === 'sent') {
+      await this.cacheService
+        .recordCacheHit(cached, session.userId)
+        .catch(() => {});
+      await this.downloaderService.countDelivered(
+        session.chatId,
+        session.userId,
+        videoData.platform,
+      );
+    }
+    // Бот заблокирован — элемент в очередь не ставим, его некому отправить
+    return sent !== 'missing';
+  }
+
+  /**
+   * 🖼 Текст и клавиатура списка выбора (текущая страница)
+   */
+  private renderPicker(
+    session: PlaylistSessionData,
+    maxItems: number,
+  ): {
+    text: string;
+    keyboard: InlineKeyboard;
+  } {
+    const { id, entries, page } = session;
+    const selected = new Set(session.selected);
+    const pages = Math.ceil(entries.length / PlaylistService.PAGE_SIZE);
+    const start = page * PlaylistService.PAGE_SIZE;
+    const pageEntries = entries.slice(start, start + PlaylistService.PAGE_SIZE);
+
+    let text =
+      `📃 <b>${escapeHtml(session.title)}</b>\n\n` +
+      `Найдено видео: <b>${entries.length}</b>` +
+      (entries.length >= maxItems ? ` (максимум ${maxItems})` : '') +
+      `\nВыбрано: <b>${selected.size}</b>\n\n`;
+
+    pageEntries.forEach((entry, i) => {
+      const duration = entry.duration
+        ? ` (${formatDuration(entry.duration)})`
+        : '';
+      text += `${start + i + 1}. ${escapeHtml(entry.title)}${duration}\n`;
+    });
+
+    const keyboard = new InlineKeyboard();
+
+    pageEntries.forEach((entry, i) => {
+      const idx = start + i;
+      const mark = selected.has(idx) ? '✅' : '⬜';
+      keyboard
+        .text(
+          `${mark} ${idx + 1}. ${entry.title.substring(0, 30)}`,
+          `pl|${id}|t|${idx}`,
+        )
+        .row();
+    });
+
+    if (pages > 1) {
+      if (page > 0) keyboard.text('‹', `pl|${id}|p|${page - 1}`);
+      keyboard.text(`${page + 1}/${pages}`, `pl|${id}|p|${page}`);
+      if (page < pages - 1) keyboard.text('›', `pl|${id}|p|${page + 1}`);
+      keyboard.row();
+    }
+
+    keyboard
+      .text('☑️ Все', `pl|${id}|all`)
+      .text('⬜ Сбросить', `pl|${id}|none`)
+      .row();
+
+    PlaylistService.FIRST_N_OPTIONS.filter((n) => n < entries.length).forEach(
+      (n) => keyboard.text(`Первые ${n}`, `pl|${id}|first|${n}`),
+    );
+
+    keyboard.row().text(`➡️ Далее (${selected.size})`, `pl|${id}|next`);
+
+    return { text, keyboard };
+  }
+
+  /**
+   * 📊 Сводный прогресс подборки
+   */
+  private renderProgress(session: PlaylistSessionData): string {
+    const done = session.completed + session.failed;
+    const percent = session.total > 0 ? (done / session.total) * 100 : 100;
+    const finished = done >= session.total;
+
+    return (
+      `📦 <b>${escapeHtml(session.title)}</b>\n\n` +
+      `${createProgressBar(percent)} ${done}/${session.total}\n` +
+      `✅ Готово: ${session.completed}` +
+      (session.failed > 0 ? ` • ❌ Ошибок: ${session.failed}` : '') +
+      `\n\n` +
+      (finished
+        ? '🏁 Загрузка подборки завершена'
+        : '⏳ Видео приходят по мере готовности')
+    );
+  }
+}
@@ -21,6 +21,8 @@ export class VideoSessionService {
           id: videoId,
           originalUrl: videoInfo.url || '',
           videoId: videoInfo.id,
+          platform: videoInfo.platform,
+          canonicalKey: videoInfo.canonicalKey,
           title: videoInfo.title,
           uploader: videoInfo.uploader,
           duration: videoInfo.duration,
@@ -67,6 +69,8 @@ export class VideoSessionService {
       return {
         id: session.videoId,
         url: session.originalUrl,
+        platform: session.platform || undefined,
+        canonicalKey: session.canonicalKey || undefined,
         title: session.title,
         uploader: session.uploader|| '',
         duration: session.duration || 0,
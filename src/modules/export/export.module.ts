@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bullmq';
+import { ExportService } from './export.service';
+import { ExportProcessor } from './export.processor';
+
+@Module({
+  imports: [
+    BullModule.registerQueue({
+      name: 'export-queue',
+    }),
+  ],
+  providers: [ExportService, ExportProcessor],
+  exports: [ExportService],
+})
+export class ExportModule {}
@@ -0,0 +1,35 @@
+import { OnWorkerEvent, Processor, WorkerHost } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+import { InjectBot } from '@grammyjs/nestjs';
+import { Job } from 'bullmq';
+import { Bot, Context } from 'grammy';
+import { ExportService } from './export.service';
+import { ExportJobData } from './interfaces/export.interface';
+
+// По одной выгрузке за раз — большие таблицы нагружают БД и диск
+@Processor('export-queue', { concurrency: 1 })
+export class ExportProcessor extends WorkerHost {
+  private readonly logger = new Logger(ExportProcessor.name);
+
+  constructor(
+    private readonly exportService: ExportService,
+    @InjectBot() private readonly bot: Bot<Context>,
+  ) {
+    super();
+  }
+
+  async process(job: Job<ExportJobData>): Promise<void> {
+    await this.exportService.run(job.data);
+  }
+
+  // Админ ждёт файл — говорим, что его не будет
+  @OnWorkerEvent('failed')
+  async onFailed(job: Job<ExportJobData>, error: Error) {
+    this.logger.error(
+      `❌ Экспорт ${job.data.source} (${job.data.range}): ${error.message}`,
+    );
+    await this.bot.api
+      .sendMessage(job.data.chatId, `❌ Экспорт не удался: ${error.message}`)
+      .catch(() => {});
+  }
+}
@@ -0,0 +1,438 @@
+// src/modules/export/export.service.ts
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bullmq';
+import { InjectBot } from '@grammyjs/nestjs';
+import { Queue } from 'bullmq';
+import { Bot, Context, InputFile } from 'grammy';
+import * as ExcelJS from 'exceljs';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { once } from 'events';
+import { finished } from 'stream/promises';
+import { DailyStats, User } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import {
+  ExportCell,
+  ExportColumn,
+  ExportFormat,
+  ExportJobData,
+  ExportRange,
+  ExportSource,
+} from './interfaces/export.interface';
+
+// Как читать одну таблицу: постранично по id в пределах периода
+interface ExportSpec<T extends { id: number | bigint }> {
+  count: (range: ExportRange) => Promise<number>;
+  page: (range: ExportRange, cursor: T['id'] | undefined) => Promise<T[]>;
+  columns: ExportColumn<T>[];
+}
+
+/**
+ * 📤 Выгрузка таблиц в CSV / XLSX для админов.
+ * Строки читаются страницами и сразу пишутся во временный файл, так что
+ * память не растёт вместе с таблицей. Большие выгрузки уходят в export-queue,
+ * готовый файл бот присылает документом.
+ */
+@Injectable()
+export class ExportService {
+  private readonly logger = new Logger(ExportService.name);
+  private readonly syncMaxRows: number;
+  private readonly specs: Record<ExportSource, ExportSpec<any>>;
+
+  static readonly SOURCE_TITLES: Record<ExportSource, string> = {
+    users: '👥 Пользователи',
+    downloads: '📥 Загрузки',
+    ad_views: '📣 Показы рекламы',
+    daily_stats: '📊 Статистика по дням',
+  };
+
+  // Готовые периоды в меню; свои даты — через ввод «01.09.2026-30.09.2026»
+  static readonly RANGES = ['7', '30', '90', 'all'];
+
+  private static readonly PAGE_SIZE = 1000;
+  private static readonly DAY = 24 * 60 * 60 * 1000;
+
+  constructor(
+    private prisma: PrismaService,
+    config: ConfigService,
+    @InjectQueue('export-queue') private queue: Queue<ExportJobData>,
+    @InjectBot() private readonly bot: Bot<Context>,
+  ) {
+    this.syncMaxRows = config.get<number>('EXPORT_SYNC_MAX_ROWS') ?? 5000;
+    this.specs = {
+      users: this.usersSpec(),
+      downloads: this.downloadsSpec(),
+      ad_views: this.adViewsSpec(),
+      daily_stats: this.dailyStatsSpec(),
+    };
+  }
+
+  /**
+   * Ключ периода → даты; null — ключ не разобрать
+   */
+  parseRange(key: string): ExportRange | null {
+    const now = new Date();
+    const today = Date.UTC(
+      now.getUTCFullYear(),
+      now.getUTCMonth(),
+      now.getUTCDate(),
+    );
+    const tomorrow = new Date(today + ExportService.DAY);
+
+    if (key === 'all') return { from: new Date(0), to: tomorrow };
+
+    if (/^\d+$/.test(key)) {
+      const days = parseInt(key, 10);
+      if (days < 1) return null;
+      return {
+        from: new Date(today - (days - 1) * ExportService.DAY),
+        to: tomorrow,
+      };
+    }
+
+    const match = key.match(/^(\d{4})(\d{2})(\d{2})-(\d{4})(\d{2})(\d{2})$/);
+    if (!match) return null;
+
+    const [, fy, fm, fd, ty, tm, td] = match.map(Number);
+    const from = new Date(Date.UTC(fy, fm - 1, fd));
+    const to = new Date(Date.UTC(ty, tm - 1, td) + ExportService.DAY);
+    return from < to ? { from, to } : null;
+  }
+
+  /**
+   * «01.09.2026-30.09.2026» → ключ периода «20260901-20260930»
+   */
+  parseDates(text: string): string | null {
+    const match = text
+      .trim()
+      .match(
+        /^(\d{1,2})\.(\d{1,2})\.(\d{4})\s*[-–—]\s*(\d{1,2})\.(\d{1,2})\.(\d{4})$/,
+      );
+    if (!match) return null;
+
+    const [, fd, fm, fy, td, tm, ty] = match.map(Number);
+    const from = new Date(Date.UTC(fy, fm - 1, fd));
+    const to = new Date(Date.UTC(ty, tm - 1, td));
+
+    // 31.02 и подобное Date «перекатит» в следующий месяц — отсекаем
+    if (from.getUTCDate() !== fd || to.getUTCDate() !== td || from > to) {
+      return null;
+    }
+    return `${this.compactDate(from)}-${this.compactDate(to)}`;
+  }
+
+  rangeTitle(key: string): string {
+    if (key === 'all') return 'всё время';
+    if (/^\d+$/.test(key)) return `последние ${key} дн.`;
+
+    const range = this.parseRange(key);
+    if (!range) return key;
+
+    const last = new Date(range.to.getTime() - ExportService.DAY);
+    return `${this.displayDate(range.from)} – ${this.displayDate(last)}`;
+  }
+
+  async count(source: ExportSource, range: ExportRange): Promise<number> {
+    return this.specs[source].count(range);
+  }
+
+  /**
+   * ▶️ Выгрузить: небольшие — сразу, большие — фоновой задачей.
+   * rows = 0 — за период выгружать нечего.
+   */
+  async start(data: ExportJobData): Promise<{ rows: number; queued: boolean }> {
+    const range = this.parseRange(data.range);
+    if (!range) throw new Error(`Некорректный период: ${data.range}`);
+
+    const rows = await this.count(data.source, range);
+    if (rows === 0) return { rows, queued: false };
+
+    if (rows > this.syncMaxRows) {
+      await this.queue.add('export', data, {
+        attempts: 1,
+        removeOnComplete: true,
+        removeOnFail: true,
+      });
+      return { rows, queued: true };
+    }
+
+    await this.run(data);
+    return { rows, queued: false };
+  }
+
+  /**
+   * 📄 Собрать файл во временной папке, отправить документом и удалить
+   */
+  async run(data: ExportJobData): Promise<void> {
+    const range = this.parseRange(data.range);
+    if (!range) throw new Error(`Некорректный период: ${data.range}`);
+
+    const name = this.fileName(data.source, data.format, data.range, range);
+    const file = path.join(os.tmpdir(), `${Date.now()}-${name}`);
+    const startedAt = Date.now();
+
+    try {
+      const rows =
+        data.format === 'csv'
+          ? await this.writeCsv(file, this.specs[data.source], range)
+          : await this.writeXlsx(file, this.specs[data.source], range);
+
+      this.logger.log(
+        `📤 Экспорт ${name}: ${rows} строк за ${Date.now() - startedAt} мс`,
+      );
+
+      await this.bot.api.sendDocument(data.chatId, new InputFile(file, name), {
+        caption:
+          `${ExportService.SOURCE_TITLES[data.source]} — ` +
+          `${this.rangeTitle(data.range)}\nСтрок: ${rows}`,
+      });
+    } finally {
+      await fs.promises.unlink(file).catch(() => {});
+    }
+  }
+
+  private async writeCsv(
+    file: string,
+    spec: ExportSpec<any>,
+    range: ExportRange,
+  ): Promise<number> {
+    const stream = fs.createWriteStream(file);
+    const write = async (cells: ExportCell[]) => {
+      const line = cells.map((cell) => this.csvCell(cell)).join(',') + '\r\n';
+      if (!stream.write(line)) await once(stream, 'drain');
+    };
+
+    let rows = 0;
+    try {
+      // BOM — чтобы Excel открыл UTF-8 с кириллицей без плясок
+      stream.write('\ufeff');
+      await write(spec.columns.map((column) => column.header));
+
+      for await (const cells of this.rows(spec, range)) {
+        await write(cells);
+        rows++;
+      }
+    } finally {
+      stream.end();
+    }
+    await finished(stream);
+    return rows;
+  }
+
+  private async writeXlsx(
+    file: string,
+    spec: ExportSpec<any>,
+    range: ExportRange,
+  ): Promise<number> {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+      filename: file,
+      useStyles: false,
+      useSharedStrings: false,
+    });
+    const sheet = workbook.addWorksheet('export');
+    sheet.addRow(spec.columns.map((column) => column.header)).commit();
+
+    let rows = 0;
+    for await (const cells of this.rows(spec, range)) {
+      sheet.addRow(cells).commit();
+      rows++;
+    }
+
+    sheet.commit();
+    await workbook.commit();
+    return rows;
+  }
+
+  // Строки таблицы страницами по PAGE_SIZE (курсор по id)
+  private async *rows(
+    spec: ExportSpec<any>,
+    range: ExportRange,
+  ): AsyncGenerator<ExportCell[]> {
+    let cursor: number | bigint | undefined;
+
+    for (;;) {
+      const page = await spec.page(range, cursor);
+      if (page.length === 0) return;
+
+      for (const row of page) {
+        yield spec.columns.map((column) => this.defuse(column.value(row)));
+      }
+      cursor = page[page.length - 1].id;
+    }
+  }
+
+  private usersSpec() {
+    const where = (range: ExportRange) => ({
+      createdAt: { gte: range.from, lt: range.to },
+    });
+
+    return {
+      count: (range) => this.prisma.user.count({ where: where(range) }),
+      page: (range, cursor) =>
+        this.prisma.user.findMany({
+          where: where(range),
+          orderBy: { id: 'asc' },
+          take: ExportService.PAGE_SIZE,
+          ...(cursor !== undefined && { cursor: { id: cursor }, skip: 1 }),
+        }),
+      columns: [
+        { header: 'id', value: (user) => user.id.toString() },
+        { header: 'username', value: (user) => user.username },
+        { header: 'first_name', value: (user) => user.firstName },
+        { header: 'last_name', value: (user) => user.lastName },
+        { header: 'language', value: (user) => user.languageCode },
+        { header: 'role', value: (user) => user.role },
+        { header: 'tier', value: (user) => user.tier },
+        { header: 'premium_until', value: (user) => user.premiumUntil },
+        { header: 'is_banned', value: (user) => user.isBanned },
+        { header: 'is_reachable', value: (user) => user.isReachable },
+        { header: 'total_downloads', value: (user) => user.totalDownloads },
+        { header: 'last_active_at', value: (user) => user.lastActiveAt },
+        { header: 'created_at', value: (user) => user.createdAt },
+      ],
+    } satisfies ExportSpec<User>;
+  }
+
+  private downloadsSpec() {
+    const where = (range: ExportRange) => ({
+      downloadedAt: { gte: range.from, lt: range.to },
+    });
+    const findPage = (range: ExportRange, cursor: number | undefined) =>
+      this.prisma.download.findMany({
+        where: where(range),
+        include: { cachedFile: true },
+        orderBy: { id: 'asc' },
+        take: ExportService.PAGE_SIZE,
+        ...(cursor !== undefined && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+    return {
+      count: (range) => this.prisma.download.count({ where: where(range) }),
+      page: findPage,
+      columns: [
+        { header: 'id', value: (row) => row.id },
+        { header: 'downloaded_at', value: (row) => row.downloadedAt },
+        { header: 'user_id', value: (row) => row.userId.toString() },
+        { header: 'from_cache', value: (row) => row.wasFromCache },
+        { header: 'file_id', value: (row) => row.cachedFileId },
+        { header: 'source_key', value: (row) => row.cachedFile.sourceKey },
+        { header: 'url', value: (row) => row.cachedFile.originalUrl },
+        { header: 'title', value: (row) => row.cachedFile.title },
+        { header: 'uploader', value: (row) => row.cachedFile.uploader },
+        { header: 'resolution', value: (row) => row.cachedFile.resolution },
+        { header: 'clip', value: (row) => row.cachedFile.clipRange },
+        { header: 'file_type', value: (row) => row.cachedFile.fileType },
+        {
+          header: 'file_size',
+          value: (row) =>
+            row.cachedFile.fileSize === null
+              ? null
+              : Number(row.cachedFile.fileSize),
+        },
+        { header: 'duration_sec', value: (row) => row.cachedFile.duration },
+      ],
+    } satisfies ExportSpec<Awaited<ReturnType<typeof findPage>>[number]>;
+  }
+
+  private adViewsSpec() {
+    const where = (range: ExportRange) => ({
+      viewedAt: { gte: range.from, lt: range.to },
+    });
+    const findPage = (range: ExportRange, cursor: number | undefined) =>
+      this.prisma.advertisementView.findMany({
+        where: where(range),
+        include: { ad: { select: { content: true } } },
+        orderBy: { id: 'asc' },
+        take: ExportService.PAGE_SIZE,
+        ...(cursor !== undefined && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+    return {
+      count: (range) =>
+        this.prisma.advertisementView.count({ where: where(range) }),
+      page: findPage,
+      columns: [
+        { header: 'id', value: (view) => view.id },
+        { header: 'viewed_at', value: (view) => view.viewedAt },
+        { header: 'ad_id', value: (view) => view.adId },
+        { header: 'ad_text', value: (view) => view.ad.content.slice(0, 100) },
+        { header: 'user_id', value: (view) => view.userId.toString() },
+        { header: 'clicked', value: (view) => view.clicked },
+        { header: 'clicked_at', value: (view) => view.clickedAt },
+      ],
+    } satisfies ExportSpec<Awaited<ReturnType<typeof findPage>>[number]>;
+  }
+
+  private dailyStatsSpec() {
+    const where = (range: ExportRange) => ({
+      date: { gte: range.from, lt: range.to },
+    });
+
+    return {
+      count: (range) => this.prisma.dailyStats.count({ where: where(range) }),
+      page: (range, cursor) =>
+        this.prisma.dailyStats.findMany({
+          where: where(range),
+          orderBy: { id: 'asc' },
+          take: ExportService.PAGE_SIZE,
+          ...(cursor !== undefined && { cursor: { id: cursor }, skip: 1 }),
+        }),
+      columns: [
+        { header: 'date', value: (day) => day.date.toISOString().slice(0, 10) },
+        { header: 'new_users', value: (day) => day.newUsers },
+        { header: 'downloads', value: (day) => day.totalDownloads },
+        { header: 'cache_hits', value: (day) => day.cacheHits },
+        { header: 'cache_misses', value: (day) => day.cacheMisses },
+        { header: 'failed_downloads', value: (day) => day.failedDownloads },
+        { header: 'queued_jobs', value: (day) => day.queuedJobs },
+        { header: 'queue_wait_sec', value: (day) => day.queueWaitSec },
+        {
+          header: 'platforms',
+          value: (day) =>
+            day.platforms ? JSON.stringify(day.platforms) : null,
+        },
+      ],
+    } satisfies ExportSpec<DailyStats>;
+  }
+
+  // Имя, username и текст рекламы пишут пользователи: «=», «+», «-», «@» в
+  // начале Excel примет за формулу — экранируем апострофом
+  private defuse(cell: ExportCell): ExportCell {
+    return typeof cell === 'string' && /^[=+\-@\t\r]/.test(cell)
+      ? `'${cell}`
+      : cell;
+  }
+
+  private csvCell(cell: ExportCell): string {
+    if (cell === null || cell === undefined) return '';
+
+    const text = cell instanceof Date ? cell.toISOString() : String(cell);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  // users_20260901-20260930.csv
+  private fileName(
+    source: ExportSource,
+    format: ExportFormat,
+    key: string,
+    range: ExportRange,
+  ): string {
+    const last = new Date(range.to.getTime() - ExportService.DAY);
+    const period =
+      key === 'all'
+        ? 'all'
+        : `${this.compactDate(range.from)}-${this.compactDate(last)}`;
+    return `${source}_${period}.${format}`;
+  }
+
+  private compactDate(date: Date): string {
+    return date.toISOString().slice(0, 10).replace(/-/g, '');
+  }
+
+  private displayDate(date: Date): string {
+    return date.toLocaleDateString('ru-RU', { timeZone: 'UTC' });
+  }
+}
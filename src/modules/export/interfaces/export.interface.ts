@@ -0,0 +1,27 @@
+// export/interfaces/export.interface.ts
+
+// Что выгружаем: таблицы пользователей, загрузок, показов рекламы и дневной статистики
+export type ExportSource = 'users' | 'downloads' | 'ad_views' | 'daily_stats';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+// Период выгрузки (UTC); to — не включительно
+export interface ExportRange {
+  from: Date;
+  to: Date;
+}
+
+export type ExportCell = string | number | boolean | Date | null;
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => ExportCell;
+}
+
+// Одна задача export-queue — один файл одному админу
+export interface ExportJobData {
+  chatId: number;
+  source: ExportSource;
+  format: ExportFormat;
+  range: string; // Ключ периода: "7", "30", "90", "all" или "20260901-20260930"
+}
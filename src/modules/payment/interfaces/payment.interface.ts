@@ -0,0 +1,11 @@
+// payment/interfaces/payment.interface.ts
+
+export type PaymentPlanId = 'premium_30' | 'premium_90' | 'premium_365';
+
+// Что продаём за звёзды: дни Premium
+export interface PaymentPlan {
+  id: PaymentPlanId;
+  title: string;
+  days: number;
+  stars: number; // Цена в Telegram Stars (XTR)
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { PaymentService } from './payment.service';
+import { PremiumModule } from '../premium/premium.module';
+
+@Module({
+  imports: [PremiumModule],
+  providers: [PaymentService],
+  exports: [PaymentService],
+})
+export class PaymentModule {}
@@ -0,0 +1,310 @@
+// src/modules/payment/payment.service.spec.ts
+
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { Payment, Prisma, User } from '@prisma/client';
+import { Api } from 'grammy';
+import type { PreCheckoutQuery, SuccessfulPayment } from 'grammy/types';
+import { PrismaService } from '../../database/prisma.service';
+import { PremiumService } from '../premium/premium.service';
+import { PaymentService } from './payment.service';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-10-19T12:00:00Z');
+const USER_ID = 1001;
+
+// Prisma в памяти: только то, что трогают PaymentService и PremiumService
+function createPrisma() {
+  const users = new Map<bigint, User>();
+  const payments = new Map<string, Payment>();
+
+  const prisma = {
+    user: {
+      findUnique: ({ where }: { where: { id: bigint } }) =>
+        Promise.resolve(users.get(where.id) ?? null),
+      update: ({
+        where,
+        data,
+      }: {
+        where: { id: bigint };
+        data: Partial<User>;
+      }) => {
+        const user = { ...users.get(where.id)!, ...data };
+        users.set(where.id, user);
+        return Promise.resolve(user);
+      },
+    },
+    payment: {
+      findUnique: ({ where }: { where: { chargeId: string } }) =>
+        Promise.resolve(payments.get(where.chargeId) ?? null),
+      create: ({ data }: { data: Partial<Payment> }) => {
+        // chargeId уникален, как и в базе
+        if (payments.has(data.chargeId!)) {
+          return Promise.reject(
+            new Prisma.PrismaClientKnownRequestError('Unique constraint', {
+              code: 'P2002',
+              clientVersion: 'test',
+            }),
+          );
+        }
+        const payment = {
+          id: payments.size + 1,
+          status: 'paid',
+          createdAt: new Date(),
+          refundedAt: null,
+          ...data,
+        } as Payment;
+        payments.set(payment.chargeId, payment);
+        return Promise.resolve(payment);
+      },
+      findUniqueOrThrow: ({ where }: { where: { chargeId: string } }) =>
+        Promise.resolve(payments.get(where.chargeId)!),
+      updateMany: ({
+        where,
+        data,
+      }: {
+        where: { id: number; status: string };
+        data: Partial<Payment>;
+      }) => {
+        const current = [...payments.values()].find(
+          (p) => p.id === where.id && p.status === where.status,
+        );
+        if (current) payments.set(current.chargeId, { ...current, ...data });
+        return Promise.resolve({ count: current ? 1 : 0 });
+      },
+    },
+    $transaction: <T>(fn: (tx: unknown) => Promise<T>) => fn(prisma),
+  };
+
+  return { prisma, users, payments };
+}
+
+describe('PaymentService', () => {
+  let service: PaymentService;
+  let store: ReturnType<typeof createPrisma>;
+
+  const answerPreCheckoutQuery = jest.fn().mockResolvedValue(true);
+  const sendMessage = jest.fn().mockResolvedValue({});
+  const refundStarPayment = jest.fn().mockResolvedValue(true);
+  const api = {
+    answerPreCheckoutQuery,
+    sendMessage,
+    refundStarPayment,
+  } as unknown as Api;
+
+  const preCheckout = (
+    overrides: Partial<PreCheckoutQuery> = {},
+  ): PreCheckoutQuery => ({
+    id: 'query-1',
+    from: { id: USER_ID, is_bot: false, first_name: 'Test' },
+    currency: 'XTR',
+    total_amount: 100,
+    invoice_payload: `premium_30:${USER_ID}`,
+    ...overrides,
+  });
+
+  const successfulPayment = (chargeId = 'charge-1'): SuccessfulPayment => ({
+    currency: 'XTR',
+    total_amount: 100,
+    invoice_payload: `premium_30:${USER_ID}`,
+    telegram_payment_charge_id: chargeId,
+    provider_payment_charge_id: '',
+  });
+
+  const premiumUntil = () => store.users.get(BigInt(USER_ID))?.premiumUntil;
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: NOW });
+    jest.clearAllMocks();
+
+    store = createPrisma();
+    store.users.set(BigInt(USER_ID), {
+      id: BigInt(USER_ID),
+      tier: 'free',
+      premiumUntil: null,
+    } as User);
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        PaymentService,
+        PremiumService,
+        { provide: PrismaService, useValue: store.prisma },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(PaymentService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('answerPreCheckout', () => {
+    it('принимает счёт по цене тарифа от того, кому он выставлен', async () => {
+      await expect(service.answerPreCheckout(api, preCheckout())).resolves.toBe(
+        true,
+      );
+      expect(answerPreCheckoutQuery).toHaveBeenCalledWith(
+        'query-1',
+        true,
+        undefined,
+      );
+    });
+
+    it('отклоняет оплату чужого счёта', async () => {
+      const query = preCheckout({
+        from: { id: 2002, is_bot: false, first_name: 'Other' },
+      });
+
+      await expect(service.answerPreCheckout(api, query)).resolves.toBe(false);
+      expect(answerPreCheckoutQuery).toHaveBeenCalledWith('query-1', false, {
+        error_message: expect.any(String) as string,
+      });
+    });
+
+    it('отклоняет счёт со старой ценой', async () => {
+      const query = preCheckout({ total_amount: 50 });
+
+      await expect(service.answerPreCheckout(api, query)).resolves.toBe(false);
+      expect(answerPreCheckoutQuery).toHaveBeenCalledWith('query-1', false, {
+        error_message: expect.any(String) as string,
+      });
+    });
+  });
+
+  describe('handleSuccessfulPayment', () => {
+    it('сохраняет платёж и выдаёт дни тарифа', async () => {
+      const record = await service.handleSuccessfulPayment(
+        api,
+        USER_ID,
+        USER_ID,
+        successfulPayment(),
+      );
+
+      expect(record?.chargeId).toBe('charge-1');
+      expect(store.users.get(BigInt(USER_ID))?.tier).toBe('premium');
+      expect(premiumUntil()).toEqual(new Date(NOW.getTime() + 30 * DAY));
+      expect(sendMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('повторная доставка того же chargeId дни не добавляет', async () => {
+      const first = await service.handleSuccessfulPayment(
+        api,
+        USER_ID,
+        USER_ID,
+        successfulPayment(),
+      );
+      const second = await service.handleSuccessfulPayment(
+        api,
+        USER_ID,
+        USER_ID,
+        successfulPayment(),
+      );
+
+      expect(second).toEqual(first);
+      expect(store.payments.size).toBe(1);
+      expect(premiumUntil()).toEqual(new Date(NOW.getTime() + 30 * DAY));
+      expect(sendMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('одновременная повторная доставка возвращает сохранённый платёж', async () => {
+      const [first, second] = await Promise.all([
+        service.handleSuccessfulPayment(
+          api,
+          USER_ID,
+          USER_ID,
+          successfulPayment(),
+        ),
+        service.handleSuccessfulPayment(
+          api,
+          USER_ID,
+          USER_ID,
+          successfulPayment(),
+        ),
+      ]);
+
+      expect(second).toEqual(first);
+      expect(store.payments.size).toBe(1);
+      expect(premiumUntil()).toEqual(new Date(NOW.getTime() + 30 * DAY));
+    });
+
+    it('новая оплата продлевает от текущей даты окончания', async () => {
+      await service.handleSuccessfulPayment(
+        api,
+        USER_ID,
+        USER_ID,
+        successfulPayment('charge-1'),
+      );
+      await service.handleSuccessfulPayment(
+        api,
+        USER_ID,
+        USER_ID,
+        successfulPayment('charge-2'),
+      );
+
+      expect(premiumUntil()).toEqual(new Date(NOW.getTime() + 60 * DAY));
+    });
+  });
+
+  describe('возврат', () => {
+    beforeEach(async () => {
+      await service.handleSuccessfulPayment(
+        api,
+        USER_ID,
+        USER_ID,
+        successfulPayment('charge-1'),
+      );
+      await service.handleSuccessfulPayment(
+        api,
+        USER_ID,
+        USER_ID,
+        successfulPayment('charge-2'),
+      );
+    });
+
+    it('refund возвращает звёзды и списывает купленные дни', async () => {
+      const refunded = await service.refund(api, 'charge-2');
+
+      expect(refundStarPayment).toHaveBeenCalledWith(USER_ID, 'charge-2');
+      expect(refunded.status).toBe('refunded');
+      expect(premiumUntil()).toEqual(new Date(NOW.getTime() + 30 * DAY));
+    });
+
+    it('refund не возвращает платёж дважды', async () => {
+      await service.refund(api, 'charge-2');
+
+      await expect(service.refund(api, 'charge-2')).rejects.toThrow(
+        'Платёж уже возвращён',
+      );
+      expect(refundStarPayment).toHaveBeenCalledTimes(1);
+    });
+
+    it('refunded_payment после /refund ничего не меняет', async () => {
+      await service.refund(api, 'charge-2');
+      await service.handleRefundedPayment('charge-2');
+
+      expect(premiumUntil()).toEqual(new Date(NOW.getTime() + 30 * DAY));
+    });
+
+    it('одновременные /refund и refunded_payment списывают дни один раз', async () => {
+      await Promise.all([
+        service.refund(api, 'charge-2'),
+        service.handleRefundedPayment('charge-2'),
+      ]);
+
+      expect(store.payments.get('charge-2')?.status).toBe('refunded');
+      expect(premiumUntil()).toEqual(new Date(NOW.getTime() + 30 * DAY));
+    });
+
+    it('refunded_payment без /refund списывает дни', async () => {
+      await service.handleRefundedPayment('charge-1');
+      await service.handleRefundedPayment('charge-2');
+
+      expect(store.payments.get('charge-1')?.status).toBe('refunded');
+      expect(store.users.get(BigInt(USER_ID))?.tier).toBe('free');
+      expect(premiumUntil()).toBeNull();
+      expect(refundStarPayment).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,320 @@
+// src/modules/payment/payment.service.ts
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Payment, Prisma, User } from '@prisma/client';
+import { Api, Context, InlineKeyboard } from 'grammy';
+import type { PreCheckoutQuery, SuccessfulPayment } from 'grammy/types';
+import { PrismaService } from '../../database/prisma.service';
+import { PremiumService } from '../premium/premium.service';
+import { PaymentPlan } from './interfaces/payment.interface';
+
+/**
+ * ⭐ Оплата Premium звёздами Telegram (валюта XTR).
+ * Методы, которые ходят в Bot API, принимают Api параметром — так их
+ * можно вызвать и из обработчика апдейта, и с заглушкой в тестах.
+ */
+@Injectable()
+export class PaymentService {
+  private readonly logger = new Logger(PaymentService.name);
+  private readonly plans: PaymentPlan[];
+
+  private static readonly CURRENCY = 'XTR';
+
+  constructor(
+    private prisma: PrismaService,
+    private premiumService: PremiumService,
+    private config: ConfigService,
+  ) {
+    const price = (key: string, fallback: number) =>
+      this.config.get<number>(key) || fallback;
+
+    this.plans = [
+      {
+        id: 'premium_30',
+        title: '30 дней',
+        days: 30,
+        stars: price('PREMIUM_STARS_30D', 100),
+      },
+      {
+        id: 'premium_90',
+        title: '90 дней',
+        days: 90,
+        stars: price('PREMIUM_STARS_90D', 250),
+      },
+      {
+        id: 'premium_365',
+        title: '1 год',
+        days: 365,
+        stars: price('PREMIUM_STARS_365D', 800),
+      },
+    ];
+  }
+
+  getPlans(): PaymentPlan[] {
+    return this.plans;
+  }
+
+  getPlan(id: string): PaymentPlan | undefined {
+    return this.plans.find((plan) => plan.id === id);
+  }
+
+  /**
+   * 💎 /premium и /donate — статус подписки и кнопки оплаты
+   */
+  async showPlans(ctx: Context): Promise<void> {
+    if (!ctx.from) return;
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: BigInt(ctx.from.id) },
+      select: { premiumUntil: true },
+    });
+    const isPremium = await this.premiumService.isPremium(BigInt(ctx.from.id));
+
+    let message = `💎 <b>Premium</b>\n\n`;
+    if (isPremium) {
+      message += user?.premiumUntil
+        ? `✅ Активен до <b>${user.premiumUntil.toLocaleDateString('ru-RU')}</b>. Можно продлить:\n\n`
+        : `✅ Активен бессрочно. Спасибо за поддержку!\n\n`;
+    }
+    message +=
+      `⚡ Загрузки без очереди\n` +
+      `📺 Качество до 4K\n` +
+      `📦 Файлы больше и лимиты выше\n` +
+      `🚫 Без рекламы\n\n` +
+      `Оплата звёздами Telegram ⭐`;
+
+    const keyboard = new InlineKeyboard();
+    for (const plan of this.plans) {
+      keyboard.text(`⭐ ${plan.stars} — ${plan.title}`, `pay:${plan.id}`).row();
+    }
+
+    await ctx.reply(message, { parse_mode: 'HTML', reply_markup: keyboard });
+  }
+
+  /**
+   * 🧾 Счёт на оплату. Для звёзд provider_token не нужен.
+   * false — тариф не найден.
+   */
+  async sendInvoice(
+    api: Api,
+    chatId: number,
+    userId: number,
+    planId: string,
+  ): Promise<boolean> {
+    const plan = this.getPlan(planId);
+    if (!plan) return false;
+
+    await api.sendInvoice(
+      chatId,
+      `💎 Premium — ${plan.title}`,
+      'Загрузки без очереди, качество до 4K, большие файлы, повышенные лимиты и никакой рекламы.',
+      `${plan.id}:${userId}`,
+      PaymentService.CURRENCY,
+      [{ label: `Premium, ${plan.title}`, amount: plan.stars }],
+    );
+
+    return true;
+  }
+
+  /**
+   * ✅ pre_checkout_query: счёт наш, цена та же, платит тот, кому выставлен.
+   * Telegram ждёт ответа 10 секунд, иначе платёж отменяется.
+   */
+  async answerPreCheckout(api: Api, query: PreCheckoutQuery): Promise<boolean> {
+    const plan = this.parsePayload(query.invoice_payload, query.from.id);
+
+    let error: string | undefined;
+    if (!plan) {
+      error = 'Счёт устарел. Открой /premium и попробуй снова.';
+    } else if (
+      query.currency !== PaymentService.CURRENCY ||
+      query.total_amount !== plan.stars
+    ) {
+      error = 'Цена изменилась. Открой /premium и попробуй снова.';
+    }
+
+    await api.answerPreCheckoutQuery(
+      query.id,
+      !error,
+      error ? { error_message: error } : undefined,
+    );
+
+    if (error) {
+      this.logger.warn(
+        `⚠️ Отклонён pre_checkout от ${query.from.id}: ${query.invoice_payload}`,
+      );
+    }
+    return !error;
+  }
+
+  /**
+   * 💰 successful_payment: сохраняем платёж и продлеваем Premium.
+   * Повторная доставка того же апдейта второй раз дни не добавит.
+   */
+  async handleSuccessfulPayment(
+    api: Api,
+    chatId: number,
+    userId: number,
+    payment: SuccessfulPayment,
+  ): Promise<Payment | null> {
+    const chargeId = payment.telegram_payment_charge_id;
+
+    const existing = await this.prisma.payment.findUnique({
+      where: { chargeId },
+    });
+    if (existing) return existing;
+
+    const plan = this.parsePayload(payment.invoice_payload, userId);
+    if (!plan) {
+      // pre_checkout такое не пропускает — значит, что-то сильно не так
+      this.logger.error(
+        `❌ Оплата с неизвестным счётом: ${payment.invoice_payload} (${chargeId})`,
+      );
+      return null;
+    }
+
+    // Запись платежа и продление — вместе: иначе повторный апдейт с тем же
+    // chargeId найдёт платёж и не выдаст оплаченные дни
+    let saved: { record: Payment; user: User };
+    try {
+      saved = await this.prisma.$transaction(async (tx) => {
+        const record = await tx.payment.create({
+          data: {
+            userId: BigInt(userId),
+            plan: plan.id,
+            days: plan.days,
+            amount: payment.total_amount,
+            currency: payment.currency,
+            chargeId,
+          },
+        });
+        const user = await this.premiumService.grant(
+          BigInt(userId),
+          plan.days,
+          tx,
+        );
+        return { record, user };
+      });
+    } catch (error) {
+      // Параллельная доставка того же апдейта успела записать платёж между
+      // проверкой выше и create — дни выдала её транзакция
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return this.prisma.payment.findUniqueOrThrow({ where: { chargeId } });
+      }
+      throw error;
+    }
+    const { record, user } = saved;
+    this.logger.log(
+      `⭐ Оплата ${payment.total_amount} XTR от ${userId}: ${plan.id}`,
+    );
+
+    const until = user.premiumUntil
+      ? `до ${user.premiumUntil.toLocaleDateString('ru-RU')}`
+      : 'бессрочно';
+    await api
+      .sendMessage(
+        chatId,
+        `🎉 Спасибо за поддержку!\n\n💎 Premium активен ${until}.`,
+      )
+      .catch(() => {});
+
+    return record;
+  }
+
+  /**
+   * ↩️ ВОЗВРАТ ЗВЁЗД (админ: /refund <chargeId>)
+   * Звёзды возвращаются пользователю, купленные дни списываются.
+   */
+  async refund(api: Api, chargeId: string): Promise<Payment> {
+    const payment = await this.prisma.payment.findUnique({
+      where: { chargeId },
+    });
+    if (!payment) {
+      throw new Error('Платёж не найден');
+    }
+    if (payment.status === 'refunded') {
+      throw new Error('Платёж уже возвращён');
+    }
+
+    await api.refundStarPayment(Number(payment.userId), chargeId);
+    return this.markRefunded(payment);
+  }
+
+  /**
+   * refunded_payment: возврат прошёл мимо /refund (например, через
+   * поддержку Telegram). После /refund приходит тоже — тогда ничего не делаем.
+   */
+  async handleRefundedPayment(chargeId: string): Promise<void> {
+    const payment = await this.prisma.payment.findUnique({
+      where: { chargeId },
+    });
+    if (!payment || payment.status === 'refunded') return;
+
+    await this.markRefunded(payment);
+  }
+
+  /**
+   * 📊 Сводка для админки
+   */
+  async getSummary(): Promise<{
+    paid: number;
+    stars: number;
+    refunded: number;
+  }> {
+    const [paid, refunded] = await Promise.all([
+      this.prisma.payment.aggregate({
+        where: { status: 'paid' },
+        _count: true,
+        _sum: { amount: true },
+      }),
+      this.prisma.payment.count({ where: { status: 'refunded' } }),
+    ]);
+
+    return {
+      paid: paid._count,
+      stars: paid._sum.amount ?? 0,
+      refunded,
+    };
+  }
+
+  async getRecent(limit = 5): Promise<Payment[]> {
+    return this.prisma.payment.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  private async markRefunded(payment: Payment): Promise<Payment> {
+    // /refund (чат админа) и refunded_payment (чат пользователя) идут
+    // параллельно: дни списывает только тот, чьё условное обновление прошло
+    const { count } = await this.prisma.payment.updateMany({
+      where: { id: payment.id, status: 'paid' },
+      data: { status: 'refunded', refundedAt: new Date() },
+    });
+
+    if (count === 1) {
+      await this.premiumService.shorten(payment.userId, payment.days);
+      this.logger.log(
+        `↩️ Возврат ${payment.amount} XTR пользователю ${payment.userId} (${payment.chargeId})`,
+      );
+    }
+
+    return this.prisma.payment.findUniqueOrThrow({
+      where: { chargeId: payment.chargeId },
+    });
+  }
+
+  // payload счёта: «<тариф>:<userId>»; чужой или неизвестный — undefined
+  private parsePayload(
+    payload: string,
+    userId: number,
+  ): PaymentPlan | undefined {
+    const [planId, payerId] = payload.split(':');
+    if (payerId !== String(userId)) return undefined;
+    return this.getPlan(planId);
+  }
+}
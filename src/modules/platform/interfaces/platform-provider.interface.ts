@@ -0,0 +1,59 @@
+// src/modules/platform/interfaces/platform-provider.interface.ts
+
+/**
+ * Описание одной платформы (YouTube, Instagram, TikTok...).
+ * Чтобы добавить новую платформу — достаточно написать класс-провайдер
+ * и зарегистрировать его в PlatformModule.
+ */
+export interface PlatformProvider {
+  /** Машинное имя: 'youtube', 'instagram' (хранится в задачах очереди) */
+  readonly name: string;
+  /** Название для пользователя: 'YouTube', 'Instagram' */
+  readonly title: string;
+  /** Домены платформы (без www.), по ним матчится ссылка */
+  readonly hosts: string[];
+  /** Максимальное разрешение в выборе качества */
+  readonly maxResolution: number;
+  /** Может ли Telegram сам скачать прямую ссылку (URL-direct) */
+  readonly allowsUrlDirect: boolean;
+  /** Бывают ли посты-картинки (фото и смешанные карусели) */
+  readonly supportsImages: boolean;
+
+  /** Подходит ли ссылка этой платформе */
+  matches(url: URL): boolean;
+
+  /** Канонический ID ролика из ссылки (без запроса к yt-dlp) или null */
+  extractId(url: URL): string | null;
+
+  /** Прямое скачивание в лучшем качестве, без выбора качества */
+  isDirect(url: URL): boolean;
+
+  /** Ссылка на подборку (плейлист, канал, профиль) — пакетная загрузка */
+  isCollection?(url: URL): boolean;
+
+  /** Ссылка, которую отдаём yt-dlp для получения списка подборки */
+  collectionUrl(url: URL): string;
+
+  /** Текст отказа, если ссылку этой платформы скачать нельзя (Stories и т.п.) */
+  validate?(url: URL): string | null;
+
+  /** Понятное пользователю сообщение по тексту ошибки yt-dlp или null */
+  mapError(message: string): string | null;
+}
+
+/**
+ * Результат распознавания ссылки реестром
+ */
+export interface ResolvedPlatform {
+  provider: PlatformProvider;
+  url: URL;
+}
+
+/**
+ * Каноническая ссылка: стабильный ключ «платформа:id», не зависящий от
+ * трекинговых параметров (?si=, ?igsh=) и вариантов домена (m., youtu.be)
+ */
+export interface CanonicalLink extends ResolvedPlatform {
+  id: string;
+  key: string;
+}
@@ -0,0 +1,35 @@
+import { Module } from '@nestjs/common';
+import { PlatformRegistry, PLATFORM_PROVIDERS } from './platform.registry';
+import { PlatformProvider } from './interfaces/platform-provider.interface';
+import { YoutubeProvider } from './providers/youtube.provider';
+import { InstagramProvider } from './providers/instagram.provider';
+import { TiktokProvider } from './providers/tiktok.provider';
+import { FacebookProvider } from './providers/facebook.provider';
+import { TwitterProvider } from './providers/twitter.provider';
+import { VimeoProvider } from './providers/vimeo.provider';
+import { SoundcloudProvider } from './providers/soundcloud.provider';
+
+// Новая платформа = новый класс-провайдер + строка в этом списке
+const PROVIDERS = [
+  YoutubeProvider,
+  InstagramProvider,
+  TiktokProvider,
+  FacebookProvider,
+  TwitterProvider,
+  VimeoProvider,
+  SoundcloudProvider,
+];
+
+@Module({
+  providers: [
+    ...PROVIDERS,
+    {
+      provide: PLATFORM_PROVIDERS,
+      useFactory: (...providers: PlatformProvider[]) => providers,
+      inject: PROVIDERS,
+    },
+    PlatformRegistry,
+  ],
+  exports: [PlatformRegistry],
+})
+export class PlatformModule {}
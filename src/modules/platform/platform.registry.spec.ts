@@ -0,0 +1,84 @@
+// src/modules/platform/platform.registry.spec.ts
+
+import { Test } from '@nestjs/testing';
+import { PlatformModule } from './platform.module';
+import { PlatformRegistry } from './platform.registry';
+
+describe('PlatformRegistry', () => {
+  let registry: PlatformRegistry;
+
+  beforeEach(async () => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [PlatformModule],
+    }).compile();
+
+    registry = moduleRef.get(PlatformRegistry);
+  });
+
+  describe('canonicalize', () => {
+    it.each([
+      'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+      'https://youtube.com/watch?v=dQw4w9WgXcQ&si=tracking&t=42',
+      'https://m.youtube.com/watch?v=dQw4w9WgXcQ',
+      'https://youtu.be/dQw4w9WgXcQ?si=tracking',
+      'https://www.youtube.com/shorts/dQw4w9WgXcQ',
+      'https://www.youtube.com/embed/dQw4w9WgXcQ',
+      '  https://www.youtube.com/watch?v=dQw4w9WgXcQ  ',
+    ])('сводит варианты ссылки YouTube к одному ключу: %s', (url) => {
+      expect(registry.canonicalize(url)).toMatchObject({
+        id: 'dQw4w9WgXcQ',
+        key: 'youtube:dQw4w9WgXcQ',
+      });
+    });
+
+    it.each([
+      'https://www.instagram.com/reel/C1a2B3c4D5e/?igsh=tracking',
+      'https://instagram.com/reels/C1a2B3c4D5e/',
+      'https://www.instagram.com/p/C1a2B3c4D5e/?img_index=2',
+    ])('сводит посты и Reels Instagram к одному ключу: %s', (url) => {
+      expect(registry.canonicalize(url)?.key).toBe('instagram:C1a2B3c4D5e');
+    });
+
+    it('ключ разных платформ не совпадает при одинаковом id', () => {
+      expect(registry.canonicalize('https://vimeo.com/123456')?.key).toBe(
+        'vimeo:123456',
+      );
+      expect(
+        registry.canonicalize('https://x.com/user/status/123456')?.key,
+      ).toBe('twitter:123456');
+    });
+
+    it('возвращает провайдера и разобранную ссылку', () => {
+      const link = registry.canonicalize(
+        'https://www.tiktok.com/@user/video/7300000000000000000',
+      );
+
+      expect(link?.provider.name).toBe('tiktok');
+      expect(link?.url.hostname).toBe('www.tiktok.com');
+    });
+
+    it.each([
+      ['короткая ссылка-редирект', 'https://vm.tiktok.com/ZMabcdef/'],
+      ['профиль без id ролика', 'https://www.instagram.com/someone/'],
+      ['неподдерживаемый сайт', 'https://example.com/watch?v=dQw4w9WgXcQ'],
+      ['не http(s)', 'ftp://youtube.com/watch?v=dQw4w9WgXcQ'],
+      ['не ссылка', 'просто текст'],
+    ])('null: %s', (_, url) => {
+      expect(registry.canonicalize(url)).toBeNull();
+    });
+  });
+
+  describe('buildKey', () => {
+    it('строит ключ «платформа:id»', () => {
+      expect(registry.buildKey('youtube', 'dQw4w9WgXcQ')).toBe(
+        'youtube:dQw4w9WgXcQ',
+      );
+    });
+
+    it('совпадает с ключом canonicalize для той же записи', () => {
+      const link = registry.canonicalize('https://youtu.be/dQw4w9WgXcQ')!;
+
+      expect(registry.buildKey(link.provider.name, link.id)).toBe(link.key);
+    });
+  });
+});
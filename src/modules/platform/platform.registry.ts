@@ -0,0 +1,86 @@
+// src/modules/platform/platform.registry.ts
+
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  CanonicalLink,
+  PlatformProvider,
+  ResolvedPlatform,
+} from './interfaces/platform-provider.interface';
+
+export const PLATFORM_PROVIDERS = Symbol('PLATFORM_PROVIDERS');
+
+@Injectable()
+export class PlatformRegistry {
+  private readonly logger = new Logger(PlatformRegistry.name);
+
+  constructor(
+    @Inject(PLATFORM_PROVIDERS)
+    private readonly providers: PlatformProvider[],
+  ) {
+    this.logger.log(
+      `🧩 Платформы: ${this.providers.map((p) => p.title).join(', ')}`,
+    );
+  }
+
+  /**
+   * Определить платформу по ссылке (null — не поддерживается)
+   */
+  resolve(rawUrl: string): ResolvedPlatform | null {
+    let url: URL;
+    try {
+      url = new URL(rawUrl.trim());
+    } catch {
+      return null;
+    }
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+    const provider = this.providers.find((p) => p.matches(url));
+    return provider ? { provider, url } : null;
+  }
+
+  /**
+   * Канонический ключ «платформа:id» без запуска yt-dlp.
+   * null — платформа не поддерживается или ID из ссылки не извлечь
+   * (короткие редирект-ссылки вида vm.tiktok.com).
+   */
+  canonicalize(rawUrl: string): CanonicalLink | null {
+    const resolved = this.resolve(rawUrl);
+    if (!resolved) return null;
+
+    const id = resolved.provider.extractId(resolved.url);
+    if (!id) return null;
+
+    return { ...resolved, id, key: this.buildKey(resolved.provider.name, id) };
+  }
+
+  /**
+   * Ключ кеша «платформа:id» (тот же формат, что и у canonicalize)
+   */
+  buildKey(platform: string, id: string): string {
+    return `${platform}:${id}`;
+  }
+
+  /**
+   * Провайдер по имени (имя хранится в задачах очереди)
+   */
+  get(name: string): PlatformProvider | undefined {
+    return this.providers.find((p) => p.name === name);
+  }
+
+  /**
+   * Все ссылки поддерживаемых платформ из произвольного текста.
+   * Работает даже если ссылка вставлена в середине сообщения.
+   */
+  extractUrls(text: string): string[] {
+    const allUrls = text.match(/https?:\/\/[^\s]+/gi) || [];
+    return allUrls.filter((url) => this.resolve(url) !== null);
+  }
+
+  /**
+   * Названия платформ для сообщений пользователю
+   */
+  titles(): string[] {
+    return this.providers.map((p) => p.title);
+  }
+}
@@ -0,0 +1,61 @@
+import { PlatformProvider } from '../interfaces/platform-provider.interface';
+
+/**
+ * Базовый провайдер: матчинг по домену и общий разбор ошибок yt-dlp.
+ * Конкретные платформы переопределяют только то, что у них отличается.
+ */
+export abstract class BasePlatformProvider implements PlatformProvider {
+  abstract readonly name: string;
+  abstract readonly title: string;
+  abstract readonly hosts: string[];
+  readonly maxResolution: number = 4320;
+  readonly allowsUrlDirect: boolean = false;
+  readonly supportsImages: boolean = false;
+  /**
+   * Разделы ссылок (первый сегмент пути), которые качаются сразу в лучшем
+   * качестве, без выбора: ['shorts'], ['reel']. '*' — любая ссылка платформы.
+   */
+  protected readonly directPaths: string[] = [];
+
+  matches(url: URL): boolean {
+    const host = url.hostname.toLowerCase().replace(/^(www\.|m\.)/, '');
+    return this.hosts.some((h) => host === h || host.endsWith(`.${h}`));
+  }
+
+  abstract extractId(url: URL): string | null;
+
+  isDirect(url: URL): boolean {
+    const section = url.pathname.split('/').filter(Boolean)[0];
+    return this.directPaths.some((path) => path === '*' || path === section);
+  }
+
+  collectionUrl(url: URL): string {
+    return url.toString();
+  }
+
+  mapError(message: string): string | null {
+    if (message.includes('You need to log in')) {
+      return '🔒 Это приватный контент (Stories или закрытый аккаунт).\nБот не может его скачать.';
+    }
+    if (message.includes('Video unavailable')) {
+      return '❌ Видео недоступно или удалено.';
+    }
+    if (message.includes('Private video')) {
+      return '🔒 Видео приватное, доступ закрыт.';
+    }
+    if (message.includes('age')) {
+      return '🔞 Видео ограничено по возрасту, бот не может его скачать.';
+    }
+    return null;
+  }
+
+  /**
+   * Первый непустой сегмент пути после указанного префикса
+   * (например, '/reel/ABC/' + 'reel' → 'ABC')
+   */
+  protected segmentAfter(url: URL, prefix: string): string | null {
+    const parts = url.pathname.split('/').filter(Boolean);
+    const idx = parts.indexOf(prefix);
+    return idx >= 0 && parts[idx + 1] ? parts[idx + 1] : null;
+  }
+}
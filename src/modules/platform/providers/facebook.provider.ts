@@ -0,0 +1,27 @@
+import { Injectable } from '@nestjs/common';
+import { BasePlatformProvider } from './base.provider';
+
+@Injectable()
+export class FacebookProvider extends BasePlatformProvider {
+  readonly name = 'facebook';
+  readonly title = 'Facebook';
+  readonly hosts = ['facebook.com', 'fb.watch'];
+  readonly maxResolution = 1080;
+  // Reels — короткие вертикальные ролики, качаем их сразу
+  protected readonly directPaths = ['reel'];
+
+  extractId(url: URL): string | null {
+    return (
+      url.searchParams.get('v') ||
+      this.segmentAfter(url, 'reel') ||
+      this.segmentAfter(url, 'videos')
+    );
+  }
+
+  mapError(message: string): string | null {
+    if (message.includes('Cannot parse data')) {
+      return '🔒 Видео недоступно: закрытая группа или профиль.';
+    }
+    return super.mapError(message);
+  }
+}
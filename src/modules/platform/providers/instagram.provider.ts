@@ -0,0 +1,56 @@
+import { Injectable } from '@nestjs/common';
+import { BasePlatformProvider } from './base.provider';
+
+@Injectable()
+export class InstagramProvider extends BasePlatformProvider {
+  readonly name = 'instagram';
+  readonly title = 'Instagram';
+  readonly hosts = ['instagram.com'];
+  readonly maxResolution = 1080;
+  // Instagram отдаёт прогрессивный H.264-файл, который Telegram забирает сам
+  readonly allowsUrlDirect = true;
+  // Посты /p/ — это фото и карусели из фото и видео вперемешку
+  readonly supportsImages = true;
+  protected readonly directPaths = ['*'];
+
+  private static readonly POST_PREFIXES = ['p', 'reel', 'reels', 'tv'];
+  // Служебные разделы сайта, которые не являются профилями
+  private static readonly RESERVED_PATHS = [
+    'explore',
+    'accounts',
+    'direct',
+    'stories',
+  ];
+
+  extractId(url: URL): string | null {
+    for (const prefix of InstagramProvider.POST_PREFIXES) {
+      const id = this.segmentAfter(url, prefix);
+      if (id) return id;
+    }
+    return null;
+  }
+
+  /**
+   * Сетка профиля: instagram.com/username/
+   */
+  isCollection(url: URL): boolean {
+    const parts = url.pathname.split('/').filter(Boolean);
+    return (
+      parts.length === 1 && !InstagramProvider.RESERVED_PATHS.includes(parts[0])
+    );
+  }
+
+  validate(url: URL): string | null {
+    if (url.pathname.includes('/stories/')) {
+      return '🚫 Instagram Stories скачать нельзя.\n\nПопробуй Reels.';
+    }
+
+    // Бот качает посты (фото, видео, карусели), Reels и профили целиком —
+    // прочие страницы отклоняем
+    if (!this.extractId(url) && !this.isCollection(url)) {
+      return '📷 Я качаю посты, Reels и профили целиком.\n\nПришли ссылку на пост или профиль.';
+    }
+
+    return null;
+  }
+}
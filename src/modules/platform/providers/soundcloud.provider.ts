@@ -0,0 +1,18 @@
+import { Injectable } from '@nestjs/common';
+import { BasePlatformProvider } from './base.provider';
+
+@Injectable()
+export class SoundcloudProvider extends BasePlatformProvider {
+  readonly name = 'soundcloud';
+  readonly title = 'SoundCloud';
+  readonly hosts = ['soundcloud.com'];
+
+  /**
+   * У треков нет числового ID в ссылке — ключом служит «автор/трек»
+   */
+  extractId(url: URL): string | null {
+    if (url.hostname.startsWith('on.')) return null; // короткая ссылка
+    const parts = url.pathname.split('/').filter(Boolean);
+    return parts.length >= 2 ? `${parts[0]}/${parts[1]}` : null;
+  }
+}
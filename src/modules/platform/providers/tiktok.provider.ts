@@ -0,0 +1,18 @@
+import { Injectable } from '@nestjs/common';
+import { BasePlatformProvider } from './base.provider';
+
+@Injectable()
+export class TiktokProvider extends BasePlatformProvider {
+  readonly name = 'tiktok';
+  readonly title = 'TikTok';
+  readonly hosts = ['tiktok.com'];
+  readonly maxResolution = 1080;
+  protected readonly directPaths = ['*'];
+
+  /**
+   * vm.tiktok.com/XXXX — короткая ссылка-редирект, ID из неё не достать
+   */
+  extractId(url: URL): string | null {
+    return this.segmentAfter(url, 'video');
+  }
+}
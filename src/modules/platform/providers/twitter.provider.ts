@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+import { BasePlatformProvider } from './base.provider';
+
+@Injectable()
+export class TwitterProvider extends BasePlatformProvider {
+  readonly name = 'twitter';
+  readonly title = 'X (Twitter)';
+  readonly hosts = ['x.com', 'twitter.com'];
+  readonly maxResolution = 1080;
+  protected readonly directPaths = ['*'];
+
+  extractId(url: URL): string | null {
+    return this.segmentAfter(url, 'status');
+  }
+
+  validate(url: URL): string | null {
+    if (!this.extractId(url)) {
+      return '🐦 Отправь ссылку на конкретный пост с видео.';
+    }
+    return null;
+  }
+
+  mapError(message: string): string | null {
+    if (message.includes('No video could be found')) {
+      return '🐦 В этом посте нет видео.';
+    }
+    return super.mapError(message);
+  }
+}
@@ -0,0 +1,20 @@
+import { Injectable } from '@nestjs/common';
+import { BasePlatformProvider } from './base.provider';
+
+@Injectable()
+export class VimeoProvider extends BasePlatformProvider {
+  readonly name = 'vimeo';
+  readonly title = 'Vimeo';
+  readonly hosts = ['vimeo.com'];
+
+  /**
+   * vimeo.com/123456 или player.vimeo.com/video/123456
+   */
+  extractId(url: URL): string | null {
+    const id = url.pathname
+      .split('/')
+      .filter(Boolean)
+      .find((part) => /^\d+$/.test(part));
+    return id || null;
+  }
+}
@@ -0,0 +1,53 @@
+import { Injectable } from '@nestjs/common';
+import { BasePlatformProvider } from './base.provider';
+
+@Injectable()
+export class YoutubeProvider extends BasePlatformProvider {
+  readonly name = 'youtube';
+  readonly title = 'YouTube';
+  readonly hosts = ['youtube.com', 'youtu.be'];
+  readonly maxResolution = 1080;
+  // Shorts качаем сразу в лучшем качестве — выбор качества для них не нужен
+  protected readonly directPaths = ['shorts'];
+
+  // /@handle, /channel/ID, /c/name, /user/name (+ необязательная вкладка)
+  private static readonly CHANNEL_PATH =
+    /^\/(@[^/]+|channel\/[^/]+|c\/[^/]+|user\/[^/]+)(\/(videos|shorts|streams))?\/?$/;
+
+  extractId(url: URL): string | null {
+    if (url.hostname.endsWith('youtu.be')) {
+      return url.pathname.split('/').filter(Boolean)[0] || null;
+    }
+
+    const v = url.searchParams.get('v');
+    if (v) return v;
+
+    return (
+      this.segmentAfter(url, 'shorts') ||
+      this.segmentAfter(url, 'embed') ||
+      this.segmentAfter(url, 'live')
+    );
+  }
+
+  /**
+   * Плейлист (/playlist?list=...) или страница канала.
+   * watch?v=X&list=Y остаётся одиночным видео — пользователь делится роликом.
+   */
+  isCollection(url: URL): boolean {
+    if (url.pathname === '/playlist' && url.searchParams.has('list')) {
+      return true;
+    }
+    return YoutubeProvider.CHANNEL_PATH.test(url.pathname);
+  }
+
+  /**
+   * Корень канала yt-dlp отдаёт списком вкладок — сразу берём «Видео»
+   */
+  collectionUrl(url: URL): string {
+    const match = url.pathname.match(YoutubeProvider.CHANNEL_PATH);
+    if (match && !match[2]) {
+      return `https://www.youtube.com/${match[1]}/videos`;
+    }
+    return url.toString();
+  }
+}
@@ -0,0 +1,12 @@
+// premium/interfaces/premium.interface.ts
+
+export type UserTier = 'free' | 'premium';
+
+// Что даёт тариф
+export interface TierPerks {
+  priority: number; // Приоритет в download-queue (меньше — раньше)
+  maxResolution: number; // Потолок качества поверх лимита платформы
+  maxFileBytes: number; // Максимальный размер скачиваемого файла
+  maxPlaylistItems: number; // Сколько элементов подборки показать для выбора
+  showAds: boolean;
+}
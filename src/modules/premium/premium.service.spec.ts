@@ -0,0 +1,59 @@
+// src/modules/premium/premium.service.spec.ts
+
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { validationSchema } from '../../config/validation.schema';
+import { PrismaService } from '../../database/prisma.service';
+import { PremiumService } from './premium.service';
+
+const MB = 1024 * 1024;
+const USER_ID = 1001n;
+
+// Значения env по умолчанию — как их соберёт ConfigModule
+const { value: ENV } = validationSchema.validate({
+  BOT_TOKEN: 'token',
+  YOUR_USERNAME: '@bot',
+  API_ID: 1,
+  API_HASH: 'hash',
+  CHANNEL_ID: '-100',
+  DATABASE_URL: 'postgresql://localhost/test',
+}) as { value: Record<string, number> };
+
+describe('PremiumService', () => {
+  let service: PremiumService;
+
+  const findUnique = jest.fn();
+
+  beforeEach(async () => {
+    findUnique.mockResolvedValue({ tier: 'free', premiumUntil: null });
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        PremiumService,
+        { provide: PrismaService, useValue: { user: { findUnique } } },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => ENV[key] },
+        },
+      ],
+    }).compile();
+
+    service = moduleRef.get(PremiumService);
+  });
+
+  describe('лимит размера файла', () => {
+    it('Free: файл чуть больше лимита отправки тариф пропускает — уйдёт частями', async () => {
+      const size = ENV.MAX_UPLOAD_SIZE_MB * MB + 1;
+
+      const { maxFileBytes } = await service.getPerks(USER_ID);
+
+      expect(size).toBeLessThanOrEqual(maxFileBytes);
+    });
+
+    it('Premium пропускает файлы больше, чем Free', () => {
+      expect(service.perksFor('premium').maxFileBytes).toBeGreaterThan(
+        service.perksFor('free').maxFileBytes,
+      );
+    });
+  });
+});
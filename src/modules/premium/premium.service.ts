@@ -0,0 +1,172 @@
+// src/modules/premium/premium.service.ts
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, User } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { TierPerks, UserTier } from './interfaces/premium.interface';
+
+@Injectable()
+export class PremiumService {
+  private readonly logger = new Logger(PremiumService.name);
+  private readonly perks: Record<UserTier, TierPerks>;
+
+  private static readonly MB = 1024 * 1024;
+
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+  ) {
+    this.perks = {
+      free: {
+        priority: 10,
+        maxResolution: 0, // Только лимит платформы
+        // Выше MAX_UPLOAD_SIZE_MB: большие файлы и на Free уходят частями
+        maxFileBytes:
+          (this.config.get<number>('FREE_MAX_FILE_SIZE_MB') || 4000) *
+          PremiumService.MB,
+        maxPlaylistItems: this.config.get<number>('PLAYLIST_MAX_ITEMS') || 50,
+        showAds: true,
+      },
+      premium: {
+        priority: 1,
+        maxResolution:
+          this.config.get<number>('PREMIUM_MAX_RESOLUTION') || 2160,
+        maxFileBytes:
+          (this.config.get<number>('PREMIUM_MAX_FILE_SIZE_MB') || 8000) *
+          PremiumService.MB,
+        maxPlaylistItems:
+          this.config.get<number>('PREMIUM_PLAYLIST_MAX_ITEMS') || 200,
+        showAds: false,
+      },
+    };
+  }
+
+  /**
+   * Тариф пользователя с учётом срока действия
+   */
+  async getTier(userId: bigint): Promise<UserTier> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { tier: true, premiumUntil: true },
+    });
+
+    return user && this.isActive(user) ? 'premium' : 'free';
+  }
+
+  async isPremium(userId: bigint): Promise<boolean> {
+    return (await this.getTier(userId)) === 'premium';
+  }
+
+  async getPerks(userId: bigint): Promise<TierPerks> {
+    return this.perks[await this.getTier(userId)];
+  }
+
+  perksFor(tier: UserTier): TierPerks {
+    return this.perks[tier];
+  }
+
+  /**
+   * Потолок качества: лимит платформы, для Premium — выше (например, 4K
+   * на YouTube вместо 1080p)
+   */
+  maxResolution(perks: TierPerks, platformMax: number): number {
+    return Math.max(platformMax, perks.maxResolution);
+  }
+
+  /**
+   * 💎 ВЫДАТЬ PREMIUM
+   * Срок продлевается от текущей даты окончания (если подписка ещё идёт).
+   * days = null — бессрочно.
+   * db — клиент транзакции, если выдача идёт вместе с другими записями.
+   */
+  async grant(
+    userId: bigint,
+    days: number | null,
+    db: Prisma.TransactionClient = this.prisma,
+  ): Promise<User> {
+    const user = await db.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new Error('Пользователь не найден');
+    }
+
+    let premiumUntil: Date | null = null;
+    if (days !== null) {
+      const from =
+        this.isActive(user) && user.premiumUntil
+          ? user.premiumUntil
+          : new Date();
+      premiumUntil = new Date(from.getTime() + days * 24 * 60 * 60 * 1000);
+    }
+
+    this.logger.log(
+      `💎 Premium для ${userId}: ${premiumUntil ? `до ${premiumUntil.toISOString()}` : 'бессрочно'}`,
+    );
+
+    return db.user.update({
+      where: { id: userId },
+      data: { tier: 'premium', premiumUntil },
+    });
+  }
+
+  async revoke(userId: bigint): Promise<User> {
+    this.logger.log(`💎 Premium отозван у ${userId}`);
+
+    return this.prisma.user.update({
+      where: { id: userId },
+      data: { tier: 'free', premiumUntil: null },
+    });
+  }
+
+  /**
+   * ↩️ Отнять дни (возврат платежа). Если срок закончился — снова Free.
+   * Бессрочный Premium (выдан админом) не трогаем.
+   */
+  async shorten(userId: bigint, days: number): Promise<void> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user || !this.isActive(user) || !user.premiumUntil) return;
+
+    const premiumUntil = new Date(
+      user.premiumUntil.getTime() - days * 24 * 60 * 60 * 1000,
+    );
+
+    if (premiumUntil <= new Date()) {
+      await this.revoke(userId);
+      return;
+    }
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { premiumUntil },
+    });
+    this.logger.log(`💎 Premium ${userId} сокращён на ${days} дн.`);
+  }
+
+  /**
+   * Активные Premium-пользователи (для админки)
+   */
+  async getActive(limit = 20): Promise<User[]> {
+    return this.prisma.user.findMany({
+      where: {
+        tier: 'premium',
+        OR: [{ premiumUntil: null }, { premiumUntil: { gt: new Date() } }],
+      },
+      orderBy: { premiumUntil: 'asc' },
+      take: limit,
+    });
+  }
+
+  async countActive(): Promise<number> {
+    return this.prisma.user.count({
+      where: {
+        tier: 'premium',
+        OR: [{ premiumUntil: null }, { premiumUntil: { gt: new Date() } }],
+      },
+    });
+  }
+
+  private isActive(user: Pick<User, 'tier' | 'premiumUntil'>): boolean {
+    if (user.tier !== 'premium') return false;
+    return !user.premiumUntil || user.premiumUntil > new Date();
+  }
+}
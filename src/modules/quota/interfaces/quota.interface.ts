@@ -0,0 +1,36 @@
+// quota/interfaces/quota.interface.ts
+
+// Действие, которое расходует лимит
+export type QuotaAction = 'analysis' | 'download';
+
+// Кто расходует: пользователь и чат (в группе лимит общий на всю группу)
+export interface QuotaSubject {
+  userId: number | bigint;
+  chatId: number;
+}
+
+// Лимиты, редактируемые из админ-панели (0 — без ограничения)
+export interface QuotaLimits {
+  userAnalyses: number; // Ссылок на анализ в сутки
+  userDownloads: number; // Загрузок в сутки
+  userTrafficMb: number; // Трафика в сутки, MB
+  groupAnalyses: number;
+  groupDownloads: number;
+  groupTrafficMb: number;
+  burstLimit: number; // Запросов за окно burstWindowSec
+  burstWindowSec: number;
+  premiumMultiplier: number; // Во сколько раз выше личные лимиты у Premium
+}
+
+export type QuotaLimitKey = keyof QuotaLimits;
+
+export type QuotaVerdict =
+  | { allowed: true }
+  | {
+      allowed: false;
+      reason: 'burst' | 'daily' | 'traffic';
+      action: QuotaAction;
+      scope: 'user' | 'group';
+      limit: number;
+      resetsInMs: number;
+    };
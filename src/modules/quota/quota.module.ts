@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { QuotaService } from './quota.service';
+import { UserModule } from '../user/user.module';
+import { PremiumModule } from '../premium/premium.module';
+
+@Module({
+  imports: [UserModule, PremiumModule],
+  providers: [QuotaService],
+  exports: [QuotaService],
+})
+export class QuotaModule {}
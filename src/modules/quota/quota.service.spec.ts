@@ -0,0 +1,243 @@
+// src/modules/quota/quota.service.spec.ts
+
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { RedisService } from '../../database/redis.service';
+import { RedisStub } from '../../test/redis.stub';
+import { PremiumService } from '../premium/premium.service';
+import { UserService } from '../user/user.service';
+import { QuotaService } from './quota.service';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const USER_ID = 1001;
+const GROUP_ID = -2002;
+
+const LIMITS: Record<string, number> = {
+  QUOTA_USER_ANALYSES: 3,
+  QUOTA_USER_DOWNLOADS: 2,
+  QUOTA_USER_TRAFFIC_MB: 10,
+  QUOTA_GROUP_ANALYSES: 5,
+  QUOTA_GROUP_DOWNLOADS: 3,
+  QUOTA_GROUP_TRAFFIC_MB: 20,
+  QUOTA_BURST_LIMIT: 0,
+  QUOTA_BURST_WINDOW_SEC: 60,
+  QUOTA_PREMIUM_MULTIPLIER: 2,
+};
+
+// Окно «подряд» как в QuotaService.BURST_SCRIPT: время запросов по ключу
+function emulateBurst(redis: RedisStub) {
+  const windows = new Map<string, number[]>();
+
+  redis.script(QuotaService['BURST_SCRIPT'], ([key], args) => {
+    const [now, windowMs, limit] = args.map(Number);
+    const hits = (windows.get(key) ?? []).filter((t) => t > now - windowMs);
+
+    if (hits.length >= limit) {
+      windows.set(key, hits);
+      return Math.min(...hits);
+    }
+    windows.set(key, [...hits, now]);
+    return -1;
+  });
+}
+
+// Возврат как в QuotaService.REFUND_SCRIPT: не ниже нуля
+function emulateRefund(redis: RedisStub) {
+  redis.script(QuotaService['REFUND_SCRIPT'], (keys, [amount]) => {
+    for (const key of keys) {
+      const used = Number(redis.values.get(key) ?? 0);
+      redis.values.set(key, String(Math.max(0, used - Number(amount))));
+    }
+    return 1;
+  });
+}
+
+describe('QuotaService', () => {
+  let service: QuotaService;
+  let redis: RedisStub;
+
+  const isAdmin = jest.fn();
+  const isPremium = jest.fn();
+
+  const user = { userId: USER_ID, chatId: USER_ID };
+  const inGroup = { userId: USER_ID, chatId: GROUP_ID };
+
+  const counter = (scope: string, id: number, metric: string) =>
+    Number(redis.values.get(`quota:${scope}:${id}:${metric}:2026-10-19`) ?? 0);
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: NOW });
+    isAdmin.mockResolvedValue(false);
+    isPremium.mockResolvedValue(false);
+
+    redis = new RedisStub();
+    emulateBurst(redis);
+    emulateRefund(redis);
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        QuotaService,
+        { provide: RedisService, useValue: redis },
+        { provide: UserService, useValue: { isAdmin } },
+        { provide: PremiumService, useValue: { isPremium } },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => LIMITS[key] },
+        },
+      ],
+    }).compile();
+
+    service = moduleRef.get(QuotaService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('суточные лимиты', () => {
+    it('пропускает действия до лимита и отказывает после', async () => {
+      await expect(service.consume(user, 'download')).resolves.toEqual({
+        allowed: true,
+      });
+      await service.consume(user, 'download');
+
+      await expect(service.consume(user, 'download')).resolves.toMatchObject({
+        allowed: false,
+        reason: 'daily',
+        action: 'download',
+        scope: 'user',
+        limit: 2,
+      });
+    });
+
+    it('отказ откатывает списание', async () => {
+      await service.consume(user, 'download');
+      await service.consume(user, 'download', 5);
+
+      expect(counter('user', USER_ID, 'download')).toBe(1);
+    });
+
+    it('в группе списывает и с пользователя, и с группы', async () => {
+      await service.consume(inGroup, 'analysis');
+
+      expect(counter('user', USER_ID, 'analysis')).toBe(1);
+      expect(counter('group', GROUP_ID, 'analysis')).toBe(1);
+    });
+
+    it('исчерпанный лимит группы откатывает и счётчик пользователя', async () => {
+      // Лимит из админки: личный 4, у группы — 3
+      redis.hashes.set('quota:limits', { userDownloads: '4' });
+      await service.consume(inGroup, 'download', 3);
+
+      await expect(service.consume(inGroup, 'download')).resolves.toMatchObject(
+        { allowed: false, scope: 'group', limit: 3 },
+      );
+      expect(counter('user', USER_ID, 'download')).toBe(3);
+    });
+
+    it('у Premium личные лимиты выше в premiumMultiplier раз', async () => {
+      isPremium.mockResolvedValue(true);
+
+      await service.consume(user, 'download', 4);
+
+      await expect(service.consume(user, 'download')).resolves.toMatchObject({
+        allowed: false,
+        limit: 4,
+      });
+    });
+
+    it('админов не ограничивает и ничего не списывает', async () => {
+      isAdmin.mockResolvedValue(true);
+
+      await expect(service.consume(user, 'download', 10)).resolves.toEqual({
+        allowed: true,
+      });
+      expect(counter('user', USER_ID, 'download')).toBe(0);
+    });
+
+    it('после лимита трафика загрузки запрещены', async () => {
+      await service.addTraffic(user, 10 * 1024 * 1024);
+
+      await expect(service.consume(user, 'download')).resolves.toMatchObject({
+        allowed: false,
+        reason: 'traffic',
+        limit: 10,
+      });
+      await expect(service.consume(user, 'analysis')).resolves.toEqual({
+        allowed: true,
+      });
+    });
+  });
+
+  describe('окно «подряд»', () => {
+    beforeEach(() => {
+      redis.hashes.set('quota:limits', { burstLimit: '2' });
+    });
+
+    it('отказывает сверх burstLimit и называет время до сброса', async () => {
+      await service.consume(user, 'analysis');
+      jest.advanceTimersByTime(10_000);
+      await service.consume(user, 'analysis');
+
+      await expect(service.consume(user, 'analysis')).resolves.toMatchObject({
+        allowed: false,
+        reason: 'burst',
+        limit: 2,
+        resetsInMs: 50_000,
+      });
+      // Отказ по окну суточный счётчик не трогает
+      expect(counter('user', USER_ID, 'analysis')).toBe(2);
+    });
+
+    it('пропускает снова, когда старые запросы вышли из окна', async () => {
+      await service.consume(user, 'analysis');
+      await service.consume(user, 'analysis');
+      jest.advanceTimersByTime(60_000);
+
+      await expect(service.consume(user, 'analysis')).resolves.toEqual({
+        allowed: true,
+      });
+    });
+
+    it('burst: false не занимает место в окне', async () => {
+      await service.consume(user, 'analysis');
+      await service.consume(user, 'download', 1, { burst: false });
+
+      await expect(service.consume(user, 'analysis')).resolves.toEqual({
+        allowed: true,
+      });
+    });
+  });
+
+  describe('refund', () => {
+    it('возвращает загрузку в суточный лимит', async () => {
+      await service.consume(user, 'download', 2);
+      await service.refund(user, 'download');
+
+      await expect(service.consume(user, 'download')).resolves.toEqual({
+        allowed: true,
+      });
+      expect(counter('user', USER_ID, 'download')).toBe(2);
+    });
+
+    it('в группе возвращает и пользователю, и группе', async () => {
+      await service.consume(inGroup, 'download', 2);
+      await service.refund(inGroup, 'download', 2);
+
+      expect(counter('user', USER_ID, 'download')).toBe(0);
+      expect(counter('group', GROUP_ID, 'download')).toBe(0);
+    });
+
+    it('не уводит счётчик ниже нуля', async () => {
+      await service.consume(user, 'download');
+      await service.refund(user, 'download', 3);
+
+      expect(counter('user', USER_ID, 'download')).toBe(0);
+      await service.consume(user, 'download', 2);
+      await expect(service.consume(user, 'download')).resolves.toMatchObject({
+        allowed: false,
+        limit: 2,
+      });
+    });
+  });
+});
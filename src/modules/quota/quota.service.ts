@@ -0,0 +1,358 @@
+// src/modules/quota/quota.service.ts
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { RedisService } from '../../database/redis.service';
+import { UserService } from '../user/user.service';
+import { PremiumService } from '../premium/premium.service';
+import { formatTimeLeft } from '../../common/utils/format.utils';
+import { formatFileSize } from '../../common/utils/file.utils';
+import {
+  QuotaAction,
+  QuotaLimitKey,
+  QuotaLimits,
+  QuotaSubject,
+  QuotaVerdict,
+} from './interfaces/quota.interface';
+
+type QuotaScope = { scope: 'user' | 'group'; id: string };
+
+@Injectable()
+export class QuotaService {
+  private readonly logger = new Logger(QuotaService.name);
+  private readonly defaults: QuotaLimits;
+
+  private static readonly LIMITS_KEY = 'quota:limits';
+  // Окно «подряд» одним вызовом: очистить старое, проверить и записать
+  // запрос. Возвращает -1, если запрос пропущен, иначе время самого
+  // старого запроса в окне (от него считается, когда станет можно)
+  private static readonly BURST_SCRIPT = `
+    redis.call('ZREMRANGEBYSCORE', KEYS[1], 0, tonumber(ARGV[1]) - tonumber(ARGV[2]))
+    if redis.call('ZCARD', KEYS[1]) >= tonumber(ARGV[3]) then
+      return tonumber(redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')[2])
+    end
+    redis.call('ZADD', KEYS[1], ARGV[1], ARGV[4])
+    redis.call('PEXPIRE', KEYS[1], ARGV[2])
+    return -1
+  `;
+  // Вернуть списанное: уменьшить счётчики на ARGV[1], но не ниже нуля
+  private static readonly REFUND_SCRIPT = `
+    for _, key in ipairs(KEYS) do
+      local used = tonumber(redis.call('GET', key) or '0')
+      local amount = math.min(used, tonumber(ARGV[1]))
+      if amount > 0 then
+        redis.call('DECRBY', key, amount)
+      end
+    end
+    return 1
+  `;
+  private static readonly MB = 1024 * 1024;
+
+  // Подписи лимитов для админ-панели (порядок = порядок кнопок)
+  static readonly LIMIT_TITLES: Record<QuotaLimitKey, string> = {
+    userAnalyses: '👤 Ссылок в сутки',
+    userDownloads: '👤 Загрузок в сутки',
+    userTrafficMb: '👤 Трафик в сутки, MB',
+    groupAnalyses: '👥 Ссылок в сутки (группа)',
+    groupDownloads: '👥 Загрузок в сутки (группа)',
+    groupTrafficMb: '👥 Трафик в сутки, MB (группа)',
+    burstLimit: '🐢 Запросов подряд',
+    burstWindowSec: '⏱ Окно «подряд», сек',
+    premiumMultiplier: '💎 Множитель для Premium',
+  };
+
+  constructor(
+    private redis: RedisService,
+    private userService: UserService,
+    private premiumService: PremiumService,
+    private config: ConfigService,
+  ) {
+    const get = (key: string) => this.config.get<number>(key) ?? 0;
+
+    this.defaults = {
+      userAnalyses: get('QUOTA_USER_ANALYSES'),
+      userDownloads: get('QUOTA_USER_DOWNLOADS'),
+      userTrafficMb: get('QUOTA_USER_TRAFFIC_MB'),
+      groupAnalyses: get('QUOTA_GROUP_ANALYSES'),
+      groupDownloads: get('QUOTA_GROUP_DOWNLOADS'),
+      groupTrafficMb: get('QUOTA_GROUP_TRAFFIC_MB'),
+      burstLimit: get('QUOTA_BURST_LIMIT'),
+      burstWindowSec: get('QUOTA_BURST_WINDOW_SEC'),
+      premiumMultiplier: get('QUOTA_PREMIUM_MULTIPLIER'),
+    };
+  }
+
+  /**
+   * Текущие лимиты: значения из админки поверх значений из env
+   */
+  async getLimits(): Promise<QuotaLimits> {
+    const stored = await this.redis.hgetall(QuotaService.LIMITS_KEY);
+    const limits = { ...this.defaults };
+
+    for (const key of Object.keys(limits) as QuotaLimitKey[]) {
+      const value = parseInt(stored[key], 10);
+      if (!isNaN(value)) limits[key] = value;
+    }
+
+    return limits;
+  }
+
+  async setLimit(key: QuotaLimitKey, value: number): Promise<void> {
+    await this.redis.hset(QuotaService.LIMITS_KEY, key, value);
+    this.logger.log(`🚦 Лимит ${key} = ${value}`);
+  }
+
+  /**
+   * 🚦 СПИСАТЬ ДЕЙСТВИЕ ИЗ ЛИМИТОВ
+   * Проверяет окно «подряд», суточный счётчик действия (и трафик — для
+   * загрузок) у пользователя и группы. Если хоть один лимит исчерпан —
+   * ничего не списывает и возвращает причину. Админы без ограничений.
+   * burst: false — запрос уже прошёл окно «подряд» (прямая ссылка
+   * списывает и анализ, и загрузку, но запрос это один).
+   */
+  async consume(
+    subject: QuotaSubject,
+    action: QuotaAction,
+    amount = 1,
+    { burst = true }: { burst?: boolean } = {},
+  ): Promise<QuotaVerdict> {
+    if (await this.userService.isAdmin(BigInt(subject.userId))) {
+      return { allowed: true };
+    }
+
+    const limits = await this.limitsFor(subject);
+    const scopes = this.scopes(subject);
+
+    if (burst) {
+      const verdict = await this.checkBurst(subject, action, limits);
+      if (!verdict.allowed) return verdict;
+    }
+
+    if (action === 'download') {
+      for (const { scope, id } of scopes) {
+        const limitMb =
+          scope === 'user' ? limits.userTrafficMb : limits.groupTrafficMb;
+        if (!limitMb) continue;
+
+        const used = parseInt(
+          (await this.redis.get(this.dayKey(scope, id, 'traffic'))) ?? '0',
+          10,
+        );
+        if (used >= limitMb * QuotaService.MB) {
+          return this.deny('traffic', action, scope, limitMb);
+        }
+      }
+    }
+
+    // Сначала увеличиваем все счётчики, потом проверяем: так два запроса
+    // одновременно не проскочат лимит. Превысили — откатываем.
+    const ttlMs = this.msUntilReset() + 60_000;
+    const counters = scopes.map(({ scope, id }) => ({
+      scope,
+      key: this.dayKey(scope, id, action),
+      limit: this.dailyLimit(limits, scope, action),
+    }));
+
+    const multi = this.redis.multi();
+    for (const { key } of counters) {
+      multi.incrby(key, amount).pexpire(key, ttlMs);
+    }
+    const results = (await multi.exec()) ?? [];
+
+    const exceeded = counters.find(
+      ({ limit }, idx) =>
+        limit > 0 && Number(results[idx * 2]?.[1] ?? 0) > limit,
+    );
+
+    if (exceeded) {
+      const rollback = this.redis.multi();
+      for (const { key } of counters) rollback.decrby(key, amount);
+      await rollback.exec();
+
+      return this.deny('daily', action, exceeded.scope, exceeded.limit);
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * ↩️ ВЕРНУТЬ ДЕЙСТВИЕ В ЛИМИТЫ
+   * Загрузка была списана при постановке в очередь, но до пользователя
+   * не дошла (отмена, файл больше лимита тарифа, все попытки упали).
+   */
+  async refund(
+    subject: QuotaSubject,
+    action: QuotaAction,
+    amount = 1,
+  ): Promise<void> {
+    const keys = this.scopes(subject).map(({ scope, id }) =>
+      this.dayKey(scope, id, action),
+    );
+
+    await this.redis
+      .eval(QuotaService.REFUND_SCRIPT, keys.length, ...keys, amount)
+      .catch((error: Error) => {
+        this.logger.warn(`⚠️ Не удалось вернуть лимит: ${error.message}`);
+      });
+  }
+
+  /**
+   * 📦 Учесть скачанный трафик (после успешной загрузки)
+   */
+  async addTraffic(subject: QuotaSubject, bytes: number): Promise<void> {
+    if (!bytes) return;
+
+    const ttlMs = this.msUntilReset() + 60_000;
+    const multi = this.redis.multi();
+
+    for (const { scope, id } of this.scopes(subject)) {
+      const key = this.dayKey(scope, id, 'traffic');
+      multi.incrby(key, bytes).pexpire(key, ttlMs);
+    }
+
+    await multi.exec().catch((error: Error) => {
+      this.logger.warn(`⚠️ Не удалось учесть трафик: ${error.message}`);
+    });
+  }
+
+  /**
+   * Понятный ответ пользователю: что исчерпано и когда сбросится
+   */
+  formatDenial(verdict: QuotaVerdict): string {
+    if (verdict.allowed) return '';
+
+    const resetsIn = formatTimeLeft(verdict.resetsInMs);
+    const whose = verdict.scope === 'group' ? ' для этой группы' : '';
+
+    if (verdict.reason === 'burst') {
+      return `🐢 Слишком много запросов подряд.\n\nПопробуй снова через ${resetsIn}.`;
+    }
+
+    if (verdict.reason === 'traffic') {
+      return (
+        `📦 Лимит трафика${whose} на сегодня исчерпан ` +
+        `(${formatFileSize(verdict.limit * QuotaService.MB)}).\n\n` +
+        `Сбросится через ${resetsIn}.`
+      );
+    }
+
+    const what = verdict.action === 'analysis' ? 'ссылок' : 'загрузок';
+    return (
+      `⏳ Лимит ${what}${whose} на сегодня исчерпан (${verdict.limit}).\n\n` +
+      `Сбросится через ${resetsIn}.`
+    );
+  }
+
+  // 💎 У Premium личные суточные лимиты выше в premiumMultiplier раз
+  private async limitsFor(subject: QuotaSubject): Promise<QuotaLimits> {
+    const limits = await this.getLimits();
+    const multiplier = limits.premiumMultiplier;
+
+    if (
+      multiplier > 1 &&
+      (await this.premiumService.isPremium(BigInt(subject.userId)))
+    ) {
+      limits.userAnalyses *= multiplier;
+      limits.userDownloads *= multiplier;
+      limits.userTrafficMb *= multiplier;
+    }
+
+    return limits;
+  }
+
+  /**
+   * Скользящее окно: не больше burstLimit запросов за burstWindowSec
+   * (общее на анализ и загрузки, считается по пользователю)
+   */
+  private async checkBurst(
+    subject: QuotaSubject,
+    action: QuotaAction,
+    limits: QuotaLimits,
+  ): Promise<QuotaVerdict> {
+    if (!limits.burstLimit || !limits.burstWindowSec) return { allowed: true };
+
+    const key = `quota:burst:${subject.userId}`;
+    const windowMs = limits.burstWindowSec * 1000;
+    const now = Date.now();
+
+    const oldest = Number(
+      await this.redis.eval(
+        QuotaService.BURST_SCRIPT,
+        1,
+        key,
+        now,
+        windowMs,
+        limits.burstLimit,
+        `${now}:${crypto.randomBytes(4).toString('hex')}`,
+      ),
+    );
+
+    if (oldest >= 0) {
+      return {
+        allowed: false,
+        reason: 'burst',
+        action,
+        scope: 'user',
+        limit: limits.burstLimit,
+        resetsInMs: oldest + windowMs - now,
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  private deny(
+    reason: 'daily' | 'traffic',
+    action: QuotaAction,
+    scope: 'user' | 'group',
+    limit: number,
+  ): QuotaVerdict {
+    return {
+      allowed: false,
+      reason,
+      action,
+      scope,
+      limit,
+      resetsInMs: this.msUntilReset(),
+    };
+  }
+
+  // В группе действие списывается и с пользователя, и с группы
+  private scopes(subject: QuotaSubject): QuotaScope[] {
+    const scopes: QuotaScope[] = [
+      { scope: 'user', id: subject.userId.toString() },
+    ];
+    if (subject.chatId < 0) {
+      scopes.push({ scope: 'group', id: subject.chatId.toString() });
+    }
+    return scopes;
+  }
+
+  private dailyLimit(
+    limits: QuotaLimits,
+    scope: 'user' | 'group',
+    action: QuotaAction,
+  ): number {
+    if (scope === 'user') {
+      return action === 'analysis' ? limits.userAnalyses : limits.userDownloads;
+    }
+    return action === 'analysis' ? limits.groupAnalyses : limits.groupDownloads;
+  }
+
+  // Суточные счётчики сбрасываются в полночь UTC
+  private dayKey(scope: string, id: string, metric: string): string {
+    const day = new Date().toISOString().slice(0, 10);
+    return `quota:${scope}:${id}:${metric}:${day}`;
+  }
+
+  private msUntilReset(): number {
+    const now = new Date();
+    const midnight = Date.UTC(
+      now.getUTCFullYear(),
+      now.getUTCMonth(),
+      now.getUTCDate() + 1,
+    );
+    return midnight - now.getTime();
+  }
+}
@@ -0,0 +1,282 @@
+// src/modules/stats/chart.service.ts
+
+import { Injectable } from '@nestjs/common';
+import { StatsService } from './stats.service';
+import { Bitmap, Rgb } from './chart/bitmap';
+import {
+  ChartImage,
+  ChartMetric,
+  StatsTotals,
+} from './interfaces/stats.interface';
+import { formatNumber, formatTimeLeft } from '../../common/utils/format.utils';
+
+interface ChartOptions {
+  title: string;
+  kind: 'bars' | 'line';
+  // Значение за день; null — данных нет (разрыв линии)
+  value: (totals: StatsTotals) => number | null;
+  axisLabel: (value: number) => string;
+  fixedMax?: number;
+  // Допустимые шаги сетки (для времени — кратные минутам и часам)
+  steps?: number[];
+}
+
+/**
+ * 📈 PNG-графики статистики по дням для админки
+ */
+@Injectable()
+export class ChartService {
+  static readonly PERIODS = [7, 30, 90];
+
+  static readonly TITLES: Record<ChartMetric, string> = {
+    users: '👥 Пользователи',
+    downloads: '📥 Загрузки',
+    cache: '💾 Кеш',
+    queue: '⏳ Очередь',
+  };
+
+  private static readonly METRICS: Record<ChartMetric, ChartOptions> = {
+    users: {
+      title: 'Новые пользователи',
+      kind: 'bars',
+      value: (totals) => totals.newUsers,
+      axisLabel: (value) => formatNumber(value),
+    },
+    downloads: {
+      title: 'Загрузки',
+      kind: 'bars',
+      value: (totals) => totals.totalDownloads,
+      axisLabel: (value) => formatNumber(value),
+    },
+    cache: {
+      title: 'Попадания в кеш',
+      kind: 'line',
+      value: (totals) => {
+        const ratio = StatsService.hitRatio(totals);
+        return ratio === null ? null : ratio * 100;
+      },
+      axisLabel: (value) => `${Math.round(value)}%`,
+      fixedMax: 100,
+    },
+    queue: {
+      title: 'Среднее ожидание в очереди',
+      kind: 'line',
+      value: (totals) => StatsService.avgQueueWait(totals),
+      axisLabel: (value) => ChartService.shortDuration(value),
+      steps: [5, 10, 15, 30, 60, 120, 300, 600, 900, 1800, 3600, 7200],
+    },
+  };
+
+  private static readonly WIDTH = 800;
+  private static readonly HEIGHT = 400;
+  private static readonly FONT_SCALE = 2;
+  private static readonly GRID_LINES = 4;
+  private static readonly MAX_X_LABELS = 8;
+
+  private static readonly COLORS: Record<string, Rgb> = {
+    background: [255, 255, 255],
+    grid: [230, 232, 236],
+    axis: [120, 124, 132],
+    text: [70, 74, 82],
+    series: [52, 120, 246],
+  };
+
+  private static readonly DAY = 24 * 60 * 60 * 1000;
+
+  constructor(private statsService: StatsService) {}
+
+  /**
+   * 🖼 График за последние days дней (включая сегодня, UTC)
+   */
+  async render(metric: ChartMetric, days: number): Promise<ChartImage> {
+    const options = ChartService.METRICS[metric];
+    const now = new Date();
+    const today = Date.UTC(
+      now.getUTCFullYear(),
+      now.getUTCMonth(),
+      now.getUTCDate(),
+    );
+    const from = new Date(today - (days - 1) * ChartService.DAY);
+
+    const daily = await this.statsService.getDaily(from, days);
+    const values = daily.map(({ totals }) => options.value(totals));
+    const labels = daily.map(({ date }) => this.dayLabel(date));
+
+    return {
+      image: this.draw(options, values, labels),
+      caption: this.caption(metric, days, daily, values, labels),
+    };
+  }
+
+  private draw(
+    options: ChartOptions,
+    values: (number | null)[],
+    labels: string[],
+  ): Buffer {
+    const { WIDTH, HEIGHT, FONT_SCALE, GRID_LINES, COLORS } = ChartService;
+    const bitmap = new Bitmap(WIDTH, HEIGHT, COLORS.background);
+    const textHeight = Bitmap.textHeight(FONT_SCALE);
+
+    const max = Math.max(0, ...values.map((value) => value ?? 0));
+    const step =
+      options.fixedMax !== undefined
+        ? options.fixedMax / GRID_LINES
+        : this.niceStep(max / GRID_LINES, options.steps);
+    const axisMax = step * GRID_LINES;
+
+    const gridLabels = Array.from({ length: GRID_LINES + 1 }, (_, i) =>
+      options.axisLabel(step * i),
+    );
+    const left =
+      Math.max(
+        ...gridLabels.map((label) => Bitmap.textWidth(label, FONT_SCALE)),
+      ) + 24;
+    const right = WIDTH - 24;
+    const top = 24;
+    const bottom = HEIGHT - textHeight - 24;
+    const plotHeight = bottom - top;
+    const slot = (right - left) / values.length;
+    const yOf = (value: number) => bottom - (value / axisMax) * plotHeight;
+
+    // Сетка и подписи оси Y
+    gridLabels.forEach((label, i) => {
+      const y = Math.round(yOf(step * i));
+      bitmap.line(left, y, right, y, i === 0 ? COLORS.axis : COLORS.grid);
+      bitmap.text(
+        left - 12 - Bitmap.textWidth(label, FONT_SCALE),
+        y - textHeight / 2,
+        label,
+        COLORS.text,
+        FONT_SCALE,
+      );
+    });
+
+    // Подписи дат: последний день всегда подписан, остальные — с шагом
+    const labelEvery = Math.ceil(labels.length / ChartService.MAX_X_LABELS);
+    labels.forEach((label, i) => {
+      if ((labels.length - 1 - i) % labelEvery !== 0) return;
+
+      const width = Bitmap.textWidth(label, FONT_SCALE);
+      const x = Math.min(
+        Math.max(left + slot * (i + 0.5) - width / 2, 0),
+        WIDTH - width,
+      );
+      bitmap.text(x, bottom + 12, label, COLORS.text, FONT_SCALE);
+    });
+
+    if (options.kind === 'bars') {
+      const barWidth = Math.max(1, slot * 0.7);
+      values.forEach((value, i) => {
+        if (!value) return;
+        const y = yOf(value);
+        bitmap.fillRect(
+          left + slot * i + (slot - barWidth) / 2,
+          y,
+          barWidth,
+          bottom - y,
+          COLORS.series,
+        );
+      });
+    } else {
+      const points = values.map((value, i) =>
+        value === null ? null : { x: left + slot * (i + 0.5), y: yOf(value) },
+      );
+      points.forEach((point, i) => {
+        const previous = points[i - 1];
+        if (!point) return;
+
+        // Дни без данных рвут линию
+        if (previous) {
+          bitmap.line(
+            previous.x,
+            previous.y,
+            point.x,
+            point.y,
+            COLORS.series,
+            3,
+          );
+        }
+        if (slot >= 12) {
+          bitmap.fillRect(point.x - 3, point.y - 3, 7, 7, COLORS.series);
+        }
+      });
+    }
+
+    return bitmap.toPng();
+  }
+
+  private caption(
+    metric: ChartMetric,
+    days: number,
+    daily: { totals: StatsTotals }[],
+    values: (number | null)[],
+    labels: string[],
+  ): string {
+    const options = ChartService.METRICS[metric];
+    let caption = `📈 <b>${options.title}</b> — ${days} дн.\n`;
+
+    // Пик — индекс максимального значения
+    let peak = -1;
+    values.forEach((value, i) => {
+      if (value !== null && (peak < 0 || value > values[peak]!)) peak = i;
+    });
+    if (peak < 0) return caption + 'Нет данных за период';
+
+    const sum = (pick: (totals: StatsTotals) => number) =>
+      daily.reduce((acc, { totals }) => acc + pick(totals), 0);
+
+    switch (metric) {
+      case 'users':
+      case 'downloads': {
+        const total = sum((totals) => options.value(totals) ?? 0);
+        caption +=
+          `Всего: ${total} · в среднем ${Math.round(total / days)} в день\n` +
+          `Пик: ${values[peak]} (${labels[peak]})`;
+        break;
+      }
+      case 'cache': {
+        const hits = sum((totals) => totals.cacheHits);
+        const lookups = hits + sum((totals) => totals.cacheMisses);
+        caption +=
+          `За период: ${Math.round((hits / lookups) * 100)}% ` +
+          `(${hits} из ${lookups} запросов)`;
+        break;
+      }
+      case 'queue': {
+        const jobs = sum((totals) => totals.queuedJobs);
+        const waitSec = sum((totals) => totals.queueWaitSec);
+        caption +=
+          `В среднем: ${formatTimeLeft((waitSec / jobs) * 1000)} (${jobs} задач)\n` +
+          `Хуже всего: ${formatTimeLeft(values[peak]! * 1000)} (${labels[peak]})`;
+        break;
+      }
+    }
+    return caption;
+  }
+
+  // 1, 2 или 5 × 10^n (или шаг из steps) — круглый шаг сетки не меньше raw
+  private niceStep(raw: number, steps?: number[]): number {
+    const allowed = steps?.find((step) => step >= raw);
+    if (allowed) return allowed;
+    if (raw <= 1) return 1;
+
+    const magnitude = 10 ** Math.floor(Math.log10(raw));
+    for (const multiplier of [1, 2, 5, 10]) {
+      if (multiplier * magnitude >= raw) return multiplier * magnitude;
+    }
+    return 10 * magnitude;
+  }
+
+  private dayLabel(date: Date): string {
+    const day = date.getUTCDate().toString().padStart(2, '0');
+    const month = (date.getUTCMonth() + 1).toString().padStart(2, '0');
+    return `${day}.${month}`;
+  }
+
+  // Подпись оси растровым шрифтом: «45s», «12m», «1.5h»
+  private static shortDuration(seconds: number): string {
+    if (seconds < 60) return `${Math.round(seconds)}s`;
+    if (seconds < 3600) return `${Math.round(seconds / 6) / 10}m`;
+    return `${Math.round(seconds / 360) / 10}h`;
+  }
+}
@@ -0,0 +1,170 @@
+// stats/chart/bitmap.ts
+
+import { deflateSync } from 'zlib';
+import { GLYPH_HEIGHT, GLYPH_WIDTH, GLYPHS } from './font';
+
+export type Rgb = [number, number, number];
+
+/**
+ * 🖼 Простейший RGB-холст с выводом в PNG.
+ * Графикам админки хватает прямоугольников, линий и цифр — ради этого
+ * не тянем нативный canvas с системными шрифтами в Docker-образ.
+ */
+export class Bitmap {
+  private readonly pixels: Buffer;
+
+  constructor(
+    readonly width: number,
+    readonly height: number,
+    background: Rgb,
+  ) {
+    this.pixels = Buffer.alloc(width * height * 3);
+    this.fillRect(0, 0, width, height, background);
+  }
+
+  setPixel(x: number, y: number, color: Rgb): void {
+    x = Math.round(x);
+    y = Math.round(y);
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height) return;
+
+    const offset = (y * this.width + x) * 3;
+    this.pixels[offset] = color[0];
+    this.pixels[offset + 1] = color[1];
+    this.pixels[offset + 2] = color[2];
+  }
+
+  fillRect(x: number, y: number, w: number, h: number, color: Rgb): void {
+    const x0 = Math.max(0, Math.round(x));
+    const y0 = Math.max(0, Math.round(y));
+    const x1 = Math.min(this.width, Math.round(x + w));
+    const y1 = Math.min(this.height, Math.round(y + h));
+
+    for (let py = y0; py < y1; py++) {
+      for (let px = x0; px < x1; px++) {
+        this.setPixel(px, py, color);
+      }
+    }
+  }
+
+  // Линия Брезенхэма; толщина — квадратной «кистью»
+  line(
+    x0: number,
+    y0: number,
+    x1: number,
+    y1: number,
+    color: Rgb,
+    thickness = 1,
+  ): void {
+    x0 = Math.round(x0);
+    y0 = Math.round(y0);
+    x1 = Math.round(x1);
+    y1 = Math.round(y1);
+
+    const dx = Math.abs(x1 - x0);
+    const dy = -Math.abs(y1 - y0);
+    const sx = x0 < x1 ? 1 : -1;
+    const sy = y0 < y1 ? 1 : -1;
+    const offset = Math.floor(thickness / 2);
+    let error = dx + dy;
+
+    for (;;) {
+      this.fillRect(x0 - offset, y0 - offset, thickness, thickness, color);
+      if (x0 === x1 && y0 === y1) break;
+
+      const e2 = 2 * error;
+      if (e2 >= dy) {
+        error += dy;
+        x0 += sx;
+      }
+      if (e2 <= dx) {
+        error += dx;
+        y0 += sy;
+      }
+    }
+  }
+
+  // Текст растровым шрифтом; неизвестные символы пропускаются
+  text(x: number, y: number, value: string, color: Rgb, scale = 1): void {
+    for (const char of value) {
+      const glyph = GLYPHS[char];
+      if (glyph) {
+        glyph.forEach((row, gy) => {
+          for (let gx = 0; gx < GLYPH_WIDTH; gx++) {
+            if (row[gx] === '#') {
+              this.fillRect(
+                x + gx * scale,
+                y + gy * scale,
+                scale,
+                scale,
+                color,
+              );
+            }
+          }
+        });
+      }
+      x += (GLYPH_WIDTH + 1) * scale;
+    }
+  }
+
+  static textWidth(value: string, scale = 1): number {
+    return value.length ? (value.length * (GLYPH_WIDTH + 1) - 1) * scale : 0;
+  }
+
+  static textHeight(scale = 1): number {
+    return GLYPH_HEIGHT * scale;
+  }
+
+  /**
+   * PNG: 8 бит на канал, RGB, без фильтров строк
+   */
+  toPng(): Buffer {
+    const stride = this.width * 3;
+    const raw = Buffer.alloc((stride + 1) * this.height);
+    for (let y = 0; y < this.height; y++) {
+      raw[y * (stride + 1)] = 0; // filter: none
+      this.pixels.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+    }
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(this.width, 0);
+    header.writeUInt32BE(this.height, 4);
+    header[8] = 8; // bit depth
+    header[9] = 2; // color type: RGB
+
+    return Buffer.concat([
+      PNG_SIGNATURE,
+      chunk('IHDR', header),
+      chunk('IDAT', deflateSync(raw)),
+      chunk('IEND', Buffer.alloc(0)),
+    ]);
+  }
+}
+
+const PNG_SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body), 0);
+
+  return Buffer.concat([length, body, crc]);
+}
@@ -0,0 +1,29 @@
+// stats/chart/font.ts
+
+// Растровый шрифт 5×7 для подписей осей: цифры, даты и единицы (K, M, %, s, m, h).
+// Русские заголовки идут в подпись к фото — в картинке они не нужны.
+export const GLYPH_WIDTH = 5;
+export const GLYPH_HEIGHT = 7;
+
+export const GLYPHS: Record<string, string[]> = {
+  '0': ['.###.', '#...#', '#..##', '#.#.#', '##..#', '#...#', '.###.'],
+  '1': ['..#..', '.##..', '..#..', '..#..', '..#..', '..#..', '.###.'],
+  '2': ['.###.', '#...#', '....#', '...#.', '..#..', '.#...', '#####'],
+  '3': ['#####', '...#.', '..#..', '...#.', '....#', '#...#', '.###.'],
+  '4': ['...#.', '..##.', '.#.#.', '#..#.', '#####', '...#.', '...#.'],
+  '5': ['#####', '#....', '####.', '....#', '....#', '#...#', '.###.'],
+  '6': ['..##.', '.#...', '#....', '####.', '#...#', '#...#', '.###.'],
+  '7': ['#####', '....#', '...#.', '..#..', '.#...', '.#...', '.#...'],
+  '8': ['.###.', '#...#', '#...#', '.###.', '#...#', '#...#', '.###.'],
+  '9': ['.###.', '#...#', '#...#', '.####', '....#', '...#.', '.##..'],
+  '.': ['.....', '.....', '.....', '.....', '.....', '.##..', '.##..'],
+  ':': ['.....', '.##..', '.##..', '.....', '.##..', '.##..', '.....'],
+  '-': ['.....', '.....', '.....', '#####', '.....', '.....', '.....'],
+  '%': ['##...', '##..#', '...#.', '..#..', '.#...', '#..##', '...##'],
+  K: ['#...#', '#..#.', '#.#..', '##...', '#.#..', '#..#.', '#...#'],
+  M: ['#...#', '##.##', '#.#.#', '#.#.#', '#...#', '#...#', '#...#'],
+  s: ['.....', '.....', '.####', '#....', '.###.', '....#', '####.'],
+  m: ['.....', '.....', '##.#.', '#.#.#', '#.#.#', '#...#', '#...#'],
+  h: ['#....', '#....', '#.##.', '##..#', '#...#', '#...#', '#...#'],
+  ' ': ['.....', '.....', '.....', '.....', '.....', '.....', '.....'],
+};
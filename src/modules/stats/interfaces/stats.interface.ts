@@ -0,0 +1,41 @@
+// stats/interfaces/stats.interface.ts
+
+// Счётчики за день — совпадают с полями DailyStats
+export type StatsCounter =
+  | 'newUsers'
+  | 'totalDownloads'
+  | 'cacheHits'
+  | 'cacheMisses'
+  | 'failedDownloads'
+  | 'queuedJobs'
+  | 'queueWaitSec';
+
+// Период в админке: сегодня, последние 7 или 30 дней (UTC)
+export type StatsPeriod = 'day' | 'week' | 'month';
+
+export type StatsTotals = Record<StatsCounter, number> & {
+  platforms: Record<string, number>; // Загрузки по платформам
+};
+
+export interface TopVideo {
+  title: string;
+  url: string;
+  downloads: number;
+}
+
+// Период против такого же предыдущего
+export interface StatsComparison {
+  period: StatsPeriod;
+  from: Date;
+  current: StatsTotals;
+  previous: StatsTotals;
+  topVideos: TopVideo[];
+}
+
+// Графики в админке
+export type ChartMetric = 'users' | 'downloads' | 'cache' | 'queue';
+
+export interface ChartImage {
+  image: Buffer; // PNG
+  caption: string;
+}
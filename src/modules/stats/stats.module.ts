@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { StatsService } from './stats.service';
+import { ChartService } from './chart.service';
+
+@Module({
+  providers: [StatsService, ChartService],
+  exports: [StatsService, ChartService],
+})
+export class StatsModule {}
@@ -0,0 +1,138 @@
+// src/modules/stats/stats.service.spec.ts
+
+import { Test } from '@nestjs/testing';
+import { DailyStats } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { RedisService } from '../../database/redis.service';
+import { RedisStub } from '../../test/redis.stub';
+import { StatsService } from './stats.service';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-10-19T12:00:00Z');
+const TODAY = new Date('2026-10-19T00:00:00Z');
+
+// Prisma в памяти: только DailyStats
+function createPrisma() {
+  const days = new Map<number, DailyStats>();
+
+  const prisma = {
+    dailyStats: {
+      upsert: jest.fn(
+        ({
+          where,
+          update,
+          create,
+        }: {
+          where: { date: Date };
+          update: Partial<DailyStats>;
+          create: DailyStats;
+        }) => {
+          const current = days.get(where.date.getTime());
+          const row = current ? { ...current, ...update } : create;
+          days.set(where.date.getTime(), row);
+          return Promise.resolve(row);
+        },
+      ),
+    },
+  };
+
+  return { prisma, days };
+}
+
+describe('StatsService', () => {
+  let service: StatsService;
+  let db: ReturnType<typeof createPrisma>;
+
+  const stored = (date: Date) => db.days.get(date.getTime());
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: NOW });
+
+    db = createPrisma();
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        StatsService,
+        { provide: RedisService, useValue: new RedisStub() },
+        { provide: PrismaService, useValue: db.prisma },
+      ],
+    }).compile();
+
+    service = moduleRef.get(StatsService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('rollupDay', () => {
+    it('переносит счётчики и платформы дня в DailyStats', async () => {
+      service.track('newUsers');
+      service.track('totalDownloads', 'youtube');
+      service.track('totalDownloads', 'youtube');
+      service.track('totalDownloads', 'instagram');
+      service.track('cacheHits');
+      service.track('failedDownloads', 'tiktok');
+      service.trackQueueWait(4_400);
+      service.trackQueueWait(1_600);
+
+      await service.rollupDay(TODAY);
+
+      expect(stored(TODAY)).toEqual({
+        date: TODAY,
+        newUsers: 1,
+        totalDownloads: 3,
+        cacheHits: 1,
+        cacheMisses: 0,
+        failedDownloads: 1,
+        queuedJobs: 2,
+        queueWaitSec: 6,
+        platforms: { youtube: 2, instagram: 1, tiktok: 1 },
+      });
+    });
+
+    it('повторный перенос перезаписывает значения, а не удваивает их', async () => {
+      service.track('totalDownloads', 'youtube');
+      await service.rollupDay(TODAY);
+
+      service.track('totalDownloads', 'youtube');
+      await service.rollupDay(TODAY);
+      await service.rollupDay(TODAY);
+
+      expect(stored(TODAY)).toMatchObject({
+        totalDownloads: 2,
+        platforms: { youtube: 2 },
+      });
+    });
+
+    it('день без событий в DailyStats не пишет', async () => {
+      await service.rollupDay(TODAY);
+
+      expect(db.prisma.dailyStats.upsert).not.toHaveBeenCalled();
+    });
+
+    it('переносит только свой день', async () => {
+      service.track('newUsers');
+      jest.advanceTimersByTime(DAY);
+      service.track('newUsers');
+      service.track('newUsers');
+
+      await service.rollupDay(TODAY);
+
+      expect(stored(TODAY)?.newUsers).toBe(1);
+    });
+  });
+
+  describe('rollup', () => {
+    it('переносит прошедшие дни, но не сегодняшний', async () => {
+      service.track('newUsers');
+      jest.advanceTimersByTime(DAY);
+      service.track('totalDownloads', 'youtube');
+
+      await service.rollup();
+
+      expect(stored(TODAY)?.newUsers).toBe(1);
+      expect(stored(new Date(TODAY.getTime() + DAY))).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,318 @@
+// src/modules/stats/stats.service.ts
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { DailyStats } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { RedisService } from '../../database/redis.service';
+import {
+  StatsComparison,
+  StatsCounter,
+  StatsPeriod,
+  StatsTotals,
+  TopVideo,
+} from './interfaces/stats.interface';
+
+/**
+ * 📈 Статистика по дням.
+ * События считаются в Redis (HINCRBY на каждый день), ночью день переносится
+ * в DailyStats. Сегодня и ещё не перенесённые дни читаются прямо из Redis.
+ */
+@Injectable()
+export class StatsService {
+  private readonly logger = new Logger(StatsService.name);
+
+  static readonly PERIOD_DAYS: Record<StatsPeriod, number> = {
+    day: 1,
+    week: 7,
+    month: 30,
+  };
+
+  private static readonly DAY = 24 * 60 * 60 * 1000;
+  // Живые счётчики храним неделю — ночному переносу с запасом
+  private static readonly KEY_TTL_SEC = 7 * 24 * 60 * 60;
+  // Сколько прошлых дней перепроверяет перенос (вдруг бот лежал в полночь)
+  private static readonly ROLLUP_DAYS = 3;
+
+  private static readonly COUNTERS: StatsCounter[] = [
+    'newUsers',
+    'totalDownloads',
+    'cacheHits',
+    'cacheMisses',
+    'failedDownloads',
+    'queuedJobs',
+    'queueWaitSec',
+  ];
+
+  constructor(
+    private prisma: PrismaService,
+    private redis: RedisService,
+  ) {}
+
+  /**
+   * ➕ Засчитать событие (для загрузок — с платформой).
+   * Не ждём и не бросаем: статистика не должна тормозить и ломать загрузки.
+   */
+  track(counter: StatsCounter, platform?: string): void {
+    this.increment({ [counter]: 1 }, platform);
+  }
+
+  /**
+   * ⏳ Задача загрузки взята из очереди, прождав waitMs
+   */
+  trackQueueWait(waitMs: number): void {
+    this.increment({
+      queuedJobs: 1,
+      queueWaitSec: Math.max(0, Math.round(waitMs / 1000)),
+    });
+  }
+
+  private increment(
+    counters: Partial<Record<StatsCounter, number>>,
+    platform?: string,
+  ): void {
+    const day = this.dayKey(new Date());
+    const multi = this.redis.multi();
+    for (const [counter, value] of Object.entries(counters)) {
+      multi.hincrby(this.countersKey(day), counter, value);
+    }
+    multi.expire(this.countersKey(day), StatsService.KEY_TTL_SEC);
+
+    if (platform) {
+      multi
+        .hincrby(this.platformsKey(day), platform, 1)
+        .expire(this.platformsKey(day), StatsService.KEY_TTL_SEC);
+    }
+
+    multi
+      .exec()
+      .catch((error) =>
+        this.logger.warn(
+          `⚠️ Не удалось засчитать ${Object.keys(counters).join(', ')}: ${error.message}`,
+        ),
+      );
+  }
+
+  /**
+   * Платформа файла из кеша: префикс ключа «платформа:id», иначе домен ссылки
+   */
+  static platformOf(cached: {
+    sourceKey: string | null;
+    originalUrl: string;
+  }): string {
+    if (cached.sourceKey) return cached.sourceKey.split(':')[0];
+
+    try {
+      return new URL(cached.originalUrl).hostname.replace(/^www\./, '');
+    } catch {
+      return 'other';
+    }
+  }
+
+  static hitRatio(totals: StatsTotals): number | null {
+    const lookups = totals.cacheHits + totals.cacheMisses;
+    return lookups ? totals.cacheHits / lookups : null;
+  }
+
+  static failureRate(totals: StatsTotals): number | null {
+    const attempts = totals.totalDownloads + totals.failedDownloads;
+    return attempts ? totals.failedDownloads / attempts : null;
+  }
+
+  // Среднее ожидание в очереди загрузок, сек
+  static avgQueueWait(totals: StatsTotals): number | null {
+    return totals.queuedJobs ? totals.queueWaitSec / totals.queuedJobs : null;
+  }
+
+  /**
+   * 🌙 Перенос прошедших дней из Redis в DailyStats (00:05 UTC).
+   * upsert абсолютными значениями — повторный перенос ничего не удвоит.
+   */
+  @Cron('5 0 * * *', { timeZone: 'UTC' })
+  async rollup() {
+    const today = this.startOfDay(new Date());
+
+    for (let i = 1; i <= StatsService.ROLLUP_DAYS; i++) {
+      const date = new Date(today.getTime() - i * StatsService.DAY);
+      try {
+        await this.rollupDay(date);
+      } catch (error: any) {
+        this.logger.error(
+          `❌ Ошибка переноса статистики за ${this.dayKey(date)}: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  async rollupDay(date: Date): Promise<void> {
+    const totals = await this.readLive(date);
+    if (!totals) return;
+
+    const { platforms, ...counters } = totals;
+    await this.prisma.dailyStats.upsert({
+      where: { date },
+      update: { ...counters, platforms },
+      create: { date, ...counters, platforms },
+    });
+
+    this.logger.log(
+      `🌙 Статистика за ${this.dayKey(date)}: ${totals.totalDownloads} загрузок, ${totals.newUsers} новых`,
+    );
+  }
+
+  /**
+   * 📊 Период (сегодня / 7 / 30 дней) против такого же предыдущего
+   */
+  async compare(period: StatsPeriod): Promise<StatsComparison> {
+    const days = StatsService.PERIOD_DAYS[period];
+    const today = this.startOfDay(new Date());
+    const from = new Date(today.getTime() - (days - 1) * StatsService.DAY);
+    const previousFrom = new Date(from.getTime() - days * StatsService.DAY);
+
+    const [current, previous, topVideos] = await Promise.all([
+      this.getTotals(from, days),
+      this.getTotals(previousFrom, days),
+      this.getTopVideos(from),
+    ]);
+
+    return { period, from, current, previous, topVideos };
+  }
+
+  /**
+   * Счётчики по дням (для графиков); дни без данных — нули
+   */
+  async getDaily(
+    from: Date,
+    days: number,
+  ): Promise<{ date: Date; totals: StatsTotals }[]> {
+    const to = new Date(from.getTime() + days * StatsService.DAY);
+    const rows = await this.prisma.dailyStats.findMany({
+      where: { date: { gte: from, lt: to } },
+    });
+    const stored = new Map(rows.map((row) => [this.dayKey(row.date), row]));
+    const liveSince =
+      this.startOfDay(new Date()).getTime() -
+      StatsService.ROLLUP_DAYS * StatsService.DAY;
+
+    const result: { date: Date; totals: StatsTotals }[] = [];
+    for (let i = 0; i < days; i++) {
+      const date = new Date(from.getTime() + i * StatsService.DAY);
+      const row = stored.get(this.dayKey(date));
+
+      // В Redis значение не меньше перенесённого — свежие дни берём оттуда
+      const live =
+        date.getTime() >= liveSince ? await this.readLive(date) : null;
+      result.push({
+        date,
+        totals: live ?? (row ? this.fromRow(row) : this.emptyTotals()),
+      });
+    }
+    return result;
+  }
+
+  /**
+   * 🔥 Самые скачиваемые файлы с начала периода
+   */
+  async getTopVideos(from: Date, limit = 5): Promise<TopVideo[]> {
+    const rows = await this.prisma.download.groupBy({
+      by: ['cachedFileId'],
+      where: { downloadedAt: { gte: from } },
+      _count: { _all: true },
+      orderBy: { _count: { cachedFileId: 'desc' } },
+      take: limit,
+    });
+    if (rows.length === 0) return [];
+
+    const files = await this.prisma.cachedFile.findMany({
+      where: { id: { in: rows.map((row) => row.cachedFileId) } },
+      select: { id: true, title: true, originalUrl: true },
+    });
+    const byId = new Map(files.map((file) => [file.id, file]));
+
+    return rows.map((row) => {
+      const file = byId.get(row.cachedFileId);
+      return {
+        title: file?.title || file?.originalUrl || `#${row.cachedFileId}`,
+        url: file?.originalUrl ?? '',
+        downloads: row._count._all,
+      };
+    });
+  }
+
+  private async getTotals(from: Date, days: number): Promise<StatsTotals> {
+    const totals = this.emptyTotals();
+
+    for (const { totals: day } of await this.getDaily(from, days)) {
+      for (const counter of StatsService.COUNTERS) {
+        totals[counter] += day[counter];
+      }
+      for (const [platform, count] of Object.entries(day.platforms)) {
+        totals.platforms[platform] = (totals.platforms[platform] ?? 0) + count;
+      }
+    }
+    return totals;
+  }
+
+  // Счётчики дня из Redis; null — за день ничего не насчитано (или ключи истекли)
+  private async readLive(date: Date): Promise<StatsTotals | null> {
+    const day = this.dayKey(date);
+    const [counters, platforms] = await Promise.all([
+      this.redis.hgetall(this.countersKey(day)),
+      this.redis.hgetall(this.platformsKey(day)),
+    ]);
+    if (Object.keys(counters).length === 0) return null;
+
+    const totals = this.emptyTotals();
+    for (const counter of StatsService.COUNTERS) {
+      totals[counter] = Number(counters[counter] ?? 0);
+    }
+    for (const [platform, count] of Object.entries(platforms)) {
+      totals.platforms[platform] = Number(count);
+    }
+    return totals;
+  }
+
+  private fromRow(row: DailyStats): StatsTotals {
+    return {
+      newUsers: row.newUsers,
+      totalDownloads: row.totalDownloads,
+      cacheHits: row.cacheHits,
+      cacheMisses: row.cacheMisses,
+      failedDownloads: row.failedDownloads,
+      queuedJobs: row.queuedJobs,
+      queueWaitSec: row.queueWaitSec,
+      platforms: (row.platforms as Record<string, number> | null) ?? {},
+    };
+  }
+
+  private emptyTotals(): StatsTotals {
+    return {
+      newUsers: 0,
+      totalDownloads: 0,
+      cacheHits: 0,
+      cacheMisses: 0,
+      failedDownloads: 0,
+      queuedJobs: 0,
+      queueWaitSec: 0,
+      platforms: {},
+    };
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+    );
+  }
+
+  private dayKey(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  private countersKey(day: string): string {
+    return `stats:${day}`;
+  }
+
+  private platformsKey(day: string): string {
+    return `stats:${day}:platforms`;
+  }
+}
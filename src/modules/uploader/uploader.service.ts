@@ -146,6 +146,64 @@ export class UploaderService {
     return { fileId, messageId: message.message_id };
   }
 
+  /**
+   * 📷 КЕШИРОВАНИЕ ФОТО В КАНАЛ
+   * Сначала отдаём Telegram ссылку на картинку (как URL-direct). Если он не
+   * смог её забрать — скачиваем сами и загружаем файлом.
+   */
+  async cachePhotoToChannel(
+    photoUrl: string,
+    info: VideoInfoDto,
+  ): Promise<{ fileId: string; messageId: number; size: number }> {
+    if (!this.bot) {
+      throw new Error('Bot instance не установлен. Вызовите setBot() сначала.');
+    }
+
+    const caption = [
+      `🖼 <b>${this.escapeHtml(info.title || 'Без названия')}</b>`,
+      `👤 ${this.escapeHtml(info.uploader || 'Неизвестно')}`,
+    ].join('\n');
+
+    let message: any;
+    try {
+      message = await this.bot.api.sendPhoto(this.archiveChannelId, photoUrl, {
+        caption,
+        parse_mode: 'HTML',
+      });
+    } catch (error: any) {
+      this.logger.warn(
+        `⚠️ Telegram не забрал фото по ссылке, качаю сам: ${error.message}`,
+      );
+
+      const response = await fetch(photoUrl);
+      if (!response.ok) {
+        throw new Error(`Не удалось скачать фото: HTTP ${response.status}`);
+      }
+      const buffer = Buffer.from(await response.arrayBuffer());
+
+      message = await this.bot.api.sendPhoto(
+        this.archiveChannelId,
+        new InputFile(buffer, `${info.id}.jpg`),
+        { caption, parse_mode: 'HTML' },
+      );
+    }
+
+    // Telegram возвращает несколько размеров — последний самый большой
+    const photo = message.photo?.[message.photo.length - 1];
+    if (!photo?.file_id) {
+      throw new Error(
+        'Не удалось получить file_id фото из ответа Telegram API',
+      );
+    }
+
+    this.logger.log(`✅ Фото закешировано. MessageID: ${message.message_id}`);
+    return {
+      fileId: photo.file_id,
+      messageId: message.message_id,
+      size: photo.file_size || 0,
+    };
+  }
+
   /**
    * 📝 ФОРМАТИРОВАНИЕ CAPTION (Сделан PUBLIC и добавлен ESCAPE)
    */
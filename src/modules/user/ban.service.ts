@@ -0,0 +1,133 @@
+// src/modules/user/ban.service.ts
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { User } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+
+@Injectable()
+export class BanService {
+  private readonly logger = new Logger(BanService.name);
+
+  private static readonly UNITS: Record<string, number> = {
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+  };
+
+  // Поля бана после снятия
+  private static readonly CLEARED = {
+    isBanned: false,
+    banReason: null,
+    bannedAt: null,
+    bannedUntil: null,
+    bannedBy: null,
+  };
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Срок бана «30m», «12h», «7d» → мс; «forever» — null (навсегда);
+   * undefined — это не срок (например, первое слово причины)
+   */
+  static parseDuration(text: string): number | null | undefined {
+    if (text === 'forever') return null;
+
+    const match = text.match(/^(\d+)([mhd])$/);
+    if (!match) return undefined;
+
+    const value = parseInt(match[1], 10);
+    return value > 0 ? value * BanService.UNITS[match[2]] : undefined;
+  }
+
+  /**
+   * ⛔ ЗАБАНИТЬ
+   * durationMs = null — навсегда. Админов не баним.
+   */
+  async ban(
+    userId: bigint,
+    options: { durationMs: number | null; reason?: string; by: bigint },
+  ): Promise<User> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new Error('Пользователь не найден');
+    }
+    if (user.role) {
+      throw new Error('Нельзя забанить админа');
+    }
+
+    const bannedUntil =
+      options.durationMs === null
+        ? null
+        : new Date(Date.now() + options.durationMs);
+
+    this.logger.log(
+      `⛔ Бан ${userId} от ${options.by}: ${bannedUntil ? `до ${bannedUntil.toISOString()}` : 'навсегда'}` +
+        (options.reason ? ` (${options.reason})` : ''),
+    );
+
+    return this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        isBanned: true,
+        banReason: options.reason || null,
+        bannedAt: new Date(),
+        bannedUntil,
+        bannedBy: options.by,
+      },
+    });
+  }
+
+  async unban(userId: bigint): Promise<User> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new Error('Пользователь не найден');
+    }
+    if (!user.isBanned) {
+      throw new Error('Пользователь не забанен');
+    }
+
+    this.logger.log(`✅ Разбан ${userId}`);
+
+    return this.prisma.user.update({
+      where: { id: userId },
+      data: BanService.CLEARED,
+    });
+  }
+
+  /**
+   * Забаненные — сначала свежие (для админки)
+   */
+  async getBanned(page = 0, pageSize = 10): Promise<User[]> {
+    return this.prisma.user.findMany({
+      where: { isBanned: true },
+      orderBy: { bannedAt: 'desc' },
+      skip: page * pageSize,
+      take: pageSize,
+    });
+  }
+
+  async countBanned(): Promise<number> {
+    return this.prisma.user.count({ where: { isBanned: true } });
+  }
+
+  /**
+   * ⏰ Снятие истёкших временных банов (каждые 10 минут).
+   * Между запусками isBanned сам не даёт истёкшему бану сработать.
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async expireBans() {
+    try {
+      const { count } = await this.prisma.user.updateMany({
+        where: { isBanned: true, bannedUntil: { lte: new Date() } },
+        data: BanService.CLEARED,
+      });
+
+      if (count > 0) {
+        this.logger.log(`⏰ Снято истёкших банов: ${count}`);
+      }
+    } catch (error: any) {
+      this.logger.error(`❌ Ошибка снятия банов: ${error.message}`);
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { IsString, IsOptional, IsBoolean } from 'class-validator';
+import { IsString, IsOptional } from 'class-validator';
 
 export class CreateUserDto {
   id: bigint;
@@ -16,6 +16,6 @@ export class CreateUserDto {
   lastName?: string;
 
   @IsOptional()
-  @IsBoolean()
-  isAdmin?: boolean;
+  @IsString()
+  languageCode?: string;
 }
\ No newline at end of file
@@ -0,0 +1,16 @@
+// user/interfaces/role.interface.ts
+
+// Роли админки; владельцы задаются в OWNER_IDS и не снимаются командами
+export type AdminRole = 'owner' | 'admin' | 'moderator' | 'ad_manager';
+
+// Разделы админ-панели, к которым выдаётся доступ
+export type AdminSection =
+  | 'ads'
+  | 'channels'
+  | 'quota'
+  | 'premium'
+  | 'users'
+  | 'broadcast'
+  | 'stats'
+  | 'export' // Выгрузка таблиц в CSV / XLSX
+  | 'admins'; // Список админов и журнал действий
@@ -0,0 +1,240 @@
+// src/modules/user/role.service.ts
+
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { User } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { AdminRole, AdminSection } from './interfaces/role.interface';
+
+/**
+ * 🛡 Роли админки и доступ к разделам.
+ * Менять роли можно только тем, кто ниже тебя: владелец назначает админов,
+ * админ — модераторов и менеджеров рекламы.
+ */
+@Injectable()
+export class RoleService implements OnModuleInit {
+  private readonly logger = new Logger(RoleService.name);
+  private readonly ownerIds: Set<string>;
+
+  static readonly ROLE_TITLES: Record<AdminRole, string> = {
+    owner: '👑 Владелец',
+    admin: '🛡 Админ',
+    moderator: '👮 Модератор',
+    ad_manager: '📣 Менеджер рекламы',
+  };
+
+  private static readonly PERMISSIONS: Record<AdminRole, AdminSection[]> = {
+    owner: [
+      'ads',
+      'channels',
+      'quota',
+      'premium',
+      'users',
+      'broadcast',
+      'stats',
+      'export',
+      'admins',
+    ],
+    admin: [
+      'ads',
+      'channels',
+      'quota',
+      'premium',
+      'users',
+      'broadcast',
+      'stats',
+      'export',
+      'admins',
+    ],
+    moderator: ['users', 'stats'],
+    ad_manager: ['ads', 'stats'],
+  };
+
+  private static readonly RANK: Record<AdminRole, number> = {
+    owner: 3,
+    admin: 2,
+    moderator: 1,
+    ad_manager: 1,
+  };
+
+  // Раздел по callback_data кнопок админки (admin:main — любой роли)
+  private static readonly CALLBACK_SECTIONS: [RegExp, AdminSection][] = [
+    [/^admin:ads?(:|$)/, 'ads'],
+    [/^admin:channels?(:|$)/, 'channels'],
+    [/^admin:quota(:|$)/, 'quota'],
+    [/^admin:premium(:|$)/, 'premium'],
+    [/^admin:users?(:|$)/, 'users'],
+    [/^admin:(broadcast|bc)(:|$)/, 'broadcast'],
+    [/^admin:stats(:|$)/, 'stats'],
+    [/^admin:export(:|$)/, 'export'],
+    [/^admin:(admins|audit)(:|$)/, 'admins'],
+  ];
+
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+  ) {
+    this.ownerIds = new Set(
+      (this.config.get<string>('OWNER_IDS') ?? '')
+        .split(',')
+        .map((id) => id.trim())
+        .filter((id) => /^\d+$/.test(id)),
+    );
+  }
+
+  /**
+   * 👑 Владельцы из OWNER_IDS получают роль в БД (пользователь создаётся,
+   * даже если ещё не писал боту). Снятые из OWNER_IDS становятся админами.
+   */
+  async onModuleInit() {
+    try {
+      for (const id of this.ownerIds) {
+        await this.prisma.user.upsert({
+          where: { id: BigInt(id) },
+          update: { role: 'owner' },
+          create: { id: BigInt(id), role: 'owner' },
+        });
+      }
+
+      const { count } = await this.prisma.user.updateMany({
+        where: {
+          role: 'owner',
+          id: { notIn: [...this.ownerIds].map((id) => BigInt(id)) },
+        },
+        data: { role: 'admin' },
+      });
+
+      this.logger.log(
+        `👑 Владельцев: ${this.ownerIds.size}` +
+          (count ? `, понижены до админа: ${count}` : ''),
+      );
+    } catch (error: any) {
+      this.logger.error(`❌ Не удалось назначить владельцев: ${error.message}`);
+    }
+  }
+
+  // Только собственные ключи: «constructor» или «__proto__» — не роли
+  static isRole(value: string): value is AdminRole {
+    return Object.prototype.hasOwnProperty.call(RoleService.RANK, value);
+  }
+
+  static sectionOf(callbackData: string): AdminSection | undefined {
+    return RoleService.CALLBACK_SECTIONS.find(([pattern]) =>
+      pattern.test(callbackData),
+    )?.[1];
+  }
+
+  async getRole(userId: bigint): Promise<AdminRole | null> {
+    if (this.ownerIds.has(userId.toString())) return 'owner';
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true },
+    });
+    return user?.role && RoleService.isRole(user.role) ? user.role : null;
+  }
+
+  /**
+   * Есть ли доступ к разделу; без раздела — есть ли хоть какая-то роль
+   */
+  async can(userId: bigint, section?: AdminSection): Promise<boolean> {
+    const role = await this.getRole(userId);
+    if (!role) return false;
+    return !section || RoleService.PERMISSIONS[role].includes(section);
+  }
+
+  sectionsFor(role: AdminRole): AdminSection[] {
+    return RoleService.PERMISSIONS[role];
+  }
+
+  /**
+   * ➕ Назначить роль. Пользователь должен хотя бы раз написать боту.
+   */
+  async setRole(
+    actorId: bigint,
+    targetId: bigint,
+    role: AdminRole,
+  ): Promise<User> {
+    const actorRole = await this.getRole(actorId);
+    if (
+      !actorRole ||
+      !RoleService.isRole(role) ||
+      RoleService.RANK[role] >= RoleService.RANK[actorRole]
+    ) {
+      throw new Error('Эту роль может выдать только старший по роли');
+    }
+
+    await this.assertCanManage(actorRole, targetId);
+
+    this.logger.log(`🛡 ${actorId} назначил ${targetId} роль ${role}`);
+
+    return this.prisma.user.update({
+      where: { id: targetId },
+      data: { role },
+    });
+  }
+
+  /**
+   * ➖ Снять роль (владельцев — только через OWNER_IDS)
+   */
+  async removeRole(actorId: bigint, targetId: bigint): Promise<User> {
+    const actorRole = await this.getRole(actorId);
+    if (!actorRole) {
+      throw new Error('Нет доступа');
+    }
+
+    const targetRole = await this.assertCanManage(actorRole, targetId);
+    if (!targetRole) {
+      throw new Error('У пользователя нет роли');
+    }
+
+    this.logger.log(`🛡 ${actorId} снял роль ${targetRole} с ${targetId}`);
+
+    return this.prisma.user.update({
+      where: { id: targetId },
+      data: { role: null },
+    });
+  }
+
+  /**
+   * Все, у кого есть роль (старшие — выше)
+   */
+  async listAdmins(): Promise<(User & { role: AdminRole })[]> {
+    const users = await this.prisma.user.findMany({
+      where: { role: { not: null } },
+    });
+
+    return users
+      .filter((user): user is User & { role: AdminRole } =>
+        RoleService.isRole(user.role ?? ''),
+      )
+      .sort((a, b) => RoleService.RANK[b.role] - RoleService.RANK[a.role]);
+  }
+
+  // Управлять можно только теми, кто ниже тебя; возвращает текущую роль цели
+  private async assertCanManage(
+    actorRole: AdminRole,
+    targetId: bigint,
+  ): Promise<AdminRole | null> {
+    const target = await this.prisma.user.findUnique({
+      where: { id: targetId },
+      select: { id: true },
+    });
+    if (!target) {
+      throw new Error('Пользователь не найден — пусть сначала напишет боту');
+    }
+
+    const targetRole = await this.getRole(targetId);
+    if (targetRole === 'owner') {
+      throw new Error('Владельцы задаются в OWNER_IDS');
+    }
+    if (
+      targetRole &&
+      RoleService.RANK[targetRole] >= RoleService.RANK[actorRole]
+    ) {
+      throw new Error('Нельзя менять роль равного или старшего');
+    }
+
+    return targetRole;
+  }
+}
@@ -1,8 +1,12 @@
 import { Module } from '@nestjs/common';
 import { UserService } from './user.service';
+import { BanService } from './ban.service';
+import { RoleService } from './role.service';
+import { StatsModule } from '../stats/stats.module';
 
 @Module({
-  providers: [UserService],
-  exports: [UserService],
+  imports: [StatsModule],
+  providers: [UserService, BanService, RoleService],
+  exports: [UserService, BanService, RoleService],
 })
 export class UserModule {}
\ No newline at end of file
@@ -3,6 +3,8 @@ import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../database/prisma.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { User } from '@prisma/client'
+import { RoleService } from './role.service';
+import { StatsService } from '../stats/stats.service';
 
 @Injectable()
 export class UserService {
@@ -11,6 +13,8 @@ export class UserService {
   constructor(
     private prisma: PrismaService,
     private config: ConfigService,
+    private roleService: RoleService,
+    private statsService: StatsService,
   ) {}
 
   /**
@@ -29,19 +33,27 @@ export class UserService {
           username: dto.username,
           firstName: dto.firstName,
           lastName: dto.lastName,
+          languageCode: dto.languageCode,
           lastActiveAt: new Date(),
+          // Написал боту — значит, больше не блокирует
+          isReachable: true,
+          blockedAt: null,
         },
       });
     }
 
-    return this.prisma.user.create({
+    const user = await this.prisma.user.create({
       data: {
         id: dto.id,
         username: dto.username,
         firstName: dto.firstName,
         lastName: dto.lastName,
+        languageCode: dto.languageCode,
       },
     });
+    this.statsService.track('newUsers');
+
+    return user;
   }
 
   /**
@@ -54,19 +66,100 @@ export class UserService {
   }
 
   /**
-   * Проверка на бан
+   * Поиск для админки: по ID или по username / имени (частичное совпадение)
+   */
+  async search(query: string, limit = 10): Promise<User[]> {
+    const text = query.trim().replace(/^@/, '');
+    if (!text) return [];
+
+    if (/^\d+$/.test(text)) {
+      const user = await this.findById(BigInt(text));
+      return user ? [user] : [];
+    }
+
+    return this.prisma.user.findMany({
+      where: {
+        OR: [
+          { username: { contains: text, mode: 'insensitive' } },
+          { firstName: { contains: text, mode: 'insensitive' } },
+        ],
+      },
+      orderBy: { lastActiveAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Точный пользователь по ID или @username (для команд)
+   */
+  async resolve(query: string): Promise<User | null> {
+    const text = query.trim().replace(/^@/, '');
+    if (!text) return null;
+
+    if (/^\d+$/.test(text)) {
+      return this.findById(BigInt(text));
+    }
+
+    return this.prisma.user.findFirst({
+      where: { username: { equals: text, mode: 'insensitive' } },
+    });
+  }
+
+  /**
+   * Последние загрузки пользователя (профиль в админке)
+   */
+  async getRecentDownloads(userId: bigint, limit = 5) {
+    return this.prisma.download.findMany({
+      where: { userId },
+      orderBy: { downloadedAt: 'desc' },
+      take: limit,
+      include: {
+        cachedFile: { select: { title: true, originalUrl: true } },
+      },
+    });
+  }
+
+  /**
+   * Проверка на бан. Истёкший временный бан уже не действует, даже если
+   * крон ещё не успел его снять.
    */
   async isBanned(userId: bigint): Promise<boolean> {
     const user = await this.findById(userId);
-    return user?.isBanned ?? false;
+    if (!user?.isBanned) return false;
+    return !user.bannedUntil || user.bannedUntil > new Date();
   }
 
   /**
-   * Проверка на админа
+   * Проверка на админа: любая роль админки (см. RoleService)
    */
   async isAdmin(userId: bigint): Promise<boolean> {
+    return (await this.roleService.getRole(userId)) !== null;
+  }
+
+  /**
+   * 🚫 Бот заблокирован (my_chat_member или 403 при отправке) —
+   * пользователь выпадает из рассылок и реальной аудитории
+   */
+  async markUnreachable(userId: bigint): Promise<void> {
+    await this.prisma.user.updateMany({
+      where: { id: userId, isReachable: true },
+      data: { isReachable: false, blockedAt: new Date() },
+    });
+  }
+
+  /**
+   * ✅ Пользователь разблокировал бота
+   */
+  async markReachable(userId: bigint): Promise<void> {
+    await this.prisma.user.updateMany({
+      where: { id: userId, isReachable: false },
+      data: { isReachable: true, blockedAt: null },
+    });
+  }
+
+  async isReachable(userId: bigint): Promise<boolean> {
     const user = await this.findById(userId);
-    return user?.isAdmin ?? false;
+    return user?.isReachable ?? true;
   }
 
   /**
@@ -88,15 +181,25 @@ export class UserService {
     const totalUsers = await this.prisma.user.count();
     const activeToday = await this.prisma.user.count({
       where: {
+        isReachable: true,
         lastActiveAt: {
           gte: new Date(Date.now() - 24 * 60 * 60 * 1000),
         },
       },
     });
+    // Реальная аудитория: до кого бот может достучаться
+    const reachableUsers = await this.prisma.user.count({
+      where: { isReachable: true, isBanned: false },
+    });
+    const blockedUsers = await this.prisma.user.count({
+      where: { isReachable: false },
+    });
 
     return {
       totalUsers,
       activeToday,
+      reachableUsers,
+      blockedUsers,
     };
   }
 }
\ No newline at end of file
@@ -3,8 +3,11 @@ import { ConfigService } from '@nestjs/config';
 import { exec, execFile, spawn } from 'child_process';
 import { promisify } from 'util';
 import * as fs from 'fs';
+import * as path from 'path';
 import { existsSync, unlinkSync } from 'fs';
 import { VideoInfoDto, FormatDto } from '../downloader/dto/video-info.dto';
+import { PlaylistInfoDto } from '../downloader/dto/playlist-info.dto';
+import { ClipRange, clipKey } from '../../common/utils/clip.utils';
 
 const execAsync = promisify(exec);
 const execFileAsync = promisify(execFile);
@@ -22,8 +25,13 @@ export class YtdlpService {
 
   /**
    * 1️⃣ ПОЛУЧЕНИЕ ИНФОРМАЦИИ О ВИДЕО
+   *
+   * allowImages — для платформ с постами-картинками (Instagram): у фото нет
+   * видеоформатов, и без --ignore-no-formats-error yt-dlp падает с ошибкой.
+   * Такие элементы помечаются mediaType: 'photo', а directUrl ведёт на
+   * изображение в лучшем качестве.
    */
-  async getVideoInfo(url: string): Promise<VideoInfoDto> {
+  async getVideoInfo(url: string, allowImages = false): Promise<VideoInfoDto> {
     this.logger.log(`🔍 Анализ: ${url}`);
 
     try {
@@ -36,6 +44,10 @@ export class YtdlpService {
         url,
       ];
 
+      if (allowImages) {
+        args.unshift('--ignore-no-formats-error');
+      }
+
       if (existsSync(this.cookiesPath)) {
         this.logger.debug(`🍪 Куки найдены: ${this.cookiesPath}`);
         args.unshift('--cookies', this.cookiesPath);
@@ -59,6 +71,12 @@ export class YtdlpService {
       let height = data.height || 0;
       let uploader = data.uploader || data.channel || 'Unknown';
 
+      let mediaType: 'photo' | 'video' =
+        allowImages && this.isImageItem(data) ? 'photo' : 'video';
+      if (mediaType === 'photo') {
+        directUrl = this.bestImageUrl(data);
+      }
+
       let entries: any[] | undefined = undefined;
 
       if (data._type === 'playlist' && data.entries && data.entries.length > 0) {
@@ -87,14 +105,25 @@ export class YtdlpService {
         }
         directUrl = this.findProgressiveUrl(formats) || entry.url;
 
-        // Map all entries in the playlist (filtering to only include video entries)
+        // Карусель, начинающаяся с фото
+        if (allowImages && this.isImageItem(entry)) {
+          mediaType = 'photo';
+          directUrl = this.bestImageUrl(entry);
+        }
+
+        // Map all entries in the playlist (videos + photos, if allowed)
         entries = data.entries
           .filter((ent: any) => {
             const ext = (ent.ext || '').toLowerCase();
             const entUrl = (ent.url || '').toLowerCase();
-            return ext === 'mp4' || entUrl.includes('.mp4');
+            return (
+              ext === 'mp4' ||
+              entUrl.includes('.mp4') ||
+              (allowImages && this.isImageItem(ent))
+            );
           })
           .map((ent: any) => {
+            const isPhoto = allowImages && this.isImageItem(ent);
             let entFormats = ent.formats || [];
             if (!entFormats.length && ent.url) {
               entFormats = [
@@ -122,8 +151,11 @@ export class YtdlpService {
               thumbnail: ent.thumbnail || ent.thumbnails?.[0]?.url || '',
               width: ent.width || 0,
               height: ent.height || 0,
-              directUrl: this.findProgressiveUrl(entFormats) || ent.url,
-              formats: this.getBestFormats(entFormats),
+              directUrl: isPhoto
+                ? this.bestImageUrl(ent)
+                : this.findProgressiveUrl(entFormats) || ent.url,
+              mediaType: isPhoto ? 'photo' : 'video',
+              formats: isPhoto ? [] : this.getBestFormats(entFormats),
             };
           });
       }
@@ -141,7 +173,8 @@ export class YtdlpService {
         width: width,
         height: height,
         directUrl: directUrl,
-        formats: this.getBestFormats(formats),
+        mediaType: mediaType,
+        formats: mediaType === 'photo' ? [] : this.getBestFormats(formats),
         entries: entries,
       };
     } catch (error: any) {
@@ -153,6 +186,111 @@ export class YtdlpService {
     }
   }
 
+  /**
+   * 📷 Элемент-картинка: нет ни одного видеоформата, но есть изображение
+   */
+  private isImageItem(item: any): boolean {
+    if (!item) return false;
+
+    const ext = String(item.ext || '').toLowerCase();
+    if (['jpg', 'jpeg', 'png', 'webp', 'heic'].includes(ext)) return true;
+
+    const hasVideo = (item.formats || []).some(
+      (f: any) => f.vcodec && f.vcodec !== 'none',
+    );
+    const hasVideoUrl = /\.mp4(\?|$)/i.test(String(item.url || ''));
+
+    return (
+      !hasVideo &&
+      !hasVideoUrl &&
+      !item.duration &&
+      !!(item.thumbnails?.length || item.thumbnail)
+    );
+  }
+
+  /**
+   * 🖼 Ссылка на изображение в лучшем качестве (самая большая миниатюра).
+   * yt-dlp отдаёт миниатюры по возрастанию качества, поэтому при равных
+   * (неизвестных) размерах берём последнюю.
+   */
+  private bestImageUrl(item: any): string | undefined {
+    const thumbnails: any[] = (item.thumbnails || []).filter((t: any) => t.url);
+    const best = thumbnails
+      .sort(
+        (a, b) =>
+          (a.width || 0) * (a.height || 0) - (b.width || 0) * (b.height || 0),
+      )
+      .pop();
+
+    return best?.url || item.thumbnail || item.url;
+  }
+
+  /**
+   * 1.1️⃣ СПИСОК ПОДБОРКИ (плейлист, канал, профиль)
+   *
+   * --flat-playlist не анализирует каждый ролик — отдаёт только id/название/
+   * длительность, поэтому даже канал на сотни видео разбирается за секунды.
+   * limit — максимум элементов (--playlist-end), остальные не запрашиваем.
+   */
+  async getPlaylistInfo(url: string, limit: number): Promise<PlaylistInfoDto> {
+    this.logger.log(`📃 Анализ подборки: ${url} (до ${limit})`);
+
+    try {
+      const args = [
+        '--dump-single-json',
+        '--flat-playlist',
+        '--playlist-end',
+        String(limit),
+        '--no-warnings',
+        '--socket-timeout',
+        '10',
+        url,
+      ];
+
+      if (existsSync(this.cookiesPath)) {
+        args.unshift('--cookies', this.cookiesPath);
+      }
+
+      const { stdout } = await execFileAsync(this.ytdlpPath, args, {
+        maxBuffer: 20 * 1024 * 1024,
+        windowsHide: true,
+        timeout: 30000,
+      });
+
+      const data = JSON.parse(stdout);
+
+      const entries = (data.entries || [])
+        .filter(
+          (ent: any) =>
+            ent &&
+            ent.id &&
+            ent._type !== 'playlist' &&
+            (ent.url || ent.webpage_url),
+        )
+        .slice(0, limit)
+        .map((ent: any) => ({
+          id: ent.id,
+          url: ent.url || ent.webpage_url || '',
+          title: this.sanitizeFilename(ent.title || ent.id),
+          duration: Math.round(ent.duration || 0),
+        }));
+
+      return {
+        id: data.id,
+        url: data.webpage_url || url,
+        title: this.sanitizeFilename(data.title || data.id || 'Плейлист'),
+        uploader: data.uploader || data.channel || 'Unknown',
+        entries,
+      };
+    } catch (error: any) {
+      const details: string = error.stderr || error.message || '';
+      this.logger.error(
+        `❌ Ошибка getPlaylistInfo: ${details.substring(0, 500)}`,
+      );
+      throw new Error(details || 'Подборка недоступна или ссылка неверна.');
+    }
+  }
+
   /**
    * 1.5️⃣ ПРЯМАЯ ССЫЛКА НА ГОТОВЫЙ ФАЙЛ (для URL-direct)
    *
@@ -259,9 +397,19 @@ export class YtdlpService {
     outputPath: string,
     isAudio: boolean,
     onProgress: (progress: number) => void,
+    clip?: ClipRange,
+    signal?: AbortSignal,
   ): Promise<string> {
     return new Promise((resolve, reject) => {
-      this.logger.log(`🚀 Загрузка: ${url} | Format: ${formatId}`);
+      if (signal?.aborted) {
+        reject(new DownloadCancelledError());
+        return;
+      }
+
+      this.logger.log(
+        `🚀 Загрузка: ${url} | Format: ${formatId}` +
+          (clip ? ` | Clip: ${clipKey(clip)}` : ''),
+      );
 
       const outputPathBase = outputPath.replace(/\.(mp4|m4a|webm)$/, '');
 
@@ -302,6 +450,14 @@ export class YtdlpService {
         args.push('--convert-thumbnail', 'jpg');
       }
 
+      // ✂️ Фрагмент: yt-dlp качает только нужный отрезок, а
+      // --force-keyframes-at-cuts заставляет ffmpeg перекодировать края,
+      // чтобы клип начинался ровно с нужного кадра, а не с ближайшего ключевого
+      if (clip) {
+        args.push('--download-sections', `*${clip.start}-${clip.end}`);
+        args.push('--force-keyframes-at-cuts');
+      }
+
       const child = spawn(this.ytdlpPath, args, {
         windowsHide: true,
       });
@@ -318,6 +474,19 @@ export class YtdlpService {
         reject(new Error('Таймаут скачивания (превышено 5 минут)'));
       }, DOWNLOAD_TIMEOUT_MS);
 
+      // ❌ Отмена пользователем — останавливаем yt-dlp сразу, а недокачанные
+      // куски (.part, .ytdl, отдельные дорожки) удаляем, когда процесс умрёт
+      const onAbort = () => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeoutTimer);
+        this.logger.warn('❌ Загрузка отменена — убиваю процесс yt-dlp');
+        child.once('close', () => this.removePartials(outputPathBase));
+        child.kill('SIGKILL');
+        reject(new DownloadCancelledError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
       let lastProgress = 0;
       let detectedFilename: string | null = null;
 
@@ -352,6 +521,7 @@ export class YtdlpService {
       });
 
       child.on('close', (code) => {
+        signal?.removeEventListener('abort', onAbort);
         if (settled) return;
         settled = true;
         clearTimeout(timeoutTimer);
@@ -369,6 +539,7 @@ export class YtdlpService {
       });
 
       child.on('error', (err) => {
+        signal?.removeEventListener('abort', onAbort);
         if (settled) return;
         settled = true;
         clearTimeout(timeoutTimer);
@@ -425,20 +596,29 @@ export class YtdlpService {
    *
    * Возвращает путь к совместимому файлу (тот же, если перекод не нужен).
    */
-  async ensureIphoneCompatible(videoPath: string): Promise<string> {
+  async ensureIphoneCompatible(
+    videoPath: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const fixedPath = videoPath.replace(/\.mp4$/i, '') + '_ios.mp4';
+
     try {
       // Узнаём кодек, пиксельный формат и профиль видеопотока
-      const { stdout } = await execFileAsync('ffprobe', [
-        '-v',
-        'error',
-        '-select_streams',
-        'v:0',
-        '-show_entries',
-        'stream=codec_name,pix_fmt,profile',
-        '-of',
-        'json',
-        videoPath,
-      ]);
+      const { stdout } = await execFileAsync(
+        'ffprobe',
+        [
+          '-v',
+          'error',
+          '-select_streams',
+          'v:0',
+          '-show_entries',
+          'stream=codec_name,pix_fmt,profile',
+          '-of',
+          'json',
+          videoPath,
+        ],
+        { signal },
+      );
 
       const info = JSON.parse(stdout);
       const stream = info?.streams?.[0] ?? {};
@@ -466,8 +646,6 @@ export class YtdlpService {
         `🔄 Перекодирую для iPhone (было: ${codec}/${pixFmt}/${profile})`,
       );
 
-      const fixedPath = videoPath.replace(/\.mp4$/i, '') + '_ios.mp4';
-
       await execFileAsync(
         'ffmpeg',
         [
@@ -492,7 +670,7 @@ export class YtdlpService {
           '+faststart',
           fixedPath,
         ],
-        { timeout: 5 * 60 * 1000 },
+        { timeout: 5 * 60 * 1000, signal },
       );
 
       if (existsSync(fixedPath)) {
@@ -507,12 +685,185 @@ export class YtdlpService {
       this.logger.warn('⚠️ Перекод не создал файл — отдаю оригинал');
       return videoPath;
     } catch (error: any) {
+      // Отмена — не ошибка перекода: убираем недописанный файл и выходим
+      if (signal?.aborted) {
+        await this.safeDelete(fixedPath);
+        throw new DownloadCancelledError();
+      }
+
       // При любой ошибке ffprobe/ffmpeg не валим загрузку — отдаём оригинал
       this.logger.warn(`⚠️ Проверка совместимости не удалась: ${error.message}`);
       return videoPath;
     }
   }
 
+  /**
+   * 🔪 НАРЕЗКА БОЛЬШОГО ФАЙЛА НА ЧАСТИ
+   *
+   * Local Bot API принимает файлы до 2000 MB. Режем по длительности
+   * сегментером ffmpeg без перекодирования (-c copy): границы частей
+   * попадают на ключевые кадры, поэтому каждая часть — самостоятельный
+   * воспроизводимый файл. Если часть всё равно вышла больше лимита (редкие
+   * ключевые кадры, неравномерный битрейт) — режем мельче.
+   *
+   * Возвращает части по порядку. Исходный файл не удаляется.
+   */
+  async splitMedia(
+    filePath: string,
+    maxBytes: number,
+    isAudio: boolean,
+    signal?: AbortSignal,
+  ): Promise<{ path: string; size: number; duration: number }[]> {
+    const totalSize = fs.statSync(filePath).size;
+    const totalDuration = await this.probeDuration(filePath);
+    if (!totalDuration) {
+      throw new Error('Не удалось определить длительность файла');
+    }
+
+    const ext = isAudio ? 'm4a' : 'mp4';
+    const base = filePath.replace(/\.(mp4|m4a|webm)$/, '');
+    // Запас 5% на неравномерный битрейт
+    let count = Math.ceil(totalSize / (maxBytes * 0.95));
+
+    for (let attempt = 0; attempt < 3; attempt++, count++) {
+      const segmentTime = Math.ceil(totalDuration / count);
+      this.logger.log(
+        `🔪 Режу ${Math.round(totalSize / 1024 / 1024)} MB на ~${count} частей по ${segmentTime} сек`,
+      );
+
+      await this.runCancellable(
+        'ffmpeg',
+        [
+          '-y',
+          '-i',
+          filePath,
+          '-map',
+          '0:v?',
+          '-map',
+          '0:a?',
+          '-c',
+          'copy',
+          '-f',
+          'segment',
+          '-segment_time',
+          String(segmentTime),
+          '-reset_timestamps',
+          '1',
+          '-segment_format_options',
+          'movflags=+faststart',
+          `${base}_part%03d.${ext}`,
+        ],
+        10 * 60 * 1000,
+        signal,
+        () => this.removeParts(base, ext),
+      );
+
+      const partPaths: string[] = [];
+      for (let i = 0; existsSync(this.partPath(base, i, ext)); i++) {
+        partPaths.push(this.partPath(base, i, ext));
+      }
+
+      const sizes = partPaths.map((p) => fs.statSync(p).size);
+      if (partPaths.length > 0 && sizes.every((size) => size <= maxBytes)) {
+        const parts: { path: string; size: number; duration: number }[] = [];
+        for (let i = 0; i < partPaths.length; i++) {
+          parts.push({
+            path: partPaths[i],
+            size: sizes[i],
+            duration: Math.round(await this.probeDuration(partPaths[i])),
+          });
+        }
+        this.logger.log(`✅ Файл разрезан на ${parts.length} частей`);
+        return parts;
+      }
+
+      // Какая-то часть вышла больше лимита — удаляем и режем мельче
+      for (const partPath of partPaths) {
+        await this.safeDelete(partPath);
+      }
+    }
+
+    throw new Error('Не удалось разрезать файл на части меньше лимита');
+  }
+
+  /**
+   * ⏱ Длительность медиафайла в секундах (0 — если не удалось определить)
+   */
+  async probeDuration(filePath: string): Promise<number> {
+    try {
+      const { stdout } = await execFileAsync('ffprobe', [
+        '-v',
+        'error',
+        '-show_entries',
+        'format=duration',
+        '-of',
+        'default=noprint_wrappers=1:nokey=1',
+        filePath,
+      ]);
+      return parseFloat(stdout) || 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * ffmpeg с поддержкой отмены: при abort удаляем промежуточные файлы
+   * (cleanup) и бросаем DownloadCancelledError вместо ошибки процесса
+   */
+  private async runCancellable(
+    command: string,
+    args: string[],
+    timeout: number,
+    signal: AbortSignal | undefined,
+    cleanup: () => void,
+  ): Promise<void> {
+    try {
+      await execFileAsync(command, args, { timeout, signal });
+    } catch (error) {
+      if (signal?.aborted) {
+        cleanup();
+        throw new DownloadCancelledError();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Удаление файлов загрузки outputBase: сам файл и всё, что yt-dlp пишет
+   * рядом через точку (недокачанные .part/.ytdl, дорожки .f137 до склейки,
+   * обложка). Файлы, где после outputBase идёт не точка, принадлежат другим
+   * задачам и не трогаются.
+   */
+  private removePartials(outputBase: string): void {
+    const dir = path.dirname(outputBase);
+    const base = path.basename(outputBase);
+
+    try {
+      for (const name of fs.readdirSync(dir)) {
+        if (name === base || name.startsWith(`${base}.`)) {
+          void this.safeDelete(path.join(dir, name));
+        }
+      }
+    } catch (error: any) {
+      this.logger.warn(
+        `⚠️ Не удалось очистить ${outputBase}.*: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Удаление нарезанных частей файла base (…_part000.ext, …_part001.ext, …)
+   */
+  private removeParts(base: string, ext: string): void {
+    for (let i = 0; existsSync(this.partPath(base, i, ext)); i++) {
+      void this.safeDelete(this.partPath(base, i, ext));
+    }
+  }
+
+  private partPath(base: string, index: number, ext: string): string {
+    return `${base}_part${index.toString().padStart(3, '0')}.${ext}`;
+  }
+
   /**
    * 6️⃣ ОЧИСТКА ИМЕНИ ФАЙЛА
    */
@@ -536,3 +887,12 @@ export class YtdlpService {
     }
   }
 }
+
+/**
+ * Загрузку отменил пользователь — не ошибка, повторять задачу не нужно
+ */
+export class DownloadCancelledError extends Error {
+  constructor() {
+    super('Загрузка отменена');
+  }
+}
@@ -0,0 +1,127 @@
+// src/test/redis.stub.ts
+
+type Reply = [Error | null, unknown];
+type ScriptHandler = (keys: string[], args: string[]) => unknown;
+
+/**
+ * 🧪 Redis в памяти для спеков: строки, хеши, MULTI и Lua через eval.
+ * Сроки жизни ключей не соблюдает — истечение сервисы проверяют сами.
+ * Lua-скрипт сервиса спек повторяет на JS и регистрирует через script().
+ */
+export class RedisStub {
+  readonly values = new Map<string, string>();
+  readonly hashes = new Map<string, Record<string, string>>();
+  private readonly scripts = new Map<string, ScriptHandler>();
+
+  get(key: string): Promise<string | null> {
+    return Promise.resolve(this.values.get(key) ?? null);
+  }
+
+  set(key: string, value: string | number): Promise<'OK'> {
+    this.values.set(key, String(value));
+    return Promise.resolve('OK');
+  }
+
+  del(...keys: string[]): Promise<number> {
+    const deleted = keys.filter(
+      (key) => this.values.delete(key) || this.hashes.delete(key),
+    );
+    return Promise.resolve(deleted.length);
+  }
+
+  incrby(key: string, amount: number): Promise<number> {
+    const value = Number(this.values.get(key) ?? 0) + amount;
+    this.values.set(key, String(value));
+    return Promise.resolve(value);
+  }
+
+  decrby(key: string, amount: number): Promise<number> {
+    return this.incrby(key, -amount);
+  }
+
+  hgetall(key: string): Promise<Record<string, string>> {
+    return Promise.resolve({ ...this.hashes.get(key) });
+  }
+
+  hincrby(key: string, field: string, amount: number): Promise<number> {
+    const hash = this.hashes.get(key) ?? {};
+    const value = Number(hash[field] ?? 0) + amount;
+    hash[field] = String(value);
+    this.hashes.set(key, hash);
+    return Promise.resolve(value);
+  }
+
+  expire(): Promise<number> {
+    return Promise.resolve(1);
+  }
+
+  pexpire(): Promise<number> {
+    return Promise.resolve(1);
+  }
+
+  multi(): RedisStubMulti {
+    return new RedisStubMulti(this);
+  }
+
+  script(source: string, handler: ScriptHandler): void {
+    this.scripts.set(source, handler);
+  }
+
+  eval(
+    source: string,
+    numKeys: number,
+    ...rest: (string | number)[]
+  ): Promise<unknown> {
+    const handler = this.scripts.get(source);
+    if (!handler) {
+      return Promise.reject(new Error('Скрипт не зарегистрирован в RedisStub'));
+    }
+
+    const args = rest.map(String);
+    return Promise.resolve(
+      handler(args.slice(0, numKeys), args.slice(numKeys)),
+    );
+  }
+}
+
+/**
+ * MULTI: команды копятся и выполняются по порядку одним exec()
+ */
+export class RedisStubMulti {
+  private readonly queue: (() => Promise<unknown>)[] = [];
+
+  constructor(private readonly redis: RedisStub) {}
+
+  incrby(key: string, amount: number): this {
+    return this.push(() => this.redis.incrby(key, amount));
+  }
+
+  decrby(key: string, amount: number): this {
+    return this.push(() => this.redis.decrby(key, amount));
+  }
+
+  hincrby(key: string, field: string, amount: number): this {
+    return this.push(() => this.redis.hincrby(key, field, amount));
+  }
+
+  expire(): this {
+    return this.push(() => this.redis.expire());
+  }
+
+  pexpire(): this {
+    return this.push(() => this.redis.pexpire());
+  }
+
+  exec(): Promise<Reply[]> {
+    // Все команды применяются сразу, как в настоящем MULTI
+    const results = this.queue.map((command) => command());
+    return Promise.all(
+      results.map((result) => result.then((value): Reply => [null, value])),
+    );
+  }
+
+  private push(command: () => Promise<unknown>): this {
+    this.queue.push(command);
+    return this;
+  }
+}